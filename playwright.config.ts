@@ -1,28 +1,59 @@
 import { defineConfig, devices } from '@playwright/test';
 import path from 'path';
+import { Environment } from './src/config/environment';
+import { RandomSeed } from './src/utils/random';
 
 // Register TypeScript paths
 require('tsconfig-paths/register');
 
+// Validated settings for the selected environment (ENV), shared with the fixtures
+const environment = Environment.getConfig();
+
+// One id per run, inherited by the workers; shards of a run share the id CI sets
+process.env.TEST_RUN_ID = process.env.TEST_RUN_ID || `orangehrm_${Date.now()}`;
+
+// One seed per run for generated test data, inherited by the workers; set TEST_SEED to replay a run
+const seed = RandomSeed.run();
+// The date generated dates count from, today unless TEST_REFERENCE_DATE replays an earlier run's
+const referenceDate = RandomSeed.referenceDate().toISOString().split('T')[0];
+
 export default defineConfig({
   testDir: './src/tests',
   fullyParallel: true,
   forbidOnly: !!process.env.CI,
-  retries: process.env.CI ? 2 : 0,
+  retries: environment.retries,
   workers: process.env.CI ? 1 : undefined,
+  // Visual baselines per platform and browser project, e.g. __screenshots__/linux/chromium/visual.spec.ts/dashboard.png
+  snapshotPathTemplate: '{testDir}/__screenshots__/{platform}/{projectName}/{testFilePath}/{arg}{ext}',
+  expect: {
+    toHaveScreenshot: { maxDiffPixelRatio: 0.01, animations: 'disabled', caret: 'hide' },
+  },
   reporter: [
     ['html', { outputFolder: 'playwright-report', open: 'never' }],
     ['json', { outputFile: 'test-results/results.json' }],
     ['junit', { outputFile: 'test-results/junit.xml' }],
+    ['./src/reporters/SummaryReporter.ts', { outputDir: 'test-results' }],
+    ['./src/reporters/HistoryReporter.ts', { window: 10, threshold: 0.2, minRuns: 3 }],
     ['list'],
+    // Last, so the html report and summary are written before the run is archived
+    ['./src/reporters/ArchiveReporter.ts', { enabled: process.env.ARCHIVE_RESULTS === 'true', keepRuns: 20, maxSizeMb: 500 }],
   ],
+  metadata: {
+    runId: process.env.TEST_RUN_ID,
+    seed,
+    referenceDate,
+    environment: Environment.getName(),
+    baseUrl: environment.baseUrl,
+  },
   use: {
-    baseURL: process.env.BASE_URL || 'https://opensource-demo.orangehrmlive.com',
-    trace: 'on-first-retry',
-    screenshot: 'only-on-failure',
-    video: 'retain-on-failure',
+    baseURL: environment.baseUrl,
+    headless: environment.headless,
+    launchOptions: { slowMo: environment.slowMo },
+    trace: environment.trace,
+    screenshot: environment.screenshot,
+    video: environment.video,
     actionTimeout: 15 * 1000,
-    navigationTimeout: 30 * 1000,
+    navigationTimeout: environment.timeout,
   },
 
   projects: [
@@ -0,0 +1,89 @@
+#!/usr/bin/env node
+/**
+ * Create or update the encrypted credentials vault read by VaultCredentialProvider
+ * (src/config/credentials.ts), which defines the file format this script writes.
+ *
+ * Usage:
+ *   CREDENTIALS_VAULT_KEY=... node scripts/credentials-vault.js set <admin|ess|supervisor> <username>
+ *   CREDENTIALS_VAULT_KEY=... node scripts/credentials-vault.js list
+ *
+ * `set` reads the password from standard input, so it never appears in shell history.
+ * The vault is CREDENTIALS_VAULT, or .credentials.vault by default.
+ */
+const crypto = require('crypto');
+const fs = require('fs');
+const readline = require('readline');
+
+const ROLES = ['admin', 'ess', 'supervisor'];
+const vaultPath = process.env.CREDENTIALS_VAULT || '.credentials.vault';
+const passphrase = process.env.CREDENTIALS_VAULT_KEY;
+
+function fail(message) {
+  console.error(message);
+  process.exit(1);
+}
+
+function seal(credentials) {
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', crypto.scryptSync(passphrase, salt, 32), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(credentials), 'utf-8'), cipher.final()]);
+  return JSON.stringify({
+    version: 1,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  }, null, 2);
+}
+
+function unseal(contents) {
+  const file = JSON.parse(contents);
+  try {
+    const decipher = crypto.createDecipheriv(
+      'aes-256-gcm',
+      crypto.scryptSync(passphrase, Buffer.from(file.salt, 'base64'), 32),
+      Buffer.from(file.iv, 'base64'),
+    );
+    decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+    return JSON.parse(Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]).toString('utf-8'));
+  } catch {
+    return fail('Could not decrypt the credentials vault - check CREDENTIALS_VAULT_KEY');
+  }
+}
+
+function readPassword(prompt) {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout, terminal: process.stdin.isTTY });
+  return new Promise(resolve => {
+    rl.question(prompt, answer => {
+      rl.close();
+      resolve(answer);
+    });
+  });
+}
+
+async function main() {
+  const [command, role, username] = process.argv.slice(2);
+  if (!passphrase) {
+    fail('Set CREDENTIALS_VAULT_KEY to the vault passphrase');
+  }
+  const credentials = fs.existsSync(vaultPath) ? unseal(fs.readFileSync(vaultPath, 'utf-8')) : {};
+
+  if (command === 'list') {
+    Object.entries(credentials).forEach(([name, entry]) => console.log(`${name}: ${entry.username}`));
+    return;
+  }
+  if (command !== 'set' || !ROLES.includes(role) || !username) {
+    fail('Usage: node scripts/credentials-vault.js set <admin|ess|supervisor> <username> | list');
+  }
+
+  const password = await readPassword(`Password for ${role} (${username}): `);
+  if (!password) {
+    fail('No password given');
+  }
+  credentials[role] = { username, password };
+  fs.writeFileSync(vaultPath, seal(credentials), { mode: 0o600 });
+  console.log(`Saved the ${role} credentials to ${vaultPath}`);
+}
+
+main();
@@ -0,0 +1,44 @@
+#!/usr/bin/env node
+/**
+ * Print the flakiest tests from the results history, with how they failed
+ *
+ * Usage:
+ *   node scripts/flaky-tests.js [--top <count>] [--quarantined]
+ *
+ * Reads the flakiness.json that HistoryReporter (src/reporters/HistoryReporter.ts)
+ * writes after every run, in TEST_HISTORY_DIR or test-history by default.
+ */
+const fs = require('fs');
+const path = require('path');
+
+const args = process.argv.slice(2);
+const topIndex = args.indexOf('--top');
+const top = topIndex === -1 ? 10 : Number(args[topIndex + 1]);
+const onlyQuarantined = args.includes('--quarantined');
+const flakinessPath = path.join(process.env.TEST_HISTORY_DIR || 'test-history', 'flakiness.json');
+
+if (!Number.isInteger(top) || top < 1) {
+  console.error('Usage: node scripts/flaky-tests.js [--top <count>] [--quarantined]');
+  process.exit(1);
+}
+if (!fs.existsSync(flakinessPath)) {
+  console.error(`No results history at ${flakinessPath} - run the tests first`);
+  process.exit(1);
+}
+
+const report = JSON.parse(fs.readFileSync(flakinessPath, 'utf-8'));
+const tests = report.tests.filter(test => !onlyQuarantined || test.quarantined).slice(0, top);
+const quarantinedCount = report.tests.filter(test => test.quarantined).length;
+
+console.log(`Flakiness over the last ${report.window} runs of each test (${report.runs} runs recorded, updated ${report.updatedAt})`);
+console.log(`${quarantinedCount} quarantined at a score of ${Math.round(report.threshold * 100)}% or more\n`);
+
+if (tests.length === 0) {
+  console.log('No unstable tests');
+}
+tests.forEach((test, index) => {
+  const marker = test.quarantined ? ' [quarantined]' : '';
+  console.log(`${index + 1}. ${Math.round(test.score * 100)}%  ${test.key}${marker}`);
+  console.log(`   ${test.runs} runs: ${test.passed} passed, ${test.flaky} flaky, ${test.failed} failed, ${test.skipped} skipped in quarantine`);
+  test.signatures.forEach(({ signature, count }) => console.log(`   ${count}x ${signature}`));
+});
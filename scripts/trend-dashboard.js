@@ -0,0 +1,277 @@
+#!/usr/bin/env node
+/**
+ * Build a static HTML dashboard of trends across the archived test runs
+ *
+ * Usage:
+ *   node scripts/trend-dashboard.js [--archive <dir>] [--out <file>] [--runs <count>]
+ *
+ * Reads the test-summary.json of every run ArchiveReporter (src/reporters/ArchiveReporter.ts)
+ * copied into the archive (archived-results by default), and writes, for each environment:
+ * the pass rate of each browser project per run, the duration of each spec per run, the
+ * slowest test.steps, the tests that failed in the latest run but not in the one before,
+ * and the load time trend and latest metrics of each page PerformanceMonitor measured. --runs limits the trends to the most recent runs (30 by default).
+ */
+const fs = require('fs');
+const path = require('path');
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => (args.includes(name) ? args[args.indexOf(name) + 1] : fallback);
+const archiveDir = option('--archive', 'archived-results');
+const outFile = option('--out', path.join(archiveDir, 'dashboard.html'));
+const maxRuns = Number(option('--runs', '30'));
+
+const COLOURS = ['#2563eb', '#dc2626', '#16a34a', '#d97706', '#7c3aed', '#0891b2', '#db2777'];
+
+function fail(message) {
+  console.error(message);
+  process.exit(1);
+}
+
+function escapeHtml(text) {
+  return String(text).replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]);
+}
+
+function formatDuration(milliseconds) {
+  return milliseconds < 1000 ? `${Math.round(milliseconds)}ms` : `${(milliseconds / 1000).toFixed(1)}s`;
+}
+
+function firstLine(text) {
+  return (text || '').replace(new RegExp(`${String.fromCharCode(27)}\\[[0-9;]*m`, 'g'), '').split('\n')[0].trim();
+}
+
+// ===== READING THE ARCHIVE =====
+
+function readRuns() {
+  if (!fs.existsSync(archiveDir)) {
+    fail(`No archive at ${archiveDir} - run the tests with ARCHIVE_RESULTS=true first`);
+  }
+  return fs
+    .readdirSync(archiveDir, { withFileTypes: true })
+    .filter(entry => entry.isDirectory())
+    .map(entry => path.join(archiveDir, entry.name, 'test-results', 'test-summary.json'))
+    .filter(summaryPath => fs.existsSync(summaryPath))
+    .map(summaryPath => JSON.parse(fs.readFileSync(summaryPath, 'utf-8')))
+    .sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+}
+
+function groupBy(items, keyOf) {
+  const groups = new Map();
+  items.forEach(item => groups.set(keyOf(item), [...(groups.get(keyOf(item)) || []), item]));
+  return groups;
+}
+
+function testKey(test) {
+  return [test.project, ...test.titlePath.slice(1)].join(' › ');
+}
+
+function flattenSteps(steps) {
+  return (steps || []).flatMap(step => [step, ...flattenSteps(step.steps)]);
+}
+
+// ===== TRENDS =====
+
+function passRates(runs, project) {
+  return runs.map(run => {
+    const tests = run.tests.filter(test => test.project === project && test.outcome !== 'skipped');
+    const passed = tests.filter(test => test.outcome === 'expected' || test.outcome === 'flaky').length;
+    return tests.length === 0 ? null : passed / tests.length;
+  });
+}
+
+function specDurations(runs) {
+  const rows = new Map();
+  runs.forEach((run, index) => {
+    run.tests.forEach(test => {
+      const key = `${path.basename(test.file)}\u0000${test.project}`;
+      const row = rows.get(key) || { spec: path.basename(test.file), project: test.project, durations: runs.map(() => null) };
+      row.durations[index] = (row.durations[index] || 0) + test.duration;
+      rows.set(key, row);
+    });
+  });
+  return [...rows.values()].sort((a, b) => a.spec.localeCompare(b.spec) || a.project.localeCompare(b.project));
+}
+
+function slowestSteps(runs, count = 15) {
+  const steps = new Map();
+  runs.slice(-10).forEach(run => {
+    run.tests.forEach(test => {
+      flattenSteps(test.steps).forEach(step => {
+        const key = `${path.basename(test.file)}\u0000${step.title}\u0000${test.project}`;
+        const entry = steps.get(key) || { spec: path.basename(test.file), title: step.title, project: test.project, durations: [] };
+        entry.durations.push(step.duration);
+        steps.set(key, entry);
+      });
+    });
+  });
+  return [...steps.values()]
+    .map(entry => ({
+      ...entry,
+      average: entry.durations.reduce((total, duration) => total + duration, 0) / entry.durations.length,
+      max: Math.max(...entry.durations),
+    }))
+    .sort((a, b) => b.average - a.average)
+    .slice(0, count);
+}
+
+function pagePerformance(runs) {
+  const rows = new Map();
+  runs.forEach((run, index) => {
+    run.tests.forEach(test => {
+      Object.entries(test.performance || {}).forEach(([page, metrics]) => {
+        const key = `${page}\u0000${test.project}`;
+        const row = rows.get(key) || { page, project: test.project, runs: runs.map(() => []) };
+        row.runs[index].push(metrics);
+        rows.set(key, row);
+      });
+    });
+  });
+  const average = (measurements, metric) => {
+    const values = measurements.map(metrics => metrics[metric]).filter(value => value !== undefined);
+    return values.length === 0 ? null : values.reduce((total, value) => total + value, 0) / values.length;
+  };
+  return [...rows.values()]
+    .map(row => {
+      const latest = row.runs.filter(measurements => measurements.length > 0).pop();
+      return {
+        ...row,
+        loads: row.runs.map(measurements => average(measurements, 'load')),
+        latest: Object.fromEntries(['load', 'largestContentfulPaint', 'cumulativeLayoutShift', 'totalBlockingTime', 'slowestRequest']
+          .map(metric => [metric, average(latest, metric)])),
+      };
+    })
+    .sort((a, b) => a.page.localeCompare(b.page) || a.project.localeCompare(b.project));
+}
+
+function newFailures(runs) {
+  const [previous, latest] = runs.slice(-2).length === 2 ? runs.slice(-2) : [undefined, runs[runs.length - 1]];
+  const failedBefore = new Set((previous ? previous.tests : []).filter(test => test.outcome === 'unexpected').map(testKey));
+  return latest.tests.filter(test => test.outcome === 'unexpected' && !failedBefore.has(testKey(test)));
+}
+
+// ===== RENDERING =====
+
+function lineChart(series, labels) {
+  const [width, height, padding] = [720, 200, 30];
+  const x = index => padding + (labels.length === 1 ? 0 : (index * (width - 2 * padding)) / (labels.length - 1));
+  const y = rate => height - padding - rate * (height - 2 * padding);
+  const grid = [0, 0.5, 1]
+    .map(rate => `<line x1="${padding}" x2="${width - padding}" y1="${y(rate)}" y2="${y(rate)}" class="grid"/>` +
+      `<text x="0" y="${y(rate) + 4}">${rate * 100}%</text>`)
+    .join('');
+  const lines = series
+    .map(({ name, values }, index) => {
+      const points = values.map((value, run) => (value === null ? null : `${x(run)},${y(value)}`)).filter(Boolean);
+      const colour = COLOURS[index % COLOURS.length];
+      return `<polyline points="${points.join(' ')}" fill="none" stroke="${colour}" stroke-width="2"><title>${escapeHtml(name)}</title></polyline>` +
+        points.map(point => `<circle cx="${point.split(',')[0]}" cy="${point.split(',')[1]}" r="3" fill="${colour}"/>`).join('');
+    })
+    .join('');
+  const legend = series
+    .map(({ name }, index) => `<span class="legend" style="border-color:${COLOURS[index % COLOURS.length]}">${escapeHtml(name)}</span>`)
+    .join(' ');
+  return `<svg viewBox="0 0 ${width} ${height}" class="chart">${grid}${lines}</svg><div>${legend}</div>`;
+}
+
+function sparkline(values) {
+  const present = values.filter(value => value !== null);
+  const max = Math.max(...present, 1);
+  const [width, height] = [160, 30];
+  const points = values
+    .map((value, index) => (value === null ? null : `${(index * width) / Math.max(values.length - 1, 1)},${height - (value / max) * height}`))
+    .filter(Boolean);
+  return `<svg viewBox="0 0 ${width} ${height}" class="sparkline"><polyline points="${points.join(' ')}" fill="none" stroke="#2563eb" stroke-width="1.5"/></svg>`;
+}
+
+function table(headers, rows) {
+  if (rows.length === 0) {
+    return '<p class="empty">None</p>';
+  }
+  const head = headers.map(header => `<th>${header}</th>`).join('');
+  return `<table><thead><tr>${head}</tr></thead><tbody>${rows.map(row => `<tr>${row.map(cell => `<td>${cell}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+}
+
+function renderEnvironment(environment, allRuns) {
+  const runs = allRuns.slice(-maxRuns);
+  const latest = runs[runs.length - 1];
+  const projects = [...new Set(runs.flatMap(run => run.tests.map(test => test.project)))].sort();
+
+  const durationRows = specDurations(runs).map(row => {
+    const present = row.durations.filter(duration => duration !== null);
+    const [before, last] = present.slice(-2);
+    const change = present.length < 2 ? '' : `${last >= before ? '+' : ''}${Math.round(((last - before) / Math.max(before, 1)) * 100)}%`;
+    return [escapeHtml(row.spec), escapeHtml(row.project), sparkline(row.durations), formatDuration(last === undefined ? before : last), change];
+  });
+
+  const stepRows = slowestSteps(runs).map(step => [
+    escapeHtml(step.spec), escapeHtml(step.title), escapeHtml(step.project),
+    formatDuration(step.average), formatDuration(step.max), String(step.durations.length),
+  ]);
+
+  const milliseconds = value => (value === null ? '-' : formatDuration(value));
+  const performanceRows = pagePerformance(runs).map(row => [
+    escapeHtml(row.page), escapeHtml(row.project), sparkline(row.loads), milliseconds(row.latest.load),
+    milliseconds(row.latest.largestContentfulPaint),
+    row.latest.cumulativeLayoutShift === null ? '-' : row.latest.cumulativeLayoutShift.toFixed(3),
+    milliseconds(row.latest.totalBlockingTime), milliseconds(row.latest.slowestRequest),
+  ]);
+
+  const failureRows = newFailures(runs).map(test => [
+    escapeHtml(test.project), `${escapeHtml(path.basename(test.file))}:${test.line}`, escapeHtml(test.title), escapeHtml(firstLine(test.error)),
+  ]);
+
+  return `
+<section>
+  <h2>${escapeHtml(environment)}</h2>
+  <p>${runs.length} runs, latest ${escapeHtml(latest.runId)} on ${escapeHtml(latest.startedAt)}: ${escapeHtml(latest.status)}</p>
+  <h3>Pass rate</h3>
+  ${lineChart(projects.map(project => ({ name: project, values: passRates(runs, project) })), runs.map(run => run.runId))}
+  <h3>New failures in ${escapeHtml(latest.runId)}</h3>
+  ${table(['Project', 'Spec', 'Test', 'Error'], failureRows)}
+  <h3>Duration per spec</h3>
+  ${table(['Spec', 'Project', 'Trend', 'Latest', 'Change'], durationRows)}
+  <h3>Slowest steps (last 10 runs)</h3>
+  ${table(['Spec', 'Step', 'Project', 'Average', 'Max', 'Runs'], stepRows)}
+  <h3>Page performance</h3>
+  ${table(['Page', 'Project', 'Load trend', 'Load', 'LCP', 'CLS', 'TBT', 'Slowest request'], performanceRows)}
+</section>`;
+}
+
+function render(runs) {
+  const environments = groupBy(runs, run => run.environment);
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>OrangeHRM test trends</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2937; }
+  section { margin-bottom: 3rem; }
+  table { border-collapse: collapse; margin-bottom: 1rem; }
+  th, td { border-bottom: 1px solid #e5e7eb; padding: 0.3rem 0.8rem; text-align: left; font-size: 0.9rem; }
+  .chart { width: 720px; max-width: 100%; }
+  .chart text { font-size: 10px; fill: #6b7280; }
+  .grid { stroke: #e5e7eb; }
+  .sparkline { width: 160px; height: 30px; }
+  .legend { border-left: 12px solid; padding-left: 0.4rem; margin-right: 1rem; }
+  .empty { color: #6b7280; }
+</style>
+</head>
+<body>
+<h1>OrangeHRM test trends</h1>
+<p>${runs.length} archived runs, generated ${new Date().toISOString()}</p>
+${[...environments.entries()].map(([environment, environmentRuns]) => renderEnvironment(environment, environmentRuns)).join('\n')}
+</body>
+</html>
+`;
+}
+
+if (!Number.isInteger(maxRuns) || maxRuns < 1) {
+  fail('Usage: node scripts/trend-dashboard.js [--archive <dir>] [--out <file>] [--runs <count>]');
+}
+const runs = readRuns();
+if (runs.length === 0) {
+  fail(`No archived runs with a test-summary.json in ${archiveDir}`);
+}
+fs.mkdirSync(path.dirname(outFile), { recursive: true });
+fs.writeFileSync(outFile, render(runs));
+console.log(`Dashboard of ${runs.length} runs written to ${outFile}`);
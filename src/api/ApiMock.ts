@@ -0,0 +1,281 @@
+import { Page, Route, expect } from '@playwright/test';
+import type { EmployeeData } from '@utils/testData';
+
+// ===== INTERFACES =====
+
+/**
+ * An employee as mocked responses show them: a name is enough, the rest is made up
+ */
+export type MockEmployee = Pick<EmployeeData, 'firstName' | 'lastName'> &
+  Partial<EmployeeData> & { empNumber?: number; terminated?: boolean };
+
+export interface MockLeave {
+  employee: MockEmployee;
+  leaveType?: string;
+  duration?: 'full_day' | 'half_day_morning' | 'half_day_afternoon' | 'specify_time';
+}
+
+export interface MockBuzzPost {
+  employee: MockEmployee;
+  text: string;
+  // `YYYY-MM-DD HH:mm`, now by default
+  createdAt?: string;
+}
+
+export interface MockWorkTime {
+  hours: number;
+  minutes: number;
+}
+
+export interface MockTimeAtWork {
+  state?: 'PUNCHED IN' | 'PUNCHED OUT';
+  today?: MockWorkTime;
+  thisWeek?: MockWorkTime;
+}
+
+export interface MockOptions {
+  // HTTP method to answer, GET by default
+  method?: string;
+  status?: number;
+  // Answer only this many requests, then let the rest through; every time by default
+  times?: number;
+}
+
+/**
+ * The body of an OrangeHRM API response
+ */
+export interface ApiResponseBody {
+  data?: unknown;
+  meta?: Record<string, unknown>;
+  rels?: unknown[];
+  error?: { status: string; message: string };
+}
+
+interface InstalledMock {
+  method: string;
+  path: string;
+  times?: number;
+  calls: number;
+}
+
+/**
+ * Mocks for the dashboard widgets' endpoints
+ */
+export interface DashboardMocks {
+  employeesOnLeave(leave: MockLeave[], options?: MockOptions): Promise<void>;
+  buzzFeed(posts: MockBuzzPost[], options?: MockOptions): Promise<void>;
+  timeAtWork(timeAtWork?: MockTimeAtWork, options?: MockOptions): Promise<void>;
+  actionSummary(pending: Record<string, number>, options?: MockOptions): Promise<void>;
+}
+
+export interface PimMocks {
+  employees(employees: MockEmployee[], options?: MockOptions): Promise<void>;
+}
+
+// ===== RESPONSE BUILDERS =====
+
+/**
+ * Builders for OrangeHRM API response bodies, in the shape the API returns them:
+ * `{ data, meta, rels }`, or `{ error }` for a failure
+ */
+export class ApiResponses {
+  static list(data: unknown[], meta: Record<string, unknown> = {}): ApiResponseBody {
+    return { data, meta: { total: data.length, ...meta }, rels: [] };
+  }
+
+  static error(status: number, message: string = 'Unexpected Error!'): ApiResponseBody {
+    return { error: { status: String(status), message } };
+  }
+
+  static employee(employee: MockEmployee, index: number = 0): Record<string, unknown> {
+    return {
+      empNumber: employee.empNumber ?? index + 1,
+      firstName: employee.firstName,
+      middleName: employee.middleName ?? '',
+      lastName: employee.lastName,
+      employeeId: employee.employeeId ?? String(index + 1).padStart(4, '0'),
+      terminationId: employee.terminated ? 1 : null,
+    };
+  }
+
+  static employees(employees: MockEmployee[]): ApiResponseBody {
+    return this.list(employees.map((employee, index) => this.employee(employee, index)));
+  }
+
+  static employeesOnLeave(leave: MockLeave[], date: string = today()): ApiResponseBody {
+    const leaveTypes = [...new Set(leave.map(({ leaveType }) => leaveType ?? 'Annual'))];
+    return this.list(
+      leave.map((item, index) => ({
+        id: index + 1,
+        date,
+        leaveType: {
+          id: leaveTypes.indexOf(item.leaveType ?? 'Annual') + 1,
+          type: item.leaveType ?? 'Annual',
+        },
+        employee: this.employee(item.employee, index),
+        duration: item.duration ?? 'full_day',
+      })),
+      { date },
+    );
+  }
+
+  static buzzFeed(posts: MockBuzzPost[]): ApiResponseBody {
+    return this.list(
+      posts.map((post, index) => {
+        const [createdDate, createdTime] = (post.createdAt ?? `${today()} 09:00`).split(' ');
+        return {
+          id: index + 1,
+          post: { id: index + 1, type: 'text', text: post.text },
+          employee: this.employee(post.employee, index),
+          stats: { numOfLikes: 0, numOfComments: 0, numOfShares: 0 },
+          liked: false,
+          createdDate,
+          createdTime,
+        };
+      }),
+    );
+  }
+
+  static timeAtWork(timeAtWork: MockTimeAtWork = {}, date: string = today()): ApiResponseBody {
+    return {
+      data: [],
+      meta: {
+        lastAction: { state: timeAtWork.state ?? 'PUNCHED OUT', userDate: date, userTime: '09:00' },
+        currentDay: {
+          currentDate: { date },
+          totalTime: timeAtWork.today ?? { hours: 0, minutes: 0 },
+        },
+        currentWeek: {
+          startDate: { date },
+          endDate: { date },
+          totalTime: timeAtWork.thisWeek ?? { hours: 0, minutes: 0 },
+        },
+      },
+      rels: [],
+    };
+  }
+
+  static actionSummary(pending: Record<string, number>): ApiResponseBody {
+    return this.list(
+      Object.entries(pending).map(([group, pendingActionCount], index) => ({
+        id: index + 1,
+        group,
+        pendingActionCount,
+      })),
+    );
+  }
+}
+
+function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+// ===== MOCK =====
+
+/**
+ * Per-test mocks of OrangeHRM API endpoints
+ *
+ * Each mock answers requests from the page to one endpoint (a path under
+ * `/web/index.php/api/v2`, whatever the query) through `page.route`, so the page sees
+ * exactly the payload the test chose - empty, huge or an error - instead of whatever the
+ * site holds. Install mocks before navigating to the page that makes the requests. The
+ * `mockApi` fixture checks that every mock was used (as many times as `times`, if given)
+ * when a passing test ends, so a mock that no longer matches what the page requests
+ * fails the test rather than passing silently.
+ */
+export class ApiMock {
+  readonly dashboard: DashboardMocks;
+  readonly pim: PimMocks;
+
+  private readonly mocks: InstalledMock[] = [];
+
+  constructor(
+    private readonly page: Page,
+    private readonly apiUrl: string,
+  ) {
+    this.dashboard = {
+      employeesOnLeave: (leave, options): Promise<void> =>
+        this.respond('/dashboard/employees/leaves', ApiResponses.employeesOnLeave(leave), options),
+      buzzFeed: (posts, options): Promise<void> =>
+        this.respond('/buzz/feed', ApiResponses.buzzFeed(posts), options),
+      timeAtWork: (timeAtWork, options): Promise<void> =>
+        this.respond(
+          '/dashboard/employees/time-at-work',
+          ApiResponses.timeAtWork(timeAtWork),
+          options,
+        ),
+      actionSummary: (pending, options): Promise<void> =>
+        this.respond(
+          '/dashboard/employees/action-summary',
+          ApiResponses.actionSummary(pending),
+          options,
+        ),
+    };
+    this.pim = {
+      employees: (employees, options): Promise<void> =>
+        this.respond('/pim/employees', ApiResponses.employees(employees), options),
+    };
+  }
+
+  /**
+   * Answer requests to an endpoint with a response body
+   */
+  async respond(path: string, body: ApiResponseBody, options: MockOptions = {}): Promise<void> {
+    const mock: InstalledMock = {
+      method: (options.method ?? 'GET').toUpperCase(),
+      path,
+      times: options.times,
+      calls: 0,
+    };
+    const pathname = `${new URL(this.apiUrl).pathname}${path}`;
+    this.mocks.push(mock);
+
+    await this.page.route(
+      url => url.pathname === pathname,
+      async (route: Route) => {
+        if (
+          route.request().method() !== mock.method ||
+          (mock.times !== undefined && mock.calls >= mock.times)
+        ) {
+          await route.fallback();
+          return;
+        }
+        mock.calls++;
+        await route.fulfill({ status: options.status ?? 200, json: body });
+      },
+    );
+  }
+
+  /**
+   * Make an endpoint fail with an HTTP error status
+   */
+  async fail(
+    path: string,
+    status: number,
+    message?: string,
+    options: MockOptions = {},
+  ): Promise<void> {
+    await this.respond(path, ApiResponses.error(status, message), { ...options, status });
+  }
+
+  /**
+   * Get the mocks that were not requested (as many times as they expect)
+   */
+  unconsumed(): string[] {
+    return this.mocks
+      .filter(({ times, calls }) => (times === undefined ? calls === 0 : calls < times))
+      .map(
+        ({ method, path, times, calls }) =>
+          `${method} ${path}: requested ${calls} time(s)${times === undefined ? '' : ` of ${times}`}`,
+      );
+  }
+
+  /**
+   * Fail the test, softly, for every mock the page did not use
+   */
+  verify(): void {
+    expect
+      .soft(this.unconsumed(), 'API mocks the page never requested - check their paths and methods')
+      .toEqual([]);
+  }
+}
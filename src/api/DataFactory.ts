@@ -0,0 +1,281 @@
+import {
+  ApiRecord,
+  LeaveRequestRecord,
+  OrangeHRMApiClient,
+  OrangeHRMApiError,
+} from './OrangeHRMApiClient';
+import { TestHelpers } from '@utils/helper';
+import { getRandomJobTitle, getRandomLocation } from '@utils/testData';
+import { TEST_CONSTANTS } from '@utils/testData';
+import type { EmployeeData, JobData, LeaveData, LocationData } from '@utils/testData';
+
+// ===== INTERFACES =====
+
+/**
+ * Kinds of record the factory creates and cleans up
+ */
+export type FactoryEntity = 'employee' | 'leaveRequest' | 'jobTitle' | 'location';
+
+/**
+ * A record created during the current test
+ */
+export interface CreatedRecord {
+  entity: FactoryEntity;
+  id: number;
+}
+
+/**
+ * Number of leftover records removed by `DataFactory.sweep()`, per kind
+ */
+export type SweepSummary = Record<FactoryEntity, number>;
+
+// ===== FACTORY =====
+
+/**
+ * Creates OrangeHRM records for a test and removes them again afterwards
+ *
+ * Every record is created through the REST API with random defaults that the caller
+ * can override, and remembered so that `cleanup()` can delete them in reverse order of
+ * creation (leave before the employee it belongs to). Records are tagged with the test
+ * run id (`process.env.TEST_RUN_ID`) so that leftovers from an interrupted run can be
+ * found and removed with `DataFactory.sweep()`:
+ *
+ * - employees end their middle name with it, after any middle name given
+ * - leave requests end their comment with it
+ * - job titles and locations carry it in their note
+ *
+ * Leave requests cannot be deleted in OrangeHRM, so cleanup cancels them instead.
+ */
+export class DataFactory {
+  private readonly created: CreatedRecord[] = [];
+
+  constructor(
+    private readonly api: OrangeHRMApiClient,
+    readonly runId: string = DataFactory.getRunId(),
+  ) {}
+
+  /**
+   * Get the id of the current test run, as set by global setup
+   */
+  static getRunId(): string {
+    if (!process.env.TEST_RUN_ID) {
+      process.env.TEST_RUN_ID = `orangehrm_${Date.now()}`;
+    }
+    return process.env.TEST_RUN_ID;
+  }
+
+  // ===== CREATION =====
+
+  /**
+   * Create an employee with a unique employee id
+   */
+  async createEmployee(overrides: Partial<EmployeeData> = {}): Promise<ApiRecord<EmployeeData>> {
+    const generated = TestHelpers.generateEmployeeData();
+    const employee = await this.api.createEmployee({
+      ...generated,
+      employeeId: DataFactory.uniqueEmployeeId(),
+      ...overrides,
+      middleName: DataFactory.tagMiddleName(overrides.middleName, this.runId),
+    });
+    this.track('employee', employee.id);
+    return employee;
+  }
+
+  /**
+   * Apply for leave as the signed-in user
+   */
+  async applyLeave(overrides: Partial<LeaveData> = {}): Promise<LeaveRequestRecord> {
+    const request = await this.api.applyLeave(this.buildLeave(overrides));
+    this.track('leaveRequest', request.id);
+    return request;
+  }
+
+  /**
+   * Assign leave to an employee; an employee is created when none is given
+   */
+  async assignLeave(
+    empNumber?: number,
+    overrides: Partial<LeaveData> = {},
+  ): Promise<LeaveRequestRecord> {
+    const employeeNumber = empNumber ?? (await this.createEmployee()).id;
+    const request = await this.api.assignLeave(employeeNumber, this.buildLeave(overrides));
+    this.track('leaveRequest', request.id);
+    return request;
+  }
+
+  /**
+   * Create a job title with a unique name
+   */
+  async createJobTitle(overrides: Partial<JobData> = {}): Promise<ApiRecord<JobData>> {
+    const generated = getRandomJobTitle();
+    const job = await this.api.createJobTitle({
+      ...generated,
+      jobTitle: `${generated.jobTitle} ${DataFactory.uniqueSuffix()}`,
+      note: this.runId,
+      ...overrides,
+    });
+    this.track('jobTitle', job.id);
+    return job;
+  }
+
+  /**
+   * Create a location with a unique name
+   */
+  async createLocation(overrides: Partial<LocationData> = {}): Promise<ApiRecord<LocationData>> {
+    const generated = getRandomLocation();
+    const location = await this.api.createLocation({
+      ...generated,
+      name: `${generated.name} ${DataFactory.uniqueSuffix()}`,
+      notes: this.runId,
+      ...overrides,
+    });
+    this.track('location', location.id);
+    return location;
+  }
+
+  // ===== TRACKING =====
+
+  /**
+   * Remember a record created some other way (e.g. through the UI) so it is cleaned up too
+   */
+  track(entity: FactoryEntity, id: number): void {
+    this.created.push({ entity, id });
+  }
+
+  /**
+   * Stop tracking a record, e.g. because the test deleted it itself
+   */
+  untrack(entity: FactoryEntity, id: number): void {
+    const index = this.created.findIndex(record => record.entity === entity && record.id === id);
+    if (index !== -1) {
+      this.created.splice(index, 1);
+    }
+  }
+
+  /**
+   * Get the records created so far, oldest first
+   */
+  getCreated(): CreatedRecord[] {
+    return [...this.created];
+  }
+
+  /**
+   * Delete every tracked record, newest first
+   *
+   * A record that cannot be removed does not stop the others; failures are logged once
+   * everything has been tried, and returned so the test can report them.
+   */
+  async cleanup(): Promise<string[]> {
+    const failures: string[] = [];
+    while (this.created.length > 0) {
+      const record = this.created.pop() as CreatedRecord;
+      try {
+        await this.remove(record);
+      } catch (error) {
+        failures.push(
+          `${record.entity} ${record.id}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+    if (failures.length > 0) {
+      console.warn(`⚠️  Could not clean up ${failures.length} test record(s):`);
+      failures.forEach(failure => console.warn(`   ${failure}`));
+    }
+    return failures;
+  }
+
+  /**
+   * Remove records left behind by a run, identified by its run id (this run by default)
+   */
+  static async sweep(
+    api: OrangeHRMApiClient,
+    runId: string = DataFactory.getRunId(),
+  ): Promise<SweepSummary> {
+    const factory = new DataFactory(api, runId);
+
+    const employees = (await api.getEmployees({ nameOrId: runId, limit: 0 })).filter(
+      employee => employee.middleName === runId || employee.middleName?.endsWith(` ${runId}`),
+    );
+    const leaveRequests = (
+      await api.getLeaveRequests({
+        fromDate: '2000-01-01',
+        toDate: '2099-12-31',
+        statuses: ['Pending Approval', 'Scheduled'],
+        limit: 0,
+      })
+    ).filter(request => request.comment?.endsWith(`[${runId}]`));
+    const jobTitles = (await api.getJobTitles()).filter(job => job.note === runId);
+    const locations = (await api.getLocations()).filter(location => location.notes === runId);
+
+    employees.forEach(employee => factory.track('employee', employee.id));
+    jobTitles.forEach(job => factory.track('jobTitle', job.id));
+    locations.forEach(location => factory.track('location', location.id));
+    // Tracked last so that they are cancelled before their employees are deleted
+    leaveRequests.forEach(request => factory.track('leaveRequest', request.id));
+    await factory.cleanup();
+
+    return {
+      employee: employees.length,
+      leaveRequest: leaveRequests.length,
+      jobTitle: jobTitles.length,
+      location: locations.length,
+    };
+  }
+
+  // ===== HELPERS =====
+
+  /**
+   * Add the run id to a middle name, shortening the name so both fit OrangeHRM's limit
+   */
+  private static tagMiddleName(middleName: string | undefined, runId: string): string {
+    const room = TEST_CONSTANTS.MAX_LENGTHS.NAME - runId.length - 1;
+    const name = (middleName ?? '').trim().slice(0, Math.max(room, 0)).trim();
+    return name ? `${name} ${runId}` : runId;
+  }
+
+  private buildLeave(overrides: Partial<LeaveData>): LeaveData {
+    const leave = { ...TestHelpers.generateLeaveData(), ...overrides };
+    return { ...leave, comment: `${leave.comment || 'Leave'} [${this.runId}]` };
+  }
+
+  private async remove(record: CreatedRecord): Promise<void> {
+    const removers: Record<FactoryEntity, (id: number) => Promise<void>> = {
+      employee: id => this.api.deleteEmployees([id]),
+      leaveRequest: id => this.cancelLeave(id),
+      jobTitle: id => this.api.deleteJobTitles([id]),
+      location: id => this.api.deleteLocations([id]),
+    };
+    await removers[record.entity](record.id);
+  }
+
+  private async cancelLeave(id: number): Promise<void> {
+    try {
+      await this.api.cancelLeaveRequest(id);
+    } catch (error) {
+      // Rejected, cancelled or taken leave cannot be cancelled and needs no cleanup
+      if (!DataFactory.isNotCancellable(error)) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Check whether an error is OrangeHRM refusing to cancel leave because of its status:
+   * a 400 or 422 saying the action is not allowed. Anything else is a real failure.
+   */
+  private static isNotCancellable(error: unknown): boolean {
+    if (!(error instanceof OrangeHRMApiError) || ![400, 422].includes(error.status)) {
+      return false;
+    }
+    return /not allowed/i.test(error.invalidParams.action ?? error.message);
+  }
+
+  private static uniqueSuffix(): string {
+    return `${Date.now().toString(36).slice(-5)}${TestHelpers.generateRandomString(3)}`;
+  }
+
+  private static uniqueEmployeeId(): string {
+    // OrangeHRM employee ids are at most 10 characters
+    return `T${DataFactory.uniqueSuffix()}`.slice(0, 10);
+  }
+}
@@ -0,0 +1,604 @@
+import { APIRequestContext, APIResponse } from '@playwright/test';
+import { Environment, EnvironmentConfig } from '@config/environment';
+import type {
+  DepartmentData,
+  EmployeeData,
+  JobData,
+  LeaveData,
+  LocationData,
+} from '@utils/testData';
+
+// ===== INTERFACES =====
+
+/**
+ * A record returned by the API: the test data shape plus the id OrangeHRM assigned
+ */
+export type ApiRecord<T> = T & { id: number };
+
+export interface LeaveRequestRecord extends ApiRecord<LeaveData> {
+  empNumber: number;
+  status: string;
+  // How the first and last day are taken: 'full_day', 'half_day_morning' or 'half_day_afternoon'
+  startDuration?: string;
+  endDuration?: string;
+}
+
+export interface ListOptions {
+  limit?: number;
+  offset?: number;
+}
+
+export interface EmployeeSearchOptions extends ListOptions {
+  nameOrId?: string;
+}
+
+export interface LeaveRequestFilters extends ListOptions {
+  fromDate?: string;
+  toDate?: string;
+  statuses?: LeaveStatus[];
+  empNumber?: number;
+}
+
+export type LeaveStatus = 'Rejected' | 'Cancelled' | 'Pending Approval' | 'Scheduled' | 'Taken';
+
+/**
+ * Numeric status ids the OrangeHRM API uses for leave requests
+ */
+export const LEAVE_STATUS_IDS: Record<LeaveStatus, number> = {
+  Rejected: -1,
+  Cancelled: 0,
+  'Pending Approval': 1,
+  Scheduled: 2,
+  Taken: 3,
+};
+
+/**
+ * `LeaveData.partialDays` values and their API `partialOption` counterparts
+ */
+const PARTIAL_DAY_OPTIONS: Record<NonNullable<LeaveData['partialDays']>, string> = {
+  'All Days': 'all',
+  'Start Day Only': 'start',
+  'End Day Only': 'end',
+  'Start and End Day': 'start_end',
+};
+
+/**
+ * Half of the day taken off on a partial start or end day
+ */
+const PARTIAL_DAY_DURATIONS = {
+  start: 'half_day_morning',
+  end: 'half_day_afternoon',
+};
+
+// ===== API PAYLOADS =====
+
+// Records as the API returns them, before they are mapped to the shapes in testData.ts
+
+interface ApiEmployee {
+  empNumber: number;
+  employeeId: string;
+  firstName: string;
+  middleName: string | null;
+  lastName: string;
+  terminationId: number | null;
+}
+
+interface ApiLeaveType {
+  id: number;
+  name: string;
+}
+
+interface ApiLeaveRequest {
+  id: number;
+  employee: Pick<ApiEmployee, 'empNumber'>;
+  leaveType: ApiLeaveType;
+  dates: {
+    fromDate: string;
+    toDate: string;
+    partialOption: string | null;
+    startDuration?: string | null;
+    endDuration?: string | null;
+  };
+  noOfDays: string;
+  lastComment: { comment: string } | null;
+  leaveBreakdown: Array<{ status: { id: number; name: string } }>;
+}
+
+interface ApiJobTitle {
+  id: number;
+  title: string;
+  description: string | null;
+  note: string | null;
+}
+
+interface ApiSubunit {
+  id: number;
+  name: string;
+  description: string | null;
+}
+
+interface ApiCountry {
+  countryCode: string;
+  countryName: string;
+}
+
+interface ApiLocation {
+  id: number;
+  name: string;
+  country: ApiCountry | null;
+  province: string | null;
+  city: string | null;
+  address: string | null;
+  zipCode: string | null;
+  phone: string | null;
+  fax: string | null;
+  note: string | null;
+}
+
+/**
+ * The envelope of every API response: `{ data, meta, rels }`, or `{ error }` for a failure
+ */
+interface ApiEnvelope<T> {
+  data?: T;
+  error?: { message?: string; data?: { invalidParamKeys?: Record<string, string> } };
+}
+
+/**
+ * Error raised for any non-2xx API response
+ */
+export class OrangeHRMApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly endpoint: string,
+    message: string,
+    readonly invalidParams: Record<string, string> = {},
+  ) {
+    super(`${endpoint} failed with ${status}: ${message}`);
+    this.name = 'OrangeHRMApiError';
+  }
+}
+
+/**
+ * OrangeHRM REST API Client
+ *
+ * Typed wrapper around the `/web/index.php/api/v2` endpoints, built on Playwright's
+ * `APIRequestContext`. It signs in through the same login form as a browser (CSRF token
+ * plus session cookie) and maps API payloads to and from the interfaces in `testData.ts`,
+ * so tests can arrange and verify state without clicking through the UI.
+ */
+export class OrangeHRMApiClient {
+  private readonly request: APIRequestContext;
+  private readonly config: EnvironmentConfig;
+  private leaveTypeIds?: Map<string, number>;
+  private countryCodes?: Map<string, string>;
+
+  constructor(request: APIRequestContext, config: EnvironmentConfig = Environment.getConfig()) {
+    this.request = request;
+    this.config = config;
+  }
+
+  // ===== AUTHENTICATION =====
+
+  /**
+   * Sign in with the given credentials (defaults to the environment's admin)
+   */
+  async login(
+    username: string = Environment.getRoleCredentials('admin').username,
+    password: string = Environment.getRoleCredentials('admin').password,
+  ): Promise<void> {
+    const loginPage = await this.request.get(`${this.config.baseUrl}/web/index.php/auth/login`);
+    const token = OrangeHRMApiClient.extractCsrfToken(await loginPage.text());
+    if (!token) {
+      throw new Error('Could not find the CSRF token on the OrangeHRM login page');
+    }
+
+    const response = await this.request.post(`${this.config.baseUrl}/web/index.php/auth/validate`, {
+      form: { _token: token, username, password },
+    });
+    if (!response.url().includes('/dashboard')) {
+      throw new Error(`API login failed for user "${username}"`);
+    }
+  }
+
+  /**
+   * Check whether the current session is still accepted by the API
+   */
+  async isAuthenticated(): Promise<boolean> {
+    const response = await this.request.get(`${this.config.apiUrl}/core/about`);
+    return response.ok();
+  }
+
+  /**
+   * Pull the CSRF token out of the login page markup
+   */
+  static extractCsrfToken(html: string): string | undefined {
+    const propMatch = html.match(/:token="&quot;([^&"]+)&quot;"/);
+    const inputMatch = html.match(/name="_token"\s+value="([^"]+)"/);
+    return propMatch?.[1] || inputMatch?.[1];
+  }
+
+  // ===== EMPLOYEES =====
+
+  /**
+   * Search employees by name or employee id
+   */
+  async getEmployees(options: EmployeeSearchOptions = {}): Promise<ApiRecord<EmployeeData>[]> {
+    const data = await this.get<ApiEmployee[]>('/pim/employees', { ...options });
+    return data.map(employee => this.toEmployeeData(employee));
+  }
+
+  /**
+   * Get a single employee by `empNumber`
+   */
+  async getEmployee(empNumber: number): Promise<ApiRecord<EmployeeData>> {
+    return this.toEmployeeData(await this.get<ApiEmployee>(`/pim/employees/${empNumber}`));
+  }
+
+  /**
+   * Find an employee by their employee id, if one exists
+   */
+  async findEmployeeById(employeeId: string): Promise<ApiRecord<EmployeeData> | undefined> {
+    const matches = await this.getEmployees({ nameOrId: employeeId });
+    return matches.find(employee => employee.employeeId === employeeId);
+  }
+
+  /**
+   * Create an employee; only the name and employee id are stored by this endpoint
+   */
+  async createEmployee(employee: EmployeeData): Promise<ApiRecord<EmployeeData>> {
+    const created = await this.send<ApiEmployee>('post', '/pim/employees', {
+      firstName: employee.firstName,
+      middleName: employee.middleName || '',
+      lastName: employee.lastName,
+      employeeId: employee.employeeId,
+    });
+    return { ...employee, ...this.toEmployeeData(created) };
+  }
+
+  /**
+   * Delete employees by `empNumber`
+   */
+  async deleteEmployees(empNumbers: number[]): Promise<void> {
+    await this.send('delete', '/pim/employees', { ids: empNumbers });
+  }
+
+  // ===== LEAVE =====
+
+  /**
+   * Get the available leave types
+   */
+  async getLeaveTypes(): Promise<Array<{ id: number; name: string }>> {
+    const data = await this.get<ApiLeaveType[]>('/leave/leave-types', { limit: 0 });
+    return data.map(type => ({ id: type.id, name: type.name }));
+  }
+
+  /**
+   * Apply for leave as the signed-in user
+   */
+  async applyLeave(leave: LeaveData): Promise<LeaveRequestRecord> {
+    const created = await this.send<ApiLeaveRequest>(
+      'post',
+      '/leave/leave-requests',
+      await this.toLeavePayload(leave),
+    );
+    return this.toLeaveRecord(created);
+  }
+
+  /**
+   * Assign leave to an employee on their behalf
+   */
+  async assignLeave(empNumber: number, leave: LeaveData): Promise<LeaveRequestRecord> {
+    const created = await this.send<ApiLeaveRequest>('post', '/leave/employees/leave-requests', {
+      empNumber,
+      ...(await this.toLeavePayload(leave)),
+    });
+    return this.toLeaveRecord(created);
+  }
+
+  /**
+   * List leave requests visible to the signed-in user (as supervisor or admin)
+   */
+  async getLeaveRequests(filters: LeaveRequestFilters = {}): Promise<LeaveRequestRecord[]> {
+    const { statuses, ...rest } = filters;
+    const params: Record<string, string | number | undefined> = { ...rest };
+    const query = statuses?.map(status => `statuses[]=${LEAVE_STATUS_IDS[status]}`).join('&');
+    const data = await this.get<ApiLeaveRequest[]>(
+      '/leave/employees/leave-requests',
+      params,
+      query,
+    );
+    return data.map(request => this.toLeaveRecord(request));
+  }
+
+  /**
+   * Approve a pending leave request
+   */
+  async approveLeaveRequest(id: number): Promise<LeaveRequestRecord> {
+    return this.updateLeaveRequest(id, 'APPROVE');
+  }
+
+  /**
+   * Reject a pending leave request
+   */
+  async rejectLeaveRequest(id: number): Promise<LeaveRequestRecord> {
+    return this.updateLeaveRequest(id, 'REJECT');
+  }
+
+  /**
+   * Cancel a pending or scheduled leave request
+   */
+  async cancelLeaveRequest(id: number): Promise<LeaveRequestRecord> {
+    return this.updateLeaveRequest(id, 'CANCEL');
+  }
+
+  // ===== JOB TITLES =====
+
+  /**
+   * Get all job titles
+   */
+  async getJobTitles(): Promise<ApiRecord<JobData>[]> {
+    const data = await this.get<ApiJobTitle[]>('/admin/job-titles', { limit: 0 });
+    return data.map(job => this.toJobData(job));
+  }
+
+  /**
+   * Create a job title
+   *
+   * `jobSpecification` is a file attachment in OrangeHRM and is not sent by this call.
+   */
+  async createJobTitle(job: JobData): Promise<ApiRecord<JobData>> {
+    const created = await this.send<ApiJobTitle>('post', '/admin/job-titles', {
+      title: job.jobTitle,
+      description: job.jobDescription || null,
+      note: job.note || null,
+    });
+    return this.toJobData(created);
+  }
+
+  /**
+   * Delete job titles by id
+   */
+  async deleteJobTitles(ids: number[]): Promise<void> {
+    await this.send('delete', '/admin/job-titles', { ids });
+  }
+
+  // ===== SUBUNITS =====
+
+  /**
+   * Get all organisation subunits
+   */
+  async getSubunits(): Promise<ApiRecord<DepartmentData>[]> {
+    const data = await this.get<ApiSubunit[]>('/admin/subunits', { limit: 0 });
+    return data.map(unit => this.toDepartmentData(unit));
+  }
+
+  /**
+   * Create a subunit, by default directly under the organisation root
+   */
+  async createSubunit(
+    department: DepartmentData,
+    parentId?: number,
+  ): Promise<ApiRecord<DepartmentData>> {
+    const created = await this.send<ApiSubunit>('post', '/admin/subunits', {
+      name: department.name,
+      description: department.description || null,
+      ...(parentId ? { parentId } : {}),
+    });
+    return this.toDepartmentData(created);
+  }
+
+  /**
+   * Delete a subunit (and its children)
+   */
+  async deleteSubunit(id: number): Promise<void> {
+    await this.send('delete', `/admin/subunits/${id}`);
+  }
+
+  // ===== LOCATIONS =====
+
+  /**
+   * Get all locations
+   */
+  async getLocations(): Promise<ApiRecord<LocationData>[]> {
+    const data = await this.get<ApiLocation[]>('/admin/locations', { limit: 0 });
+    return data.map(location => this.toLocationData(location));
+  }
+
+  /**
+   * Create a location; `country` may be a country name or an ISO code
+   */
+  async createLocation(location: LocationData): Promise<ApiRecord<LocationData>> {
+    const created = await this.send<ApiLocation>('post', '/admin/locations', {
+      name: location.name,
+      countryCode: await this.resolveCountryCode(location.country),
+      province: location.state || null,
+      city: location.city || null,
+      address: location.address || null,
+      zipCode: location.zipCode || null,
+      phone: location.phone || null,
+      fax: location.fax || null,
+      note: location.notes || null,
+    });
+    return this.toLocationData(created);
+  }
+
+  /**
+   * Delete locations by id
+   */
+  async deleteLocations(ids: number[]): Promise<void> {
+    await this.send('delete', '/admin/locations', { ids });
+  }
+
+  // ===== REQUEST HELPERS =====
+
+  private async get<T>(
+    endpoint: string,
+    params: Record<string, string | number | undefined> = {},
+    extraQuery?: string,
+  ): Promise<T> {
+    const query = Object.entries(params)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`);
+    if (extraQuery) {
+      query.push(extraQuery);
+    }
+    const url = `${this.config.apiUrl}${endpoint}${query.length > 0 ? `?${query.join('&')}` : ''}`;
+    return this.parse<T>(endpoint, await this.request.get(url));
+  }
+
+  private async send<T>(
+    method: 'post' | 'put' | 'delete',
+    endpoint: string,
+    body?: unknown,
+  ): Promise<T> {
+    const response = await this.request[method](`${this.config.apiUrl}${endpoint}`, {
+      data: body,
+    });
+    return this.parse<T>(endpoint, response);
+  }
+
+  private async parse<T>(endpoint: string, response: APIResponse): Promise<T> {
+    const body: ApiEnvelope<T> = await response.json().catch(() => ({}));
+    if (!response.ok()) {
+      throw new OrangeHRMApiError(
+        response.status(),
+        endpoint,
+        body?.error?.message || response.statusText(),
+        body?.error?.data?.invalidParamKeys,
+      );
+    }
+    return body.data as T;
+  }
+
+  private async updateLeaveRequest(id: number, action: string): Promise<LeaveRequestRecord> {
+    const updated = await this.send<ApiLeaveRequest>(
+      'put',
+      `/leave/employees/leave-requests/${id}`,
+      {
+        action,
+      },
+    );
+    return this.toLeaveRecord(updated);
+  }
+
+  private async resolveLeaveTypeId(name: string): Promise<number> {
+    if (!this.leaveTypeIds) {
+      const types = await this.getLeaveTypes();
+      this.leaveTypeIds = new Map(types.map(type => [type.name.toLowerCase(), type.id]));
+    }
+    const id = this.leaveTypeIds.get(name.toLowerCase());
+    if (id === undefined) {
+      throw new Error(`Unknown leave type: ${name}`);
+    }
+    return id;
+  }
+
+  private async resolveCountryCode(country: string): Promise<string> {
+    if (/^[A-Z]{2}$/.test(country)) {
+      return country;
+    }
+    if (!this.countryCodes) {
+      const countries = await this.get<ApiCountry[]>('/admin/countries', { limit: 0 });
+      this.countryCodes = new Map(countries.map(c => [c.countryName.toLowerCase(), c.countryCode]));
+    }
+    const code = this.countryCodes.get(country.toLowerCase());
+    if (!code) {
+      throw new Error(`Unknown country: ${country}`);
+    }
+    return code;
+  }
+
+  // ===== MAPPERS =====
+
+  /**
+   * One-day leave is a half day when `partialDays` picks its start (morning) or its end
+   * (afternoon), and a full day otherwise. Longer leave takes a partial start day in the
+   * morning and a partial end day in the afternoon; "All Days" means full days.
+   */
+  private async toLeavePayload(leave: LeaveData): Promise<Record<string, unknown>> {
+    const payload: Record<string, unknown> = {
+      leaveTypeId: await this.resolveLeaveTypeId(leave.leaveType),
+      fromDate: leave.fromDate,
+      toDate: leave.toDate,
+      comment: leave.comment || null,
+    };
+    const option = leave.partialDays && PARTIAL_DAY_OPTIONS[leave.partialDays];
+
+    if (leave.fromDate === leave.toDate) {
+      payload.duration = {
+        type: option === 'start' || option === 'end' ? PARTIAL_DAY_DURATIONS[option] : 'full_day',
+      };
+    } else if (option && option !== 'all') {
+      payload.partialOption = option;
+      if (option === 'start' || option === 'start_end') {
+        payload.startDuration = { type: PARTIAL_DAY_DURATIONS.start };
+      }
+      if (option === 'end' || option === 'start_end') {
+        payload.endDuration = { type: PARTIAL_DAY_DURATIONS.end };
+      }
+    }
+
+    return payload;
+  }
+
+  private toEmployeeData(employee: ApiEmployee): ApiRecord<EmployeeData> {
+    return {
+      id: employee.empNumber,
+      employeeId: employee.employeeId,
+      firstName: employee.firstName,
+      middleName: employee.middleName || undefined,
+      lastName: employee.lastName,
+    };
+  }
+
+  private toLeaveRecord(request: ApiLeaveRequest): LeaveRequestRecord {
+    const partialDays = (
+      Object.keys(PARTIAL_DAY_OPTIONS) as Array<keyof typeof PARTIAL_DAY_OPTIONS>
+    ).find(key => PARTIAL_DAY_OPTIONS[key] === request.dates.partialOption);
+    return {
+      id: request.id,
+      empNumber: request.employee.empNumber,
+      leaveType: request.leaveType.name,
+      fromDate: request.dates.fromDate,
+      toDate: request.dates.toDate,
+      partialDays,
+      duration: request.noOfDays,
+      comment: request.lastComment?.comment || undefined,
+      status: request.leaveBreakdown[0]?.status.name,
+      startDuration: request.dates.startDuration || undefined,
+      endDuration: request.dates.endDuration || undefined,
+    };
+  }
+
+  private toJobData(job: ApiJobTitle): ApiRecord<JobData> {
+    return {
+      id: job.id,
+      jobTitle: job.title,
+      jobDescription: job.description || undefined,
+      note: job.note || undefined,
+    };
+  }
+
+  private toDepartmentData(unit: ApiSubunit): ApiRecord<DepartmentData> {
+    return {
+      id: unit.id,
+      name: unit.name,
+      description: unit.description || undefined,
+    };
+  }
+
+  private toLocationData(location: ApiLocation): ApiRecord<LocationData> {
+    return {
+      id: location.id,
+      name: location.name,
+      city: location.city || '',
+      state: location.province || '',
+      country: location.country?.countryName || location.country?.countryCode || '',
+      zipCode: location.zipCode || undefined,
+      phone: location.phone || undefined,
+      fax: location.fax || undefined,
+      address: location.address || undefined,
+      notes: location.note || undefined,
+    };
+  }
+}
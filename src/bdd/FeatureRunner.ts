@@ -0,0 +1,75 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { test } from '@fixtures/test';
+import { TestContext } from '@utils/testHelpers';
+import { GherkinFeature, GherkinParser, GherkinScenario } from './GherkinParser';
+import { StepContext, StepRegistry, steps } from './StepRegistry';
+
+/**
+ * Generates Playwright tests from .feature files
+ *
+ * Each feature becomes a `test.describe` and each scenario (or Examples row of an
+ * outline) a test, with the Background's steps run first. Every Gherkin step is
+ * reported as a `test.step` titled with its keyword and text. Gherkin tags become
+ * Playwright tags, so `@smoke` and `@regression` scenarios are picked up by
+ * `npm run test:smoke` and `npm run test:regression`; `@skip` and `@fixme` skip the
+ * scenario. Steps are all looked up before the first one runs, so an undefined or
+ * ambiguous step fails the scenario without touching the browser.
+ */
+export class FeatureRunner {
+  constructor(private readonly registry: StepRegistry = steps) {}
+
+  /**
+   * Declare the tests of every .feature file in a directory, sorted by name
+   */
+  runDirectory(directory: string): void {
+    fs.readdirSync(directory)
+      .filter(file => file.endsWith('.feature'))
+      .sort()
+      .forEach(file => this.runFile(path.join(directory, file)));
+  }
+
+  /**
+   * Declare the tests of one .feature file
+   */
+  runFile(filePath: string): void {
+    this.run(GherkinParser.parseFile(filePath));
+  }
+
+  /**
+   * Declare the tests of a parsed feature
+   */
+  run(feature: GherkinFeature): void {
+    test.describe(`Feature: ${feature.name}`, { tag: feature.tags }, () => {
+      for (const scenario of feature.scenarios) {
+        this.declare(feature, scenario);
+      }
+    });
+  }
+
+  private declare(feature: GherkinFeature, scenario: GherkinScenario): void {
+    const title = `Scenario: ${scenario.name}`;
+    const details = {
+      tag: scenario.tags,
+      annotation: { type: 'feature', description: `${feature.uri}:${scenario.line}` },
+    };
+    const allTags = [...feature.tags, ...scenario.tags];
+    const declareTest = allTags.includes('@skip')
+      ? test.skip
+      : allTags.includes('@fixme')
+        ? test.fixme
+        : test;
+
+    declareTest(title, details, async ({ page }) => {
+      const scenarioSteps = [...feature.background, ...scenario.steps];
+      scenarioSteps.forEach(step => this.registry.match(step));
+
+      const context: StepContext = { page, scenario: new TestContext(page) };
+      for (const step of scenarioSteps) {
+        await test.step(`${step.keyword} ${step.text}`, async () => {
+          await this.registry.run(step, context);
+        });
+      }
+    });
+  }
+}
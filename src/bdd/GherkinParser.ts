@@ -0,0 +1,286 @@
+import * as fs from 'fs';
+
+// ===== INTERFACES =====
+
+/**
+ * A single Given/When/Then line, with the data table or doc string below it
+ */
+export interface GherkinStep {
+  keyword: string;
+  text: string;
+  line: number;
+  dataTable?: string[][];
+  docString?: string;
+}
+
+/**
+ * A runnable scenario; each Examples row of a Scenario Outline becomes one of these
+ */
+export interface GherkinScenario {
+  name: string;
+  tags: string[];
+  steps: GherkinStep[];
+  line: number;
+}
+
+/**
+ * A parsed .feature file
+ */
+export interface GherkinFeature {
+  name: string;
+  description: string;
+  tags: string[];
+  background: GherkinStep[];
+  scenarios: GherkinScenario[];
+  uri: string;
+}
+
+interface ExamplesBlock {
+  tags: string[];
+  rows: string[][];
+}
+
+interface OutlineScenario extends GherkinScenario {
+  examples?: ExamplesBlock[];
+}
+
+// ===== ERRORS =====
+
+/**
+ * Thrown when a .feature file is not valid Gherkin, with the file and line at fault
+ */
+export class GherkinParseError extends Error {
+  constructor(
+    message: string,
+    readonly uri: string,
+    readonly line: number,
+  ) {
+    super(`${message} (${uri}:${line})`);
+    this.name = 'GherkinParseError';
+  }
+}
+
+// ===== PARSER =====
+
+const STEP_KEYWORDS = ['Given', 'When', 'Then', 'And', 'But', '*'];
+const SCENARIO_KEYWORDS = ['Scenario', 'Example'];
+const OUTLINE_KEYWORDS = ['Scenario Outline', 'Scenario Template'];
+const EXAMPLES_KEYWORDS = ['Examples', 'Scenarios'];
+
+/**
+ * Parser for the subset of Gherkin the suite uses
+ *
+ * Supports Feature, Background, Scenario/Example, Scenario Outline with one or more
+ * tagged Examples tables, tags, `#` comments, data tables and `"""` doc strings. Rule
+ * blocks and languages other than English are not supported. Outlines are expanded
+ * here, so callers only ever see plain scenarios.
+ */
+export class GherkinParser {
+  /**
+   * Read and parse a .feature file
+   */
+  static parseFile(filePath: string): GherkinFeature {
+    return this.parse(fs.readFileSync(filePath, 'utf-8'), filePath);
+  }
+
+  /**
+   * Parse the text of a .feature file
+   */
+  static parse(source: string, uri: string = 'inline.feature'): GherkinFeature {
+    const lines = source.split(/\r?\n/);
+    let feature: GherkinFeature | undefined;
+    let scenario: OutlineScenario | undefined;
+    let examples: ExamplesBlock | undefined;
+    let steps: GherkinStep[] | undefined;
+    let pendingTags: string[] = [];
+    const outlines: OutlineScenario[] = [];
+
+    const fail = (message: string, line: number): never => {
+      throw new GherkinParseError(message, uri, line);
+    };
+
+    for (let index = 0; index < lines.length; index++) {
+      const lineNumber = index + 1;
+      const line = lines[index].trim();
+
+      if (line === '' || line.startsWith('#')) {
+        continue;
+      }
+
+      if (line.startsWith('@')) {
+        pendingTags.push(...line.split(/\s+/).filter(tag => tag.startsWith('@')));
+        continue;
+      }
+
+      const heading = this.readHeading(line);
+
+      if (heading?.keyword === 'Feature') {
+        if (feature) {
+          fail('Only one Feature is allowed per file', lineNumber);
+        }
+        feature = {
+          name: heading.name,
+          description: '',
+          tags: pendingTags,
+          background: [],
+          scenarios: [],
+          uri,
+        };
+        pendingTags = [];
+        continue;
+      }
+
+      if (!feature) {
+        return fail(`Expected "Feature:" but found "${line}"`, lineNumber);
+      }
+
+      if (heading?.keyword === 'Background') {
+        if (scenario || feature.background.length > 0) {
+          fail('Background must come once, before the first scenario', lineNumber);
+        }
+        steps = feature.background;
+        continue;
+      }
+
+      if (
+        heading &&
+        (SCENARIO_KEYWORDS.includes(heading.keyword) || OUTLINE_KEYWORDS.includes(heading.keyword))
+      ) {
+        scenario = { name: heading.name, tags: pendingTags, steps: [], line: lineNumber };
+        if (OUTLINE_KEYWORDS.includes(heading.keyword)) {
+          scenario.examples = [];
+        }
+        outlines.push(scenario);
+        pendingTags = [];
+        examples = undefined;
+        steps = scenario.steps;
+        continue;
+      }
+
+      if (heading && EXAMPLES_KEYWORDS.includes(heading.keyword)) {
+        if (!scenario?.examples) {
+          fail('Examples are only allowed in a Scenario Outline', lineNumber);
+        }
+        examples = { tags: pendingTags, rows: [] };
+        scenario?.examples?.push(examples);
+        pendingTags = [];
+        steps = undefined;
+        continue;
+      }
+
+      if (line.startsWith('|')) {
+        const row = this.readTableRow(line);
+        if (examples) {
+          examples.rows.push(row);
+        } else if (steps && steps.length > 0) {
+          const step = steps[steps.length - 1];
+          step.dataTable = [...(step.dataTable ?? []), row];
+        } else {
+          fail('A table must follow a step or an Examples heading', lineNumber);
+        }
+        continue;
+      }
+
+      if (line.startsWith('"""') || line.startsWith('```')) {
+        const step = steps?.[steps.length - 1];
+        if (!step) {
+          return fail('A doc string must follow a step', lineNumber);
+        }
+        const fence = line.slice(0, 3);
+        const indent = lines[index].indexOf(fence);
+        const content: string[] = [];
+        index++;
+        while (index < lines.length && lines[index].trim() !== fence) {
+          content.push(lines[index].slice(Math.min(indent, lines[index].search(/\S|$/))));
+          index++;
+        }
+        if (index >= lines.length) {
+          fail('Doc string is never closed', lineNumber);
+        }
+        step.docString = content.join('\n');
+        continue;
+      }
+
+      const keyword = STEP_KEYWORDS.find(word => line === word || line.startsWith(`${word} `));
+      if (keyword) {
+        if (!steps) {
+          fail('Steps must belong to a Background or a scenario', lineNumber);
+        }
+        steps?.push({ keyword, text: line.slice(keyword.length).trim(), line: lineNumber });
+        continue;
+      }
+
+      if (steps === undefined || steps.length === 0) {
+        // Free text under a heading is its description; only the feature's is kept
+        if (!scenario && steps === undefined) {
+          feature.description = [feature.description, line].filter(Boolean).join('\n');
+        }
+        continue;
+      }
+
+      fail(`Unexpected line "${line}"`, lineNumber);
+    }
+
+    if (!feature) {
+      throw new GherkinParseError('No "Feature:" found', uri, 1);
+    }
+
+    for (const outline of outlines) {
+      feature.scenarios.push(...this.expand(outline, uri));
+    }
+    return feature;
+  }
+
+  // ===== HELPERS =====
+
+  private static readHeading(line: string): { keyword: string; name: string } | undefined {
+    const match = line.match(/^([A-Z][A-Za-z ]*?):\s*(.*)$/);
+    return match ? { keyword: match[1], name: match[2].trim() } : undefined;
+  }
+
+  private static readTableRow(line: string): string[] {
+    return line
+      .replace(/^\|/, '')
+      .replace(/\|$/, '')
+      .split(/(?<!\\)\|/)
+      .map(cell => cell.trim().replace(/\\\|/g, '|'));
+  }
+
+  private static expand(outline: OutlineScenario, uri: string): GherkinScenario[] {
+    const { examples, ...scenario } = outline;
+    if (!examples) {
+      return [scenario];
+    }
+    if (examples.every(block => block.rows.length < 2)) {
+      throw new GherkinParseError(
+        `Scenario Outline "${outline.name}" has no Examples rows`,
+        uri,
+        outline.line,
+      );
+    }
+
+    const scenarios: GherkinScenario[] = [];
+    for (const block of examples) {
+      const [header, ...rows] = block.rows;
+      for (const row of rows) {
+        const values = Object.fromEntries(
+          header.map((column, position) => [column, row[position] ?? '']),
+        );
+        const fill = (text: string): string =>
+          text.replace(/<([^<>]+)>/g, (whole, name: string) => values[name] ?? whole);
+        scenarios.push({
+          name: `${fill(outline.name)} (example ${scenarios.length + 1})`,
+          tags: [...outline.tags, ...block.tags],
+          line: outline.line,
+          steps: outline.steps.map(step => ({
+            ...step,
+            text: fill(step.text),
+            dataTable: step.dataTable?.map(cells => cells.map(fill)),
+            docString: step.docString === undefined ? undefined : fill(step.docString),
+          })),
+        });
+      }
+    }
+    return scenarios;
+  }
+}
@@ -0,0 +1,225 @@
+import { Page } from '@playwright/test';
+import { TestContext } from '@utils/testHelpers';
+import type { GherkinStep } from './GherkinParser';
+
+// ===== INTERFACES =====
+
+/**
+ * What every step definition receives first: the test's page and the scenario's shared state
+ */
+export interface StepContext {
+  page: Page;
+  scenario: TestContext;
+}
+
+/**
+ * The rows of a step's data table
+ */
+export class DataTable {
+  constructor(readonly rows: string[][]) {}
+
+  /**
+   * Get the rows as objects keyed by the header row
+   */
+  hashes(): Record<string, string>[] {
+    const [header, ...rows] = this.rows;
+    return rows.map(row => Object.fromEntries(header.map((column, index) => [column, row[index]])));
+  }
+
+  /**
+   * Get a two-column table as an object of key to value
+   */
+  rowsHash(): Record<string, string> {
+    return Object.fromEntries(this.rows.map(([key, value]) => [key, value]));
+  }
+}
+
+/**
+ * Values a step pattern can capture, plus the data table or doc string below the step
+ */
+export type StepArgument = string | number | DataTable;
+
+type ParameterType = 'string' | 'int' | 'float' | 'word' | 'any' | 'regexp';
+
+type StepFunction<Args extends StepArgument[] = StepArgument[]> = (
+  context: StepContext,
+  ...args: Args
+) => Promise<void> | void;
+
+/**
+ * A registered step: the pattern it was defined with and the expression compiled from it
+ */
+export interface StepDefinition {
+  pattern: string | RegExp;
+  expression: RegExp;
+  parameterTypes: ParameterType[];
+  fn: StepFunction;
+}
+
+// ===== ERRORS =====
+
+/**
+ * Thrown when no step definition, or more than one, matches a step
+ */
+export class StepDefinitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StepDefinitionError';
+  }
+}
+
+// ===== REGISTRY =====
+
+const PARAMETER_PATTERNS: Record<Exclude<ParameterType, 'regexp'>, string> = {
+  string: '"([^"]*)"',
+  int: '(-?\\d+)',
+  float: '(-?\\d*\\.?\\d+)',
+  word: '([^\\s]+)',
+  any: '(.*)',
+};
+
+/**
+ * Registry of Given/When/Then step definitions
+ *
+ * A step is defined with a pattern in the style of Cucumber expressions - `{string}`
+ * (double quoted), `{int}`, `{float}`, `{word}` and `{}` capture a value that is passed
+ * to the definition after the step context - or with a RegExp whose groups are passed as
+ * strings. As in Cucumber, the keyword does not matter when matching: `Given`, `When`,
+ * `Then`, `And` and `But` only make the feature read well. A step's data table or doc
+ * string is passed as the last argument.
+ */
+export class StepRegistry {
+  private readonly definitions: StepDefinition[] = [];
+
+  /**
+   * Define a step
+   */
+  define<Args extends StepArgument[]>(pattern: string | RegExp, fn: StepFunction<Args>): void {
+    const compiled =
+      typeof pattern === 'string'
+        ? StepRegistry.compile(pattern)
+        : { expression: pattern, parameterTypes: [] };
+    this.definitions.push({ pattern, ...compiled, fn: fn as unknown as StepFunction });
+  }
+
+  /**
+   * Find the one definition matching a step and the arguments to call it with
+   */
+  match(step: GherkinStep): { definition: StepDefinition; args: StepArgument[] } {
+    const matches = this.definitions
+      .map(definition => ({ definition, match: step.text.match(definition.expression) }))
+      .filter(
+        (candidate): candidate is { definition: StepDefinition; match: RegExpMatchArray } =>
+          candidate.match !== null,
+      );
+
+    if (matches.length === 0) {
+      throw new StepDefinitionError(
+        `Undefined step: "${step.keyword} ${step.text}" (line ${step.line})`,
+      );
+    }
+    if (matches.length > 1) {
+      const patterns = matches
+        .map(({ definition }) => `  ${String(definition.pattern)}`)
+        .join('\n');
+      throw new StepDefinitionError(
+        `Ambiguous step: "${step.keyword} ${step.text}" (line ${step.line}) matches\n${patterns}`,
+      );
+    }
+
+    const { definition, match } = matches[0];
+    const args: StepArgument[] = match
+      .slice(1)
+      .map((value, index) => StepRegistry.convert(value, definition.parameterTypes[index]));
+    if (step.dataTable) {
+      args.push(new DataTable(step.dataTable));
+    }
+    if (step.docString !== undefined) {
+      args.push(step.docString);
+    }
+    return { definition, args };
+  }
+
+  /**
+   * Run a step against a scenario
+   */
+  async run(step: GherkinStep, context: StepContext): Promise<void> {
+    const { definition, args } = this.match(step);
+    await definition.fn(context, ...args);
+  }
+
+  /**
+   * Get the patterns of every defined step
+   */
+  getPatterns(): Array<string | RegExp> {
+    return this.definitions.map(definition => definition.pattern);
+  }
+
+  // ===== HELPERS =====
+
+  private static compile(pattern: string): { expression: RegExp; parameterTypes: ParameterType[] } {
+    const parameterTypes: ParameterType[] = [];
+    const source = pattern
+      .split(/(\{\w*\})/)
+      .map(part => {
+        const parameter = part.match(/^\{(\w*)\}$/);
+        if (!parameter) {
+          return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        }
+        const type = (parameter[1] || 'any') as ParameterType;
+        if (!(type in PARAMETER_PATTERNS)) {
+          throw new StepDefinitionError(
+            `Unknown parameter type {${parameter[1]}} in step "${pattern}"`,
+          );
+        }
+        parameterTypes.push(type);
+        return PARAMETER_PATTERNS[type as keyof typeof PARAMETER_PATTERNS];
+      })
+      .join('');
+    return { expression: new RegExp(`^${source}$`), parameterTypes };
+  }
+
+  private static convert(value: string | undefined, type: ParameterType = 'regexp'): StepArgument {
+    if (type === 'int' || type === 'float') {
+      return Number(value);
+    }
+    return value ?? '';
+  }
+}
+
+// ===== DEFAULT REGISTRY =====
+
+/**
+ * The registry the feature runner uses unless it is given another
+ */
+export const steps = new StepRegistry();
+
+/**
+ * Define a step that sets up a scenario, in the default registry
+ */
+export function Given<Args extends StepArgument[]>(
+  pattern: string | RegExp,
+  fn: StepFunction<Args>,
+): void {
+  steps.define(pattern, fn);
+}
+
+/**
+ * Define a step that acts, in the default registry
+ */
+export function When<Args extends StepArgument[]>(
+  pattern: string | RegExp,
+  fn: StepFunction<Args>,
+): void {
+  steps.define(pattern, fn);
+}
+
+/**
+ * Define a step that checks an outcome, in the default registry
+ */
+export function Then<Args extends StepArgument[]>(
+  pattern: string | RegExp,
+  fn: StepFunction<Args>,
+): void {
+  steps.define(pattern, fn);
+}
@@ -0,0 +1,55 @@
+import { expect } from '@playwright/test';
+import { BDDTestSteps } from '@utils/testHelpers';
+import { Given, Then, When } from '@bdd/StepRegistry';
+
+/**
+ * Step definitions for the login feature, built on the shared BDDTestSteps
+ */
+
+Given('I am on the OrangeHRM login page', async ({ page }) => {
+  await BDDTestSteps.givenUserIsOnLoginPage(page);
+});
+
+Given('I am logged in', async ({ page, scenario }) => {
+  await BDDTestSteps.givenUserIsOnLoginPage(page);
+  await BDDTestSteps.whenUserLogsInWithValidCredentials(scenario.getLoginPage());
+});
+
+When('I log in with valid credentials', async ({ scenario }) => {
+  await BDDTestSteps.whenUserLogsInWithValidCredentials(scenario.getLoginPage());
+});
+
+When(
+  'I log in as {string} with password {string}',
+  async ({ scenario }, username: string, password: string) => {
+    await scenario.getLoginPage().login(username, password);
+  },
+);
+
+When('I log out', async ({ scenario }) => {
+  await BDDTestSteps.whenUserLogsOut(scenario.getDashboardPage());
+});
+
+Then('I should be on the dashboard', async ({ page }) => {
+  await BDDTestSteps.thenUserShouldBeOnDashboardPage(page);
+});
+
+Then('the dashboard shows its title, widgets and my name', async ({ scenario }) => {
+  await BDDTestSteps.thenDashboardPageShouldHaveExpectedContent(scenario.getDashboardPage());
+});
+
+Then('I should see the login error {string}', async ({ scenario }, message: string) => {
+  await BDDTestSteps.thenUserShouldSeeLoginError(scenario.getLoginPage(), message);
+});
+
+Then('the username field should say {string}', async ({ scenario }, message: string) => {
+  expect(await scenario.getLoginPage().getUsernameRequiredError()).toBe(message);
+});
+
+Then('the password field should say {string}', async ({ scenario }, message: string) => {
+  expect(await scenario.getLoginPage().getPasswordRequiredError()).toBe(message);
+});
+
+Then('I should be back on the login page', async ({ page }) => {
+  await BDDTestSteps.thenUserShouldBeBackOnLoginPage(page);
+});
@@ -0,0 +1,74 @@
+import { Locator } from '@playwright/test';
+import { OxdField, OxdScope } from './OxdComponent';
+
+/**
+ * OrangeHRM autocomplete input, such as the "Type for hints..." employee name fields
+ */
+export class OxdAutocomplete extends OxdField {
+  readonly input: Locator;
+  readonly suggestions: Locator;
+  readonly loadingSuggestion: Locator;
+
+  constructor(root: Locator) {
+    super(root);
+    this.input = root.locator('.oxd-autocomplete-text-input input').first();
+    this.suggestions = root.locator('.oxd-autocomplete-dropdown .oxd-autocomplete-option');
+    this.loadingSuggestion = root.locator('.oxd-autocomplete-option.--loading');
+  }
+
+  /**
+   * The autocomplete of the field with the given label
+   */
+  static byLabel(scope: OxdScope, label: string): OxdAutocomplete {
+    return new OxdAutocomplete(OxdField.fieldGroup(scope, label));
+  }
+
+  /**
+   * Type text without picking a suggestion (a partial-match filter on search forms)
+   */
+  async type(text: string): Promise<void> {
+    await this.input.fill(text);
+  }
+
+  /**
+   * Type text and return the suggestions offered for it
+   */
+  async getSuggestions(text: string): Promise<string[]> {
+    await this.input.fill(text);
+    await this.suggestions.first().waitFor({ timeout: 10000 });
+    await this.loadingSuggestion.waitFor({ state: 'detached' });
+    return (await this.suggestions.allTextContents()).map(suggestion => suggestion.trim());
+  }
+
+  /**
+   * Pick the suggestion matching `suggestion` from those already offered
+   */
+  async pickSuggestion(suggestion: string): Promise<void> {
+    const option = this.suggestions.filter({ hasText: suggestion }).first();
+    await option.waitFor({ timeout: 10000 });
+    await option.click();
+  }
+
+  /**
+   * Type `text` and pick the matching suggestion
+   */
+  async select(text: string): Promise<void> {
+    await this.input.fill(text);
+    await this.loadingSuggestion.waitFor({ state: 'detached' });
+    await this.pickSuggestion(text);
+  }
+
+  /**
+   * Empty the input
+   */
+  async clear(): Promise<void> {
+    await this.input.fill('');
+  }
+
+  /**
+   * Get the text in the input
+   */
+  async getValue(): Promise<string> {
+    return await this.input.inputValue();
+  }
+}
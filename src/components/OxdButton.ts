@@ -0,0 +1,27 @@
+import { OxdComponent, OxdScope } from './OxdComponent';
+
+/**
+ * OrangeHRM button (`.oxd-button`)
+ */
+export class OxdButton extends OxdComponent {
+  /**
+   * The first button whose text contains `text`
+   */
+  static byText(scope: OxdScope, text: string): OxdButton {
+    return new OxdButton(scope.locator('button, .oxd-button').filter({ hasText: text }).first());
+  }
+
+  /**
+   * Click the button
+   */
+  async click(options?: { timeout?: number; force?: boolean }): Promise<void> {
+    await this.root.click(options);
+  }
+
+  /**
+   * Check whether the button can be clicked
+   */
+  async isEnabled(): Promise<boolean> {
+    return await this.root.isEnabled();
+  }
+}
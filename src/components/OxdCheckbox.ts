@@ -0,0 +1,48 @@
+import { Locator } from '@playwright/test';
+import { OxdComponent } from './OxdComponent';
+
+/**
+ * OrangeHRM checkbox (`.oxd-checkbox-wrapper`) or switch (`.oxd-switch-wrapper`)
+ *
+ * The native input is visually hidden, so the styled control next to it is clicked.
+ */
+export class OxdCheckbox extends OxdComponent {
+  readonly input: Locator;
+  readonly control: Locator;
+
+  constructor(root: Locator) {
+    super(root);
+    this.input = root.locator('input[type="checkbox"]').first();
+    this.control = root.locator('.oxd-checkbox-input, .oxd-switch-input').first();
+  }
+
+  /**
+   * Check whether the box is ticked (or the switch is on)
+   */
+  async isChecked(): Promise<boolean> {
+    return await this.input.isChecked();
+  }
+
+  /**
+   * Tick the box or switch it on, or the opposite
+   */
+  async setChecked(checked: boolean): Promise<void> {
+    if ((await this.isChecked()) !== checked) {
+      await this.control.click();
+    }
+  }
+
+  /**
+   * Tick the box or switch it on
+   */
+  async check(): Promise<void> {
+    await this.setChecked(true);
+  }
+
+  /**
+   * Untick the box or switch it off
+   */
+  async uncheck(): Promise<void> {
+    await this.setChecked(false);
+  }
+}
@@ -0,0 +1,76 @@
+import { Page, Locator } from '@playwright/test';
+
+/**
+ * Where a component is looked up: the whole page or a region of it
+ */
+export type OxdScope = Page | Locator;
+
+/**
+ * Base class for OrangeHRM (oxd) widget components
+ *
+ * A component wraps the `Locator` of its root element and exposes semantic methods,
+ * so page objects describe what they do with a widget rather than how it is built.
+ */
+export abstract class OxdComponent {
+  readonly root: Locator;
+  protected readonly page: Page;
+
+  constructor(root: Locator) {
+    this.root = root;
+    this.page = root.page();
+  }
+
+  /**
+   * The `.oxd-input-group` holding the field with the given label
+   */
+  static fieldGroup(scope: OxdScope, label: string): Locator {
+    return scope.locator(`.oxd-input-group:has(label:text-is("${label}"))`);
+  }
+
+  /**
+   * Wait for the component to be visible
+   */
+  async waitFor(timeout?: number): Promise<void> {
+    await this.root.first().waitFor({ state: 'visible', timeout });
+  }
+
+  /**
+   * Check whether the component is visible
+   */
+  async isVisible(): Promise<boolean> {
+    return await this.root.first().isVisible();
+  }
+}
+
+/**
+ * Base class for labelled form fields, rooted at their `.oxd-input-group`
+ */
+export abstract class OxdField extends OxdComponent {
+  /**
+   * Get the validation error shown under the field, or an empty string when there is none
+   */
+  async getError(): Promise<string> {
+    const error = this.root.locator('.oxd-input-field-error-message');
+    if ((await error.count()) === 0) {
+      return '';
+    }
+    return ((await error.first().textContent()) || '').trim();
+  }
+
+  /**
+   * Click the field's label, which closes any popup the field opened
+   */
+  protected async clickLabel(): Promise<void> {
+    const label = this.root.locator('label').first();
+    if ((await label.count()) > 0) {
+      await label.click();
+    }
+  }
+}
+
+/**
+ * Match an option or cell text exactly, ignoring surrounding whitespace
+ */
+export function exactText(text: string): RegExp {
+  return new RegExp(`^\\s*${text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*$`);
+}
@@ -0,0 +1,74 @@
+import { Locator } from '@playwright/test';
+import { OxdField, OxdScope } from './OxdComponent';
+
+/**
+ * OrangeHRM date input with its calendar popup
+ *
+ * Dates are given and returned as ISO `YYYY-MM-DD` strings and converted to the format
+ * the site is configured for (the demo uses yyyy-dd-mm), read from the input's placeholder.
+ */
+export class OxdDateInput extends OxdField {
+  readonly input: Locator;
+
+  constructor(root: Locator) {
+    super(root);
+    this.input = root.locator('.oxd-date-input input').first();
+  }
+
+  /**
+   * The date input of the field with the given label
+   */
+  static byLabel(scope: OxdScope, label: string): OxdDateInput {
+    return new OxdDateInput(OxdField.fieldGroup(scope, label));
+  }
+
+  /**
+   * Get the date format the input expects, such as "yyyy-dd-mm"
+   */
+  async getFormat(): Promise<string> {
+    return (await this.input.getAttribute('placeholder')) || 'yyyy-mm-dd';
+  }
+
+  /**
+   * Enter an ISO date, or clear the input for an empty string
+   */
+  async fill(isoDate: string): Promise<void> {
+    const format = await this.getFormat();
+    const [year, month, day] = isoDate.split('-');
+    const value = isoDate
+      ? format.replace('yyyy', year).replace('mm', month).replace('dd', day)
+      : '';
+    await this.type(value);
+  }
+
+  /**
+   * Type text into the input as it is, without converting it from an ISO date, e.g. to
+   * enter a malformed date
+   */
+  async type(text: string): Promise<void> {
+    await this.input.fill(text);
+    // Click outside the input to close the calendar popup so it doesn't cover other fields
+    await this.clickLabel();
+  }
+
+  /**
+   * Empty the input
+   */
+  async clear(): Promise<void> {
+    await this.fill('');
+  }
+
+  /**
+   * Get the entered date as an ISO date (an empty string when the input is empty)
+   */
+  async getValue(): Promise<string> {
+    const value = await this.input.inputValue();
+    if (!value) {
+      return '';
+    }
+    const format = await this.getFormat();
+    const part = (token: string): string =>
+      value.slice(format.indexOf(token), format.indexOf(token) + token.length);
+    return `${part('yyyy')}-${part('mm')}-${part('dd')}`;
+  }
+}
@@ -0,0 +1,62 @@
+import { Page, Locator } from '@playwright/test';
+import { OxdComponent } from './OxdComponent';
+
+/**
+ * OrangeHRM modal dialog (`.oxd-dialog-sheet`), such as the "Are you Sure?" delete confirmation
+ */
+export class OxdDialog extends OxdComponent {
+  readonly title: Locator;
+  readonly body: Locator;
+  readonly closeButton: Locator;
+
+  constructor(root: Locator) {
+    super(root);
+    this.title = root.locator('.oxd-text--card-title, .orangehrm-main-title').first();
+    this.body = root.locator('.oxd-text--card-body');
+    this.closeButton = root.locator('.oxd-dialog-close-button');
+  }
+
+  /**
+   * The open dialog, optionally the one containing `text`
+   */
+  static on(page: Page, text?: string): OxdDialog {
+    const sheets = page.locator('.oxd-dialog-sheet');
+    return new OxdDialog((text ? sheets.filter({ hasText: text }) : sheets).first());
+  }
+
+  /**
+   * Get the dialog title
+   */
+  async getTitle(): Promise<string> {
+    return ((await this.title.textContent()) || '').trim();
+  }
+
+  /**
+   * Get the dialog's body text
+   */
+  async getBodyText(): Promise<string> {
+    return (await this.body.allTextContents()).join(' ').trim();
+  }
+
+  /**
+   * Click one of the dialog's buttons, such as "Yes, Delete" or "No, Cancel"
+   */
+  async clickButton(text: string): Promise<void> {
+    await this.root.locator('button', { hasText: text }).click();
+  }
+
+  /**
+   * Close the dialog with its close (x) button
+   */
+  async close(): Promise<void> {
+    await this.closeButton.click();
+    await this.waitForClosed();
+  }
+
+  /**
+   * Wait for the dialog to go away
+   */
+  async waitForClosed(timeout?: number): Promise<void> {
+    await this.root.waitFor({ state: 'hidden', timeout });
+  }
+}
@@ -0,0 +1,42 @@
+import { Locator } from '@playwright/test';
+import { OxdField, OxdScope } from './OxdComponent';
+
+/**
+ * OrangeHRM text input or textarea
+ */
+export class OxdInput extends OxdField {
+  readonly input: Locator;
+
+  constructor(root: Locator) {
+    super(root);
+    this.input = root.locator('input, textarea').first();
+  }
+
+  /**
+   * The input of the field with the given label
+   */
+  static byLabel(scope: OxdScope, label: string): OxdInput {
+    return new OxdInput(OxdField.fieldGroup(scope, label));
+  }
+
+  /**
+   * Replace the value
+   */
+  async fill(value: string): Promise<void> {
+    await this.input.fill(value);
+  }
+
+  /**
+   * Empty the input
+   */
+  async clear(): Promise<void> {
+    await this.input.fill('');
+  }
+
+  /**
+   * Get the current value
+   */
+  async getValue(): Promise<string> {
+    return await this.input.inputValue();
+  }
+}
@@ -0,0 +1,132 @@
+import { Locator } from '@playwright/test';
+import { OxdField, OxdScope, exactText } from './OxdComponent';
+
+/**
+ * OrangeHRM select dropdown (`.oxd-select-wrapper`)
+ *
+ * The option list is only rendered while the dropdown is open.
+ */
+export class OxdSelect extends OxdField {
+  readonly trigger: Locator;
+  readonly selectedText: Locator;
+  readonly options: Locator;
+
+  constructor(root: Locator) {
+    super(root);
+    this.trigger = root.locator('.oxd-select-text').first();
+    this.selectedText = root.locator('.oxd-select-text-input').first();
+    this.options = root.locator('.oxd-select-dropdown .oxd-select-option');
+  }
+
+  /**
+   * The dropdown of the field with the given label
+   */
+  static byLabel(scope: OxdScope, label: string): OxdSelect {
+    return new OxdSelect(OxdField.fieldGroup(scope, label));
+  }
+
+  /**
+   * Check whether the option list is open
+   */
+  async isOpen(): Promise<boolean> {
+    return await this.options.first().isVisible();
+  }
+
+  /**
+   * Open the option list unless it is already open
+   */
+  async open(): Promise<void> {
+    if (!(await this.isOpen())) {
+      await this.trigger.click();
+      await this.options.first().waitFor();
+    }
+  }
+
+  /**
+   * Pick an option by its text
+   */
+  async select(optionText: string): Promise<void> {
+    await this.open();
+    await this.options
+      .filter({ hasText: exactText(optionText) })
+      .first()
+      .click();
+  }
+
+  /**
+   * Get the text of the selected option ("-- Select --" when nothing is selected)
+   */
+  async getSelected(): Promise<string> {
+    return ((await this.selectedText.textContent()) || '').trim();
+  }
+
+  /**
+   * Get the text of every option on offer, leaving the dropdown as it was
+   */
+  async getOptions(): Promise<string[]> {
+    const wasOpen = await this.isOpen();
+    await this.open();
+    const options = (await this.options.allTextContents()).map(option => option.trim());
+    if (!wasOpen) {
+      await this.trigger.click();
+    }
+    return options;
+  }
+}
+
+/**
+ * OrangeHRM multi-select dropdown, whose selections are shown as removable chips
+ *
+ * Root it at the field's `.oxd-input-group` so the chips are inside it.
+ */
+export class OxdMultiSelect extends OxdSelect {
+  readonly chips: Locator;
+
+  constructor(root: Locator) {
+    super(root);
+    this.chips = root.locator('.oxd-multiselect-chips-area .oxd-chip');
+  }
+
+  /**
+   * The multi-select of the field with the given label
+   */
+  static byLabel(scope: OxdScope, label: string): OxdMultiSelect {
+    return new OxdMultiSelect(OxdField.fieldGroup(scope, label));
+  }
+
+  /**
+   * Get the selected options
+   */
+  async getSelectedOptions(): Promise<string[]> {
+    return (await this.chips.allTextContents()).map(chip => chip.trim());
+  }
+
+  /**
+   * Remove one selected option
+   */
+  async deselect(optionText: string): Promise<void> {
+    await this.chips
+      .filter({ hasText: exactText(optionText) })
+      .locator('.oxd-icon.--clear')
+      .click();
+  }
+
+  /**
+   * Remove every selected option
+   */
+  async clear(): Promise<void> {
+    while ((await this.chips.count()) > 0) {
+      await this.chips.first().locator('.oxd-icon.--clear').click();
+    }
+  }
+
+  /**
+   * Replace the selection with exactly the given options
+   */
+  async selectOnly(optionTexts: string[]): Promise<void> {
+    await this.clear();
+    for (const optionText of optionTexts) {
+      await this.select(optionText);
+    }
+  }
+}
@@ -0,0 +1,238 @@
+import { Locator } from '@playwright/test';
+import { OxdComponent, OxdScope, exactText } from './OxdComponent';
+
+/**
+ * Column values a row must have, keyed by column header
+ *
+ * A string must match the whole cell text; use a RegExp for a partial match.
+ */
+export type OxdRowCriteria = Record<string, string | RegExp>;
+
+/**
+ * Row actions drawn as icon buttons, by the name used to ask for them
+ */
+const ACTION_ICONS: Record<string, string> = {
+  Delete: 'bi-trash',
+  Edit: 'bi-pencil-fill',
+  View: 'bi-eye-fill',
+};
+
+/**
+ * OrangeHRM list table (`.oxd-table`)
+ *
+ * Columns are addressed by their header text, so callers don't depend on column order.
+ */
+export class OxdTable extends OxdComponent {
+  readonly headerCells: Locator;
+  readonly rows: Locator;
+  readonly loadingSpinner: Locator;
+
+  constructor(root: Locator) {
+    super(root);
+    this.headerCells = root.locator('.oxd-table-header .oxd-table-header-cell');
+    this.rows = root
+      .locator('.oxd-table-row')
+      .filter({ has: this.page.locator('.oxd-table-cell') });
+    this.loadingSpinner = root.locator('.oxd-loading-spinner');
+  }
+
+  /**
+   * The first table in the scope
+   */
+  static on(scope: OxdScope): OxdTable {
+    return new OxdTable(scope.locator('.oxd-table').first());
+  }
+
+  /**
+   * Wait for the table to finish loading
+   */
+  async waitForLoad(timeout: number = 15000): Promise<void> {
+    await this.loadingSpinner.waitFor({ state: 'hidden', timeout });
+  }
+
+  /**
+   * Get the column headers, including the unnamed checkbox column
+   */
+  async getHeaders(): Promise<string[]> {
+    return (await this.headerCells.allTextContents()).map(header => header.trim());
+  }
+
+  /**
+   * Get the position of a column: an exact header match, or else the first header containing it
+   */
+  async getColumnIndex(column: string): Promise<number> {
+    const headers = await this.getHeaders();
+    let index = headers.indexOf(column);
+    if (index === -1) {
+      index = headers.findIndex(header => header.toLowerCase().includes(column.toLowerCase()));
+    }
+    if (index === -1) {
+      throw new Error(
+        `Unknown column "${column}"; the table has: ${headers.filter(Boolean).join(', ')}`,
+      );
+    }
+    return index;
+  }
+
+  /**
+   * Get the number of rows shown
+   */
+  async getRowCount(): Promise<number> {
+    return await this.rows.count();
+  }
+
+  /**
+   * Get the text of every cell, row by row
+   */
+  async getRawData(): Promise<string[][]> {
+    const tableData: string[][] = [];
+    for (const row of await this.rows.all()) {
+      const cells = await row.locator('.oxd-table-cell').allInnerTexts();
+      tableData.push(cells.map(cell => cell.trim()));
+    }
+    return tableData;
+  }
+
+  /**
+   * Get every row as an object keyed by column header (unnamed columns are left out)
+   */
+  async getData(): Promise<Record<string, string>[]> {
+    const headers = await this.getHeaders();
+    const rows = await this.getRawData();
+    return rows.map(cells => OxdTable.toRecord(headers, cells));
+  }
+
+  /**
+   * Get the values of one column
+   */
+  async getColumn(column: string): Promise<string[]> {
+    const index = await this.getColumnIndex(column);
+    const rows = await this.getRawData();
+    return rows.map(cells => cells[index] ?? '');
+  }
+
+  /**
+   * The row at a position (0-based)
+   */
+  row(index: number): OxdTableRow {
+    return new OxdTableRow(this, async () => this.rows.nth(index));
+  }
+
+  /**
+   * The first row whose cells match every criterion, e.g. `rowWhere({ 'Last Name': 'Adalwin' })`
+   */
+  rowWhere(criteria: OxdRowCriteria): OxdTableRow {
+    return new OxdTableRow(this, async () => (await this.rowsWhere(criteria)).first());
+  }
+
+  /**
+   * Check whether any row matches every criterion
+   */
+  async hasRowWhere(criteria: OxdRowCriteria): Promise<boolean> {
+    return (await (await this.rowsWhere(criteria)).count()) > 0;
+  }
+
+  /**
+   * All rows whose cells match every criterion
+   */
+  async rowsWhere(criteria: OxdRowCriteria): Promise<Locator> {
+    let rows = this.rows;
+    for (const [column, value] of Object.entries(criteria)) {
+      const index = await this.getColumnIndex(column);
+      const text = typeof value === 'string' ? exactText(value) : value;
+      rows = rows.filter({
+        has: this.page.locator(`.oxd-table-cell:nth-child(${index + 1})`, { hasText: text }),
+      });
+    }
+    return rows;
+  }
+
+  /**
+   * Pair headers with cell texts, dropping unnamed columns
+   */
+  static toRecord(headers: string[], cells: string[]): Record<string, string> {
+    const record: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      if (header) {
+        record[header] = cells[index] ?? '';
+      }
+    });
+    return record;
+  }
+}
+
+/**
+ * A row of an `OxdTable`, found when it is first used
+ */
+export class OxdTableRow {
+  constructor(
+    private readonly table: OxdTable,
+    private readonly find: () => Promise<Locator>,
+  ) {}
+
+  /**
+   * The row's locator
+   */
+  async locator(): Promise<Locator> {
+    return await this.find();
+  }
+
+  /**
+   * Check whether the row is in the table
+   */
+  async exists(): Promise<boolean> {
+    return (await (await this.find()).count()) > 0;
+  }
+
+  /**
+   * The cell in the given column
+   */
+  async cell(column: string): Promise<Locator> {
+    const index = await this.table.getColumnIndex(column);
+    return (await this.find()).locator('.oxd-table-cell').nth(index);
+  }
+
+  /**
+   * Get the text of the cell in the given column
+   */
+  async getText(column: string): Promise<string> {
+    return (await (await this.cell(column)).innerText()).trim();
+  }
+
+  /**
+   * Get the row as an object keyed by column header
+   */
+  async getData(): Promise<Record<string, string>> {
+    const cells = await (await this.find()).locator('.oxd-table-cell').allInnerTexts();
+    return OxdTable.toRecord(
+      await this.table.getHeaders(),
+      cells.map(cell => cell.trim()),
+    );
+  }
+
+  /**
+   * Click a row action: an icon button (Delete, Edit, View) or a labelled button (Approve, Reject)
+   */
+  async action(name: string): Promise<void> {
+    const actions = (await this.find()).locator('.oxd-table-cell-actions');
+    const icon = ACTION_ICONS[name];
+    const button = icon
+      ? actions.locator(`button:has(.${icon})`)
+      : actions.locator('button', { hasText: exactText(name) });
+    await button.first().click();
+  }
+
+  /**
+   * Tick the row's checkbox
+   */
+  async select(): Promise<void> {
+    await (await this.find()).locator('.oxd-checkbox-wrapper .oxd-checkbox-input').click();
+  }
+
+  /**
+   * Click the row itself, which opens the record on clickable tables
+   */
+  async click(): Promise<void> {
+    await (await this.find()).click();
+  }
+}
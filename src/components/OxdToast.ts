@@ -0,0 +1,73 @@
+import { Page, Locator } from '@playwright/test';
+import { OxdComponent } from './OxdComponent';
+
+export type ToastType = 'success' | 'error' | 'warn' | 'info';
+
+/**
+ * A toast notification, such as "Success" / "Successfully Saved"
+ */
+export interface ToastMessage {
+  type: ToastType;
+  title: string;
+  message: string;
+}
+
+/**
+ * OrangeHRM toast notifications (`.oxd-toast-container`)
+ */
+export class OxdToast extends OxdComponent {
+  readonly toasts: Locator;
+
+  constructor(root: Locator) {
+    super(root);
+    this.toasts = root.locator('.oxd-toast');
+  }
+
+  /**
+   * The page's toast container
+   */
+  static on(page: Page): OxdToast {
+    return new OxdToast(page.locator('.oxd-toast-container'));
+  }
+
+  /**
+   * Wait for a toast of one of the given types and return its text (title and message)
+   */
+  async waitForText(
+    types: ToastType[] = ['success', 'error', 'warn', 'info'],
+    timeout: number = 10000,
+  ): Promise<string> {
+    const content = this.contentOf(types);
+    await content.waitFor({ timeout });
+    return (await content.textContent()) || '';
+  }
+
+  /**
+   * Wait for a toast of one of the given types and return its parts
+   */
+  async waitForMessage(
+    types: ToastType[] = ['success', 'error', 'warn', 'info'],
+    timeout: number = 10000,
+  ): Promise<ToastMessage> {
+    const content = this.contentOf(types);
+    await content.waitFor({ timeout });
+    const className = (await content.getAttribute('class')) || '';
+    const type = types.find(t => className.includes(`oxd-toast-content--${t}`)) || types[0];
+    const title = (await content.locator('.oxd-text--toast-title').textContent()) || '';
+    const message = (await content.locator('.oxd-text--toast-message').textContent()) || '';
+    return { type, title: title.trim(), message: message.trim() };
+  }
+
+  /**
+   * Close every toast on screen
+   */
+  async dismissAll(): Promise<void> {
+    while ((await this.toasts.count()) > 0) {
+      await this.toasts.first().locator('.oxd-toast-close').click();
+    }
+  }
+
+  private contentOf(types: ToastType[]): Locator {
+    return this.root.locator(types.map(type => `.oxd-toast-content--${type}`).join(', ')).first();
+  }
+}
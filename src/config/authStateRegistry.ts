@@ -0,0 +1,181 @@
+import { Browser, BrowserContext } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Environment, UserRole } from './environment';
+import { OrangeHRMApiClient } from '@api/OrangeHRMApiClient';
+import { OrangeHRMLoginPage } from '@pages/LoginPage';
+
+/**
+ * The parts of a saved `storageState()` file the registry looks at
+ */
+interface SavedStorageState {
+  cookies: Array<{ name: string; expires: number }>;
+}
+
+/**
+ * Registry of signed-in browser states, one per user role
+ *
+ * Each role's state is saved to `auth-state/<role>-auth.json` the first time it is
+ * needed and reused until it expires. Signing in posts the login form's CSRF token and
+ * credentials to `/auth/validate` from the context's own request client, so the
+ * session cookie lands in the context without loading any page; the login form is
+ * only used when that fails. A state counts as expired when it is older than
+ * AUTH_STATE_MAX_AGE (milliseconds, 20 minutes by default - OrangeHRM drops idle
+ * sessions), when one of its cookies has expired, or when OrangeHRM's API no longer
+ * accepts its session; it is then refreshed by signing in again.
+ */
+export class AuthStateRegistry {
+  static readonly STATE_DIR = 'auth-state';
+
+  // Folder the states are saved in, STATE_DIR unless a test has chosen its own
+  private static stateDir: string = AuthStateRegistry.STATE_DIR;
+
+  // Sign-ins in progress, so that a worker signs each role in only once at a time
+  private static pending: Map<UserRole, Promise<string>> = new Map();
+
+  /**
+   * Save states to another folder, e.g. a test's output folder when the test tampers with
+   * them; call without a folder to go back to STATE_DIR
+   */
+  static useStateDir(dir: string = this.STATE_DIR): void {
+    this.stateDir = dir;
+  }
+
+  /**
+   * Get the file a role's state is saved to
+   */
+  static getStatePath(role: UserRole): string {
+    return path.join(this.stateDir, `${role}-auth.json`);
+  }
+
+  /**
+   * Check whether a role's saved state is missing or too old to use
+   */
+  static isExpired(role: UserRole): boolean {
+    const statePath = this.getStatePath(role);
+    if (!fs.existsSync(statePath)) {
+      return true;
+    }
+    if (Date.now() - fs.statSync(statePath).mtimeMs > this.getMaxAge()) {
+      return true;
+    }
+    try {
+      const state = JSON.parse(fs.readFileSync(statePath, 'utf-8')) as SavedStorageState;
+      // Session cookies have no expiry (-1); OrangeHRM's own cookie is one of them
+      return (
+        state.cookies.length === 0 ||
+        state.cookies.some(cookie => cookie.expires > 0 && cookie.expires * 1000 <= Date.now())
+      );
+    } catch {
+      return true;
+    }
+  }
+
+  /**
+   * Get the path of a usable state for a role, signing in first when it has expired
+   */
+  static async getState(browser: Browser, role: UserRole): Promise<string> {
+    if (!this.isExpired(role)) {
+      return this.getStatePath(role);
+    }
+    return await this.refresh(browser, role);
+  }
+
+  /**
+   * Sign in as a role and save a fresh state, returning its path
+   */
+  static async refresh(browser: Browser, role: UserRole): Promise<string> {
+    let pending = this.pending.get(role);
+    if (!pending) {
+      pending = this.createState(browser, role).finally(() => this.pending.delete(role));
+      this.pending.set(role, pending);
+    }
+    return await pending;
+  }
+
+  /**
+   * Throw away a role's saved state so that the next request signs in again
+   */
+  static invalidate(role: UserRole): void {
+    const statePath = this.getStatePath(role);
+    if (fs.existsSync(statePath)) {
+      fs.unlinkSync(statePath);
+    }
+  }
+
+  /**
+   * Open a browser context signed in as a role
+   *
+   * The saved state is checked against OrangeHRM first, and refreshed if the session
+   * behind it has ended.
+   */
+  static async newContext(browser: Browser, role: UserRole): Promise<BrowserContext> {
+    const context = await browser.newContext({ storageState: await this.getState(browser, role) });
+    if (await this.isSignedIn(context)) {
+      return context;
+    }
+    await context.close();
+    return await browser.newContext({ storageState: await this.refresh(browser, role) });
+  }
+
+  /**
+   * Check whether a context's session is still accepted by OrangeHRM, with one API call
+   */
+  static async isSignedIn(context: BrowserContext): Promise<boolean> {
+    try {
+      return await new OrangeHRMApiClient(context.request).isAuthenticated();
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Sign a context in as a role: through the API, or through the login form if that fails
+   */
+  static async signIn(context: BrowserContext, role: UserRole): Promise<void> {
+    const { username, password } = Environment.getRoleCredentials(role);
+    try {
+      await new OrangeHRMApiClient(context.request).login(username, password);
+      return;
+    } catch (error) {
+      console.warn(`⚠️  API sign-in as ${role} failed, using the login form instead`);
+      console.warn(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const page = await context.newPage();
+    try {
+      const loginPage = new OrangeHRMLoginPage(page);
+      await loginPage.goto();
+      await loginPage.login(username, password);
+      await loginPage.waitForSuccessfulLogin();
+    } catch (error) {
+      throw new Error(
+        `Could not sign in as the ${role} user "${username}" through the login form: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    } finally {
+      await page.close();
+    }
+  }
+
+  private static async createState(browser: Browser, role: UserRole): Promise<string> {
+    const context = await browser.newContext();
+
+    try {
+      await this.signIn(context, role);
+
+      // Write to a temporary file first so other workers never read a half-written state
+      const statePath = this.getStatePath(role);
+      const tempPath = `${statePath}.${process.pid}.tmp`;
+      fs.mkdirSync(this.stateDir, { recursive: true });
+      await context.storageState({ path: tempPath });
+      fs.renameSync(tempPath, statePath);
+      return statePath;
+    } finally {
+      await context.close();
+    }
+  }
+
+  private static getMaxAge(): number {
+    return parseInt(process.env.AUTH_STATE_MAX_AGE || String(20 * 60 * 1000));
+  }
+}
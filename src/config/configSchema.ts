@@ -0,0 +1,157 @@
+/**
+ * Schema of the environment configuration
+ *
+ * Every setting is described once here - its type, allowed values and the environment
+ * variable that overrides it - and `validateConfigLayer()` checks each layer of the
+ * configuration against it, so a typo in an environments/*.json file or a bad
+ * SCREENSHOT value fails with a message naming the setting and where it came from.
+ */
+
+export const SCREENSHOT_MODES = ['on', 'only-on-failure', 'off'] as const;
+export const VIDEO_MODES = ['on', 'retain-on-failure', 'on-first-retry', 'off'] as const;
+export const TRACE_MODES = ['on', 'retain-on-failure', 'on-first-retry', 'off'] as const;
+export const PERFORMANCE_BUDGET_MODES = ['fail', 'warn', 'off'] as const;
+export const NETWORK_MODES = ['live', 'record', 'replay'] as const;
+export const QUARANTINE_MODES = ['fixme', 'fail', 'off'] as const;
+
+export type ScreenshotMode = (typeof SCREENSHOT_MODES)[number];
+export type VideoMode = (typeof VIDEO_MODES)[number];
+export type TraceMode = (typeof TRACE_MODES)[number];
+export type PerformanceBudgetMode = (typeof PERFORMANCE_BUDGET_MODES)[number];
+export type NetworkMode = (typeof NETWORK_MODES)[number];
+export type QuarantineMode = (typeof QUARANTINE_MODES)[number];
+
+export interface EnvironmentConfig {
+  baseUrl: string;
+  apiUrl: string;
+  timeout: number;
+  retries: number;
+  headless: boolean;
+  slowMo: number;
+  screenshot: ScreenshotMode;
+  video: VideoMode;
+  trace: TraceMode;
+  // What a page over its performance budget (src/config/performanceBudgets.ts) does to the test
+  performanceBudgets: PerformanceBudgetMode;
+  // Whether OrangeHRM traffic goes to the site, is recorded to HAR files, or is served from them
+  networkMode: NetworkMode;
+  // What happens to quarantined flaky tests: skipped as fixme, run expecting failure, or run as usual
+  quarantine: QuarantineMode;
+}
+
+interface SettingSchema {
+  type: 'string' | 'number' | 'boolean';
+  env: string;
+  values?: readonly string[];
+  min?: number;
+}
+
+export const CONFIG_SCHEMA: Record<keyof EnvironmentConfig, SettingSchema> = {
+  baseUrl: { type: 'string', env: 'BASE_URL' },
+  apiUrl: { type: 'string', env: 'API_URL' },
+  timeout: { type: 'number', env: 'TIMEOUT', min: 1 },
+  retries: { type: 'number', env: 'RETRIES', min: 0 },
+  headless: { type: 'boolean', env: 'HEADLESS' },
+  slowMo: { type: 'number', env: 'SLOW_MO', min: 0 },
+  screenshot: { type: 'string', env: 'SCREENSHOT', values: SCREENSHOT_MODES },
+  video: { type: 'string', env: 'VIDEO', values: VIDEO_MODES },
+  trace: { type: 'string', env: 'TRACE', values: TRACE_MODES },
+  performanceBudgets: {
+    type: 'string',
+    env: 'PERFORMANCE_BUDGETS',
+    values: PERFORMANCE_BUDGET_MODES,
+  },
+  networkMode: { type: 'string', env: 'NETWORK_MODE', values: NETWORK_MODES },
+  quarantine: { type: 'string', env: 'QUARANTINE', values: QUARANTINE_MODES },
+};
+
+/**
+ * Thrown when the configuration cannot be loaded, listing every problem found
+ */
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid test configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Pick the settings out of a set of environment variables (process.env or a parsed .env)
+ *
+ * Values stay strings; `validateConfigLayer()` converts them.
+ */
+export function readEnvLayer(
+  variables: Record<string, string | undefined>,
+): Record<string, unknown> {
+  const layer: Record<string, unknown> = {};
+  for (const [key, setting] of Object.entries(CONFIG_SCHEMA)) {
+    const value = variables[setting.env];
+    if (value !== undefined && value !== '') {
+      layer[key] = value;
+    }
+  }
+  return layer;
+}
+
+/**
+ * Check one layer of settings against the schema and convert string values
+ *
+ * Problems are added to `problems` rather than thrown, so that every mistake in every
+ * layer is reported at once. Settings read from environment variables are reported by
+ * their variable name.
+ */
+export function validateConfigLayer(
+  layer: Record<string, unknown>,
+  source: string,
+  problems: string[],
+  fromVariables: boolean = false,
+): Partial<EnvironmentConfig> {
+  const valid: Record<string, unknown> = {};
+
+  for (const [key, raw] of Object.entries(layer)) {
+    const setting = Object.prototype.hasOwnProperty.call(CONFIG_SCHEMA, key)
+      ? CONFIG_SCHEMA[key as keyof EnvironmentConfig]
+      : undefined;
+    if (!setting) {
+      problems.push(
+        `${source}: unknown setting "${key}" (expected one of ${Object.keys(CONFIG_SCHEMA).join(', ')})`,
+      );
+      continue;
+    }
+
+    const name = fromVariables ? setting.env : key;
+    const value = convert(raw, setting);
+    if (value === undefined) {
+      problems.push(`${source}: ${name} must be a ${setting.type} but was ${JSON.stringify(raw)}`);
+    } else if (setting.values && !setting.values.includes(value as string)) {
+      problems.push(
+        `${source}: ${name} must be one of ${setting.values.join(', ')} but was ${JSON.stringify(raw)}`,
+      );
+    } else if (setting.min !== undefined && (value as number) < setting.min) {
+      problems.push(
+        `${source}: ${name} must be at least ${setting.min} but was ${JSON.stringify(raw)}`,
+      );
+    } else {
+      valid[key] = value;
+    }
+  }
+
+  return valid as Partial<EnvironmentConfig>;
+}
+
+function convert(raw: unknown, setting: SettingSchema): string | number | boolean | undefined {
+  if (typeof raw === setting.type) {
+    return raw as string | number | boolean;
+  }
+  if (typeof raw !== 'string') {
+    return undefined;
+  }
+  if (setting.type === 'number') {
+    const number = Number(raw);
+    return raw.trim() !== '' && Number.isFinite(number) ? number : undefined;
+  }
+  if (setting.type === 'boolean') {
+    return raw === 'true' ? true : raw === 'false' ? false : undefined;
+  }
+  return raw;
+}
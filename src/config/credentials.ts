@@ -0,0 +1,225 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import type { UserRole } from './environment';
+
+// ===== INTERFACES =====
+
+export interface Credentials {
+  username: string;
+  password: string;
+}
+
+/**
+ * Credentials for some or all roles, as kept by a vault or a stub
+ */
+export type RoleCredentials = Partial<Record<UserRole, Credentials>>;
+
+/**
+ * A source of credentials for the roles the suite signs in as
+ */
+export interface CredentialProvider {
+  // Shown in logs instead of the credentials themselves
+  readonly name: string;
+
+  /**
+   * Get a role's credentials, or undefined when this source has none for it
+   */
+  getCredentials(role: UserRole): Credentials | undefined;
+}
+
+/**
+ * The encrypted file a VaultCredentialProvider reads
+ */
+interface VaultFile {
+  version: 1;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+// ===== ERRORS =====
+
+/**
+ * Thrown when credentials are missing or a vault cannot be read
+ */
+export class CredentialError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CredentialError';
+  }
+}
+
+// ===== PROVIDERS =====
+
+/**
+ * Reads credentials from environment variables: TEST_USERNAME/TEST_PASSWORD for the
+ * admin and ESS_USERNAME/ESS_PASSWORD, SUPERVISOR_USERNAME/SUPERVISOR_PASSWORD for the
+ * other roles
+ */
+export class EnvCredentialProvider implements CredentialProvider {
+  readonly name = 'environment variables';
+
+  private static readonly PREFIXES: Record<UserRole, string> = {
+    admin: 'TEST',
+    ess: 'ESS',
+    supervisor: 'SUPERVISOR',
+  };
+
+  constructor(private readonly variables: Record<string, string | undefined> = process.env) {}
+
+  getCredentials(role: UserRole): Credentials | undefined {
+    const prefix = EnvCredentialProvider.PREFIXES[role];
+    const username = this.variables[`${prefix}_USERNAME`];
+    const password = this.variables[`${prefix}_PASSWORD`];
+    return username && password ? { username, password } : undefined;
+  }
+}
+
+/**
+ * Reads credentials from a local vault file encrypted with a passphrase
+ *
+ * The file holds the roles' credentials as JSON, encrypted with AES-256-GCM under a key
+ * derived from the passphrase with scrypt, so passwords are never stored in the clear.
+ * Create or update it with `node scripts/credentials-vault.js`, or
+ * `VaultCredentialProvider.save()`.
+ */
+export class VaultCredentialProvider implements CredentialProvider {
+  readonly name: string;
+  private credentials?: RoleCredentials;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly passphrase: string,
+  ) {
+    this.name = `vault ${filePath}`;
+  }
+
+  getCredentials(role: UserRole): Credentials | undefined {
+    if (!this.credentials) {
+      this.credentials = VaultCredentialProvider.open(this.filePath, this.passphrase);
+    }
+    return this.credentials[role];
+  }
+
+  /**
+   * Encrypt credentials into the vault file format
+   */
+  static seal(credentials: RoleCredentials, passphrase: string): string {
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.deriveKey(passphrase, salt), iv);
+    const data = Buffer.concat([
+      cipher.update(JSON.stringify(credentials), 'utf-8'),
+      cipher.final(),
+    ]);
+    const file: VaultFile = {
+      version: 1,
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+    return JSON.stringify(file, null, 2);
+  }
+
+  /**
+   * Decrypt the contents of a vault file
+   */
+  static unseal(contents: string, passphrase: string): RoleCredentials {
+    const file = JSON.parse(contents) as VaultFile;
+    if (file.version !== 1) {
+      throw new CredentialError(`Unsupported credentials vault version ${String(file.version)}`);
+    }
+    try {
+      const decipher = crypto.createDecipheriv(
+        'aes-256-gcm',
+        this.deriveKey(passphrase, Buffer.from(file.salt, 'base64')),
+        Buffer.from(file.iv, 'base64'),
+      );
+      decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+      const data = Buffer.concat([
+        decipher.update(Buffer.from(file.data, 'base64')),
+        decipher.final(),
+      ]);
+      return JSON.parse(data.toString('utf-8')) as RoleCredentials;
+    } catch {
+      throw new CredentialError(
+        'Could not decrypt the credentials vault - check CREDENTIALS_VAULT_KEY',
+      );
+    }
+  }
+
+  /**
+   * Write credentials to a vault file, replacing it
+   */
+  static save(filePath: string, credentials: RoleCredentials, passphrase: string): void {
+    fs.writeFileSync(filePath, this.seal(credentials, passphrase), { mode: 0o600 });
+  }
+
+  private static open(filePath: string, passphrase: string): RoleCredentials {
+    if (!fs.existsSync(filePath)) {
+      throw new CredentialError(`Credentials vault ${filePath} does not exist`);
+    }
+    return this.unseal(fs.readFileSync(filePath, 'utf-8'), passphrase);
+  }
+
+  private static deriveKey(passphrase: string, salt: Buffer): Buffer {
+    return crypto.scryptSync(passphrase, salt, 32);
+  }
+}
+
+/**
+ * Fixed credentials, for tests of the suite itself
+ */
+export class StubCredentialProvider implements CredentialProvider {
+  readonly name = 'stub';
+
+  constructor(private readonly credentials: RoleCredentials = {}) {}
+
+  getCredentials(role: UserRole): Credentials | undefined {
+    return this.credentials[role];
+  }
+}
+
+/**
+ * Asks each provider in turn and returns the first credentials found
+ */
+export class ChainedCredentialProvider implements CredentialProvider {
+  readonly name: string;
+
+  constructor(private readonly providers: CredentialProvider[]) {
+    this.name = providers.map(provider => provider.name).join(', then ');
+  }
+
+  getCredentials(role: UserRole): Credentials | undefined {
+    for (const provider of this.providers) {
+      const credentials = provider.getCredentials(role);
+      if (credentials) {
+        return credentials;
+      }
+    }
+    return undefined;
+  }
+}
+
+// ===== DEMO ACCOUNTS =====
+
+const DEMO_ADMIN: Credentials = { username: 'Admin', password: 'admin123' };
+
+/**
+ * The public demo site's admin account, printed on its login page
+ */
+export const DEMO_SITE_CREDENTIALS: RoleCredentials = {
+  admin: DEMO_ADMIN,
+};
+
+/**
+ * Accounts seeded by the local stand-in server (src/mock/store.ts), which shares the
+ * demo site's admin
+ */
+export const LOCAL_SERVER_CREDENTIALS: Record<UserRole, Credentials> = {
+  admin: DEMO_ADMIN,
+  ess: { username: 'odis.adalwin', password: 'ess12345' },
+  supervisor: { username: 'linda.anderson', password: 'super123' },
+};
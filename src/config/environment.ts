@@ -1,122 +1,242 @@
-export interface EnvironmentConfig {
-  baseUrl: string;
-  apiUrl: string;
-  username: string;
-  password: string;
-  timeout: number;
-  headless: boolean;
-  slowMo: number;
-  screenshot: 'on' | 'only-on-failure' | 'off';
-  video: 'on' | 'retain-on-failure' | 'off';
-  trace: 'on' | 'retain-on-failure' | 'off';
-}
+import * as fs from 'fs';
+import * as path from 'path';
+import * as dotenv from 'dotenv';
+import { LocalOrangeHRMServer } from '@mock/server';
+import { ConfigError, EnvironmentConfig, readEnvLayer, validateConfigLayer } from './configSchema';
+import {
+  ChainedCredentialProvider,
+  CredentialError,
+  CredentialProvider,
+  Credentials,
+  DEMO_SITE_CREDENTIALS,
+  EnvCredentialProvider,
+  LOCAL_SERVER_CREDENTIALS,
+  StubCredentialProvider,
+  VaultCredentialProvider,
+} from './credentials';
+import { Secrets } from '@utils/secrets';
+
+export type { EnvironmentConfig } from './configSchema';
+
+/**
+ * Kinds of signed-in user the suite tests as: the admin, an employee using ESS
+ * (employee self-service) and a supervisor with subordinates
+ */
+export type UserRole = 'admin' | 'ess' | 'supervisor';
+
+const DEMO_SITE_HOST = 'opensource-demo.orangehrmlive.com';
+const DEFAULT_VAULT_PATH = '.credentials.vault';
+
+/**
+ * Settings every environment starts from; apiUrl follows baseUrl unless it is set, and
+ * retries are 2 on CI and 0 elsewhere unless they are set
+ */
+const DEFAULT_CONFIG: Omit<EnvironmentConfig, 'apiUrl' | 'retries'> = {
+  baseUrl: `https://${DEMO_SITE_HOST}`,
+  timeout: 30000,
+  headless: true,
+  slowMo: 0,
+  screenshot: 'only-on-failure',
+  video: 'retain-on-failure',
+  trace: 'on-first-retry',
+  performanceBudgets: 'warn',
+  networkMode: 'live',
+  quarantine: 'fixme',
+};
 
 export class Environment {
+  // One JSON file per environment, named after it
+  static readonly ENVIRONMENTS_DIR = path.join(__dirname, '..', '..', 'environments');
+
   private static config: EnvironmentConfig;
+  private static credentialProvider?: CredentialProvider;
 
   static getConfig(): EnvironmentConfig {
     if (!this.config) {
-      this.config = this.loadConfig();
+      const name = this.getName();
+      this.config = this.loadConfig(name);
+
+      // Start the local stand-in server unless BASE_URL points somewhere else
+      if (name === 'local' && this.config.baseUrl === LocalOrangeHRMServer.getUrl()) {
+        LocalOrangeHRMServer.ensureStarted();
+      }
+
+      // Log the configuration being used (helpful for debugging)
+      console.log(`Using ${name} environment configuration`);
+      console.log(`Base URL: ${this.config.baseUrl}`);
+      console.log(`Headless: ${this.config.headless}`);
     }
     return this.config;
   }
 
-  private static loadConfig(): EnvironmentConfig {
-    const env = process.env.ENV || 'dev';
-    
-    // Define configurations for different environments
-    // This structure allows easy switching between environments
-    const configs: Record<string, EnvironmentConfig> = {
-      dev: {
-        baseUrl: process.env.BASE_URL || 'https://opensource-demo.orangehrmlive.com',
-        apiUrl: process.env.API_URL || 'https://opensource-demo.orangehrmlive.com/web/index.php/api/v2', // OrangeHRM API endpoint
-        username: process.env.TEST_USERNAME || 'Admin',
-        password: process.env.TEST_PASSWORD || 'admin123',
-        timeout: parseInt(process.env.TIMEOUT || '30000'),
-        headless: process.env.HEADLESS !== 'false',
-        slowMo: parseInt(process.env.SLOW_MO || '0'),
-        screenshot: (process.env.SCREENSHOT || 'only-on-failure') as 'on' | 'only-on-failure' | 'off',
-        video: (process.env.VIDEO || 'retain-on-failure') as 'on' | 'retain-on-failure' | 'off',
-        trace: (process.env.TRACE || 'retain-on-failure') as 'on' | 'retain-on-failure' | 'off',
-      },
-      staging: {
-        // For OrangeHRM, staging might be the same as dev
-        // In real projects, this would point to your staging environment
-        baseUrl: process.env.BASE_URL || 'https://opensource-demo.orangehrmlive.com',
-        apiUrl: process.env.API_URL || 'https://opensource-demo.orangehrmlive.com/web/index.php/api/v2',
-        username: process.env.TEST_USERNAME || 'Admin',
-        password: process.env.TEST_PASSWORD || 'admin123',
-        timeout: parseInt(process.env.TIMEOUT || '45000'),
-        headless: process.env.HEADLESS !== 'false',
-        slowMo: parseInt(process.env.SLOW_MO || '0'),
-        screenshot: (process.env.SCREENSHOT || 'on') as 'on' | 'only-on-failure' | 'off',
-        video: (process.env.VIDEO || 'on') as 'on' | 'retain-on-failure' | 'off',
-        trace: (process.env.TRACE || 'on') as 'on' | 'retain-on-failure' | 'off',
-      },
-      production: {
-        // Production configuration with more conservative settings
-        baseUrl: process.env.BASE_URL || 'https://opensource-demo.orangehrmlive.com',
-        apiUrl: process.env.API_URL || 'https://opensource-demo.orangehrmlive.com/web/index.php/api/v2',
-        username: process.env.TEST_USERNAME || 'Admin',
-        password: process.env.TEST_PASSWORD || 'admin123',
-        timeout: parseInt(process.env.TIMEOUT || '60000'),
-        headless: process.env.HEADLESS !== 'false',
-        slowMo: parseInt(process.env.SLOW_MO || '0'),
-        screenshot: 'only-on-failure' as const,
-        video: 'off' as const,
-        trace: 'off' as const,
-      },
-      ci: {
-        // Special configuration for CI/CD environments
-        baseUrl: process.env.BASE_URL || 'https://opensource-demo.orangehrmlive.com',
-        apiUrl: process.env.API_URL || 'https://opensource-demo.orangehrmlive.com/web/index.php/api/v2',
-        username: process.env.TEST_USERNAME || 'Admin',
-        password: process.env.TEST_PASSWORD || 'admin123',
-        timeout: parseInt(process.env.TIMEOUT || '60000'),
-        headless: true, // Always headless in CI
-        slowMo: 0, // No slow motion in CI
-        screenshot: 'only-on-failure' as const,
-        video: 'retain-on-failure' as const,
-        trace: 'retain-on-failure' as const,
+  /**
+   * Get the name of the selected environment (`ENV`, `dev` by default)
+   */
+  static getName(): string {
+    return process.env.ENV || 'dev';
+  }
+
+  /**
+   * Get the names of the environments that have a file in environments/
+   */
+  static getAvailableEnvironments(): string[] {
+    return fs
+      .readdirSync(this.ENVIRONMENTS_DIR)
+      .filter(file => file.endsWith('.json'))
+      .map(file => path.basename(file, '.json'))
+      .sort();
+  }
+
+  /**
+   * Build an environment's configuration from its layers, each overriding the one before:
+   * the defaults, `environments/<name>.json`, the `.env` file and the process environment.
+   *
+   * Every layer is validated against the schema in configSchema.ts; an unknown
+   * environment, an unknown setting or a bad value throws a ConfigError listing all of
+   * the problems and where each came from.
+   */
+  static loadConfig(
+    name: string,
+    variables: Record<string, string | undefined> = process.env,
+    dotenvPath: string = path.resolve('.env'),
+  ): EnvironmentConfig {
+    const available = this.getAvailableEnvironments();
+    if (!available.includes(name)) {
+      throw new ConfigError([
+        `Unknown environment "${name}" in ENV (expected one of ${available.join(', ')})`,
+      ]);
+    }
+
+    const problems: string[] = [];
+    const fileName = `environments/${name}.json`;
+    let fileLayer: Record<string, unknown> = {};
+    try {
+      const parsed: unknown = JSON.parse(
+        fs.readFileSync(path.join(this.ENVIRONMENTS_DIR, `${name}.json`), 'utf-8'),
+      );
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        problems.push(`${fileName}: expected an object of settings`);
+      } else {
+        fileLayer = parsed as Record<string, unknown>;
       }
+    } catch (error) {
+      problems.push(`${fileName}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const dotenvLayer = fs.existsSync(dotenvPath) ? dotenv.parse(fs.readFileSync(dotenvPath)) : {};
+
+    const config = {
+      ...DEFAULT_CONFIG,
+      retries: variables.CI ? 2 : 0,
+      // The stand-in server's port is only known at runtime
+      ...(name === 'local' ? { baseUrl: LocalOrangeHRMServer.getUrl() } : {}),
+      ...validateConfigLayer(fileLayer, fileName, problems),
+      ...validateConfigLayer(readEnvLayer(dotenvLayer), '.env', problems, true),
+      ...validateConfigLayer(readEnvLayer(variables), 'environment variables', problems, true),
     };
+    if (problems.length > 0) {
+      throw new ConfigError(problems);
+    }
 
-    const selectedConfig = configs[env] || configs.dev;
-    
-    // Log the configuration being used (helpful for debugging)
-    console.log(`Using ${env} environment configuration`);
-    console.log(`Base URL: ${selectedConfig.baseUrl}`);
-    console.log(`Headless: ${selectedConfig.headless}`);
-    
-    return selectedConfig;
+    return { ...config, apiUrl: config.apiUrl ?? `${config.baseUrl}/web/index.php/api/v2` };
+  }
+
+  /**
+   * Check whether the selected environment is a demo: the public demo site or the
+   * local stand-in server, whose accounts are published
+   */
+  static isDemoSite(config: EnvironmentConfig = this.getConfig()): boolean {
+    return (
+      new URL(config.baseUrl).hostname === DEMO_SITE_HOST ||
+      config.baseUrl === LocalOrangeHRMServer.getUrl()
+    );
+  }
+
+  /**
+   * Get the source of credentials for the selected environment
+   *
+   * Credentials come from environment variables first, then from the encrypted vault
+   * named by CREDENTIALS_VAULT (when CREDENTIALS_VAULT_KEY is set). Demo environments
+   * fall back to their published accounts; any other environment must configure its own.
+   */
+  static getCredentialProvider(): CredentialProvider {
+    if (!this.credentialProvider) {
+      const providers: CredentialProvider[] = [new EnvCredentialProvider()];
+      if (process.env.CREDENTIALS_VAULT_KEY) {
+        providers.push(
+          new VaultCredentialProvider(
+            process.env.CREDENTIALS_VAULT || DEFAULT_VAULT_PATH,
+            process.env.CREDENTIALS_VAULT_KEY,
+          ),
+        );
+      }
+      if (this.isDemoSite()) {
+        const config = this.getConfig();
+        const demoCredentials =
+          config.baseUrl === LocalOrangeHRMServer.getUrl()
+            ? LOCAL_SERVER_CREDENTIALS
+            : DEMO_SITE_CREDENTIALS;
+        providers.push(new StubCredentialProvider(demoCredentials));
+      }
+      this.credentialProvider = new ChainedCredentialProvider(providers);
+    }
+    return this.credentialProvider;
+  }
+
+  /**
+   * Replace the source of credentials, e.g. with a StubCredentialProvider in a test;
+   * call without a provider to go back to the default
+   */
+  static useCredentialProvider(provider?: CredentialProvider): void {
+    this.credentialProvider = provider;
+  }
+
+  /**
+   * Fail fast when the admin has no credentials, naming the places they can come from
+   */
+  static verifyCredentials(): void {
+    if (!this.hasRoleCredentials('admin')) {
+      throw new CredentialError(
+        `No admin credentials for ${this.getConfig().baseUrl}: set TEST_USERNAME and TEST_PASSWORD, ` +
+          'or CREDENTIALS_VAULT_KEY to read them from the credentials vault',
+      );
+    }
   }
 
   /**
    * Get all available test users for the OrangeHRM application.
-   * This centralizes user data and makes it easy to access in tests.
+   * The roles' accounts come from the credential provider; the rest are made-up
+   * accounts for negative testing.
    */
   static getTestUsers() {
+    const admin = this.getRoleCredentials('admin');
     return {
       admin: {
-        username: 'Admin',
-        password: 'admin123',
-        description: 'Admin user with full system access'
+        ...admin,
+        description: 'Admin user with full system access',
+      },
+      ess: {
+        ...this.getRoleCredentials('ess'),
+        description: 'ESS user who only sees their own records',
+      },
+      supervisor: {
+        ...this.getRoleCredentials('supervisor'),
+        description: 'ESS user who supervises other employees',
       },
       invalid: {
         username: 'invalid_user',
         password: 'invalid_pass',
-        description: 'Invalid user for negative testing'
+        description: 'Invalid user for negative testing',
       },
       wrongPassword: {
-        username: 'Admin',
+        username: admin.username,
         password: 'wrong_password',
-        description: 'Valid username with wrong password'
+        description: 'Valid username with wrong password',
       },
       wrongUsername: {
         username: 'wrong_user',
-        password: 'admin123',
-        description: 'Wrong username with valid password'
-      }
+        password: admin.password,
+        description: 'Wrong username with valid password',
+      },
     };
   }
 
@@ -124,11 +244,35 @@ export class Environment {
    * Get specific user credentials by type.
    * This is useful when you need just one user's credentials in a test.
    */
-  static getUserCredentials(userType: 'admin' | 'invalid' | 'wrongPassword' | 'wrongUsername') {
+  static getUserCredentials(userType: UserRole | 'invalid' | 'wrongPassword' | 'wrongUsername') {
     const users = this.getTestUsers();
     return users[userType];
   }
 
+  /**
+   * Get the credentials to sign in as a role, from the credential provider.
+   * The password is registered with Secrets so that it is masked in logs and reports.
+   */
+  static getRoleCredentials(role: UserRole): Credentials {
+    const credentials = this.getCredentialProvider().getCredentials(role);
+    if (!credentials) {
+      throw new CredentialError(
+        `No credentials for the ${role} user (looked in ${this.getCredentialProvider().name})`,
+      );
+    }
+    Secrets.register(credentials.password);
+    return { ...credentials };
+  }
+
+  /**
+   * Check whether a role has an account to sign in with.
+   * The demo site only ships the admin; the local stand-in seeds every role, and other
+   * environments need the role's credentials configured.
+   */
+  static hasRoleCredentials(role: UserRole): boolean {
+    return this.getCredentialProvider().getCredentials(role) !== undefined;
+  }
+
   /**
    * Get valid admin credentials for OrangeHRM.
    * This is a convenience method for the most common use case.
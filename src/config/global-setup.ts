@@ -1,7 +1,9 @@
 import { FullConfig, chromium } from '@playwright/test';
 import * as fs from 'fs';
-import * as path from 'path';
-import { Environment } from './environment';
+import { Environment, UserRole } from './environment';
+import { AuthStateRegistry } from './authStateRegistry';
+import { RandomSeed } from '@utils/random';
+import { LocalOrangeHRMServer } from '@mock/server';
 
 async function globalSetup(config: FullConfig): Promise<void> {
   console.log('🚀 Running global setup for OrangeHRM tests...');
@@ -23,18 +25,56 @@ async function globalSetup(config: FullConfig): Promise<void> {
     }
   });
 
-  // Set environment variables
-  const testRunId = `orangehrm_${Date.now()}`;
+  // Set environment variables (playwright.config.ts sets the run id, or shards share one from CI)
+  const testRunId = process.env.TEST_RUN_ID || `orangehrm_${Date.now()}`;
   process.env.TEST_RUN_ID = testRunId;
   console.log(`🏷️  Test Run ID: ${testRunId}`);
+  const seed = RandomSeed.run();
+  console.log(`🎲 Test data seed: ${seed} (${RandomSeed.replay()} generates the data again)`);
   
   // Get environment configuration
   const envConfig = Environment.getConfig();
-  console.log(`🌍 Environment: ${process.env.ENV || 'dev'}`);
+  console.log(`🌍 Environment: ${Environment.getName()}`);
   console.log(`🔗 Base URL: ${envConfig.baseUrl}`);
-  console.log(`👤 Default User: ${envConfig.username}`);
+
+  // Stop before any test runs when another process holds the local stand-in's port
+  await LocalOrangeHRMServer.verify();
+
+  // Stop before any test runs when a real instance has no credentials configured
+  Environment.verifyCredentials();
+  console.log(`🔑 Credentials from: ${Environment.getCredentialProvider().name}`);
+
+  // Verify OrangeHRM site accessibility, unless the tests are served from recordings
+  if (envConfig.networkMode === 'replay') {
+    console.log('📼 Replaying recorded network traffic, not checking the site');
+  } else {
+    await verifySiteAccessibility(envConfig.baseUrl);
+  }
+
+  // Pre-authenticate and save auth states (optional - useful for faster test execution)
+  if (process.env.PREAUTH === 'true') {
+    const roles = (process.env.PREAUTH_ROLES || 'admin')
+      .split(',')
+      .map(role => role.trim()) as UserRole[];
+    for (const role of roles) {
+      console.log(`🔐 Pre-authenticating ${role} user...`);
+      try {
+        await createAuthState(role);
+        console.log(`✅ ${role} authentication state saved`);
+      } catch (error) {
+        console.warn(`⚠️  Warning: Could not pre-authenticate ${role} user`);
+        console.warn(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
   
-  // Verify OrangeHRM site accessibility
+  console.log('✨ Global setup completed successfully');
+}
+
+/**
+ * Check that the OrangeHRM login page loads, warning rather than failing when it does not
+ */
+async function verifySiteAccessibility(baseUrl: string): Promise<void> {
   console.log('🔍 Verifying OrangeHRM site accessibility...');
   try {
     const browser = await chromium.launch({ headless: true });
@@ -44,7 +84,7 @@ async function globalSetup(config: FullConfig): Promise<void> {
     // Set a reasonable timeout for the health check
     page.setDefaultTimeout(15000);
     
-    await page.goto(envConfig.baseUrl);
+    await page.goto(baseUrl);
     await page.waitForSelector('input[name="username"]', { timeout: 10000 });
     
     console.log('✅ OrangeHRM site is accessible');
@@ -55,47 +95,17 @@ async function globalSetup(config: FullConfig): Promise<void> {
     console.warn(`   Error: ${error instanceof Error ? error.message : String(error)}`);
     console.warn('   Tests may fail if the site is not available');
   }
-  
-  // Pre-authenticate and save auth state (optional - useful for faster test execution)
-  if (process.env.PREAUTH === 'true') {
-    console.log('🔐 Pre-authenticating admin user...');
-    try {
-      await createAuthState();
-      console.log('✅ Admin authentication state saved');
-    } catch (error) {
-      console.warn('⚠️  Warning: Could not pre-authenticate admin user');
-      console.warn(`   Error: ${error instanceof Error ? error.message : String(error)}`);
-    }
-  }
-  
-  console.log('✨ Global setup completed successfully');
 }
 
 /**
- * Create and save authentication state for admin user
+ * Create and save authentication state for a role
  * This can be used to speed up tests that require authentication
  */
-async function createAuthState(): Promise<void> {
-  const envConfig = Environment.getConfig();
+async function createAuthState(role: UserRole): Promise<void> {
   const browser = await chromium.launch({ headless: true });
-  const context = await browser.newContext();
-  const page = await context.newPage();
   
   try {
-    // Navigate to login page
-    await page.goto(envConfig.baseUrl);
-    
-    // Fill login form
-    await page.fill('input[name="username"]', envConfig.username);
-    await page.fill('input[name="password"]', envConfig.password);
-    await page.click('button[type="submit"]');
-    
-    // Wait for successful login (dashboard page)
-    await page.waitForSelector('.oxd-topbar-header-breadcrumb h6', { timeout: 10000 });
-    
-    // Save authentication state
-    await context.storageState({ path: 'auth-state/admin-auth.json' });
-    
+    await AuthStateRegistry.refresh(browser, role);
   } finally {
     await browser.close();
   }
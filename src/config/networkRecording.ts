@@ -0,0 +1,29 @@
+/**
+ * What NETWORK_MODE=record captures and how NETWORK_MODE=replay matches requests to it
+ */
+export interface NetworkRecordingRules {
+  // Requests on the OrangeHRM site to record and replay, by URL path; anything else goes to the network
+  traffic: Record<string, RegExp>;
+  // Query parameters that change between runs, left out when matching a request to a recording
+  ignoreQueryParams: string[];
+  // Form and JSON body fields that change between runs, left out when matching
+  ignoreBodyFields: string[];
+}
+
+/**
+ * Recording rules for OrangeHRM
+ *
+ * Besides the REST API and the static assets, the pages and the login form post that
+ * lead to them are recorded, so a spec can replay without reaching the site at all. The
+ * login form posts the session's CSRF token, which is new every run, so it is ignored
+ * when matching; so are the cache-busting parameters OrangeHRM adds to some requests.
+ */
+export const NETWORK_RECORDING: NetworkRecordingRules = {
+  traffic: {
+    api: /^\/web\/index\.php\/api\/v2\//,
+    assets: /^\/web\/(dist|images)\/|\.(js|css|png|jpe?g|gif|svg|ico|woff2?|ttf)$/,
+    pages: /^\/$|^\/web\/index\.php(\/(?!api\/).*)?$/,
+  },
+  ignoreQueryParams: ['_', 't', 'timestamp'],
+  ignoreBodyFields: ['_token'],
+};
@@ -0,0 +1,36 @@
+import type { PerformanceBudget } from '@utils/performance';
+
+/**
+ * Pages whose performance is measured
+ */
+export type PerformancePage = 'login' | 'dashboard';
+
+/**
+ * Performance budget of each measured page
+ *
+ * Times are in milliseconds from the start of the navigation, and cumulativeLayoutShift
+ * is the unitless CLS score. A metric the browser cannot measure (LCP, CLS and long tasks
+ * are Chromium-only) is not checked. The limits are set for the public demo site, the
+ * slowest environment the suite runs against; whether a page over its budget fails the
+ * test is set per environment with `performanceBudgets` (PERFORMANCE_BUDGETS).
+ */
+export const PERFORMANCE_BUDGETS: Record<PerformancePage, PerformanceBudget> = {
+  login: {
+    timeToFirstByte: 800,
+    firstContentfulPaint: 1800,
+    largestContentfulPaint: 2500,
+    load: 3000,
+    cumulativeLayoutShift: 0.1,
+    totalBlockingTime: 300,
+  },
+  dashboard: {
+    timeToFirstByte: 1000,
+    firstContentfulPaint: 2000,
+    largestContentfulPaint: 3000,
+    load: 4000,
+    cumulativeLayoutShift: 0.1,
+    totalBlockingTime: 500,
+    // The dashboard widgets each load their data with a request of their own
+    slowestRequest: 1500,
+  },
+};
@@ -0,0 +1,33 @@
+/**
+ * Network and CPU conditions a Chromium page can be throttled to
+ */
+export interface ThrottlingProfile {
+  // Added round-trip latency in milliseconds, and throughput in bytes per second
+  network?: { latency: number; downloadThroughput: number; uploadThroughput: number };
+  // How many times slower the CPU runs, e.g. 4 for a mid-range phone
+  cpuSlowdown?: number;
+}
+
+export type ThrottlingProfileName = 'slow-3g' | 'fast-3g' | 'slow-cpu' | 'low-end-mobile';
+
+/**
+ * Throttling profiles, applied with the `throttling` option or FaultInjector.throttle()
+ *
+ * The network figures are Chrome DevTools' presets. Throttling goes through the Chrome
+ * DevTools Protocol, so it only applies in Chromium projects.
+ */
+export const THROTTLING_PROFILES: Record<ThrottlingProfileName, ThrottlingProfile> = {
+  'slow-3g': {
+    network: { latency: 2000, downloadThroughput: 50_000, uploadThroughput: 50_000 },
+  },
+  'fast-3g': {
+    network: { latency: 563, downloadThroughput: 180_000, uploadThroughput: 84_375 },
+  },
+  'slow-cpu': {
+    cpuSlowdown: 4,
+  },
+  'low-end-mobile': {
+    network: { latency: 563, downloadThroughput: 180_000, uploadThroughput: 84_375 },
+    cpuSlowdown: 6,
+  },
+};
@@ -0,0 +1,41 @@
+@login
+Feature: OrangeHRM User Login
+  As a user of the OrangeHRM system
+  I want to be able to log into the application
+  So that I can access the HR management features
+
+  Background:
+    Given I am on the OrangeHRM login page
+
+  @smoke
+  Scenario: Successful login with valid credentials
+    When I log in with valid credentials
+    Then I should be on the dashboard
+    And the dashboard shows its title, widgets and my name
+
+  @regression
+  Scenario Outline: Login fails for <description>
+    When I log in as "<username>" with password "<password>"
+    Then I should see the login error "Invalid credentials"
+
+    Examples:
+      | username     | password       | description                       |
+      | invalid_user | invalid_pass   | an unknown user                   |
+      | Admin        | wrong_password | a wrong password                  |
+      | Admin        | Admin123       | a password in the wrong case      |
+
+  @regression
+  Scenario Outline: Required fields are validated when <field> is left empty
+    When I log in as "<username>" with password "<password>"
+    Then the <field> field should say "Required"
+
+    Examples:
+      | username | password | field    |
+      |          | admin123 | username |
+      | Admin    |          | password |
+
+  @smoke
+  Scenario: Log out returns to the login page
+    Given I am logged in
+    When I log out
+    Then I should be back on the login page
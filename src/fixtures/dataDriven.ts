@@ -0,0 +1,40 @@
+import { test } from './test';
+import { DataSourceError } from '@utils/dataSource';
+
+// The body of a test: fixtures destructured from the first argument, as Playwright requires
+type TestBody = Parameters<typeof test>[2];
+
+/**
+ * Declare one named test per row of a dataset
+ *
+ * `title` names each test from its row, and `body` returns the test for a row - a function
+ * that destructures its fixtures, like any test body:
+ *
+ *   testEach(DataSource.load('login-scenarios.csv', 'loginScenarios'),
+ *     row => `Scenario: Login with ${row.description}`,
+ *     row => async ({ loginPage }) => { ... });
+ *
+ * Two rows with the same title would be two tests with the same name, which Playwright
+ * refuses; they are reported together, with the rows they came from.
+ */
+export function testEach<T>(
+  rows: T[],
+  title: (row: T, index: number) => string,
+  body: (row: T, index: number) => TestBody,
+): void {
+  const titles = rows.map((row, index) => title(row, index));
+  const duplicates = titles
+    .map((name, index) => ({ name, row: index + 1 }))
+    .filter(({ name }, index) => titles.indexOf(name) !== index)
+    .map(
+      ({ name, row }) =>
+        `row ${row}: "${name}" is already the title of row ${titles.indexOf(name) + 1}`,
+    );
+  if (duplicates.length > 0) {
+    throw new DataSourceError(duplicates);
+  }
+
+  rows.forEach((row, index) => {
+    test(titles[index], body(row, index));
+  });
+}
@@ -1,20 +1,162 @@
 import { test as base, BrowserContext, Page } from '@playwright/test';
 import { OrangeHRMLoginPage } from '@pages/LoginPage';
 import { OrangeHRMDashboardPage } from '@pages/DashboardPage';
-import { Environment } from '@config/environment';
-import * as fs from 'fs';
+import { PIMEmployeeListPage } from '@pages/PIMEmployeeListPage';
+import { AddEmployeePage } from '@pages/AddEmployeePage';
+import { ApplyLeavePage } from '@pages/ApplyLeavePage';
+import { AssignLeavePage } from '@pages/AssignLeavePage';
+import { LeaveListPage } from '@pages/LeaveListPage';
+import { Environment, EnvironmentConfig, UserRole } from '@config/environment';
+import { AuthStateRegistry } from '@config/authStateRegistry';
+import { OrangeHRMApiClient } from '@api/OrangeHRMApiClient';
+import { DataFactory } from '@api/DataFactory';
+import { ApiMock } from '@api/ApiMock';
+import { Secrets } from '@utils/secrets';
+import { PerformanceMonitor } from '@utils/performance';
+import { NetworkRecorder } from '@utils/networkRecorder';
+import { FaultInjector, FaultRule } from '@utils/faultInjection';
+import type { ThrottlingProfileName } from '@config/throttlingProfiles';
+import type { QuarantineMode } from '@config/configSchema';
+import { SessionManager } from '@utils/session';
+import { RandomSeed } from '@utils/random';
+import { TestReporting } from '@utils/testHelpers';
+import { FlakyTest, ResultsHistory } from '../reporters/ResultsHistory';
 
 // Define custom fixtures for OrangeHRM testing
 type OrangeHRMFixtures = {
   loginPage: OrangeHRMLoginPage;
   dashboardPage: OrangeHRMDashboardPage;
+  employeeListPage: PIMEmployeeListPage;
+  addEmployeePage: AddEmployeePage;
+  applyLeavePage: ApplyLeavePage;
+  assignLeavePage: AssignLeavePage;
+  leaveListPage: LeaveListPage;
   authenticatedPage: Page;
   authenticatedContext: BrowserContext;
-  environment: ReturnType<typeof Environment.getConfig>;
+  environment: EnvironmentConfig;
+  api: OrangeHRMApiClient;
+  dataFactory: DataFactory;
+  mockApi: ApiMock;
+  faultInjector: FaultInjector;
+  networkRecorder: NetworkRecorder;
+  performanceMonitor: PerformanceMonitor;
+  session: SessionManager;
+  newSession: (role?: UserRole) => Promise<SessionManager>;
+  redactAttachments: void;
+  quarantine: void;
+  // The seed of the test's generated data, derived from TEST_SEED and the test's title
+  seed: number;
 };
 
+// Fixtures shared by the tests of a worker
+type OrangeHRMWorkerFixtures = {
+  // The seed of data generated outside tests, such as in beforeAll hooks, derived per worker
+  workerSeed: number;
+};
+
+// Options tests can set with test.use()
+type OrangeHRMOptions = {
+  // Who authenticatedPage and authenticatedContext are signed in as, e.g. test.use({ role: 'ess' })
+  role: UserRole;
+  // What happens to quarantined flaky tests: skipped as fixme, run expecting failure, or run as usual
+  quarantineMode: QuarantineMode;
+  // Faults injected into the browser's OrangeHRM traffic, e.g. test.use({ faults: [{ endpoint: '/buzz/feed', fault: { kind: 'drop' } }] })
+  faults: FaultRule[];
+  // Network and CPU throttling of the test's page (Chromium only), e.g. test.use({ throttling: 'slow-3g' })
+  throttling: ThrottlingProfileName | undefined;
+};
+
+// Quarantine list from the last recorded run, read once per worker
+let quarantined: Map<string, FlakyTest> | undefined;
+
 // Extend base test with custom fixtures
-export const test = base.extend<OrangeHRMFixtures>({
+export const test = base.extend<OrangeHRMFixtures & OrangeHRMOptions, OrangeHRMWorkerFixtures>({
+  role: ['admin', { option: true }],
+  quarantineMode: [Environment.getConfig().quarantine, { option: true }],
+  faults: [[], { option: true }],
+  throttling: [undefined, { option: true }],
+
+  // Masks known passwords in text attachments as they are attached, before they reach the report
+  redactAttachments: [
+    // eslint-disable-next-line no-empty-pattern
+    async ({}, use, testInfo): Promise<void> => {
+      const attach = testInfo.attach.bind(testInfo);
+      testInfo.attach = async (name, options = {}): Promise<void> => {
+        const body =
+          options.body === undefined
+            ? undefined
+            : Secrets.redactBody(options.body, options.contentType);
+        await attach(name, { ...options, body });
+        // A file attachment is copied into the test's output folder; mask the copy, not the original
+        Secrets.redactAttachmentFile(testInfo.attachments[testInfo.attachments.length - 1]);
+      };
+      await use();
+    },
+    { auto: true },
+  ],
+
+  // Seeds the data generated in a worker's hooks, so it differs from other workers' but can be replayed
+  workerSeed: [
+    // eslint-disable-next-line no-empty-pattern
+    async ({}, use, workerInfo): Promise<void> => {
+      const seed = RandomSeed.forWorker(workerInfo);
+      RandomSeed.use(seed);
+      await use(seed);
+    },
+    { scope: 'worker', auto: true },
+  ],
+
+  // Seeds the test's generated data, attaching the seed to the result and printing it when the test fails
+  seed: [
+    async ({ workerSeed }, use, testInfo): Promise<void> => {
+      const seed = RandomSeed.forTest(testInfo);
+      const replay = RandomSeed.replay();
+      await testInfo.attach('seed', {
+        body: `${seed} (replay with ${replay})`,
+        contentType: 'text/plain',
+      });
+      RandomSeed.use(seed);
+      await use(seed);
+      // Back to the worker's generator for afterAll hooks
+      RandomSeed.use(workerSeed);
+      if (testInfo.status !== testInfo.expectedStatus) {
+        TestReporting.logStep(
+          `Seed of "${testInfo.title}"`,
+          `generated its data from seed ${seed}; replay it with ${replay}`,
+        );
+      }
+    },
+    { auto: true },
+  ],
+
+  // Marks tests that test-history/flakiness.json has quarantined as fixme, or as expected to fail
+  quarantine: [
+    async ({ quarantineMode }, use, testInfo): Promise<void> => {
+      if (quarantineMode !== 'off') {
+        quarantined = quarantined ?? new ResultsHistory().readQuarantine();
+        const flaky = quarantined.get(
+          ResultsHistory.testKey([testInfo.project.name, ...testInfo.titlePath]),
+        );
+        if (flaky) {
+          const reason = ResultsHistory.quarantineReason(flaky);
+          if (quarantineMode === 'fail') {
+            testInfo.fail(true, reason);
+          } else {
+            testInfo.fixme(true, reason);
+          }
+        }
+      }
+      await use();
+    },
+    { auto: true },
+  ],
+
+  // Browser context fixture - recorded or replayed, faulted and throttled like every context the test opens
+  context: async ({ context, networkRecorder, faultInjector, throttling }, use) => {
+    await prepareContext(context, networkRecorder, faultInjector, throttling);
+    await use(context);
+  },
+
   // Environment configuration fixture
   environment: async ({}, use) => {
     const config = Environment.getConfig();
@@ -33,95 +175,154 @@ export const test = base.extend<OrangeHRMFixtures>({
     await use(dashboardPage);
   },
 
-  // Pre-authenticated page fixture - useful for tests that don't need to test login
-  authenticatedPage: async ({ browser, environment }, use) => {
-    let context: BrowserContext;
-    let page: Page;
-
-    // Try to use saved authentication state if it exists
-    const authStatePath = 'auth-state/admin-auth.json';
-    if (fs.existsSync(authStatePath)) {
-      // Use saved authentication state
-      context = await browser.newContext({ storageState: authStatePath });
-      page = await context.newPage();
-      
-      // Navigate to dashboard to verify auth state is still valid
-      await page.goto(environment.baseUrl + '/web/index.php/dashboard/index');
-      
-      // Check if we're still logged in by looking for dashboard elements
-      try {
-        await page.waitForSelector('.oxd-topbar-header-breadcrumb h6', { timeout: 5000 });
-      } catch {
-        // Auth state is invalid, need to login manually
-        await page.goto(environment.baseUrl);
-        await page.fill('input[name="username"]', environment.username);
-        await page.fill('input[name="password"]', environment.password);
-        await page.click('button[type="submit"]');
-        await page.waitForSelector('.oxd-topbar-header-breadcrumb h6');
-      }
-    } else {
-      // No saved auth state, login manually
-      context = await browser.newContext();
-      page = await context.newPage();
-      
-      await page.goto(environment.baseUrl);
-      await page.fill('input[name="username"]', environment.username);
-      await page.fill('input[name="password"]', environment.password);
-      await page.click('button[type="submit"]');
-      await page.waitForSelector('.oxd-topbar-header-breadcrumb h6');
-    }
+  // PIM Employee List Page fixture - signed in, since PIM requires a session
+  employeeListPage: async ({ authenticatedPage }, use) => {
+    const employeeListPage = new PIMEmployeeListPage(authenticatedPage);
+    await use(employeeListPage);
+  },
+
+  // PIM Add Employee Page fixture - shares the signed-in page with employeeListPage
+  addEmployeePage: async ({ authenticatedPage }, use) => {
+    const addEmployeePage = new AddEmployeePage(authenticatedPage);
+    await use(addEmployeePage);
+  },
+
+  // Leave Apply Leave Page fixture - signed in, like the other module pages
+  applyLeavePage: async ({ authenticatedPage }, use) => {
+    const applyLeavePage = new ApplyLeavePage(authenticatedPage);
+    await use(applyLeavePage);
+  },
+
+  // Leave Assign Leave Page fixture - shares the signed-in page with the other Leave pages
+  assignLeavePage: async ({ authenticatedPage }, use) => {
+    const assignLeavePage = new AssignLeavePage(authenticatedPage);
+    await use(assignLeavePage);
+  },
+
+  // Leave List Page fixture - shares the signed-in page with the other Leave pages
+  leaveListPage: async ({ authenticatedPage }, use) => {
+    const leaveListPage = new LeaveListPage(authenticatedPage);
+    await use(leaveListPage);
+  },
 
+  // Pre-authenticated page fixture - useful for tests that don't need to test login
+  // Starts blank: page objects navigate to their own page, so no dashboard load is spent here
+  authenticatedPage: async ({ authenticatedContext }, use) => {
+    const page = await authenticatedContext.newPage();
     await use(page);
-    await context.close();
   },
 
   // Pre-authenticated context fixture - useful for tests that need multiple pages
-  authenticatedContext: async ({ browser, environment }, use) => {
-    let context: BrowserContext;
-
-    // Try to use saved authentication state if it exists
-    const authStatePath = 'auth-state/admin-auth.json';
-    if (fs.existsSync(authStatePath)) {
-      context = await browser.newContext({ storageState: authStatePath });
-      
-      // Verify auth state is still valid
-      const page = await context.newPage();
-      await page.goto(environment.baseUrl + '/web/index.php/dashboard/index');
-      
-      try {
-        await page.waitForSelector('.oxd-topbar-header-breadcrumb h6', { timeout: 5000 });
-        await page.close();
-      } catch {
-        // Auth state is invalid, need to login manually
-        await page.goto(environment.baseUrl);
-        await page.fill('input[name="username"]', environment.username);
-        await page.fill('input[name="password"]', environment.password);
-        await page.click('button[type="submit"]');
-        await page.waitForSelector('.oxd-topbar-header-breadcrumb h6');
-        
-        // Save the new auth state
-        await context.storageState({ path: authStatePath });
-        await page.close();
-      }
-    } else {
-      // No saved auth state, login manually and save it
-      context = await browser.newContext();
-      const page = await context.newPage();
-      
-      await page.goto(environment.baseUrl);
-      await page.fill('input[name="username"]', environment.username);
-      await page.fill('input[name="password"]', environment.password);
-      await page.click('button[type="submit"]');
-      await page.waitForSelector('.oxd-topbar-header-breadcrumb h6');
-      
-      // Save auth state for future use
-      await context.storageState({ path: authStatePath });
-      await page.close();
-    }
-
+  // Signed in as the role from test.use(), reusing that role's saved state while it is valid; in replay
+  // mode the recorded responses are already signed in, so no sign-in goes to the site
+  authenticatedContext: async (
+    { browser, role, environment, networkRecorder, faultInjector, throttling },
+    use,
+  ) => {
+    const context =
+      environment.networkMode === 'replay'
+        ? await browser.newContext()
+        : await AuthStateRegistry.newContext(browser, role);
+    await prepareContext(context, networkRecorder, faultInjector, throttling);
     await use(context);
     await context.close();
   },
+
+  // Authenticated REST API client fixture - for arranging and verifying data without the UI
+  api: async ({ request, environment }, use) => {
+    const client = new OrangeHRMApiClient(request, environment);
+    await client.login();
+    await use(client);
+  },
+
+  // Test data factory fixture - creates records through the API and removes them after the test, pass or fail
+  dataFactory: async ({ api }, use, testInfo) => {
+    const factory = new DataFactory(api);
+    await use(factory);
+    const failures = await factory.cleanup();
+    // Records left on a shared site are worth knowing about, though the test itself passed
+    if (failures.length > 0) {
+      await testInfo.attach('cleanup-failures', { body: failures.join('\n'), contentType: 'text/plain' });
+      testInfo.annotations.push({
+        type: 'warning',
+        description: `${failures.length} test record(s) could not be cleaned up, see cleanup-failures`,
+      });
+    }
+  },
+
+  // API mock fixture - answers the page's API requests with chosen payloads, and checks each mock was used
+  mockApi: async ({ page, environment }, use, testInfo) => {
+    const mockApi = new ApiMock(page, environment.apiUrl);
+    await use(mockApi);
+    if (testInfo.status === testInfo.expectedStatus) {
+      mockApi.verify();
+    }
+  },
+
+  // Fault injector fixture - slows down, drops or breaks the OrangeHRM requests of every context the test
+  // opens, with the faults from test.use() or the project and any the test adds
+  faultInjector: async ({ environment, faults }, use) => {
+    const faultInjector = new FaultInjector(environment.apiUrl);
+    await faultInjector.inject(...faults);
+    await use(faultInjector);
+  },
+
+  // Network recorder fixture - records the OrangeHRM traffic of every context the test opens, or replays
+  // it, as NETWORK_MODE says
+  networkRecorder: async ({ environment }, use, testInfo) => {
+    const networkRecorder = new NetworkRecorder(
+      testInfo,
+      environment.networkMode,
+      environment.baseUrl,
+    );
+    await use(networkRecorder);
+    await networkRecorder.finish();
+  },
+
+  // Performance monitor fixture - observes the test's page from its first navigation, for measure()
+  performanceMonitor: async ({ page, environment }, use, testInfo) => {
+    await PerformanceMonitor.install(page);
+    await use(new PerformanceMonitor(testInfo, environment.performanceBudgets));
+  },
+
+  // Session fixture - inspects, expires and replays the OrangeHRM session of the test's own context
+  session: async ({ context, environment }, use) => {
+    await use(new SessionManager(context, environment));
+  },
+
+  // Extra session fixture - opens another context, signed in afresh when given a role, closed after the test
+  newSession: async ({ browser, environment, networkRecorder, faultInjector, throttling }, use) => {
+    const contexts: BrowserContext[] = [];
+    await use(async role => {
+      const context = await browser.newContext();
+      contexts.push(context);
+      await prepareContext(context, networkRecorder, faultInjector, throttling);
+      if (role && environment.networkMode !== 'replay') {
+        await AuthStateRegistry.signIn(context, role);
+      }
+      return new SessionManager(context, environment);
+    });
+    await Promise.all(contexts.map(context => context.close()));
+  },
 });
 
+/**
+ * Record or replay a context's OrangeHRM traffic, inject the test's faults and throttle its pages
+ *
+ * Faults are routed after the recorder, so they see requests first and pass the ones they
+ * let through on to it.
+ */
+async function prepareContext(
+  context: BrowserContext,
+  networkRecorder: NetworkRecorder,
+  faultInjector: FaultInjector,
+  throttling: ThrottlingProfileName | undefined,
+): Promise<void> {
+  await networkRecorder.attach(context);
+  await faultInjector.attach(context);
+  if (throttling) {
+    FaultInjector.throttleContext(context, throttling);
+  }
+}
+
 export { expect } from '@playwright/test';
\ No newline at end of file
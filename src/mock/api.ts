@@ -0,0 +1,719 @@
+/**
+ * OrangeHRM REST API (`/web/index.php/api/v2`) handlers for the local stand-in server
+ *
+ * Each handler receives the parsed request and returns a status plus JSON body shaped
+ * like the real OrangeHRM 5 responses: `{ data, meta, rels }` on success and
+ * `{ error: { status, message } }` on failure.
+ */
+
+import {
+  MockDataStore,
+  MockEmployee,
+  MockLeaveRequest,
+  MockLeaveStatus,
+  MockLocation,
+  MockSession,
+  MockUser,
+  MOCK_COUNTRIES,
+  MOCK_LEAVE_STATUS_IDS,
+} from './store';
+
+// ===== INTERFACES =====
+
+/**
+ * The JSON body fields the stand-in's endpoints read, as OrangeHRM's clients send them
+ */
+export interface ApiRequestBody {
+  ids?: Array<number | string>;
+  // PIM
+  employeeId?: string;
+  firstName?: string;
+  middleName?: string;
+  lastName?: string;
+  empNumber?: number | string;
+  // Users
+  username?: string;
+  password?: string;
+  userRoleId?: number | string;
+  status?: boolean;
+  // Leave
+  leaveTypeId?: number | string;
+  fromDate?: string;
+  toDate?: string;
+  partialOption?: string;
+  duration?: { type?: string };
+  startDuration?: { type?: string };
+  endDuration?: { type?: string };
+  comment?: string;
+  action?: string;
+  // Admin
+  title?: string;
+  name?: string;
+  description?: string;
+  note?: string;
+  parentId?: number | string;
+  countryCode?: string;
+  province?: string;
+  city?: string;
+  address?: string;
+  zipCode?: string;
+  phone?: string;
+  fax?: string;
+}
+
+export interface ApiRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  body: ApiRequestBody;
+  session: MockSession;
+}
+
+export interface ApiResponse {
+  status: number;
+  body: unknown;
+}
+
+type ApiHandler = (request: ApiRequest, params: string[]) => ApiResponse;
+
+// ===== RESPONSE HELPERS =====
+
+function ok(data: unknown, meta: Record<string, unknown> = {}): ApiResponse {
+  return { status: 200, body: { data, meta, rels: [] } };
+}
+
+function error(
+  status: number,
+  message: string,
+  invalidParamKeys?: Record<string, string>,
+): ApiResponse {
+  return {
+    status,
+    body: {
+      error: {
+        status: String(status),
+        message,
+        ...(invalidParamKeys ? { data: { invalidParamKeys } } : {}),
+      },
+    },
+  };
+}
+
+function paginate<T>(items: T[], query: URLSearchParams): ApiResponse {
+  const limit = parseInt(query.get('limit') || '50');
+  const offset = parseInt(query.get('offset') || '0');
+  const page = limit > 0 ? items.slice(offset, offset + limit) : items;
+  return ok(page, { total: items.length });
+}
+
+function toNullable(value: unknown): string | null {
+  return value === undefined || value === null || value === '' ? null : String(value);
+}
+
+function idsFromBody(body: ApiRequestBody): number[] {
+  return Array.isArray(body.ids) ? body.ids.map(id => Number(id)) : [];
+}
+
+// ===== SERIALISERS =====
+
+/**
+ * Actions offered on a leave request, by its current status
+ */
+const LEAVE_ACTIONS: Partial<Record<MockLeaveStatus, Array<{ action: string; name: string }>>> = {
+  'Pending Approval': [
+    { action: 'APPROVE', name: 'Approve' },
+    { action: 'REJECT', name: 'Reject' },
+    { action: 'CANCEL', name: 'Cancel' },
+  ],
+  Scheduled: [{ action: 'CANCEL', name: 'Cancel' }],
+};
+
+/**
+ * Days a leave request takes, with half days counted as half, and how its first and last
+ * day are taken
+ */
+function leaveLength(request: MockLeaveRequest): {
+  days: number;
+  startDuration: string;
+  endDuration: string;
+} {
+  const dates =
+    Math.round((Date.parse(request.toDate) - Date.parse(request.fromDate)) / 86400000) + 1;
+  const half = (duration: string): number => (duration.startsWith('half_day') ? 0.5 : 0);
+
+  if (dates === 1 || request.partialOption === 'all') {
+    const duration = request.duration || 'full_day';
+    return { days: dates - dates * half(duration), startDuration: duration, endDuration: duration };
+  }
+  const startDuration = request.startDuration || 'full_day';
+  const endDuration = request.endDuration || 'full_day';
+  return { days: dates - half(startDuration) - half(endDuration), startDuration, endDuration };
+}
+
+function serializeLeaveRequest(
+  store: MockDataStore,
+  request: MockLeaveRequest,
+): Record<string, unknown> {
+  const leaveType = store.findLeaveType(request.leaveTypeId);
+  const { days, startDuration, endDuration } = leaveLength(request);
+  const allowedActions = LEAVE_ACTIONS[request.status] || [];
+
+  return {
+    id: request.id,
+    employee: store.findEmployee(request.empNumber),
+    leaveType: leaveType
+      ? { id: leaveType.id, name: leaveType.name, deleted: leaveType.deleted }
+      : null,
+    dates: {
+      fromDate: request.fromDate,
+      toDate: request.toDate,
+      partialOption: request.partialOption,
+      duration: request.duration,
+      startDuration,
+      endDuration,
+    },
+    noOfDays: days.toFixed(2),
+    leaveBreakdown: [
+      {
+        status: { id: MOCK_LEAVE_STATUS_IDS[request.status], name: request.status },
+        lengthDays: days.toFixed(2),
+      },
+    ],
+    lastComment: request.comment ? { comment: request.comment } : null,
+    allowedActions,
+  };
+}
+
+function serializeUser(store: MockDataStore, user: MockUser): Record<string, unknown> {
+  return {
+    id: user.id,
+    userName: user.userName,
+    deleted: false,
+    status: user.enabled,
+    employee: store.findEmployee(user.empNumber) || null,
+    userRole: { id: user.role === 'Admin' ? 1 : 2, name: user.role, displayName: user.role },
+  };
+}
+
+function serializeLocation(location: MockLocation): Record<string, unknown> {
+  const { countryCode, ...rest } = location;
+  return {
+    ...rest,
+    country: { countryCode, countryName: MOCK_COUNTRIES[countryCode] || countryCode },
+  };
+}
+
+// ===== HANDLERS =====
+
+/**
+ * Build the route table for the given store
+ *
+ * Routes are matched in order against `METHOD path`; capture groups are passed to the handler.
+ */
+function buildRoutes(store: MockDataStore): Array<[RegExp, ApiHandler]> {
+  const currentEmployee = (session: MockSession): MockEmployee | undefined =>
+    store.getEmployeeForUser(session.userName || '');
+
+  const validateLeave = (body: ApiRequestBody): ApiResponse | undefined => {
+    const invalid: Record<string, string> = {};
+    if (!store.findLeaveType(Number(body.leaveTypeId))) {
+      invalid.leaveTypeId = 'Required';
+    }
+    if (!body.fromDate) {
+      invalid.fromDate = 'Required';
+    }
+    if (!body.toDate) {
+      invalid.toDate = 'Required';
+    }
+    if (body.fromDate && body.toDate && body.toDate < body.fromDate) {
+      invalid.toDate = 'To date should be after from date';
+    }
+    return Object.keys(invalid).length > 0 ? error(422, 'Invalid Parameter', invalid) : undefined;
+  };
+
+  const createLeave = (
+    empNumber: number,
+    body: ApiRequestBody,
+    status: MockLeaveStatus,
+  ): ApiResponse => {
+    const invalid = validateLeave(body);
+    if (invalid) {
+      return invalid;
+    }
+    const request: MockLeaveRequest = {
+      id: store.allocateId(),
+      empNumber,
+      leaveTypeId: Number(body.leaveTypeId),
+      fromDate: String(body.fromDate),
+      toDate: String(body.toDate),
+      partialOption: toNullable(body.partialOption),
+      duration: toNullable(
+        body.duration?.type ?? body.startDuration?.type ?? body.endDuration?.type,
+      ),
+      startDuration: toNullable(body.startDuration?.type),
+      endDuration: toNullable(body.endDuration?.type),
+      comment: toNullable(body.comment),
+      status,
+    };
+    store.leaveRequests.push(request);
+    return ok(serializeLeaveRequest(store, request));
+  };
+
+  const updateLeave = (id: number, action: string): ApiResponse => {
+    const request = store.leaveRequests.find(r => r.id === id);
+    if (!request) {
+      return error(404, 'Record Not Found');
+    }
+    const transitions: Record<string, MockLeaveStatus> = {
+      APPROVE: 'Scheduled',
+      REJECT: 'Rejected',
+      CANCEL: 'Cancelled',
+    };
+    const allowed = (LEAVE_ACTIONS[request.status] || []).map(a => a.action);
+    if (!transitions[action] || !allowed.includes(action)) {
+      return error(422, 'Invalid Parameter', { action: `Action ${action} is not allowed` });
+    }
+    request.status = transitions[action];
+    return ok(serializeLeaveRequest(store, request));
+  };
+
+  const filterLeaves = (
+    requests: MockLeaveRequest[],
+    query: URLSearchParams,
+  ): MockLeaveRequest[] => {
+    const fromDate = query.get('fromDate');
+    const toDate = query.get('toDate');
+    const statuses = query.getAll('statuses[]').map(Number);
+    const leaveTypeId = query.get('leaveTypeId');
+    const empNumber = query.get('empNumber');
+    return requests.filter(
+      r =>
+        (!fromDate || r.toDate >= fromDate) &&
+        (!toDate || r.fromDate <= toDate) &&
+        (statuses.length === 0 || statuses.includes(MOCK_LEAVE_STATUS_IDS[r.status])) &&
+        (!leaveTypeId || r.leaveTypeId === Number(leaveTypeId)) &&
+        (!empNumber || r.empNumber === Number(empNumber)),
+    );
+  };
+
+  return [
+    // ----- Core -----
+    [
+      /^GET \/core\/about$/,
+      (): ApiResponse =>
+        ok({
+          companyName: 'OrangeHRM (Local)',
+          productName: 'OrangeHRM OS',
+          version: '5.7',
+          numberOfActiveEmployee: store.employees.length,
+          numberOfPastEmployee: 0,
+        }),
+    ],
+
+    [
+      /^GET \/core\/validation\/unique$/,
+      ({ query }): ApiResponse => {
+        const value = query.get('value') || '';
+        const target = `${query.get('entityName')}.${query.get('attributeName')}`;
+        const taken =
+          (target === 'Employee.employeeId' &&
+            store.employees.some(emp => emp.employeeId === value)) ||
+          (target === 'User.userName' && store.users.some(user => user.userName === value));
+        return ok({ valid: !taken });
+      },
+    ],
+
+    // ----- PIM -----
+    [
+      /^GET \/pim\/employees$/,
+      ({ query }): ApiResponse => {
+        const nameOrId = (query.get('nameOrId') || '').toLowerCase();
+        const employeeId = (query.get('employeeId') || '').toLowerCase();
+        const empNumber = query.get('empNumber');
+        const matches = store.employees.filter(emp => {
+          const fullName = [emp.firstName, emp.middleName, emp.lastName]
+            .filter(Boolean)
+            .join(' ')
+            .toLowerCase();
+          return (
+            (!nameOrId ||
+              fullName.includes(nameOrId) ||
+              emp.employeeId.toLowerCase() === nameOrId) &&
+            (!employeeId || emp.employeeId.toLowerCase().includes(employeeId)) &&
+            (!empNumber || emp.empNumber === Number(empNumber))
+          );
+        });
+        return paginate(matches, query);
+      },
+    ],
+    [
+      /^GET \/pim\/employees\/(\d+)$/,
+      (_request, [empNumber]): ApiResponse => {
+        const employee = store.findEmployee(Number(empNumber));
+        return employee ? ok(employee) : error(404, 'Record Not Found');
+      },
+    ],
+    [
+      /^POST \/pim\/employees$/,
+      ({ body }): ApiResponse => {
+        const invalid: Record<string, string> = {};
+        if (!body.firstName) {
+          invalid.firstName = 'Required';
+        }
+        if (!body.lastName) {
+          invalid.lastName = 'Required';
+        }
+        if (body.employeeId && store.employees.some(emp => emp.employeeId === body.employeeId)) {
+          invalid.employeeId = 'Employee Id already exists';
+        }
+        if (Object.keys(invalid).length > 0) {
+          return error(422, 'Invalid Parameter', invalid);
+        }
+        const employee: MockEmployee = {
+          empNumber: store.allocateId(),
+          employeeId: body.employeeId || String(store.employees.length + 1).padStart(4, '0'),
+          firstName: String(body.firstName),
+          middleName: body.middleName || '',
+          lastName: String(body.lastName),
+          terminationId: null,
+        };
+        store.employees.push(employee);
+        return ok(employee);
+      },
+    ],
+    [
+      /^DELETE \/pim\/employees$/,
+      ({ body }): ApiResponse => {
+        const ids = idsFromBody(body);
+        store.employees = store.employees.filter(emp => !ids.includes(emp.empNumber));
+        return ok(ids);
+      },
+    ],
+
+    // ----- Users -----
+    [
+      /^GET \/admin\/users$/,
+      ({ query }): ApiResponse => {
+        const userName = query.get('username');
+        const users = store.users.filter(user => !userName || user.userName === userName);
+        return paginate(
+          users.map(user => serializeUser(store, user)),
+          query,
+        );
+      },
+    ],
+    [
+      /^POST \/admin\/users$/,
+      ({ body }): ApiResponse => {
+        const invalid: Record<string, string> = {};
+        const userName = String(body.username || '');
+        const password = String(body.password || '');
+        if (userName.length < 5) {
+          invalid.username = 'Should be at least 5 characters';
+        } else if (store.users.some(user => user.userName === userName)) {
+          invalid.username = 'Username already exists';
+        }
+        if (password.length < 7) {
+          invalid.password = 'Should have at least 7 characters';
+        }
+        if (!store.findEmployee(Number(body.empNumber))) {
+          invalid.empNumber = 'Invalid';
+        }
+        if (Object.keys(invalid).length > 0) {
+          return error(422, 'Invalid Parameter', invalid);
+        }
+        const user: MockUser = {
+          id: store.allocateId(),
+          userName,
+          password,
+          role: Number(body.userRoleId) === 1 ? 'Admin' : 'ESS',
+          empNumber: Number(body.empNumber),
+          enabled: body.status !== false,
+        };
+        store.users.push(user);
+        return ok(serializeUser(store, user));
+      },
+    ],
+
+    // ----- Leave -----
+    [
+      /^GET \/leave\/leave-types$/,
+      ({ query }): ApiResponse =>
+        paginate(
+          store.leaveTypes.filter(t => !t.deleted),
+          query,
+        ),
+    ],
+    [
+      /^GET \/leave\/leave-requests$/,
+      ({ query, session }): ApiResponse => {
+        const employee = currentEmployee(session);
+        const own = store.leaveRequests.filter(r => r.empNumber === employee?.empNumber);
+        return paginate(
+          filterLeaves(own, query).map(r => serializeLeaveRequest(store, r)),
+          query,
+        );
+      },
+    ],
+    [
+      /^POST \/leave\/leave-requests$/,
+      ({ body, session }): ApiResponse => {
+        const employee = currentEmployee(session);
+        return employee
+          ? createLeave(employee.empNumber, body, 'Pending Approval')
+          : error(403, 'Unauthorized');
+      },
+    ],
+    [
+      /^PUT \/leave\/leave-requests\/(\d+)$/,
+      ({ body }, [id]): ApiResponse => updateLeave(Number(id), String(body.action)),
+    ],
+    [
+      /^GET \/leave\/employees\/leave-requests$/,
+      ({ query }): ApiResponse =>
+        paginate(
+          filterLeaves(store.leaveRequests, query).map(r => serializeLeaveRequest(store, r)),
+          query,
+        ),
+    ],
+    [
+      /^GET \/leave\/employees\/leave-requests\/(\d+)$/,
+      (_request, [id]): ApiResponse => {
+        const request = store.leaveRequests.find(r => r.id === Number(id));
+        return request ? ok(serializeLeaveRequest(store, request)) : error(404, 'Record Not Found');
+      },
+    ],
+    [
+      /^POST \/leave\/employees\/leave-requests$/,
+      ({ body }): ApiResponse => {
+        if (!store.findEmployee(Number(body.empNumber))) {
+          return error(422, 'Invalid Parameter', { empNumber: 'Invalid' });
+        }
+        return createLeave(Number(body.empNumber), body, 'Scheduled');
+      },
+    ],
+    [
+      /^PUT \/leave\/employees\/leave-requests\/(\d+)$/,
+      ({ body }, [id]): ApiResponse => updateLeave(Number(id), String(body.action)),
+    ],
+
+    // ----- Admin: job titles -----
+    [/^GET \/admin\/job-titles$/, ({ query }): ApiResponse => paginate(store.jobTitles, query)],
+    [
+      /^POST \/admin\/job-titles$/,
+      ({ body }): ApiResponse => {
+        if (!body.title) {
+          return error(422, 'Invalid Parameter', { title: 'Required' });
+        }
+        if (store.jobTitles.some(job => job.title === body.title)) {
+          return error(422, 'Invalid Parameter', { title: 'Already exists' });
+        }
+        const jobTitle = {
+          id: store.allocateId(),
+          title: body.title,
+          description: toNullable(body.description),
+          note: toNullable(body.note),
+        };
+        store.jobTitles.push(jobTitle);
+        return ok(jobTitle);
+      },
+    ],
+    [
+      /^DELETE \/admin\/job-titles$/,
+      ({ body }): ApiResponse => {
+        const ids = idsFromBody(body);
+        store.jobTitles = store.jobTitles.filter(job => !ids.includes(job.id));
+        return ok(ids);
+      },
+    ],
+
+    // ----- Admin: subunits -----
+    [/^GET \/admin\/subunits$/, ({ query }): ApiResponse => paginate(store.subunits, query)],
+    [
+      /^POST \/admin\/subunits$/,
+      ({ body }): ApiResponse => {
+        if (!body.name) {
+          return error(422, 'Invalid Parameter', { name: 'Required' });
+        }
+        const subunit = {
+          id: store.allocateId(),
+          name: body.name,
+          description: toNullable(body.description),
+          parentId: body.parentId ? Number(body.parentId) : 1,
+        };
+        store.subunits.push(subunit);
+        return ok(subunit);
+      },
+    ],
+    [
+      /^DELETE \/admin\/subunits\/(\d+)$/,
+      (_request, [id]): ApiResponse => {
+        const exists = store.subunits.some(unit => unit.id === Number(id));
+        store.subunits = store.subunits.filter(
+          unit => unit.id !== Number(id) && unit.parentId !== Number(id),
+        );
+        return exists ? ok({ id: Number(id) }) : error(404, 'Record Not Found');
+      },
+    ],
+
+    // ----- Admin: locations -----
+    [
+      /^GET \/admin\/countries$/,
+      ({ query }): ApiResponse =>
+        paginate(
+          Object.entries(MOCK_COUNTRIES).map(([countryCode, countryName]) => ({
+            countryCode,
+            countryName,
+          })),
+          query,
+        ),
+    ],
+    [
+      /^GET \/admin\/locations$/,
+      ({ query }): ApiResponse => paginate(store.locations.map(serializeLocation), query),
+    ],
+    [
+      /^POST \/admin\/locations$/,
+      ({ body }): ApiResponse => {
+        const invalid: Record<string, string> = {};
+        if (!body.name) {
+          invalid.name = 'Required';
+        }
+        if (!MOCK_COUNTRIES[body.countryCode || '']) {
+          invalid.countryCode = 'Required';
+        }
+        if (Object.keys(invalid).length > 0) {
+          return error(422, 'Invalid Parameter', invalid);
+        }
+        const location: MockLocation = {
+          id: store.allocateId(),
+          name: String(body.name),
+          countryCode: String(body.countryCode),
+          province: toNullable(body.province),
+          city: toNullable(body.city),
+          address: toNullable(body.address),
+          zipCode: toNullable(body.zipCode),
+          phone: toNullable(body.phone),
+          fax: toNullable(body.fax),
+          note: toNullable(body.note),
+        };
+        store.locations.push(location);
+        return ok(serializeLocation(location));
+      },
+    ],
+    [
+      /^DELETE \/admin\/locations$/,
+      ({ body }): ApiResponse => {
+        const ids = idsFromBody(body);
+        store.locations = store.locations.filter(location => !ids.includes(location.id));
+        return ok(ids);
+      },
+    ],
+
+    // ----- Dashboard widgets -----
+    [
+      /^GET \/dashboard\/employees\/time-at-work$/,
+      ({ query, session }): ApiResponse => {
+        const employee = currentEmployee(session);
+        const currentDate = query.get('currentDate') || new Date().toISOString().split('T')[0];
+        return ok([], {
+          lastAction: { state: 'PUNCHED OUT', userDate: currentDate, userTime: '00:00' },
+          currentUser: employee || null,
+          currentDay: { currentDate: { date: currentDate }, totalTime: { hours: 0, minutes: 0 } },
+          currentWeek: {
+            startDate: { date: currentDate },
+            endDate: { date: currentDate },
+            totalTime: { hours: 0, minutes: 0 },
+          },
+        });
+      },
+    ],
+    [
+      /^GET \/dashboard\/employees\/leaves$/,
+      ({ query }): ApiResponse => {
+        const date = query.get('date') || new Date().toISOString().split('T')[0];
+        const onLeave = store.getEmployeesOnLeave(date).map(request => ({
+          id: request.id,
+          date,
+          leaveType: {
+            id: request.leaveTypeId,
+            type: store.findLeaveType(request.leaveTypeId)?.name,
+          },
+          employee: store.findEmployee(request.empNumber),
+          duration: request.duration || 'full_day',
+        }));
+        return ok(onLeave, { total: onLeave.length, date });
+      },
+    ],
+    [
+      /^GET \/dashboard\/employees\/subunit$/,
+      (): ApiResponse =>
+        ok(
+          store.subunits
+            .filter(unit => unit.parentId !== null)
+            .map(unit => ({ subunit: { id: unit.id, name: unit.name }, count: 0 })),
+          {
+            otherEmployeeCount: 0,
+            unassignedEmployeeCount: store.employees.length,
+            totalSubunitCount: store.subunits.length - 1,
+          },
+        ),
+    ],
+    [
+      /^GET \/dashboard\/employees\/action-summary$/,
+      (): ApiResponse =>
+        ok([
+          {
+            id: 1,
+            group: 'Leave Requests to Approve',
+            pendingActionCount: store.leaveRequests.filter(r => r.status === 'Pending Approval')
+              .length,
+          },
+        ]),
+    ],
+    [
+      /^GET \/dashboard\/shortcuts$/,
+      (): ApiResponse =>
+        ok({
+          'leave.assign_leave': true,
+          'leave.leave_list': true,
+          'leave.apply_leave': true,
+          'leave.my_leave': true,
+          'time.employee_timesheet': true,
+          'time.my_timesheet': true,
+        }),
+    ],
+    [
+      /^GET \/buzz\/feed$/,
+      ({ query }): ApiResponse => {
+        const posts = [...store.buzzPosts].reverse().map(post => {
+          const [createdDate, createdTime] = post.createdAt.split(' ');
+          return {
+            id: post.id,
+            post: { id: post.id, type: 'text', text: post.text },
+            employee: store.findEmployee(post.empNumber),
+            createdDate,
+            createdTime,
+          };
+        });
+        return paginate(posts, query);
+      },
+    ],
+  ];
+}
+
+/**
+ * Dispatch an API request against the store
+ *
+ * The request path must already be relative to `/web/index.php/api/v2`.
+ */
+export function handleApiRequest(store: MockDataStore, request: ApiRequest): ApiResponse {
+  const key = `${request.method} ${request.path}`;
+  for (const [pattern, handler] of buildRoutes(store)) {
+    const match = pattern.exec(key);
+    if (match) {
+      return handler(request, match.slice(1));
+    }
+  }
+  return error(404, 'Not Found');
+}
@@ -0,0 +1,542 @@
+/**
+ * Leave module pages for the local OrangeHRM stand-in server
+ *
+ * Apply Leave, Assign Leave and Leave List. Like the PIM pages they are shells whose
+ * dropdowns, validation and data are driven by the client script through the REST API.
+ */
+
+import { escapeHtml, renderField } from './markup';
+import { MockDataStore } from './store';
+
+// ===== HELPERS =====
+
+/**
+ * Date format of the date inputs - the demo is configured for yyyy-dd-mm
+ */
+const DATE_FORMAT = 'yyyy-dd-mm';
+
+const LEAVE_STATUSES = ['Rejected', 'Cancelled', 'Pending Approval', 'Scheduled', 'Taken'];
+
+const TABLE_COLUMNS = [
+  'Date',
+  'Employee Name',
+  'Leave Type',
+  'Leave Balance (Days)',
+  'Number of Days',
+  'Status',
+  'Comments',
+  'Actions',
+];
+
+function renderSelect(
+  name: string,
+  options: Array<{ value: string; label: string }>,
+  multiple: boolean = false,
+): string {
+  return `<div class="oxd-select-wrapper" data-select="${name}"${multiple ? ' data-multiple' : ''} data-options="${escapeHtml(JSON.stringify(options))}">
+                      <div class="oxd-select-text oxd-select-text--active" tabindex="0">
+                        <div class="oxd-select-text-input">-- Select --</div>
+                        <div class="oxd-select-text--after"><i class="oxd-icon bi-caret-down-fill oxd-select-text--arrow"></i></div>
+                      </div>
+                      <div class="oxd-select-dropdown --positon-bottom" role="listbox" hidden></div>
+                    </div>${multiple ? '\n                    <div class="oxd-multiselect-chips-area"></div>' : ''}`;
+}
+
+function renderDateInput(name: string): string {
+  return `<div class="oxd-date-wrapper">
+                      <div class="oxd-date-input">
+                        <input class="oxd-input oxd-input--active" name="${name}" placeholder="${DATE_FORMAT}" autocomplete="off">
+                        <i class="oxd-icon bi-calendar oxd-date-input-icon"></i>
+                      </div>
+                    </div>`;
+}
+
+function renderEmployeeAutocomplete(): string {
+  return `<div class="oxd-autocomplete-wrapper">
+                      <div class="oxd-autocomplete-text-input oxd-autocomplete-text-input--active">
+                        <input placeholder="Type for hints..." autocomplete="off" data-autocomplete="employee">
+                      </div>
+                      <div class="oxd-autocomplete-dropdown --positon-bottom" role="listbox" hidden></div>
+                    </div>`;
+}
+
+function leaveTypeOptions(store: MockDataStore): Array<{ value: string; label: string }> {
+  return store.leaveTypes
+    .filter(type => !type.deleted)
+    .map(type => ({ value: String(type.id), label: type.name }));
+}
+
+// ===== PAGES =====
+
+/**
+ * Render the Apply Leave or Assign Leave form
+ *
+ * Assign Leave adds the employee autocomplete. The partial day and duration dropdowns
+ * start hidden; the client script shows the ones that apply to the chosen dates.
+ */
+export function renderLeaveRequestForm(store: MockDataStore, mode: 'apply' | 'assign'): string {
+  const title = mode === 'apply' ? 'Apply Leave' : 'Assign Leave';
+  const employeeRow =
+    mode === 'assign'
+      ? `
+            <div class="oxd-form-row">
+              <div class="oxd-grid-2 orangehrm-full-width-grid">${renderField('Employee Name', renderEmployeeAutocomplete(), true)}
+              </div>
+            </div>`
+      : '';
+  const hiddenField = (group: string, label: string): string =>
+    `<div data-group="${group}" hidden>${renderField(label, renderSelect(group, []))}</div>`;
+
+  return `
+      <div class="orangehrm-background-container">
+        <div class="orangehrm-card-container">
+          <h6 class="oxd-text oxd-text--h6 orangehrm-main-title">${title}</h6>
+          <hr class="oxd-divider">
+          <form class="oxd-form" data-form="leave-request" data-mode="${mode}" novalidate>${employeeRow}
+            <div class="oxd-form-row">
+              <div class="oxd-grid-4 orangehrm-full-width-grid">${renderField('Leave Type', renderSelect('leaveType', leaveTypeOptions(store)), true)}
+              </div>
+            </div>
+            <div class="oxd-form-row">
+              <div class="oxd-grid-4 orangehrm-full-width-grid">${renderField('From Date', renderDateInput('fromDate'), true)}${renderField('To Date', renderDateInput('toDate'), true)}
+              </div>
+            </div>
+            <div class="oxd-form-row">
+              <div class="oxd-grid-4 orangehrm-full-width-grid">${hiddenField('partialDays', 'Partial Days')}${hiddenField('duration', 'Duration')}${hiddenField('startDay', 'Start Day')}${hiddenField('endDay', 'End Day')}
+              </div>
+            </div>
+            <div class="oxd-form-row">
+              <div class="oxd-grid-2 orangehrm-full-width-grid">${renderField('Comments', '<textarea class="oxd-textarea oxd-textarea--active oxd-textarea--resize-vertical" name="comment"></textarea>')}
+              </div>
+            </div>
+            <hr class="oxd-divider">
+            <div class="oxd-form-actions">
+              <p class="oxd-text oxd-text--p orangehrm-form-hint">* Required</p>
+              <button type="submit" class="oxd-button oxd-button--medium oxd-button--secondary orangehrm-left-space">${mode === 'apply' ? 'Apply' : 'Assign'}</button>
+            </div>
+          </form>
+        </div>
+      </div>`;
+}
+
+/**
+ * Render the Leave List: filters and the leave request table
+ */
+export function renderLeaveListContent(store: MockDataStore): string {
+  const headerCells = TABLE_COLUMNS.map(
+    column =>
+      `<div class="oxd-table-header-cell oxd-padding-cell oxd-table-th" role="columnheader">${escapeHtml(column)}</div>`,
+  ).join('');
+  const statusOptions = LEAVE_STATUSES.map(status => ({ value: status, label: status }));
+
+  return `
+      <div class="oxd-table-filter">
+        <div class="oxd-table-filter-header">
+          <div class="oxd-table-filter-header-title">
+            <h5 class="oxd-text oxd-text--h5 oxd-table-filter-title">Leave List</h5>
+          </div>
+        </div>
+        <hr class="oxd-divider">
+        <form class="oxd-form" data-form="leave-search" novalidate>
+          <div class="oxd-form-row">
+            <div class="oxd-grid-4 orangehrm-full-width-grid">${renderField('From Date', renderDateInput('fromDate'))}${renderField('To Date', renderDateInput('toDate'))}${renderField('Show Leave with Status', renderSelect('statuses', statusOptions, true), true)}${renderField('Leave Type', renderSelect('leaveType', leaveTypeOptions(store)))}
+            </div>
+          </div>
+          <div class="oxd-form-row">
+            <div class="oxd-grid-4 orangehrm-full-width-grid">${renderField('Employee Name', renderEmployeeAutocomplete())}
+            </div>
+          </div>
+          <div class="oxd-form-actions">
+            <button type="reset" class="oxd-button oxd-button--medium oxd-button--ghost">Reset</button>
+            <button type="submit" class="oxd-button oxd-button--medium oxd-button--secondary orangehrm-left-space">Search</button>
+          </div>
+        </form>
+      </div>
+      <div class="orangehrm-paper-container">
+        <div class="orangehrm-horizontal-padding orangehrm-vertical-padding">
+          <span class="oxd-text oxd-text--span" data-records-found></span>
+        </div>
+        <div class="orangehrm-container">
+          <div class="oxd-table" role="table">
+            <div class="oxd-table-header" role="rowgroup">
+              <div class="oxd-table-row oxd-table-row--with-border" role="row"><div class="oxd-table-header-cell oxd-padding-cell oxd-table-th" role="columnheader"></div>${headerCells}</div>
+            </div>
+            <div class="oxd-table-body" role="rowgroup" data-leave-table></div>
+          </div>
+        </div>
+      </div>`;
+}
+
+/**
+ * Render the Leave page for a path, or `undefined` when the path is not a Leave page
+ */
+export function renderLeaveContent(store: MockDataStore, pathname: string): string | undefined {
+  if (pathname === '/web/index.php/leave/applyLeave') {
+    return renderLeaveRequestForm(store, 'apply');
+  }
+  if (pathname === '/web/index.php/leave/assignLeave') {
+    return renderLeaveRequestForm(store, 'assign');
+  }
+  if (pathname === '/web/index.php/leave/viewLeaveList') {
+    return renderLeaveListContent(store);
+  }
+  return undefined;
+}
+
+// ===== CLIENT SCRIPT =====
+
+/**
+ * Leave behaviour appended to `/web/dist/js/app.js`: select dropdowns (single and multi),
+ * the leave request forms with their partial day options, and the leave list
+ */
+export const LEAVE_JS = `
+(function () {
+  'use strict';
+
+  var api = window.ohrmApi;
+  var setFieldError = window.oxdSetFieldError;
+
+  function escapeHtml(value) {
+    return String(value == null ? '' : value)
+      .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+  }
+
+  // ----- Select dropdowns -----
+  function selectedValues(wrapper) {
+    return wrapper.dataset.value ? JSON.parse(wrapper.dataset.value) : [];
+  }
+
+  function renderSelection(wrapper) {
+    var options = JSON.parse(wrapper.dataset.options);
+    var values = selectedValues(wrapper);
+    var labelFor = function (value) {
+      var option = options.filter(function (o) { return o.value === value; })[0];
+      return option ? option.label : value;
+    };
+    if (wrapper.hasAttribute('data-multiple')) {
+      wrapper.parentNode.querySelector('.oxd-multiselect-chips-area').innerHTML = values.map(function (value) {
+        return '<span class="oxd-chip oxd-chip--default oxd-multiselect-chips-selected" data-value="' + escapeHtml(value) + '">' + escapeHtml(labelFor(value)) + '<i class="oxd-icon bi-x --clear"></i></span>';
+      }).join('');
+    } else {
+      wrapper.querySelector('.oxd-select-text-input').textContent = values.length > 0 ? labelFor(values[0]) : '-- Select --';
+    }
+  }
+
+  function setSelectValue(wrapper, values) {
+    wrapper.dataset.value = JSON.stringify(values);
+    renderSelection(wrapper);
+    wrapper.dispatchEvent(new CustomEvent('oxd-select-change', { bubbles: true }));
+  }
+
+  function setSelectOptions(wrapper, options, value) {
+    wrapper.dataset.options = JSON.stringify(options);
+    setSelectValue(wrapper, value ? [value] : []);
+  }
+
+  function closeSelects() {
+    document.querySelectorAll('.oxd-select-dropdown').forEach(function (dropdown) {
+      dropdown.hidden = true;
+      dropdown.innerHTML = '';
+    });
+  }
+
+  document.querySelectorAll('[data-select]').forEach(function (wrapper) {
+    var text = wrapper.querySelector('.oxd-select-text');
+    var dropdown = wrapper.querySelector('.oxd-select-dropdown');
+
+    text.addEventListener('click', function (event) {
+      event.stopPropagation();
+      var wasOpen = !dropdown.hidden;
+      closeSelects();
+      if (wasOpen) { return; }
+      var values = selectedValues(wrapper);
+      var options = JSON.parse(wrapper.dataset.options).filter(function (option) {
+        return !wrapper.hasAttribute('data-multiple') || values.indexOf(option.value) === -1;
+      });
+      var placeholder = wrapper.hasAttribute('data-multiple') ? '' : '<div class="oxd-select-option" role="option" data-value="">-- Select --</div>';
+      dropdown.innerHTML = placeholder + options.map(function (option) {
+        return '<div class="oxd-select-option" role="option" data-value="' + escapeHtml(option.value) + '"><span>' + escapeHtml(option.label) + '</span></div>';
+      }).join('');
+      dropdown.hidden = false;
+    });
+
+    dropdown.addEventListener('click', function (event) {
+      event.stopPropagation();
+      var option = event.target.closest('.oxd-select-option');
+      if (!option) { return; }
+      var value = option.dataset.value;
+      closeSelects();
+      if (wrapper.hasAttribute('data-multiple')) {
+        setSelectValue(wrapper, selectedValues(wrapper).concat([value]));
+      } else {
+        setSelectValue(wrapper, value ? [value] : []);
+      }
+    });
+
+    var chips = wrapper.parentNode.querySelector('.oxd-multiselect-chips-area');
+    if (chips) {
+      chips.addEventListener('click', function (event) {
+        var clear = event.target.closest('.--clear');
+        if (!clear) { return; }
+        var value = clear.closest('.oxd-chip').dataset.value;
+        setSelectValue(wrapper, selectedValues(wrapper).filter(function (v) { return v !== value; }));
+      });
+    }
+  });
+
+  document.addEventListener('click', closeSelects);
+
+  // ----- Dates -----
+  // Parse a date typed in the input's placeholder format into YYYY-MM-DD ('' when empty, null when invalid)
+  function parseDate(input) {
+    var value = input.value.trim();
+    if (value === '') { return ''; }
+    var format = input.getAttribute('placeholder');
+    if (value.length !== format.length) { return null; }
+    var year = value.substr(format.indexOf('yyyy'), 4);
+    var month = value.substr(format.indexOf('mm'), 2);
+    var day = value.substr(format.indexOf('dd'), 2);
+    var iso = year + '-' + month + '-' + day;
+    var date = new Date(iso + 'T00:00:00Z');
+    // Separators and digits must be exactly as the format has them, e.g. 2024/06/01 is not yyyy-mm-dd
+    return isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== iso || formatDate(iso, format) !== value ? null : iso;
+  }
+
+  function formatDate(iso, format) {
+    var parts = iso.split('-');
+    return format.replace('yyyy', parts[0]).replace('mm', parts[1]).replace('dd', parts[2]);
+  }
+
+  // ----- Leave request forms -----
+  var DURATIONS = { 'Full Day': 'full_day', 'Half Day - Morning': 'half_day_morning', 'Half Day - Afternoon': 'half_day_afternoon' };
+  var PARTIAL_OPTIONS = [
+    { value: 'none', label: 'None' },
+    { value: 'all', label: 'All Days' },
+    { value: 'start', label: 'Start Day Only' },
+    { value: 'end', label: 'End Day Only' },
+    { value: 'start_end', label: 'Start and End' }
+  ];
+
+  function durationOptions(withFullDay) {
+    return Object.keys(DURATIONS).filter(function (label) { return withFullDay || label !== 'Full Day'; })
+      .map(function (label) { return { value: DURATIONS[label], label: label }; });
+  }
+
+  var leaveForm = document.querySelector('form[data-form="leave-request"]');
+  if (leaveForm) {
+    var mode = leaveForm.dataset.mode;
+    var submitButton = leaveForm.querySelector('button[type="submit"]');
+    var employeeInput = leaveForm.querySelector('[data-autocomplete="employee"]');
+    var leaveTypeSelect = leaveForm.querySelector('[data-select="leaveType"]');
+    var fromInput = leaveForm.querySelector('input[name="fromDate"]');
+    var toInput = leaveForm.querySelector('input[name="toDate"]');
+    var commentInput = leaveForm.querySelector('textarea[name="comment"]');
+
+    function group(name) { return leaveForm.querySelector('[data-group="' + name + '"]'); }
+    function select(name) { return leaveForm.querySelector('[data-select="' + name + '"]'); }
+    function showGroup(name, visible) { group(name).hidden = !visible; }
+
+    function updateDurationFields() {
+      var fromDate = parseDate(fromInput);
+      var toDate = parseDate(toInput);
+      var hasRange = !!fromDate && !!toDate;
+      var multiDay = hasRange && fromDate < toDate;
+      var partial = multiDay ? (selectedValues(select('partialDays'))[0] || 'none') : 'none';
+      showGroup('partialDays', multiDay);
+      showGroup('duration', (hasRange && !multiDay) || partial === 'all');
+      showGroup('startDay', partial === 'start' || partial === 'start_end');
+      showGroup('endDay', partial === 'end' || partial === 'start_end');
+    }
+
+    function resetDurationFields() {
+      setSelectOptions(select('partialDays'), PARTIAL_OPTIONS, 'none');
+      setSelectOptions(select('duration'), durationOptions(true), 'full_day');
+      setSelectOptions(select('startDay'), durationOptions(false), 'half_day_morning');
+      setSelectOptions(select('endDay'), durationOptions(false), 'half_day_morning');
+    }
+
+    fromInput.addEventListener('input', function () {
+      if (toInput.value.trim() === '' && parseDate(fromInput)) { toInput.value = fromInput.value; }
+      updateDurationFields();
+    });
+    toInput.addEventListener('input', updateDurationFields);
+    select('partialDays').addEventListener('oxd-select-change', function () {
+      var partial = selectedValues(select('partialDays'))[0];
+      setSelectOptions(select('duration'), durationOptions(partial !== 'all'), partial === 'all' ? 'half_day_morning' : 'full_day');
+      updateDurationFields();
+    });
+
+    function validate() {
+      var errors = [];
+      if (employeeInput && !employeeInput.dataset.empNumber) {
+        errors.push([employeeInput, employeeInput.value.trim() === '' ? 'Required' : 'Invalid']);
+      }
+      if (selectedValues(leaveTypeSelect).length === 0) { errors.push([leaveTypeSelect, 'Required']); }
+      var fromDate = parseDate(fromInput);
+      var toDate = parseDate(toInput);
+      var invalidDate = 'Should be a valid date in ' + fromInput.getAttribute('placeholder') + ' format';
+      if (fromDate === '') { errors.push([fromInput, 'Required']); } else if (fromDate === null) { errors.push([fromInput, invalidDate]); }
+      if (toDate === '') { errors.push([toInput, 'Required']); } else if (toDate === null) { errors.push([toInput, invalidDate]); } else if (fromDate && toDate < fromDate) { errors.push([toInput, 'To date should be after from date']); }
+      if (commentInput.value.length > 250) { errors.push([commentInput, 'Should not exceed 250 characters']); }
+      return errors;
+    }
+
+    function payload() {
+      var fromDate = parseDate(fromInput);
+      var toDate = parseDate(toInput);
+      var body = {
+        leaveTypeId: Number(selectedValues(leaveTypeSelect)[0]),
+        fromDate: fromDate,
+        toDate: toDate,
+        comment: commentInput.value.trim() || null
+      };
+      var duration = function (name) { return { type: selectedValues(select(name))[0] }; };
+      if (fromDate === toDate) {
+        body.duration = duration('duration');
+      } else {
+        var partial = selectedValues(select('partialDays'))[0];
+        if (partial !== 'none') { body.partialOption = partial; }
+        if (partial === 'all') { body.duration = duration('duration'); }
+        if (partial === 'start' || partial === 'start_end') { body.startDuration = duration('startDay'); }
+        if (partial === 'end' || partial === 'start_end') { body.endDuration = duration('endDay'); }
+      }
+      if (mode === 'assign') { body.empNumber = Number(employeeInput.dataset.empNumber); }
+      return body;
+    }
+
+    function resetForm() {
+      leaveForm.reset();
+      if (employeeInput) { delete employeeInput.dataset.empNumber; }
+      setSelectValue(leaveTypeSelect, []);
+      resetDurationFields();
+      updateDurationFields();
+    }
+
+    leaveForm.addEventListener('submit', function (event) {
+      event.preventDefault();
+      [employeeInput, leaveTypeSelect, fromInput, toInput, commentInput].forEach(function (field) {
+        if (field) { setFieldError(field, ''); }
+      });
+      var errors = validate();
+      errors.forEach(function (error) { setFieldError(error[0], error[1]); });
+      if (errors.length > 0) { return; }
+
+      submitButton.disabled = true;
+      api(mode === 'apply' ? '/leave/leave-requests' : '/leave/employees/leave-requests', {
+        method: 'POST',
+        body: JSON.stringify(payload())
+      }).then(function () {
+        window.oxdToast({ type: 'success', title: 'Success', message: 'Successfully Saved' });
+        resetForm();
+      }).catch(function () {}).then(function () {
+        submitButton.disabled = false;
+      });
+    });
+
+    resetDurationFields();
+  }
+
+  // ----- Leave list -----
+  var leaveTable = document.querySelector('[data-leave-table]');
+  var leaveSearchForm = document.querySelector('form[data-form="leave-search"]');
+  if (leaveTable && leaveSearchForm) {
+    var recordsFound = document.querySelector('[data-records-found]');
+    var listFromInput = leaveSearchForm.querySelector('input[name="fromDate"]');
+    var listToInput = leaveSearchForm.querySelector('input[name="toDate"]');
+    var statusSelect = leaveSearchForm.querySelector('[data-select="statuses"]');
+    var listLeaveTypeSelect = leaveSearchForm.querySelector('[data-select="leaveType"]');
+    var listEmployeeInput = leaveSearchForm.querySelector('[data-autocomplete="employee"]');
+    var STATUS_IDS = { 'Rejected': -1, 'Cancelled': 0, 'Pending Approval': 1, 'Scheduled': 2, 'Taken': 3 };
+
+    function setDefaultFilters() {
+      var year = new Date().getFullYear();
+      listFromInput.value = formatDate(year + '-01-01', listFromInput.getAttribute('placeholder'));
+      listToInput.value = formatDate(year + '-12-31', listToInput.getAttribute('placeholder'));
+      setSelectValue(statusSelect, ['Pending Approval']);
+      setSelectValue(listLeaveTypeSelect, []);
+      listEmployeeInput.value = '';
+      delete listEmployeeInput.dataset.empNumber;
+    }
+
+    function renderLeaveRow(request) {
+      var format = listFromInput.getAttribute('placeholder');
+      var dates = request.dates.fromDate === request.dates.toDate
+        ? formatDate(request.dates.fromDate, format)
+        : formatDate(request.dates.fromDate, format) + ' to ' + formatDate(request.dates.toDate, format);
+      var status = request.leaveBreakdown[0];
+      var actions = request.allowedActions.filter(function (a) { return a.action === 'APPROVE' || a.action === 'REJECT'; })
+        .map(function (a) {
+          var style = a.action === 'APPROVE' ? 'oxd-button--label-success' : 'oxd-button--label-danger';
+          return '<button type="button" class="oxd-button oxd-button--medium ' + style + ' oxd-table-cell-action-space" data-action="' + a.action + '">' + escapeHtml(a.name) + '</button>';
+        }).join('');
+      var cells = [
+        '<div class="oxd-table-card-cell-checkbox"><div class="oxd-checkbox-wrapper"><label><input type="checkbox" value="' + request.id + '"><span class="oxd-checkbox-input oxd-checkbox-input--active --label-right"></span></label></div></div>',
+        escapeHtml(dates),
+        escapeHtml(request.employee ? request.employee.firstName + ' ' + request.employee.lastName : ''),
+        escapeHtml(request.leaveType ? request.leaveType.name : ''),
+        '0.00',
+        escapeHtml(request.noOfDays),
+        escapeHtml(status.status.name + ' (' + status.lengthDays + ')'),
+        escapeHtml(request.lastComment ? request.lastComment.comment : ''),
+        '<div class="oxd-table-cell-actions">' + actions + '</div>'
+      ];
+      return '<div class="oxd-table-card">' +
+        '<div class="oxd-table-row oxd-table-row--with-border" role="row" data-leave-request-id="' + request.id + '">' +
+          cells.map(function (cell) { return '<div class="oxd-table-cell oxd-padding-cell" role="cell"><div>' + cell + '</div></div>'; }).join('') +
+        '</div>' +
+      '</div>';
+    }
+
+    function loadLeaves(notifyEmpty) {
+      var statuses = selectedValues(statusSelect);
+      setFieldError(statusSelect, statuses.length === 0 ? 'Required' : '');
+      if (statuses.length === 0) { return; }
+      var query = '?limit=50&offset=0' + statuses.map(function (status) { return '&statuses[]=' + STATUS_IDS[status]; }).join('');
+      var fromDate = parseDate(listFromInput);
+      var toDate = parseDate(listToInput);
+      if (fromDate) { query += '&fromDate=' + fromDate; }
+      if (toDate) { query += '&toDate=' + toDate; }
+      var leaveTypeId = selectedValues(listLeaveTypeSelect)[0];
+      if (leaveTypeId) { query += '&leaveTypeId=' + leaveTypeId; }
+      if (listEmployeeInput.dataset.empNumber) { query += '&empNumber=' + listEmployeeInput.dataset.empNumber; }
+      leaveTable.innerHTML = '<div class="oxd-loading-spinner-container"><div class="oxd-loading-spinner"></div></div>';
+      api('/leave/employees/leave-requests' + query).then(function (body) {
+        var total = body.meta.total;
+        leaveTable.innerHTML = body.data.map(renderLeaveRow).join('');
+        recordsFound.textContent = total === 0 ? 'No Records Found' : '(' + total + ') ' + (total === 1 ? 'Record' : 'Records') + ' Found';
+        if (total === 0 && notifyEmpty) {
+          window.oxdToast({ type: 'info', title: 'Info', message: 'No Records Found' });
+        }
+      }).catch(function () { leaveTable.innerHTML = ''; });
+    }
+
+    leaveSearchForm.addEventListener('submit', function (event) {
+      event.preventDefault();
+      loadLeaves(true);
+    });
+    leaveSearchForm.addEventListener('reset', function () {
+      setTimeout(function () {
+        setDefaultFilters();
+        loadLeaves(false);
+      }, 0);
+    });
+    leaveTable.addEventListener('click', function (event) {
+      var button = event.target.closest('[data-action]');
+      if (!button) { return; }
+      var id = button.closest('[data-leave-request-id]').dataset.leaveRequestId;
+      button.disabled = true;
+      api('/leave/employees/leave-requests/' + id, {
+        method: 'PUT',
+        body: JSON.stringify({ action: button.dataset.action })
+      }).then(function () {
+        window.oxdToast({ type: 'success', title: 'Success', message: 'Successfully Updated' });
+        loadLeaves(false);
+      }).catch(function () { button.disabled = false; });
+    });
+
+    setDefaultFilters();
+    loadLeaves(false);
+  }
+})();
+`;
@@ -0,0 +1,670 @@
+/**
+ * HTML, CSS and client script for the local OrangeHRM stand-in server
+ *
+ * The markup reuses the `oxd-*` and `orangehrm-*` class names of the real OrangeHRM 5
+ * Vue components, so the page objects under `src/pages` work unchanged against it.
+ * Pages are server-rendered; a small client script adds the interactive behaviour
+ * (client-side validation, user dropdown, side menu, toasts and dashboard widgets).
+ */
+
+// ===== INTERFACES =====
+
+export interface LayoutOptions {
+  title: string;
+  module: string;
+  userName: string;
+  content: string;
+  toast?: ToastMessage;
+}
+
+export interface ToastMessage {
+  type: 'success' | 'error' | 'warn' | 'info';
+  title: string;
+  message: string;
+}
+
+export interface LoginPageOptions {
+  csrfToken: string;
+  error?: string;
+}
+
+/**
+ * Main menu entries and the module page each one links to
+ */
+export const MAIN_MENU_ITEMS: Array<{ name: string; path: string }> = [
+  { name: 'Admin', path: '/web/index.php/admin/viewAdminModule' },
+  { name: 'PIM', path: '/web/index.php/pim/viewPimModule' },
+  { name: 'Leave', path: '/web/index.php/leave/viewLeaveModule' },
+  { name: 'Time', path: '/web/index.php/time/viewTimeModule' },
+  { name: 'Recruitment', path: '/web/index.php/recruitment/viewRecruitmentModule' },
+  { name: 'My Info', path: '/web/index.php/pim/viewMyDetails' },
+  { name: 'Performance', path: '/web/index.php/performance/viewPerformanceModule' },
+  { name: 'Dashboard', path: '/web/index.php/dashboard/index' },
+  { name: 'Directory', path: '/web/index.php/directory/viewDirectory' },
+  { name: 'Maintenance', path: '/web/index.php/maintenance/viewMaintenanceModule' },
+  { name: 'Claim', path: '/web/index.php/claim/viewClaimModule' },
+  { name: 'Buzz', path: '/web/index.php/buzz/viewBuzz' },
+];
+
+/**
+ * Dashboard quick launch shortcuts
+ */
+export const QUICK_LAUNCH_ITEMS: Array<{ name: string; path: string }> = [
+  { name: 'Assign Leave', path: '/web/index.php/leave/assignLeave' },
+  { name: 'Leave List', path: '/web/index.php/leave/viewLeaveList' },
+  { name: 'Timesheets', path: '/web/index.php/time/viewEmployeeTimesheet' },
+  { name: 'Apply Leave', path: '/web/index.php/leave/applyLeave' },
+  { name: 'My Leave', path: '/web/index.php/leave/viewMyLeaveList' },
+  { name: 'My Timesheet', path: '/web/index.php/time/viewMyTimesheet' },
+];
+
+// ===== HELPERS =====
+
+/**
+ * Escape a value for safe interpolation into HTML text or attribute values
+ */
+export function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Render a labelled field for the `oxd-grid` form layout used by the module pages
+ */
+export function renderField(label: string, input: string, required: boolean = false): string {
+  return `
+              <div class="oxd-grid-item oxd-grid-item--gutters">
+                <div class="oxd-input-group oxd-input-field-bottom-space">
+                  <div class="oxd-input-group__label-wrapper">
+                    <label class="oxd-label${required ? ' oxd-input-field-required' : ''}">${escapeHtml(label)}</label>
+                  </div>
+                  <div>${input}</div>
+                </div>
+              </div>`;
+}
+
+function renderDocument(title: string, body: string, bodyAttributes: string = ''): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(title)}</title>
+  <link rel="stylesheet" href="/web/dist/css/app.css">
+  <link rel="icon" href="/web/dist/favicon.ico">
+</head>
+<body${bodyAttributes}>
+  <div id="app">${body}</div>
+  <div class="oxd-toast-container oxd-toast-container--bottom" aria-live="polite"></div>
+  <script src="/web/dist/js/app.js"></script>
+</body>
+</html>`;
+}
+
+function renderInputGroup(label: string, name: string, type: string = 'text'): string {
+  return `
+          <div class="oxd-form-row">
+            <div class="oxd-input-group oxd-input-field-bottom-space">
+              <div class="oxd-input-group__label-wrapper">
+                <label class="oxd-label">${escapeHtml(label)}</label>
+              </div>
+              <div>
+                <input class="oxd-input oxd-input--active" name="${name}" type="${type}" placeholder="${escapeHtml(label)}" autocomplete="off" data-required="true">
+              </div>
+            </div>
+          </div>`;
+}
+
+// ===== PAGES =====
+
+/**
+ * Render the login page
+ *
+ * The CSRF token is emitted both as the hidden `_token` field the form posts and in the
+ * `:token` prop of `<auth-login>`, which is where the real Vue app exposes it.
+ */
+export function renderLoginPage(options: LoginPageOptions): string {
+  const alert = options.error
+    ? `
+        <div class="oxd-alert oxd-alert--error" role="alert">
+          <div class="oxd-alert-content oxd-alert-content--error">
+            <i class="oxd-icon bi-exclamation-circle oxd-alert-content-icon"></i>
+            <p class="oxd-text oxd-text--p oxd-alert-content-text">${escapeHtml(options.error)}</p>
+          </div>
+        </div>`
+    : '';
+
+  const body = `
+  <auth-login :token="&quot;${escapeHtml(options.csrfToken)}&quot;"></auth-login>
+  <div class="orangehrm-login-layout">
+    <div class="orangehrm-login-layout-blob">
+      <div class="orangehrm-login-container">
+        <div class="orangehrm-login-slot-wrapper">
+          <div class="orangehrm-login-branding">
+            <img src="/web/images/ohrm_branding.svg" alt="company-branding">
+          </div>
+          <div class="orangehrm-login-slot">
+            <h5 class="oxd-text oxd-text--h5 orangehrm-login-title">Login</h5>
+            <div class="orangehrm-login-form">
+              <div class="orangehrm-login-error">${alert}
+              </div>
+              <form class="oxd-form" method="post" action="/web/index.php/auth/validate" novalidate>
+                <input type="hidden" name="_token" value="${escapeHtml(options.csrfToken)}">${renderInputGroup('Username', 'username')}${renderInputGroup('Password', 'password', 'password')}
+                <div class="oxd-form-actions orangehrm-login-action">
+                  <button type="submit" class="oxd-button oxd-button--medium oxd-button--main orangehrm-login-button">Login</button>
+                </div>
+                <div class="orangehrm-login-forgot">
+                  <p class="oxd-text oxd-text--p orangehrm-login-forgot-header">Forgot your password?</p>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+        <div class="orangehrm-login-footer">
+          <div class="orangehrm-login-footer-sm">
+            <a href="https://www.linkedin.com/company/orangehrm" target="_blank" rel="noopener">in</a>
+            <a href="https://www.facebook.com/OrangeHRM" target="_blank" rel="noopener">f</a>
+            <a href="https://twitter.com/orangehrm" target="_blank" rel="noopener">t</a>
+            <a href="https://www.youtube.com/c/OrangeHRMInc" target="_blank" rel="noopener">yt</a>
+          </div>
+          <div class="orangehrm-copyright-wrapper">
+            <p class="oxd-text oxd-text--p orangehrm-copyright">OrangeHRM OS 5.7 (local stand-in)</p>
+            <p class="oxd-text oxd-text--p orangehrm-copyright">&copy; 2005 - ${new Date().getFullYear()} OrangeHRM, Inc. All rights reserved.</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  </div>`;
+
+  return renderDocument('OrangeHRM', body);
+}
+
+/**
+ * Render the "Reset Password" request page linked from the login form
+ */
+export function renderRequestPasswordResetPage(): string {
+  const body = `
+  <div class="orangehrm-forgot-password-container">
+    <div class="orangehrm-card-container">
+      <h6 class="oxd-text oxd-text--h6 orangehrm-forgot-password-title">Reset Password</h6>
+      <form class="oxd-form" novalidate>${renderInputGroup('Username', 'username')}
+        <div class="oxd-form-actions orangehrm-forgot-password-button-container">
+          <a class="oxd-button oxd-button--large oxd-button--ghost orangehrm-forgot-password-button--cancel" href="/web/index.php/auth/login">Cancel</a>
+          <button type="submit" class="oxd-button oxd-button--large oxd-button--secondary orangehrm-forgot-password-button--reset">Reset Password</button>
+        </div>
+      </form>
+    </div>
+  </div>`;
+
+  return renderDocument('OrangeHRM', body);
+}
+
+/**
+ * Render the authenticated application shell: side menu, top bar, user dropdown and content
+ */
+export function renderLayout(options: LayoutOptions): string {
+  const menu = MAIN_MENU_ITEMS.map(
+    item => `
+            <li class="oxd-main-menu-item-wrapper">
+              <a class="oxd-main-menu-item${item.name === options.module ? ' active' : ''}" href="${item.path}">
+                <span class="oxd-text oxd-text--span oxd-main-menu-item--name">${escapeHtml(item.name)}</span>
+              </a>
+            </li>`,
+  ).join('');
+
+  const toastAttribute = options.toast
+    ? ` data-toast="${escapeHtml(JSON.stringify(options.toast))}"`
+    : '';
+
+  const body = `
+  <div class="oxd-layout">
+    <div class="oxd-layout-navigation">
+      <aside class="oxd-sidepanel">
+        <nav class="oxd-navbar-nav" role="navigation" aria-label="Sidepanel">
+          <div class="oxd-sidepanel-header">
+            <a class="oxd-brand" href="/web/index.php/dashboard/index">
+              <div class="oxd-brand-banner"><img src="/web/images/orangehrm-logo.svg" alt="client brand banner"></div>
+            </a>
+            <button class="oxd-icon-button oxd-main-menu-button" type="button" aria-label="Toggle menu">&lsaquo;</button>
+          </div>
+          <div class="oxd-sidepanel-body">
+            <div class="oxd-main-menu-search">
+              <div class="oxd-input-group">
+                <input class="oxd-input oxd-input--active" placeholder="Search" aria-label="Search">
+              </div>
+            </div>
+            <ul class="oxd-main-menu">${menu}
+            </ul>
+          </div>
+        </nav>
+      </aside>
+      <header class="oxd-topbar">
+        <div class="oxd-topbar-header">
+          <div class="oxd-topbar-header-title">
+            <span class="oxd-topbar-header-breadcrumb">
+              <h6 class="oxd-text oxd-text--h6 oxd-topbar-header-breadcrumb-module">${escapeHtml(options.title)}</h6>
+            </span>
+          </div>
+          <div class="oxd-topbar-header-userarea">
+            <ul>
+              <li class="oxd-userdropdown">
+                <span class="oxd-userdropdown-tab" role="button" tabindex="0">
+                  <img class="oxd-userdropdown-img" src="/web/images/default-photo.svg" alt="profile picture">
+                  <p class="oxd-userdropdown-name">${escapeHtml(options.userName)}</p>
+                  <i class="oxd-icon bi-caret-down-fill oxd-userdropdown-icon"></i>
+                </span>
+                <ul class="oxd-dropdown-menu" role="menu" hidden>
+                  <li><a class="oxd-userdropdown-link" href="#" role="menuitem" data-action="about">About</a></li>
+                  <li><a class="oxd-userdropdown-link" href="/web/index.php/help/support" role="menuitem">Support</a></li>
+                  <li><a class="oxd-userdropdown-link" href="/web/index.php/pim/updatePassword" role="menuitem">Change Password</a></li>
+                  <li><a class="oxd-userdropdown-link" href="/web/index.php/auth/logout" role="menuitem">Logout</a></li>
+                </ul>
+              </li>
+            </ul>
+          </div>
+        </div>
+      </header>
+    </div>
+    <div class="oxd-layout-container">
+      <div class="oxd-layout-context">${options.content}
+      </div>
+    </div>
+  </div>`;
+
+  return renderDocument('OrangeHRM', body, toastAttribute);
+}
+
+/**
+ * Render the dashboard widgets
+ *
+ * Widget bodies are filled in by the client script from the dashboard API endpoints,
+ * exactly as the real app does, so API mocks and faults affect them.
+ */
+export function renderDashboardContent(): string {
+  const quickLaunch = QUICK_LAUNCH_ITEMS.map(
+    item => `
+            <div class="orangehrm-quick-launch-card">
+              <a class="oxd-icon-button orangehrm-quick-launch-icon" href="${item.path}" title="${escapeHtml(item.name)}">
+                <p class="oxd-text oxd-text--p orangehrm-quick-launch-heading">${escapeHtml(item.name)}</p>
+              </a>
+            </div>`,
+  ).join('');
+
+  const widget = (
+    title: string,
+    className: string,
+    inner: string,
+    attributes: string = '',
+  ): string => `
+        <div class="oxd-grid-item oxd-grid-item--gutters orangehrm-dashboard-widget"${attributes}>
+          <div class="orangehrm-dashboard-widget-header">
+            <div class="orangehrm-dashboard-widget-name">
+              <h6 class="oxd-text oxd-text--h6">${escapeHtml(title)}</h6>
+            </div>
+          </div>
+          <hr class="oxd-divider">
+          <div class="orangehrm-dashboard-widget-body ${className}">${inner}</div>
+        </div>`;
+
+  const loading =
+    '<div class="oxd-loading-spinner-container"><div class="oxd-loading-spinner"></div></div>';
+
+  return `
+      <div class="oxd-grid-3 orangehrm-dashboard-grid">${widget('Time at Work', 'orangehrm-attendance-card', loading, ' data-widget="time-at-work"')}${widget('My Actions', 'orangehrm-todo-list', loading, ' data-widget="my-actions" data-v-f4cd5c0a')}${widget('Quick Launch', 'orangehrm-quick-launch', quickLaunch)}${widget('Buzz Latest Posts', 'orangehrm-buzz-widget', loading, ' data-widget="buzz"')}${widget('Employees on Leave Today', 'orangehrm-leave-card', loading, ' data-widget="employees-on-leave"')}${widget('Employee Distribution by Sub Unit', 'orangehrm-employee-distribution', loading, ' data-widget="employee-distribution"')}
+      </div>`;
+}
+
+/**
+ * Render a placeholder for modules the stand-in does not implement yet
+ */
+export function renderModulePlaceholder(module: string): string {
+  return `
+      <div class="orangehrm-background-container">
+        <div class="orangehrm-paper-container">
+          <h6 class="oxd-text oxd-text--h6">${escapeHtml(module)}</h6>
+          <p class="oxd-text oxd-text--p orangehrm-placeholder-text">This module is not available on the local stand-in server.</p>
+        </div>
+      </div>`;
+}
+
+// ===== STATIC ASSETS =====
+
+/**
+ * Minimal stylesheet - just enough layout for visibility checks and screenshots
+ */
+export const APP_CSS = `
+* { box-sizing: border-box; }
+body { margin: 0; font-family: Nunito, Arial, sans-serif; background: #f6f6f6; color: #64728c; }
+[hidden] { display: none !important; }
+.oxd-text--h5 { font-size: 1.5rem; margin: 0 0 1rem; color: #64728c; }
+.oxd-text--h6 { font-size: 1rem; margin: 0; }
+.oxd-button { cursor: pointer; border: 0; border-radius: 50px; padding: 0.6rem 2rem; font-weight: 600; }
+.oxd-button--main { background: #ff7b1d; color: #fff; width: 100%; }
+.oxd-button--secondary { background: #ff7b1d; color: #fff; }
+.oxd-button--ghost { background: #fff; color: #ff7b1d; border: 1px solid #ff7b1d; }
+.oxd-input { width: 100%; padding: 0.55rem 0.75rem; border: 1px solid #e8eaef; border-radius: 0.5rem; font-size: 0.9rem; }
+.oxd-input--error { border-color: #eb0910; }
+.oxd-label { display: block; font-size: 0.8rem; margin-bottom: 0.25rem; }
+.oxd-input-field-bottom-space { margin-bottom: 1rem; }
+.oxd-input-field-error-message { color: #eb0910; font-size: 0.75rem; }
+.oxd-alert--error { background: #fff1f1; border: 1px solid #eb0910; border-radius: 0.5rem; padding: 0.5rem 1rem; margin-bottom: 1rem; }
+.oxd-alert-content-text { margin: 0; color: #eb0910; }
+.orangehrm-login-layout { min-height: 100vh; display: flex; align-items: center; justify-content: center; }
+.orangehrm-login-container { width: 420px; background: #fff; border-radius: 1rem; padding: 2rem; box-shadow: 0 0.5rem 2rem rgba(0,0,0,0.08); }
+.orangehrm-login-branding { text-align: center; margin-bottom: 1rem; }
+.orangehrm-login-branding img { height: 60px; }
+.orangehrm-login-forgot-header { cursor: pointer; text-align: center; color: #ff7b1d; }
+.orangehrm-login-footer-sm { display: flex; gap: 0.5rem; justify-content: center; margin-top: 1rem; }
+.orangehrm-copyright { font-size: 0.7rem; text-align: center; margin: 0.25rem 0; }
+.oxd-layout { display: flex; min-height: 100vh; }
+.oxd-layout-navigation { display: flex; }
+.oxd-sidepanel { width: 240px; background: #fff; min-height: 100vh; padding: 1rem; position: fixed; top: 0; left: 0; bottom: 0; }
+.oxd-sidepanel.--collapsed { width: 72px; }
+.oxd-sidepanel.--collapsed .oxd-main-menu-item--name, .oxd-sidepanel.--collapsed .oxd-main-menu-search { display: none; }
+.oxd-sidepanel-header { display: flex; justify-content: space-between; align-items: center; margin-bottom: 1rem; }
+.oxd-brand-banner img { height: 40px; }
+.oxd-icon-button { cursor: pointer; border: 0; background: #f6f6f6; border-radius: 50%; width: 32px; height: 32px; }
+.oxd-main-menu { list-style: none; padding: 0; margin: 1rem 0 0; }
+.oxd-main-menu-item { display: block; padding: 0.6rem 1rem; border-radius: 2rem; color: #64728c; text-decoration: none; }
+.oxd-main-menu-item.active { background: #ff7b1d; color: #fff; }
+.oxd-topbar { position: fixed; left: 240px; right: 0; top: 0; height: 64px; background: #fff; }
+.oxd-topbar-header { display: flex; justify-content: space-between; align-items: center; height: 100%; padding: 0 1.5rem; }
+.oxd-topbar-header-userarea ul { list-style: none; margin: 0; padding: 0; position: relative; }
+.oxd-userdropdown-tab { display: flex; align-items: center; gap: 0.5rem; cursor: pointer; }
+.oxd-userdropdown-img { width: 32px; height: 32px; border-radius: 50%; }
+.oxd-userdropdown-name { margin: 0; font-weight: 600; }
+.oxd-dropdown-menu { position: absolute; right: 0; top: 40px; background: #fff; border-radius: 0.5rem; box-shadow: 0 0.5rem 1rem rgba(0,0,0,0.1); padding: 0.5rem 0; min-width: 160px; }
+.oxd-dropdown-menu li a { display: block; padding: 0.5rem 1rem; color: #64728c; text-decoration: none; }
+.oxd-layout-container { margin-left: 240px; margin-top: 64px; padding: 1.5rem; flex: 1; }
+.oxd-grid-3 { display: grid; grid-template-columns: repeat(3, 1fr); gap: 1rem; }
+.orangehrm-dashboard-widget { background: #fff; border-radius: 1rem; padding: 1rem; min-height: 220px; }
+.oxd-divider { border: 0; border-top: 1px solid #e8eaef; }
+.orangehrm-quick-launch { display: grid; grid-template-columns: repeat(3, 1fr); gap: 0.5rem; }
+.orangehrm-quick-launch-icon { display: block; width: auto; height: auto; border-radius: 1rem; padding: 0.5rem; text-align: center; text-decoration: none; color: #64728c; }
+.orangehrm-quick-launch-heading { margin: 0; font-size: 0.8rem; }
+.oxd-loading-spinner { width: 24px; height: 24px; border: 3px solid #e8eaef; border-top-color: #ff7b1d; border-radius: 50%; animation: oxd-spin 1s linear infinite; margin: 2rem auto; }
+@keyframes oxd-spin { to { transform: rotate(360deg); } }
+.oxd-toast-container { position: fixed; bottom: 1rem; left: 1rem; display: flex; flex-direction: column; gap: 0.5rem; z-index: 100; }
+.oxd-toast { display: flex; justify-content: space-between; min-width: 320px; background: #fff; border-radius: 0.75rem; padding: 0.75rem 1rem; box-shadow: 0 0.5rem 1rem rgba(0,0,0,0.15); border-left: 6px solid #5fc03c; }
+.oxd-toast--error { border-left-color: #eb0910; }
+.oxd-toast--warn { border-left-color: #ffb42b; }
+.oxd-toast--info { border-left-color: #3c8bc0; }
+.oxd-toast-content-text { margin: 0; }
+.oxd-text--toast-title { font-weight: 700; }
+.oxd-toast-close { border: 0; background: none; cursor: pointer; }
+.oxd-switch-wrapper label { display: inline-flex; align-items: center; cursor: pointer; }
+.oxd-switch-wrapper input { position: absolute; opacity: 0; width: 0; height: 0; }
+.oxd-switch-input { display: inline-block; width: 2.5rem; height: 1.25rem; border-radius: 1rem; background: #e8eaef; position: relative; }
+.oxd-switch-input::after { content: ''; position: absolute; top: 2px; left: 2px; width: 1rem; height: 1rem; border-radius: 50%; background: #fff; }
+.oxd-switch-wrapper input:checked + .oxd-switch-input { background: #ff7b1d; }
+.oxd-switch-wrapper input:checked + .oxd-switch-input::after { left: auto; right: 2px; }
+.oxd-radio-wrapper label, .oxd-checkbox-wrapper label { display: inline-flex; align-items: center; gap: 0.25rem; cursor: pointer; }
+.oxd-table { width: 100%; }
+.oxd-table-row { display: grid; grid-template-columns: 40px repeat(8, 1fr); align-items: center; min-height: 2.5rem; }
+.oxd-table-row--clickable { cursor: pointer; }
+.oxd-table-card { background: #fff; border-bottom: 1px solid #e8eaef; }
+.oxd-pagination__ul { display: flex; gap: 0.25rem; list-style: none; padding: 0; }
+.oxd-pagination-page-item { min-width: 32px; height: 32px; border: 0; border-radius: 50%; background: none; cursor: pointer; }
+.oxd-pagination-page-item--page-selected { background: #e8eaef; }
+.oxd-autocomplete-wrapper { position: relative; }
+.oxd-autocomplete-dropdown { position: absolute; left: 0; right: 0; background: #fff; box-shadow: 0 0.5rem 1rem rgba(0,0,0,0.1); border-radius: 0.5rem; z-index: 10; }
+.oxd-autocomplete-option { padding: 0.5rem 1rem; cursor: pointer; }
+.oxd-autocomplete-text-input input { width: 100%; padding: 0.55rem 0.75rem; border: 1px solid #e8eaef; border-radius: 0.5rem; }
+.oxd-select-wrapper { position: relative; }
+.oxd-select-text { display: flex; justify-content: space-between; padding: 0.55rem 0.75rem; border: 1px solid #e8eaef; border-radius: 0.5rem; cursor: pointer; }
+.oxd-select-dropdown { position: absolute; left: 0; right: 0; max-height: 16rem; overflow-y: auto; background: #fff; box-shadow: 0 0.5rem 1rem rgba(0,0,0,0.1); border-radius: 0.5rem; z-index: 10; }
+.oxd-select-option { padding: 0.5rem 1rem; cursor: pointer; }
+.oxd-chip { display: inline-flex; align-items: center; gap: 0.25rem; margin: 0.25rem 0.25rem 0 0; padding: 0.25rem 0.75rem; background: #e8eaef; border-radius: 1rem; }
+.oxd-chip .--clear { cursor: pointer; font-style: normal; }
+.oxd-chip .--clear::before { content: "\\00d7"; }
+.oxd-date-input input, .oxd-textarea { width: 100%; padding: 0.55rem 0.75rem; border: 1px solid #e8eaef; border-radius: 0.5rem; }
+.oxd-dialog-container-default { position: fixed; inset: 0; background: rgba(0,0,0,0.4); display: flex; align-items: center; justify-content: center; z-index: 50; }
+.oxd-dialog-sheet { background: #fff; border-radius: 1rem; padding: 1.5rem; min-width: 360px; }
+.orangehrm-background-container, .orangehrm-paper-container { background: #fff; border-radius: 1rem; padding: 1.5rem; }
+`;
+
+/**
+ * Client script served as `/web/dist/js/app.js`
+ */
+export const APP_JS = `
+(function () {
+  'use strict';
+
+  var API_BASE = '/web/index.php/api/v2';
+
+  function escapeHtml(value) {
+    return String(value == null ? '' : value)
+      .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+  }
+
+  // ----- Toasts -----
+  function showToast(toast) {
+    var container = document.querySelector('.oxd-toast-container');
+    if (!container) { return; }
+    var element = document.createElement('div');
+    element.className = 'oxd-toast oxd-toast--' + toast.type + ' oxd-toast-container--toast';
+    element.innerHTML =
+      '<div class="oxd-toast-start">' +
+        '<div class="oxd-toast-content oxd-toast-content--' + toast.type + '">' +
+          '<p class="oxd-text oxd-text--p oxd-text--toast-title oxd-toast-content-text">' + escapeHtml(toast.title) + '</p>' +
+          '<p class="oxd-text oxd-text--p oxd-text--toast-message oxd-toast-content-text">' + escapeHtml(toast.message) + '</p>' +
+        '</div>' +
+      '</div>' +
+      '<div class="oxd-toast-close-container"><button class="oxd-toast-close" type="button" aria-label="Close">&times;</button></div>';
+    element.querySelector('.oxd-toast-close').addEventListener('click', function () { element.remove(); });
+    container.appendChild(element);
+    setTimeout(function () { element.remove(); }, 5000);
+  }
+  window.oxdToast = showToast;
+
+  // ----- API -----
+  function api(path, options) {
+    return fetch(API_BASE + path, Object.assign({ credentials: 'same-origin', headers: { 'Content-Type': 'application/json' } }, options || {}))
+      .then(function (response) {
+        if (response.status === 401) {
+          window.location.href = '/web/index.php/auth/login';
+          throw new Error('Session expired');
+        }
+        return response.json().then(function (body) {
+          if (!response.ok) {
+            var message = body && body.error && body.error.message ? body.error.message : 'Unexpected Error!';
+            throw new Error(message);
+          }
+          return body;
+        });
+      })
+      .catch(function (error) {
+        showToast({ type: 'error', title: 'Error', message: error && error.message === 'Session expired' ? error.message : 'Unexpected Error!' });
+        throw error;
+      });
+  }
+  window.ohrmApi = api;
+
+  // ----- Login form -----
+  function setFieldError(input, message) {
+    var group = input.closest('.oxd-input-group');
+    var existing = group.querySelector('.oxd-input-field-error-message');
+    if (existing) { existing.remove(); }
+    input.classList.toggle('oxd-input--error', !!message);
+    if (message) {
+      var span = document.createElement('span');
+      span.className = 'oxd-text oxd-text--span oxd-input-field-error-message oxd-input-group__message';
+      span.textContent = message;
+      group.appendChild(span);
+    }
+  }
+  window.oxdSetFieldError = setFieldError;
+
+  document.querySelectorAll('form.oxd-form').forEach(function (form) {
+    form.addEventListener('submit', function (event) {
+      var valid = true;
+      form.querySelectorAll('input[data-required="true"]').forEach(function (input) {
+        var missing = input.value.trim() === '';
+        setFieldError(input, missing ? 'Required' : '');
+        valid = valid && !missing;
+      });
+      if (!valid || !form.getAttribute('action')) {
+        event.preventDefault();
+      }
+    });
+  });
+
+  var forgot = document.querySelector('.orangehrm-login-forgot-header');
+  if (forgot) {
+    forgot.addEventListener('click', function () {
+      window.location.href = '/web/index.php/auth/requestPasswordResetCode';
+    });
+  }
+
+  // ----- Top bar user dropdown -----
+  var dropdownTab = document.querySelector('.oxd-userdropdown-tab');
+  var dropdownMenu = document.querySelector('.oxd-dropdown-menu');
+  if (dropdownTab && dropdownMenu) {
+    dropdownTab.addEventListener('click', function (event) {
+      event.stopPropagation();
+      dropdownMenu.hidden = !dropdownMenu.hidden;
+    });
+    document.addEventListener('click', function () { dropdownMenu.hidden = true; });
+  }
+
+  var about = document.querySelector('[data-action="about"]');
+  if (about) {
+    about.addEventListener('click', function (event) {
+      event.preventDefault();
+      api('/core/about').then(function (body) {
+        var dialog = document.createElement('div');
+        dialog.className = 'oxd-dialog-container-default oxd-dialog-container';
+        dialog.innerHTML =
+          '<div class="oxd-dialog-sheet oxd-dialog-sheet--shadow" role="dialog">' +
+            '<h6 class="oxd-text oxd-text--h6 orangehrm-main-title">About</h6>' +
+            '<p class="oxd-text oxd-text--p">Company Name: ' + escapeHtml(body.data.companyName) + '</p>' +
+            '<p class="oxd-text oxd-text--p">Version: ' + escapeHtml(body.data.productName + ' ' + body.data.version) + '</p>' +
+            '<button type="button" class="oxd-dialog-close-button">&times;</button>' +
+          '</div>';
+        dialog.querySelector('.oxd-dialog-close-button').addEventListener('click', function () { dialog.remove(); });
+        document.body.appendChild(dialog);
+      });
+    });
+  }
+
+  // ----- Side menu -----
+  var sidepanel = document.querySelector('.oxd-sidepanel');
+  var menuToggle = document.querySelector('.oxd-sidepanel-header .oxd-icon-button');
+  if (sidepanel && menuToggle) {
+    menuToggle.addEventListener('click', function () { sidepanel.classList.toggle('--collapsed'); });
+  }
+
+  var menuSearch = document.querySelector('.oxd-main-menu-search input');
+  if (menuSearch) {
+    menuSearch.addEventListener('input', function () {
+      var term = menuSearch.value.trim().toLowerCase();
+      document.querySelectorAll('.oxd-main-menu-item-wrapper').forEach(function (item) {
+        item.hidden = term !== '' && item.textContent.trim().toLowerCase().indexOf(term) === -1;
+      });
+    });
+  }
+
+  // ----- Flash toasts (from the server, or queued before a client-side redirect) -----
+  if (document.body.dataset.toast) {
+    showToast(JSON.parse(document.body.dataset.toast));
+  }
+  window.oxdFlashToast = function (toast) {
+    sessionStorage.setItem('oxd-flash-toast', JSON.stringify(toast));
+  };
+  var flashToast = sessionStorage.getItem('oxd-flash-toast');
+  if (flashToast) {
+    sessionStorage.removeItem('oxd-flash-toast');
+    showToast(JSON.parse(flashToast));
+  }
+
+  // ----- Link buttons -----
+  document.querySelectorAll('button[data-href]').forEach(function (button) {
+    button.addEventListener('click', function () { window.location.href = button.dataset.href; });
+  });
+
+  // ----- Dashboard widgets -----
+  function fillWidget(name, path, render) {
+    var widget = document.querySelector('[data-widget="' + name + '"] .orangehrm-dashboard-widget-body');
+    if (!widget) { return; }
+    api(path)
+      .then(function (body) { widget.innerHTML = render(body); })
+      .catch(function () {
+        widget.innerHTML = '<p class="oxd-text oxd-text--p orangehrm-dashboard-widget-error">Unable to load data</p>';
+      });
+  }
+
+  function fullName(employee) {
+    return employee ? escapeHtml(employee.firstName + ' ' + employee.lastName) : '';
+  }
+
+  function emptyState(message) {
+    return '<div class="orangehrm-dashboard-widget-empty"><p class="oxd-text oxd-text--p">' + escapeHtml(message) + '</p></div>';
+  }
+
+  var today = new Date().toISOString().split('T')[0];
+
+  fillWidget('time-at-work', '/dashboard/employees/time-at-work?timezoneOffset=0&currentDate=' + today + '&currentTime=00:00', function (body) {
+    var state = body.meta.lastAction ? body.meta.lastAction.state : 'PUNCHED OUT';
+    var total = body.meta.currentWeek ? body.meta.currentWeek.totalTime : { hours: 0, minutes: 0 };
+    return '<div class="orangehrm-attendance-card-profile">' +
+        '<p class="oxd-text oxd-text--p orangehrm-attendance-card-state">' + (state === 'PUNCHED IN' ? 'Punched In' : 'Punched Out') + '</p>' +
+      '</div>' +
+      '<div class="orangehrm-attendance-card-details">' +
+        '<h6 class="oxd-text oxd-text--h6 orangehrm-attendance-card-fulltime">' + escapeHtml(total.hours + 'h ' + total.minutes + 'm') + '</h6>' +
+        '<span class="oxd-text oxd-text--span">This Week</span>' +
+      '</div>';
+  });
+
+  fillWidget('my-actions', '/dashboard/employees/action-summary', function (body) {
+    var pending = body.data.filter(function (item) { return item.pendingActionCount > 0; });
+    if (pending.length === 0) { return emptyState('No Pending Actions'); }
+    return pending.map(function (item) {
+      return '<div class="orangehrm-todo-list-item"><p class="oxd-text oxd-text--p">(' + escapeHtml(item.pendingActionCount) + ') ' + escapeHtml(item.group) + '</p></div>';
+    }).join('');
+  });
+
+  fillWidget('buzz', '/buzz/feed?limit=5&offset=0&sortOrder=DESC&sortField=share.createdAtUtc', function (body) {
+    if (body.data.length === 0) { return emptyState('No Posts Available'); }
+    return body.data.map(function (item) {
+      return '<div class="orangehrm-buzz-widget-card">' +
+          '<p class="oxd-text oxd-text--p orangehrm-buzz-widget-header-emp">' + fullName(item.employee) + '</p>' +
+          '<p class="oxd-text oxd-text--p orangehrm-buzz-widget-header-time">' + escapeHtml(item.createdDate + ' ' + item.createdTime) + '</p>' +
+          '<p class="oxd-text oxd-text--p orangehrm-buzz-widget-body">' + escapeHtml(item.post.text) + '</p>' +
+        '</div>';
+    }).join('');
+  });
+
+  fillWidget('employees-on-leave', '/dashboard/employees/leaves?date=' + today, function (body) {
+    if (body.data.length === 0) { return emptyState('No Employees are on Leave Today'); }
+    return body.data.map(function (item) {
+      return '<div class="orangehrm-leave-card-item"><p class="oxd-text oxd-text--p orangehrm-leave-card-name">' + fullName(item.employee) + '</p>' +
+        '<p class="oxd-text oxd-text--p orangehrm-leave-card-type">' + escapeHtml(item.leaveType && item.leaveType.type) + '</p></div>';
+    }).join('');
+  });
+
+  fillWidget('employee-distribution', '/dashboard/employees/subunit', function (body) {
+    var rows = body.data.map(function (item) {
+      return '<li class="oxd-chart-legend-item"><span class="oxd-text oxd-text--span">' + escapeHtml(item.subunit.name) + '</span> <span>' + escapeHtml(item.count) + '</span></li>';
+    });
+    rows.push('<li class="oxd-chart-legend-item"><span class="oxd-text oxd-text--span">Unassigned</span> <span>' + escapeHtml(body.meta.unassignedEmployeeCount) + '</span></li>');
+    return '<ul class="oxd-chart-legend">' + rows.join('') + '</ul>';
+  });
+})();
+`;
+
+/**
+ * SVG placeholders for the images the pages reference
+ */
+export const IMAGES: Record<string, string> = {
+  'ohrm_branding.svg':
+    '<svg xmlns="http://www.w3.org/2000/svg" width="240" height="60"><rect width="240" height="60" rx="8" fill="#ff7b1d"/><text x="120" y="38" font-size="22" text-anchor="middle" fill="#fff" font-family="Arial">OrangeHRM</text></svg>',
+  'orangehrm-logo.svg':
+    '<svg xmlns="http://www.w3.org/2000/svg" width="160" height="40"><text x="0" y="28" font-size="22" fill="#ff7b1d" font-family="Arial">OrangeHRM</text></svg>',
+  'default-photo.svg':
+    '<svg xmlns="http://www.w3.org/2000/svg" width="32" height="32"><circle cx="16" cy="16" r="16" fill="#e8eaef"/><circle cx="16" cy="12" r="6" fill="#a8b1c2"/><rect x="6" y="21" width="20" height="10" rx="5" fill="#a8b1c2"/></svg>',
+};
@@ -0,0 +1,492 @@
+/**
+ * PIM module pages for the local OrangeHRM stand-in server
+ *
+ * Employee List, Add Employee and Personal Details. As in the real app the pages are
+ * shells whose data is loaded and saved by the client script through the REST API.
+ */
+
+import { escapeHtml, renderField } from './markup';
+import { MockDataStore } from './store';
+
+// ===== HELPERS =====
+
+function renderNameFields(values: {
+  firstName?: string;
+  middleName?: string;
+  lastName?: string;
+}): string {
+  const nameInput = (name: string, placeholder: string, value: string = ''): string => `
+                  <div class="oxd-input-group oxd-input-field-bottom-space">
+                    <div><input class="oxd-input oxd-input--active orangehrm-${name.toLowerCase()}" name="${name}" placeholder="${placeholder}" value="${escapeHtml(value)}" autocomplete="off"></div>
+                  </div>`;
+
+  return `
+          <div class="oxd-form-row">
+            <div class="oxd-grid-1 orangehrm-full-width-grid">
+              <div class="oxd-grid-item oxd-grid-item--gutters">
+                <div class="oxd-input-group">
+                  <div class="oxd-input-group__label-wrapper">
+                    <label class="oxd-label oxd-input-field-required">Employee Full Name</label>
+                  </div>
+                  <div class="--name-grouped-field">${nameInput('firstName', 'First Name', values.firstName)}${nameInput('middleName', 'Middle Name', values.middleName)}${nameInput('lastName', 'Last Name', values.lastName)}
+                  </div>
+                </div>
+              </div>
+            </div>
+          </div>`;
+}
+
+const TABLE_COLUMNS = [
+  'Id',
+  'First (& Middle) Name',
+  'Last Name',
+  'Job Title',
+  'Employment Status',
+  'Sub Unit',
+  'Supervisor',
+  'Actions',
+];
+
+// ===== PAGES =====
+
+/**
+ * Render the PIM Employee List: search filters, the employee table and pagination
+ */
+export function renderEmployeeListContent(): string {
+  const headerCells = TABLE_COLUMNS.map(
+    column =>
+      `<div class="oxd-table-header-cell oxd-padding-cell oxd-table-th" role="columnheader">${escapeHtml(column)}</div>`,
+  ).join('');
+
+  const autocomplete = `<div class="oxd-autocomplete-wrapper">
+                      <div class="oxd-autocomplete-text-input oxd-autocomplete-text-input--active">
+                        <input placeholder="Type for hints..." autocomplete="off" data-autocomplete="employee">
+                      </div>
+                      <div class="oxd-autocomplete-dropdown --positon-bottom" role="listbox" hidden></div>
+                    </div>`;
+
+  return `
+      <div class="oxd-table-filter">
+        <div class="oxd-table-filter-header">
+          <div class="oxd-table-filter-header-title">
+            <h5 class="oxd-text oxd-text--h5 oxd-table-filter-title">Employee Information</h5>
+          </div>
+        </div>
+        <hr class="oxd-divider">
+        <form class="oxd-form" data-form="employee-search" novalidate>
+          <div class="oxd-form-row">
+            <div class="oxd-grid-4 orangehrm-full-width-grid">${renderField('Employee Name', autocomplete)}${renderField('Employee Id', '<input class="oxd-input oxd-input--active" name="employeeId" autocomplete="off">')}
+            </div>
+          </div>
+          <div class="oxd-form-actions">
+            <button type="reset" class="oxd-button oxd-button--medium oxd-button--ghost">Reset</button>
+            <button type="submit" class="oxd-button oxd-button--medium oxd-button--secondary orangehrm-left-space">Search</button>
+          </div>
+        </form>
+      </div>
+      <div class="orangehrm-paper-container">
+        <div class="orangehrm-header-container">
+          <button type="button" class="oxd-button oxd-button--medium oxd-button--secondary" data-href="/web/index.php/pim/addEmployee"><i class="oxd-icon bi-plus oxd-button-icon"></i> Add </button>
+        </div>
+        <hr class="oxd-divider">
+        <div class="orangehrm-horizontal-padding orangehrm-vertical-padding">
+          <span class="oxd-text oxd-text--span" data-records-found></span>
+        </div>
+        <div class="orangehrm-container">
+          <div class="oxd-table orangehrm-employee-list" role="table">
+            <div class="oxd-table-header" role="rowgroup">
+              <div class="oxd-table-row oxd-table-row--with-border" role="row"><div class="oxd-table-header-cell oxd-padding-cell oxd-table-th" role="columnheader"></div>${headerCells}</div>
+            </div>
+            <div class="oxd-table-body" role="rowgroup" data-employee-table></div>
+          </div>
+        </div>
+        <div class="orangehrm-bottom-container">
+          <nav class="oxd-pagination-nav" aria-label="Pagination Navigation"></nav>
+        </div>
+      </div>`;
+}
+
+/**
+ * Render the Add Employee form, including the optional "Create Login Details" section
+ */
+export function renderAddEmployeeContent(nextEmployeeId: string): string {
+  const radio = (label: string, value: string, checked: boolean): string => `
+                      <div class="oxd-radio-wrapper">
+                        <label>${label}<input type="radio" name="status" value="${value}"${checked ? ' checked' : ''}><span class="oxd-radio-input oxd-radio-input--active --label-right"></span></label>
+                      </div>`;
+
+  return `
+      <div class="orangehrm-background-container">
+        <div class="orangehrm-card-container">
+          <h6 class="oxd-text oxd-text--h6 orangehrm-main-title">Add Employee</h6>
+          <hr class="oxd-divider">
+          <form class="oxd-form" data-form="add-employee" novalidate>
+            <div class="orangehrm-employee-container">
+              <div class="orangehrm-employee-image">
+                <img class="employee-image" src="/web/images/default-photo.svg" alt="profile picture">
+              </div>
+              <div class="orangehrm-employee-form">${renderNameFields({})}
+                <div class="oxd-form-row">
+                  <div class="oxd-grid-2 orangehrm-full-width-grid">${renderField('Employee Id', `<input class="oxd-input oxd-input--active" name="employeeId" value="${escapeHtml(nextEmployeeId)}" autocomplete="off">`)}
+                  </div>
+                </div>
+              </div>
+            </div>
+            <hr class="oxd-divider">
+            <div class="oxd-form-row user-form-header">
+              <p class="oxd-text oxd-text--p orangehrm-employee-form-header">Create Login Details</p>
+              <div class="oxd-switch-wrapper">
+                <label><input type="checkbox" data-toggle="login-details"><span class="oxd-switch-input oxd-switch-input--active --label-right"></span></label>
+              </div>
+            </div>
+            <div class="orangehrm-employee-login" data-login-details hidden>
+              <div class="oxd-form-row">
+                <div class="oxd-grid-2 orangehrm-full-width-grid">${renderField('Username', '<input class="oxd-input oxd-input--active" name="username" autocomplete="off">', true)}
+                  <div class="oxd-grid-item oxd-grid-item--gutters">
+                    <div class="oxd-input-group oxd-input-field-bottom-space">
+                      <div class="oxd-input-group__label-wrapper"><label class="oxd-label">Status</label></div>${radio('Enabled', '1', true)}${radio('Disabled', '0', false)}
+                    </div>
+                  </div>
+                </div>
+              </div>
+              <div class="oxd-form-row">
+                <div class="oxd-grid-2 orangehrm-full-width-grid">${renderField('Password', '<input class="oxd-input oxd-input--active" type="password" name="password" autocomplete="off">', true)}${renderField('Confirm Password', '<input class="oxd-input oxd-input--active" type="password" name="confirmPassword" autocomplete="off">', true)}
+                </div>
+              </div>
+            </div>
+            <hr class="oxd-divider">
+            <div class="oxd-form-actions">
+              <p class="oxd-text oxd-text--p orangehrm-form-hint">* Required</p>
+              <button type="button" class="oxd-button oxd-button--medium oxd-button--ghost" data-href="/web/index.php/pim/viewEmployeeList">Cancel</button>
+              <button type="submit" class="oxd-button oxd-button--medium oxd-button--secondary orangehrm-left-space">Save</button>
+            </div>
+          </form>
+        </div>
+      </div>`;
+}
+
+/**
+ * Render an employee's Personal Details tab
+ */
+export function renderPersonalDetailsContent(store: MockDataStore, empNumber: number): string {
+  const employee = store.findEmployee(empNumber);
+  if (!employee) {
+    return `
+      <div class="orangehrm-background-container">
+        <p class="oxd-text oxd-text--p">Record Not Found</p>
+      </div>`;
+  }
+
+  return `
+      <div class="orangehrm-background-container">
+        <div class="orangehrm-card-container orangehrm-edit-employee">
+          <div class="orangehrm-edit-employee-navigation">
+            <div class="orangehrm-edit-employee-name">
+              <h6 class="oxd-text oxd-text--h6 --strong">${escapeHtml(`${employee.firstName} ${employee.lastName}`)}</h6>
+            </div>
+            <div class="orangehrm-tabs">
+              <div class="orangehrm-tabs-wrapper" role="tab">
+                <a class="orangehrm-tabs-item --active" href="/web/index.php/pim/viewPersonalDetails/empNumber/${employee.empNumber}">Personal Details</a>
+              </div>
+            </div>
+          </div>
+          <div class="orangehrm-edit-employee-content">
+            <div class="orangehrm-horizontal-padding orangehrm-vertical-padding">
+              <h6 class="oxd-text oxd-text--h6 orangehrm-main-title">Personal Details</h6>
+              <hr class="oxd-divider">
+              <form class="oxd-form" novalidate>${renderNameFields(employee)}
+                <div class="oxd-form-row">
+                  <div class="oxd-grid-3 orangehrm-full-width-grid">${renderField('Employee Id', `<input class="oxd-input oxd-input--active" name="employeeId" value="${escapeHtml(employee.employeeId)}" autocomplete="off">`)}
+                  </div>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      </div>`;
+}
+
+/**
+ * Render the PIM page for a path, or `undefined` when the path is not a PIM page
+ */
+export function renderPimContent(store: MockDataStore, pathname: string): string | undefined {
+  if (pathname === '/web/index.php/pim/viewEmployeeList') {
+    return renderEmployeeListContent();
+  }
+  if (pathname === '/web/index.php/pim/addEmployee') {
+    return renderAddEmployeeContent(store.getNextEmployeeId());
+  }
+  const details = pathname.match(/^\/web\/index\.php\/pim\/viewPersonalDetails\/empNumber\/(\d+)$/);
+  return details ? renderPersonalDetailsContent(store, Number(details[1])) : undefined;
+}
+
+// ===== CLIENT SCRIPT =====
+
+/**
+ * PIM behaviour appended to `/web/dist/js/app.js`: the employee search with its name
+ * autocomplete, table paging, and Add Employee validation and saving
+ */
+export const PIM_JS = `
+(function () {
+  'use strict';
+
+  var api = window.ohrmApi;
+  var setFieldError = window.oxdSetFieldError;
+  var PAGE_SIZE = 50;
+
+  function escapeHtml(value) {
+    return String(value == null ? '' : value)
+      .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+  }
+
+  function employeeName(employee, withMiddle) {
+    return [employee.firstName, withMiddle ? employee.middleName : '', employee.lastName].filter(Boolean).join(' ');
+  }
+
+  // ----- Employee name autocomplete -----
+  document.querySelectorAll('[data-autocomplete="employee"]').forEach(function (input) {
+    var dropdown = input.closest('.oxd-autocomplete-wrapper').querySelector('.oxd-autocomplete-dropdown');
+    var timer = null;
+
+    function close() { dropdown.hidden = true; dropdown.innerHTML = ''; }
+
+    input.addEventListener('input', function () {
+      delete input.dataset.empNumber;
+      clearTimeout(timer);
+      var term = input.value.trim();
+      if (term === '') { close(); return; }
+      dropdown.hidden = false;
+      dropdown.innerHTML = '<div class="oxd-autocomplete-option --loading" role="option">Searching....</div>';
+      timer = setTimeout(function () {
+        api('/pim/employees?limit=5&nameOrId=' + encodeURIComponent(term)).then(function (body) {
+          if (input.value.trim() !== term) { return; }
+          dropdown.innerHTML = body.data.length === 0
+            ? '<div class="oxd-autocomplete-option" role="option">No Records Found</div>'
+            : body.data.map(function (employee) {
+              return '<div class="oxd-autocomplete-option" role="option" data-emp-number="' + employee.empNumber + '"><span>' + escapeHtml(employeeName(employee, true)) + '</span></div>';
+            }).join('');
+        });
+      }, 300);
+    });
+
+    dropdown.addEventListener('click', function (event) {
+      var option = event.target.closest('[data-emp-number]');
+      if (!option) { return; }
+      input.value = option.textContent;
+      input.dataset.empNumber = option.dataset.empNumber;
+      close();
+    });
+
+    document.addEventListener('click', function (event) {
+      if (!dropdown.contains(event.target) && event.target !== input) { close(); }
+    });
+  });
+
+  // ----- Employee list -----
+  var table = document.querySelector('[data-employee-table]');
+  var searchForm = document.querySelector('form[data-form="employee-search"]');
+  if (table && searchForm) {
+    var recordsFound = document.querySelector('[data-records-found]');
+    var pagination = document.querySelector('.oxd-pagination-nav');
+    var nameInput = searchForm.querySelector('[data-autocomplete="employee"]');
+    var idInput = searchForm.querySelector('input[name="employeeId"]');
+    var currentPage = 1;
+
+    function renderRow(employee) {
+      var cells = [
+        '<div class="oxd-table-card-cell-checkbox"><div class="oxd-checkbox-wrapper"><label><input type="checkbox" value="' + employee.empNumber + '"><span class="oxd-checkbox-input oxd-checkbox-input--active --label-right"></span></label></div></div>',
+        escapeHtml(employee.employeeId),
+        escapeHtml([employee.firstName, employee.middleName].filter(Boolean).join(' ')),
+        escapeHtml(employee.lastName),
+        '', '', '', '',
+        '<div class="oxd-table-cell-actions"><button type="button" class="oxd-icon-button oxd-table-cell-action-space"><i class="oxd-icon bi-trash"></i></button><button type="button" class="oxd-icon-button oxd-table-cell-action-space"><i class="oxd-icon bi-pencil-fill"></i></button></div>'
+      ];
+      return '<div class="oxd-table-card">' +
+        '<div class="oxd-table-row oxd-table-row--with-border oxd-table-row--clickable" role="row" data-emp-number="' + employee.empNumber + '">' +
+          cells.map(function (cell) { return '<div class="oxd-table-cell oxd-padding-cell" role="cell"><div>' + cell + '</div></div>'; }).join('') +
+        '</div>' +
+      '</div>';
+    }
+
+    function renderPagination(total) {
+      var pages = Math.ceil(total / PAGE_SIZE);
+      if (pages <= 1) { pagination.innerHTML = ''; return; }
+      var items = [];
+      if (currentPage > 1) {
+        items.push('<li class="oxd-pagination-page-item oxd-pagination-page-item--previous-next"><button type="button" class="oxd-pagination-page-item oxd-pagination-page-item--previous-next" data-page="' + (currentPage - 1) + '"><i class="oxd-icon bi-chevron-left"></i></button></li>');
+      }
+      for (var page = 1; page <= pages; page++) {
+        items.push('<li class="oxd-pagination-page-item oxd-pagination-page-item--page-wrapper"><button type="button" class="oxd-pagination-page-item oxd-pagination-page-item--page' + (page === currentPage ? ' oxd-pagination-page-item--page-selected' : '') + '" data-page="' + page + '">' + page + '</button></li>');
+      }
+      if (currentPage < pages) {
+        items.push('<li class="oxd-pagination-page-item oxd-pagination-page-item--previous-next"><button type="button" class="oxd-pagination-page-item oxd-pagination-page-item--previous-next" data-page="' + (currentPage + 1) + '"><i class="oxd-icon bi-chevron-right"></i></button></li>');
+      }
+      pagination.innerHTML = '<ul class="oxd-pagination__ul">' + items.join('') + '</ul>';
+    }
+
+    function loadEmployees(page, notifyEmpty) {
+      currentPage = page;
+      var query = '?limit=' + PAGE_SIZE + '&offset=' + ((page - 1) * PAGE_SIZE);
+      if (nameInput.dataset.empNumber) {
+        query += '&empNumber=' + nameInput.dataset.empNumber;
+      } else if (nameInput.value.trim() !== '') {
+        query += '&nameOrId=' + encodeURIComponent(nameInput.value.trim());
+      }
+      if (idInput.value.trim() !== '') {
+        query += '&employeeId=' + encodeURIComponent(idInput.value.trim());
+      }
+      table.innerHTML = '<div class="oxd-loading-spinner-container"><div class="oxd-loading-spinner"></div></div>';
+      api('/pim/employees' + query).then(function (body) {
+        var total = body.meta.total;
+        table.innerHTML = body.data.map(renderRow).join('');
+        recordsFound.textContent = total === 0 ? 'No Records Found' : '(' + total + ') ' + (total === 1 ? 'Record' : 'Records') + ' Found';
+        renderPagination(total);
+        if (total === 0 && notifyEmpty) {
+          window.oxdToast({ type: 'info', title: 'Info', message: 'No Records Found' });
+        }
+      }).catch(function () { table.innerHTML = ''; });
+    }
+
+    searchForm.addEventListener('submit', function (event) {
+      event.preventDefault();
+      loadEmployees(1, true);
+    });
+    searchForm.addEventListener('reset', function () {
+      delete nameInput.dataset.empNumber;
+      setTimeout(function () { loadEmployees(1, false); }, 0);
+    });
+    pagination.addEventListener('click', function (event) {
+      var button = event.target.closest('[data-page]');
+      if (button) { loadEmployees(Number(button.dataset.page), false); }
+    });
+    function confirmDelete(empNumber) {
+      var dialog = document.createElement('div');
+      dialog.className = 'oxd-dialog-container-default';
+      dialog.innerHTML =
+        '<div class="oxd-dialog-sheet oxd-dialog-sheet--shadow oxd-dialog-sheet--gutters orangehrm-dialog-popup" role="document">' +
+          '<button type="button" class="oxd-dialog-close-button oxd-dialog-close-button-position">&times;</button>' +
+          '<div class="orangehrm-modal-header"><p class="oxd-text oxd-text--p oxd-text--card-title">Are you Sure?</p></div>' +
+          '<div class="orangehrm-text-center-align"><p class="oxd-text oxd-text--p oxd-text--card-body">The selected record will be permanently deleted. Are you sure you want to continue?</p></div>' +
+          '<div class="orangehrm-modal-footer">' +
+            '<button type="button" class="oxd-button oxd-button--medium oxd-button--ghost orangehrm-button-margin" data-action="cancel"> No, Cancel </button>' +
+            '<button type="button" class="oxd-button oxd-button--medium oxd-button--label-danger orangehrm-button-margin" data-action="delete"><i class="oxd-icon bi-trash oxd-button-icon"></i> Yes, Delete </button>' +
+          '</div>' +
+        '</div>';
+      dialog.addEventListener('click', function (event) {
+        var button = event.target.closest('button');
+        if (!button) { return; }
+        dialog.remove();
+        if (button.dataset.action !== 'delete') { return; }
+        api('/pim/employees', { method: 'DELETE', body: JSON.stringify({ ids: [Number(empNumber)] }) }).then(function () {
+          window.oxdToast({ type: 'success', title: 'Success', message: 'Successfully Deleted' });
+          loadEmployees(currentPage, false);
+        });
+      });
+      document.body.appendChild(dialog);
+    }
+
+    table.addEventListener('click', function (event) {
+      var action = event.target.closest('.oxd-table-cell-actions button');
+      if (action && action.querySelector('.bi-trash')) {
+        confirmDelete(action.closest('[data-emp-number]').dataset.empNumber);
+        return;
+      }
+      var row = event.target.closest('[data-emp-number]');
+      if (row && !event.target.closest('.oxd-checkbox-wrapper, .oxd-table-cell-actions')) {
+        window.location.href = '/web/index.php/pim/viewPersonalDetails/empNumber/' + row.dataset.empNumber;
+      }
+    });
+
+    loadEmployees(1, false);
+  }
+
+  // ----- Add employee -----
+  var addForm = document.querySelector('form[data-form="add-employee"]');
+  if (addForm) {
+    var loginToggle = addForm.querySelector('[data-toggle="login-details"]');
+    var loginSection = addForm.querySelector('[data-login-details]');
+    var saveButton = addForm.querySelector('button[type="submit"]');
+
+    function field(name) { return addForm.querySelector('input[name="' + name + '"]'); }
+
+    loginToggle.addEventListener('change', function () {
+      loginSection.hidden = !loginToggle.checked;
+    });
+
+    function validate(withLogin) {
+      var errors = {};
+      var firstName = field('firstName').value.trim();
+      var lastName = field('lastName').value.trim();
+      // Lengths count the value as typed, spaces included, as OrangeHRM does
+      if (firstName === '') { errors.firstName = 'Required'; } else if (field('firstName').value.length > 30) { errors.firstName = 'Should not exceed 30 characters'; }
+      if (field('middleName').value.length > 30) { errors.middleName = 'Should not exceed 30 characters'; }
+      if (lastName === '') { errors.lastName = 'Required'; } else if (field('lastName').value.length > 30) { errors.lastName = 'Should not exceed 30 characters'; }
+      if (field('employeeId').value.length > 10) { errors.employeeId = 'Should not exceed 10 characters'; }
+      if (withLogin) {
+        var username = field('username').value.trim();
+        var password = field('password').value;
+        var confirmPassword = field('confirmPassword').value;
+        if (username === '') { errors.username = 'Required'; } else if (username.length < 5) { errors.username = 'Should be at least 5 characters'; } else if (username.length > 40) { errors.username = 'Should not exceed 40 characters'; }
+        if (password === '') { errors.password = 'Required'; } else if (password.length < 7) { errors.password = 'Should have at least 7 characters'; } else if (password.length > 64) { errors.password = 'Should not exceed 64 characters'; } else if (!/[0-9]/.test(password)) { errors.password = 'Your password must contain minimum 1 number'; } else if (!/[a-z]/.test(password)) { errors.password = 'Your password must contain minimum 1 lower-case letter'; }
+        if (confirmPassword === '' && password === '') { errors.confirmPassword = 'Required'; } else if (confirmPassword !== password) { errors.confirmPassword = 'Passwords do not match'; }
+      }
+      return errors;
+    }
+
+    function isUnique(entityName, attributeName, value) {
+      return api('/core/validation/unique?value=' + encodeURIComponent(value) + '&entityName=' + entityName + '&attributeName=' + attributeName)
+        .then(function (body) { return body.data.valid; });
+    }
+
+    addForm.addEventListener('submit', function (event) {
+      event.preventDefault();
+      var withLogin = loginToggle.checked;
+      var names = ['firstName', 'middleName', 'lastName', 'employeeId', 'username', 'password', 'confirmPassword'];
+      names.forEach(function (name) { setFieldError(field(name), ''); });
+      var errors = validate(withLogin);
+      Object.keys(errors).forEach(function (name) { setFieldError(field(name), errors[name]); });
+      if (Object.keys(errors).length > 0) { return; }
+
+      var employeeId = field('employeeId').value.trim();
+      var username = withLogin ? field('username').value.trim() : '';
+      saveButton.disabled = true;
+      Promise.all([
+        employeeId ? isUnique('Employee', 'employeeId', employeeId) : true,
+        withLogin ? isUnique('User', 'userName', username) : true
+      ]).then(function (results) {
+        if (!results[0]) { setFieldError(field('employeeId'), 'Employee Id already exists'); }
+        if (!results[1]) { setFieldError(field('username'), 'Username already exists'); }
+        if (!results[0] || !results[1]) { throw new Error('Invalid'); }
+        return api('/pim/employees', {
+          method: 'POST',
+          body: JSON.stringify({
+            firstName: field('firstName').value.trim(),
+            middleName: field('middleName').value.trim(),
+            lastName: field('lastName').value.trim(),
+            employeeId: employeeId
+          })
+        });
+      }).then(function (body) {
+        var empNumber = body.data.empNumber;
+        if (!withLogin) { return empNumber; }
+        return api('/admin/users', {
+          method: 'POST',
+          body: JSON.stringify({
+            username: username,
+            password: field('password').value,
+            status: addForm.querySelector('input[name="status"]:checked').value === '1',
+            userRoleId: 2,
+            empNumber: empNumber
+          })
+        }).then(function () { return empNumber; });
+      }).then(function (empNumber) {
+        window.oxdFlashToast({ type: 'success', title: 'Success', message: 'Successfully Saved' });
+        window.location.href = '/web/index.php/pim/viewPersonalDetails/empNumber/' + empNumber;
+      }).catch(function () {
+        saveButton.disabled = false;
+      });
+    });
+  }
+})();
+`;
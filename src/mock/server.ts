@@ -0,0 +1,405 @@
+import * as http from 'http';
+import { URL, URLSearchParams } from 'url';
+import { ApiRequestBody, handleApiRequest } from './api';
+import { MockDataStore, MockSession } from './store';
+import {
+  APP_CSS,
+  APP_JS,
+  IMAGES,
+  MAIN_MENU_ITEMS,
+  renderDashboardContent,
+  renderLayout,
+  renderLoginPage,
+  renderModulePlaceholder,
+  renderRequestPasswordResetPage,
+} from './markup';
+import { PIM_JS, renderPimContent } from './pim';
+import { LEAVE_JS, renderLeaveContent } from './leave';
+
+/**
+ * Local OrangeHRM Stand-in Server
+ *
+ * A dependency-free HTTP server that reproduces the parts of the OrangeHRM demo the
+ * suite relies on: the login flow (CSRF token, session cookie, error flash), the
+ * dashboard shell with side menu, user dropdown and toasts, and the
+ * `/web/index.php/api/v2` endpoints. Select it with `ENV=local`.
+ */
+export class LocalOrangeHRMServer {
+  static readonly SESSION_COOKIE = 'orangehrm';
+  static readonly API_PREFIX = '/web/index.php/api/v2';
+  // Answered by the stand-in alone, so that a process holding its port can be told apart
+  static readonly HEALTH_PATH = '/__stand-in/health';
+
+  private static server?: http.Server;
+  // Settles once the server is listening, or has found its port taken
+  private static bound?: Promise<void>;
+  private static store = new MockDataStore();
+
+  /**
+   * Port the stand-in listens on (`LOCAL_SERVER_PORT`, default 8089)
+   */
+  static getPort(): number {
+    return parseInt(process.env.LOCAL_SERVER_PORT || '8089');
+  }
+
+  /**
+   * Base URL of the stand-in server
+   */
+  static getUrl(): string {
+    return `http://localhost:${this.getPort()}`;
+  }
+
+  /**
+   * Start the server unless this process already did
+   *
+   * Playwright loads the configuration in the runner and in every worker process, so
+   * only the first process to bind the port serves requests; the others find the port
+   * taken and rely on it, which `verify()` checks before the tests run. The server is
+   * unref'd and never keeps a process alive.
+   */
+  static ensureStarted(): string {
+    if (!this.server) {
+      this.server = http.createServer((req, res) => {
+        this.handleRequest(req, res).catch(error => {
+          res.writeHead(500, { 'Content-Type': 'text/plain' });
+          res.end(error instanceof Error ? error.message : String(error));
+        });
+      });
+      this.server.on('error', (error: NodeJS.ErrnoException) => {
+        if (error.code !== 'EADDRINUSE') {
+          console.warn(`⚠️  Local OrangeHRM server error: ${error.message}`);
+        }
+      });
+      const server = this.server;
+      this.bound = new Promise(resolve => {
+        server.once('listening', resolve);
+        server.once('error', () => resolve());
+      });
+      this.server.listen(this.getPort(), 'localhost');
+      this.server.unref();
+    }
+    return this.getUrl();
+  }
+
+  /**
+   * Check that the stand-in answers on its port, whichever process serves it
+   *
+   * Fails when another process holds the port, rather than running the suite against it.
+   * Does nothing unless this process called `ensureStarted()`.
+   */
+  static async verify(): Promise<void> {
+    if (!this.bound) {
+      return;
+    }
+    await this.bound;
+    if (!(await this.isServing())) {
+      throw new Error(
+        `Port ${this.getPort()} is in use by a process that is not the local OrangeHRM ` +
+          'stand-in; stop it or choose another port with LOCAL_SERVER_PORT',
+      );
+    }
+  }
+
+  private static isServing(): Promise<boolean> {
+    return new Promise(resolve => {
+      const request = http.get(`${this.getUrl()}${this.HEALTH_PATH}`, { timeout: 5000 }, res => {
+        let body = '';
+        res.setEncoding('utf8');
+        res.on('data', chunk => (body += chunk));
+        res.on('end', () => {
+          try {
+            resolve(res.statusCode === 200 && JSON.parse(body).service === 'orangehrm-stand-in');
+          } catch {
+            resolve(false);
+          }
+        });
+      });
+      request.on('timeout', () => request.destroy());
+      request.on('error', () => resolve(false));
+    });
+  }
+
+  // ===== REQUEST HANDLING =====
+
+  private static async handleRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ): Promise<void> {
+    const url = new URL(req.url || '/', this.getUrl());
+    const method = req.method || 'GET';
+    const cookies = this.parseCookies(req.headers.cookie);
+    let session = this.store.getSession(cookies[this.SESSION_COOKIE], this.getSessionTimeout());
+
+    this.applySecurityHeaders(res);
+
+    if (url.pathname === this.HEALTH_PATH) {
+      this.sendJson(res, 200, { service: 'orangehrm-stand-in' });
+      return;
+    }
+
+    // Static assets
+    const staticAsset = this.getStaticAsset(url.pathname);
+    if (staticAsset) {
+      res.writeHead(200, {
+        'Content-Type': staticAsset.contentType,
+        'Cache-Control': 'public, max-age=3600',
+      });
+      res.end(staticAsset.body);
+      return;
+    }
+
+    if (
+      url.pathname === '/' ||
+      url.pathname === '/web/index.php' ||
+      url.pathname === '/web/index.php/'
+    ) {
+      this.redirect(res, '/web/index.php/auth/login');
+      return;
+    }
+
+    // REST API
+    if (url.pathname.startsWith(this.API_PREFIX)) {
+      if (!session?.userName) {
+        this.sendJson(res, 401, { error: { status: '401', message: 'Session expired' } });
+        return;
+      }
+      const rawBody = await this.readBody(req);
+      let body: ApiRequestBody = {};
+      try {
+        body = rawBody ? JSON.parse(rawBody) : {};
+      } catch {
+        this.sendJson(res, 400, { error: { status: '400', message: 'Malformed JSON body' } });
+        return;
+      }
+      const result = handleApiRequest(this.store, {
+        method,
+        path: url.pathname.slice(this.API_PREFIX.length) || '/',
+        query: url.searchParams,
+        body,
+        session,
+      });
+      this.sendJson(res, result.status, result.body);
+      return;
+    }
+
+    // Authentication
+    if (url.pathname === '/web/index.php/auth/login') {
+      if (session?.userName) {
+        this.redirect(res, '/web/index.php/dashboard/index');
+        return;
+      }
+      session = session || this.store.createSession();
+      const error = session.flashError;
+      session.flashError = undefined;
+      this.setSessionCookie(req, res, session);
+      this.sendHtml(res, 200, renderLoginPage({ csrfToken: session.csrfToken, error }));
+      return;
+    }
+
+    if (url.pathname === '/web/index.php/auth/validate') {
+      await this.handleLoginSubmission(req, res, method, session);
+      return;
+    }
+
+    if (url.pathname === '/web/index.php/auth/logout') {
+      if (session) {
+        this.store.destroySession(session.id);
+      }
+      res.setHeader(
+        'Set-Cookie',
+        `${this.SESSION_COOKIE}=deleted; Path=/web; Max-Age=0; HttpOnly; SameSite=Lax`,
+      );
+      this.redirect(res, '/web/index.php/auth/login');
+      return;
+    }
+
+    if (url.pathname === '/web/index.php/auth/requestPasswordResetCode') {
+      this.sendHtml(res, 200, renderRequestPasswordResetPage());
+      return;
+    }
+
+    if (url.pathname === '/web/index.php/pim/viewPimModule') {
+      this.redirect(res, '/web/index.php/pim/viewEmployeeList');
+      return;
+    }
+
+    if (url.pathname === '/web/index.php/leave/viewLeaveModule') {
+      this.redirect(res, '/web/index.php/leave/viewLeaveList');
+      return;
+    }
+
+    // Application pages
+    if (method === 'GET' && url.pathname.startsWith('/web/index.php/')) {
+      if (!session?.userName) {
+        // Remember the deep link so the user lands back on it after logging in
+        session = session || this.store.createSession();
+        session.redirectTo = url.pathname + url.search;
+        this.setSessionCookie(req, res, session);
+        this.redirect(res, '/web/index.php/auth/login');
+        return;
+      }
+      const employee = this.store.getEmployeeForUser(session.userName);
+      const userName = employee ? `${employee.firstName} ${employee.lastName}` : session.userName;
+      this.sendHtml(res, 200, this.renderAppPage(url.pathname, userName));
+      return;
+    }
+
+    this.sendHtml(res, 404, '<h1>404 Not Found</h1>');
+  }
+
+  /**
+   * Handle the login form post: verify the CSRF token, authenticate and rotate the session
+   */
+  private static async handleLoginSubmission(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    method: string,
+    session: MockSession | undefined,
+  ): Promise<void> {
+    if (method !== 'POST') {
+      this.redirect(res, '/web/index.php/auth/login');
+      return;
+    }
+    const form = new URLSearchParams(await this.readBody(req));
+    if (!session || form.get('_token') !== session.csrfToken) {
+      const fresh = this.store.createSession();
+      fresh.flashError = 'CSRF token validation failed';
+      this.setSessionCookie(req, res, fresh);
+      this.redirect(res, '/web/index.php/auth/login');
+      return;
+    }
+    const user = this.store.authenticate(form.get('username') || '', form.get('password') || '');
+    if (!user) {
+      session.flashError = 'Invalid credentials';
+      this.redirect(res, '/web/index.php/auth/login');
+      return;
+    }
+    // Rotate the session id on login to prevent session fixation
+    const redirectTo = session.redirectTo;
+    this.store.destroySession(session.id);
+    const authenticated = this.store.createSession();
+    authenticated.userName = user.userName;
+    this.setSessionCookie(req, res, authenticated);
+    this.redirect(res, redirectTo || '/web/index.php/dashboard/index');
+  }
+
+  /**
+   * Render an authenticated page: the dashboard, or a placeholder for any other module
+   */
+  private static renderAppPage(pathname: string, userName: string): string {
+    if (pathname === '/web/index.php/dashboard/index') {
+      return renderLayout({
+        title: 'Dashboard',
+        module: 'Dashboard',
+        userName,
+        content: renderDashboardContent(),
+      });
+    }
+    const pimContent = renderPimContent(this.store, pathname);
+    if (pimContent) {
+      return renderLayout({ title: 'PIM', module: 'PIM', userName, content: pimContent });
+    }
+    const leaveContent = renderLeaveContent(this.store, pathname);
+    if (leaveContent) {
+      return renderLayout({ title: 'Leave', module: 'Leave', userName, content: leaveContent });
+    }
+    const moduleSegment = pathname.split('/')[3] || '';
+    const menuItem =
+      MAIN_MENU_ITEMS.find(item => item.path === pathname) ||
+      MAIN_MENU_ITEMS.find(item => item.path.split('/')[3] === moduleSegment);
+    const module = menuItem
+      ? menuItem.name
+      : moduleSegment.charAt(0).toUpperCase() + moduleSegment.slice(1);
+    return renderLayout({
+      title: module,
+      module,
+      userName,
+      content: renderModulePlaceholder(module),
+    });
+  }
+
+  // ===== HELPERS =====
+
+  private static getSessionTimeout(): number {
+    return parseInt(process.env.LOCAL_SERVER_SESSION_TIMEOUT || String(30 * 60 * 1000));
+  }
+
+  private static getStaticAsset(
+    pathname: string,
+  ): { contentType: string; body: string } | undefined {
+    if (pathname === '/web/dist/css/app.css') {
+      return { contentType: 'text/css; charset=utf-8', body: APP_CSS };
+    }
+    if (pathname === '/web/dist/js/app.js') {
+      return {
+        contentType: 'application/javascript; charset=utf-8',
+        body: APP_JS + PIM_JS + LEAVE_JS,
+      };
+    }
+    if (pathname === '/web/dist/favicon.ico') {
+      return { contentType: 'image/svg+xml', body: IMAGES['default-photo.svg'] };
+    }
+    const image = pathname.startsWith('/web/images/')
+      ? IMAGES[pathname.slice('/web/images/'.length)]
+      : undefined;
+    return image ? { contentType: 'image/svg+xml', body: image } : undefined;
+  }
+
+  private static applySecurityHeaders(res: http.ServerResponse): void {
+    res.setHeader('X-Frame-Options', 'SAMEORIGIN');
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('Referrer-Policy', 'strict-origin-when-cross-origin');
+    // prettier-ignore
+    res.setHeader('Content-Security-Policy', 'default-src \'self\'; img-src \'self\' data:; style-src \'self\' \'unsafe-inline\'; script-src \'self\'; frame-ancestors \'self\'');
+  }
+
+  private static setSessionCookie(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    session: MockSession,
+  ): void {
+    const secure = req.headers['x-forwarded-proto'] === 'https' ? '; Secure' : '';
+    res.setHeader(
+      'Set-Cookie',
+      `${this.SESSION_COOKIE}=${session.id}; Path=/web; HttpOnly; SameSite=Lax${secure}`,
+    );
+  }
+
+  private static parseCookies(header: string | undefined): Record<string, string> {
+    const cookies: Record<string, string> = {};
+    (header || '').split(';').forEach(part => {
+      const index = part.indexOf('=');
+      if (index > 0) {
+        cookies[part.slice(0, index).trim()] = decodeURIComponent(part.slice(index + 1).trim());
+      }
+    });
+    return cookies;
+  }
+
+  private static readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+      req.on('error', reject);
+    });
+  }
+
+  private static redirect(res: http.ServerResponse, location: string): void {
+    res.writeHead(302, { Location: location });
+    res.end();
+  }
+
+  private static sendHtml(res: http.ServerResponse, status: number, html: string): void {
+    res.writeHead(status, {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'no-store',
+    });
+    res.end(html);
+  }
+
+  private static sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -0,0 +1,371 @@
+/**
+ * In-memory data store for the local OrangeHRM stand-in server
+ *
+ * Holds users, sessions and the records exposed through the `/web/index.php/api/v2`
+ * endpoints. Records use the same shapes the real OrangeHRM 5 API returns so that
+ * anything written against the stand-in also works against the public demo.
+ */
+
+import { randomBytes } from 'crypto';
+import { LOCAL_SERVER_CREDENTIALS } from '@config/credentials';
+
+// ===== INTERFACES =====
+
+export interface MockUser {
+  id: number;
+  userName: string;
+  password: string;
+  role: 'Admin' | 'ESS';
+  empNumber: number;
+  enabled: boolean;
+}
+
+export interface MockSession {
+  id: string;
+  csrfToken: string;
+  userName?: string;
+  redirectTo?: string;
+  flashError?: string;
+  createdAt: number;
+  lastSeenAt: number;
+}
+
+export interface MockEmployee {
+  empNumber: number;
+  employeeId: string;
+  firstName: string;
+  middleName: string;
+  lastName: string;
+  terminationId: number | null;
+}
+
+export interface MockLeaveType {
+  id: number;
+  name: string;
+  deleted: boolean;
+  situational: boolean;
+}
+
+export interface MockLeaveRequest {
+  id: number;
+  empNumber: number;
+  leaveTypeId: number;
+  fromDate: string;
+  toDate: string;
+  partialOption: string | null;
+  duration: string | null;
+  startDuration: string | null;
+  endDuration: string | null;
+  comment: string | null;
+  status: MockLeaveStatus;
+}
+
+export type MockLeaveStatus = 'Rejected' | 'Cancelled' | 'Pending Approval' | 'Scheduled' | 'Taken';
+
+export interface MockJobTitle {
+  id: number;
+  title: string;
+  description: string | null;
+  note: string | null;
+}
+
+export interface MockSubunit {
+  id: number;
+  name: string;
+  description: string | null;
+  parentId: number | null;
+}
+
+export interface MockLocation {
+  id: number;
+  name: string;
+  countryCode: string;
+  province: string | null;
+  city: string | null;
+  address: string | null;
+  zipCode: string | null;
+  phone: string | null;
+  fax: string | null;
+  note: string | null;
+}
+
+export interface MockBuzzPost {
+  id: number;
+  empNumber: number;
+  text: string;
+  createdAt: string;
+}
+
+/**
+ * Countries known to the stand-in, keyed by ISO code
+ */
+export const MOCK_COUNTRIES: Record<string, string> = {
+  US: 'United States',
+  GB: 'United Kingdom',
+  CA: 'Canada',
+  DE: 'Germany',
+  IN: 'India',
+  LK: 'Sri Lanka',
+  AU: 'Australia',
+};
+
+/**
+ * Numeric leave status ids used by the OrangeHRM API
+ */
+export const MOCK_LEAVE_STATUS_IDS: Record<MockLeaveStatus, number> = {
+  Rejected: -1,
+  Cancelled: 0,
+  'Pending Approval': 1,
+  Scheduled: 2,
+  Taken: 3,
+};
+
+/**
+ * Mutable data behind the stand-in server
+ *
+ * A fresh store is seeded with the demo admin, an ESS user and a supervisor, a
+ * handful of employees and the default leave types. Call `reset()` to return to that
+ * state between runs.
+ */
+export class MockDataStore {
+  users: MockUser[] = [];
+  sessions: Map<string, MockSession> = new Map();
+  employees: MockEmployee[] = [];
+  leaveTypes: MockLeaveType[] = [];
+  leaveRequests: MockLeaveRequest[] = [];
+  jobTitles: MockJobTitle[] = [];
+  subunits: MockSubunit[] = [];
+  locations: MockLocation[] = [];
+  buzzPosts: MockBuzzPost[] = [];
+
+  private nextId = 100;
+
+  constructor() {
+    this.reset();
+  }
+
+  /**
+   * Restore the seed data and drop every session
+   */
+  reset(): void {
+    this.nextId = 100;
+    this.sessions.clear();
+    this.users = [
+      {
+        id: 1,
+        userName: process.env.TEST_USERNAME || LOCAL_SERVER_CREDENTIALS.admin.username,
+        password: process.env.TEST_PASSWORD || LOCAL_SERVER_CREDENTIALS.admin.password,
+        role: 'Admin',
+        empNumber: 7,
+        enabled: true,
+      },
+      {
+        id: 2,
+        userName: process.env.ESS_USERNAME || LOCAL_SERVER_CREDENTIALS.ess.username,
+        password: process.env.ESS_PASSWORD || LOCAL_SERVER_CREDENTIALS.ess.password,
+        role: 'ESS',
+        empNumber: 8,
+        enabled: true,
+      },
+      {
+        // Supervisors are ESS users with subordinates
+        id: 3,
+        userName: process.env.SUPERVISOR_USERNAME || LOCAL_SERVER_CREDENTIALS.supervisor.username,
+        password: process.env.SUPERVISOR_PASSWORD || LOCAL_SERVER_CREDENTIALS.supervisor.password,
+        role: 'ESS',
+        empNumber: 9,
+        enabled: true,
+      },
+    ];
+    this.employees = [
+      {
+        empNumber: 7,
+        employeeId: '0001',
+        firstName: 'Paul',
+        middleName: '',
+        lastName: 'Collings',
+        terminationId: null,
+      },
+      {
+        empNumber: 8,
+        employeeId: '0002',
+        firstName: 'Odis',
+        middleName: '',
+        lastName: 'Adalwin',
+        terminationId: null,
+      },
+      {
+        empNumber: 9,
+        employeeId: '0003',
+        firstName: 'Linda',
+        middleName: 'Jane',
+        lastName: 'Anderson',
+        terminationId: null,
+      },
+      {
+        empNumber: 10,
+        employeeId: '0004',
+        firstName: 'Peter',
+        middleName: 'Mac',
+        lastName: 'Anderson',
+        terminationId: null,
+      },
+      ...MockDataStore.generateEmployees(11, 60),
+    ];
+    this.leaveTypes = ['Annual', 'Casual', 'Medical', 'Maternity', 'Personal'].map(
+      (name, index) => ({
+        id: index + 1,
+        name,
+        deleted: false,
+        situational: false,
+      }),
+    );
+    this.leaveRequests = [];
+    this.jobTitles = [
+      { id: 1, title: 'Account Assistant', description: null, note: null },
+      { id: 2, title: 'QA Engineer', description: null, note: null },
+    ];
+    this.subunits = [
+      { id: 1, name: 'OrangeHRM', description: null, parentId: null },
+      { id: 2, name: 'Engineering', description: null, parentId: 1 },
+    ];
+    this.locations = [
+      {
+        id: 1,
+        name: 'Texas R&D',
+        countryCode: 'US',
+        province: 'Texas',
+        city: 'Austin',
+        address: null,
+        zipCode: null,
+        phone: null,
+        fax: null,
+        note: null,
+      },
+    ];
+    this.buzzPosts = [
+      { id: 1, empNumber: 8, text: 'Welcome to the team!', createdAt: '2024-05-01 09:15' },
+      {
+        id: 2,
+        empNumber: 9,
+        text: 'Quarterly review slides are on the shared drive.',
+        createdAt: '2024-05-02 14:30',
+      },
+    ];
+  }
+
+  /**
+   * Allocate a new record id
+   */
+  allocateId(): number {
+    return this.nextId++;
+  }
+
+  // ===== SESSIONS =====
+
+  /**
+   * Create an anonymous session carrying a fresh CSRF token
+   */
+  createSession(): MockSession {
+    const now = Date.now();
+    const session: MockSession = {
+      id: randomBytes(16).toString('hex'),
+      csrfToken: randomBytes(24).toString('hex'),
+      createdAt: now,
+      lastSeenAt: now,
+    };
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  /**
+   * Look up a live session, dropping it when it has been idle longer than `idleTimeoutMs`
+   */
+  getSession(id: string | undefined, idleTimeoutMs: number): MockSession | undefined {
+    if (!id) {
+      return undefined;
+    }
+    const session = this.sessions.get(id);
+    if (!session) {
+      return undefined;
+    }
+    if (Date.now() - session.lastSeenAt > idleTimeoutMs) {
+      this.sessions.delete(id);
+      return undefined;
+    }
+    session.lastSeenAt = Date.now();
+    return session;
+  }
+
+  /**
+   * Destroy a session
+   */
+  destroySession(id: string): void {
+    this.sessions.delete(id);
+  }
+
+  /**
+   * Validate credentials - usernames are case sensitive, like the demo's test data expects
+   */
+  authenticate(userName: string, password: string): MockUser | undefined {
+    return this.users.find(
+      user => user.enabled && user.userName === userName && user.password === password,
+    );
+  }
+
+  /**
+   * Get the employee record behind a user account
+   */
+  getEmployeeForUser(userName: string): MockEmployee | undefined {
+    const user = this.users.find(u => u.userName === userName);
+    return user ? this.employees.find(emp => emp.empNumber === user.empNumber) : undefined;
+  }
+
+  // ===== LOOKUPS =====
+
+  /**
+   * Employee id the Add Employee form suggests next (the highest numeric id plus one)
+   */
+  getNextEmployeeId(): string {
+    const numericIds = this.employees
+      .map(emp => parseInt(emp.employeeId, 10))
+      .filter(id => !isNaN(id));
+    return String(Math.max(0, ...numericIds) + 1).padStart(4, '0');
+  }
+
+  findEmployee(empNumber: number): MockEmployee | undefined {
+    return this.employees.find(emp => emp.empNumber === empNumber);
+  }
+
+  findLeaveType(id: number): MockLeaveType | undefined {
+    return this.leaveTypes.find(type => type.id === id);
+  }
+
+  /**
+   * Employees on leave on the given date (YYYY-MM-DD), excluding rejected and cancelled requests
+   */
+  getEmployeesOnLeave(date: string): MockLeaveRequest[] {
+    return this.leaveRequests.filter(
+      request =>
+        request.fromDate <= date &&
+        request.toDate >= date &&
+        MOCK_LEAVE_STATUS_IDS[request.status] > 0,
+    );
+  }
+
+  /**
+   * Deterministic filler employees so the PIM list has more than one page, like the demo
+   */
+  private static generateEmployees(firstEmpNumber: number, count: number): MockEmployee[] {
+    const firstNames = ['Amelia', 'Brian', 'Chen', 'Divya', 'Emil', 'Fatima', 'Goran', 'Hana'];
+    const lastNames = ['Okafor', 'Lindqvist', 'Moreau', 'Tanaka', 'Silva', 'Kowalski', 'Reyes'];
+    return Array.from({ length: count }, (_, index) => ({
+      empNumber: firstEmpNumber + index,
+      employeeId: String(firstEmpNumber + index - 6).padStart(4, '0'),
+      firstName: firstNames[index % firstNames.length],
+      middleName: '',
+      lastName: lastNames[index % lastNames.length],
+      terminationId: null,
+    }));
+  }
+}
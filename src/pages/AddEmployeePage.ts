@@ -0,0 +1,282 @@
+import { Page, Locator } from '@playwright/test';
+import { BasePage } from './BasePage';
+import { OxdCheckbox } from '@components/OxdCheckbox';
+import { OxdInput } from '@components/OxdInput';
+import type { EmployeeData } from '@utils/testData';
+
+/**
+ * Login details entered in the "Create Login Details" section
+ */
+export interface EmployeeLoginDetails {
+  username: string;
+  password: string;
+  confirmPassword?: string;
+  status?: 'Enabled' | 'Disabled';
+}
+
+/**
+ * Fields of the Add Employee form that can show a validation error
+ */
+export type AddEmployeeField =
+  | 'firstName'
+  | 'middleName'
+  | 'lastName'
+  | 'employeeId'
+  | 'username'
+  | 'password'
+  | 'confirmPassword';
+
+/**
+ * OrangeHRM Add Employee Page Object
+ *
+ * Page object for PIM > Add Employee. Fills the form from an `EmployeeData`, handles the
+ * "Create Login Details" toggle and reads field validation errors back.
+ */
+export class AddEmployeePage extends BasePage {
+  // Components
+  readonly fields: Record<AddEmployeeField, OxdInput>;
+  readonly createLoginDetails: OxdCheckbox;
+
+  // Employee details elements
+  readonly pageTitle: Locator;
+  readonly firstNameInput: Locator;
+  readonly middleNameInput: Locator;
+  readonly lastNameInput: Locator;
+  readonly employeeIdInput: Locator;
+
+  // Login details elements
+  readonly createLoginDetailsToggle: Locator;
+  readonly createLoginDetailsCheckbox: Locator;
+  readonly usernameInput: Locator;
+  readonly passwordInput: Locator;
+  readonly confirmPasswordInput: Locator;
+  readonly enabledStatusRadio: Locator;
+  readonly disabledStatusRadio: Locator;
+
+  // Form actions
+  readonly saveButton: Locator;
+  readonly cancelButton: Locator;
+  readonly validationErrors: Locator;
+
+  constructor(page: Page) {
+    super(page);
+
+    // Initialize components
+    this.fields = {
+      firstName: this.getNameField('firstName'),
+      middleName: this.getNameField('middleName'),
+      lastName: this.getNameField('lastName'),
+      employeeId: OxdInput.byLabel(page, 'Employee Id'),
+      username: OxdInput.byLabel(page, 'Username'),
+      password: OxdInput.byLabel(page, 'Password'),
+      confirmPassword: OxdInput.byLabel(page, 'Confirm Password'),
+    };
+    this.createLoginDetails = new OxdCheckbox(page.locator('.oxd-switch-wrapper'));
+
+    // Initialize employee details locators
+    this.pageTitle = page.locator('.orangehrm-main-title');
+    this.firstNameInput = this.fields.firstName.input;
+    this.middleNameInput = this.fields.middleName.input;
+    this.lastNameInput = this.fields.lastName.input;
+    this.employeeIdInput = this.fields.employeeId.input;
+
+    // Initialize login details locators
+    this.createLoginDetailsToggle = this.createLoginDetails.control;
+    this.createLoginDetailsCheckbox = this.createLoginDetails.input;
+    this.usernameInput = this.fields.username.input;
+    this.passwordInput = this.fields.password.input;
+    this.confirmPasswordInput = this.fields.confirmPassword.input;
+    this.enabledStatusRadio = page
+      .locator('.oxd-radio-wrapper', { hasText: 'Enabled' })
+      .locator('input[type="radio"]');
+    this.disabledStatusRadio = page
+      .locator('.oxd-radio-wrapper', { hasText: 'Disabled' })
+      .locator('input[type="radio"]');
+
+    // Initialize form action locators
+    this.saveButton = page.locator('.oxd-form-actions button[type="submit"]');
+    this.cancelButton = page.locator('.oxd-form-actions button', { hasText: 'Cancel' });
+    this.validationErrors = page.locator('.oxd-input-field-error-message');
+  }
+
+  /**
+   * Navigate to the Add Employee form
+   */
+  async goto(): Promise<void> {
+    await this.navigateTo('/web/index.php/pim/addEmployee');
+    await this.waitForAddEmployeePageLoad();
+  }
+
+  /**
+   * Wait for the form to be ready
+   */
+  async waitForAddEmployeePageLoad(): Promise<void> {
+    await this.waitForElement('input[name="firstName"]');
+    await this.waitForOrangeHRMPageLoad();
+  }
+
+  /**
+   * Verify we are on the Add Employee page
+   */
+  async verifyAddEmployeePage(): Promise<void> {
+    await this.expectElementToContainText(
+      '.oxd-topbar-header-breadcrumb h6',
+      'PIM',
+      'Should be on PIM module',
+    );
+    await this.expectElementToHaveText(
+      '.orangehrm-main-title',
+      'Add Employee',
+      'Add Employee title should be visible',
+    );
+    await this.expectUrlToContain('/pim/addEmployee', 'URL should contain addEmployee');
+  }
+
+  // Form filling methods
+  /**
+   * Fill the employee name and id from an `EmployeeData`
+   *
+   * Only the name and employee id are captured by this form; the other `EmployeeData`
+   * fields belong to the employee's details tabs.
+   */
+  async fillEmployeeDetails(employee: Partial<EmployeeData>): Promise<void> {
+    await this.fields.firstName.fill(employee.firstName || '');
+    await this.fields.middleName.fill(employee.middleName || '');
+    await this.fields.lastName.fill(employee.lastName || '');
+    if (employee.employeeId !== undefined) {
+      await this.fields.employeeId.fill(employee.employeeId);
+    }
+  }
+
+  /**
+   * Get the name shown in the name fields, here or on the Personal Details page that
+   * saving leads to, which shows them the same way
+   */
+  async getEmployeeName(): Promise<Pick<EmployeeData, 'firstName' | 'middleName' | 'lastName'>> {
+    await this.firstNameInput.waitFor();
+    await this.waitForOrangeHRMPageLoad();
+    return {
+      firstName: await this.fields.firstName.getValue(),
+      middleName: await this.fields.middleName.getValue(),
+      lastName: await this.fields.lastName.getValue(),
+    };
+  }
+
+  /**
+   * Get the employee id OrangeHRM suggests for the new employee
+   */
+  async getGeneratedEmployeeId(): Promise<string> {
+    return await this.fields.employeeId.getValue();
+  }
+
+  /**
+   * Check whether the "Create Login Details" toggle is on
+   */
+  async isCreateLoginDetailsEnabled(): Promise<boolean> {
+    return await this.createLoginDetails.isChecked();
+  }
+
+  /**
+   * Switch the "Create Login Details" toggle on or off
+   */
+  async setCreateLoginDetails(enabled: boolean): Promise<void> {
+    await this.createLoginDetails.setChecked(enabled);
+    if (enabled) {
+      await this.usernameInput.waitFor();
+    } else {
+      await this.usernameInput.waitFor({ state: 'hidden' });
+    }
+  }
+
+  /**
+   * Turn on "Create Login Details" and fill in the login section
+   */
+  async fillLoginDetails(login: EmployeeLoginDetails): Promise<void> {
+    await this.setCreateLoginDetails(true);
+    await this.fields.username.fill(login.username);
+    await this.fields.password.fill(login.password);
+    await this.fields.confirmPassword.fill(login.confirmPassword ?? login.password);
+    if (login.status === 'Disabled') {
+      await this.disabledStatusRadio.check({ force: true });
+    } else {
+      await this.enabledStatusRadio.check({ force: true });
+    }
+  }
+
+  // Form actions
+  /**
+   * Click Save without waiting for the outcome
+   */
+  async clickSave(): Promise<void> {
+    await this.saveButton.click();
+  }
+
+  /**
+   * Save and wait for the new employee's Personal Details page
+   *
+   * Returns the `empNumber` OrangeHRM assigned to the employee.
+   */
+  async saveAndWaitForPersonalDetails(): Promise<number> {
+    await this.clickSave();
+    await this.waitForUrl(/viewPersonalDetails\/empNumber\/\d+/, 15000);
+    const match = (await this.getCurrentUrl()).match(/empNumber\/(\d+)/);
+    return match ? parseInt(match[1]) : 0;
+  }
+
+  /**
+   * Add an employee, optionally with login details, and return its `empNumber`
+   */
+  async addEmployee(employee: EmployeeData, login?: EmployeeLoginDetails): Promise<number> {
+    await this.fillEmployeeDetails(employee);
+    if (login) {
+      await this.fillLoginDetails(login);
+    }
+    return await this.saveAndWaitForPersonalDetails();
+  }
+
+  /**
+   * Leave the form without saving
+   */
+  async cancel(): Promise<void> {
+    await this.cancelButton.click();
+    await this.waitForUrl(/viewEmployeeList/);
+  }
+
+  // Validation methods
+  /**
+   * Submit the form and wait for validation errors to appear
+   */
+  async submitExpectingErrors(): Promise<Partial<Record<AddEmployeeField, string>>> {
+    await this.clickSave();
+    await this.validationErrors.first().waitFor({ timeout: 10000 });
+    return await this.getValidationErrors();
+  }
+
+  /**
+   * Get the validation error shown for a field, or an empty string when there is none
+   */
+  async getFieldError(field: AddEmployeeField): Promise<string> {
+    return await this.fields[field].getError();
+  }
+
+  /**
+   * Get every visible validation error, keyed by field
+   */
+  async getValidationErrors(): Promise<Partial<Record<AddEmployeeField, string>>> {
+    const errors: Partial<Record<AddEmployeeField, string>> = {};
+    for (const field of Object.keys(this.fields) as AddEmployeeField[]) {
+      const message = await this.getFieldError(field);
+      if (message) {
+        errors[field] = message;
+      }
+    }
+    return errors;
+  }
+
+  // Locator helpers
+  private getNameField(name: 'firstName' | 'middleName' | 'lastName'): OxdInput {
+    // OrangeHRM nests each name input in its own group inside the "Employee Full Name" group
+    const groups = this.page.locator('.--name-grouped-field .oxd-input-group');
+    return new OxdInput(groups.filter({ has: this.page.locator(`input[name="${name}"]`) }));
+  }
+}
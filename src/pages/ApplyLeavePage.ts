@@ -0,0 +1,48 @@
+import { Page } from '@playwright/test';
+import { LeaveRequestFormPage, PartialDayDuration } from './LeaveRequestFormPage';
+import type { LeaveData } from '@utils/testData';
+
+/**
+ * OrangeHRM Apply Leave Page Object
+ *
+ * Page object for Leave > Apply, where the signed-in user requests leave for themselves.
+ * Requests made here wait for a supervisor or admin to approve them.
+ */
+export class ApplyLeavePage extends LeaveRequestFormPage {
+  constructor(page: Page) {
+    super(page);
+  }
+
+  /**
+   * Navigate to the Apply Leave form
+   */
+  async goto(): Promise<void> {
+    await this.navigateTo('/web/index.php/leave/applyLeave');
+    await this.waitForLeaveFormLoad();
+  }
+
+  /**
+   * Verify we are on the Apply Leave page
+   */
+  async verifyApplyLeavePage(): Promise<void> {
+    await this.expectElementToContainText(
+      '.oxd-topbar-header-breadcrumb h6',
+      'Leave',
+      'Should be on Leave module',
+    );
+    await this.expectElementToHaveText(
+      '.orangehrm-main-title',
+      'Apply Leave',
+      'Apply Leave title should be visible',
+    );
+    await this.expectUrlToContain('/leave/applyLeave', 'URL should contain applyLeave');
+  }
+
+  /**
+   * Fill in and submit a leave request, returning the toast message
+   */
+  async applyLeave(leave: LeaveData, duration?: PartialDayDuration): Promise<string> {
+    await this.fillLeaveDetails(leave, duration);
+    return await this.submit();
+  }
+}
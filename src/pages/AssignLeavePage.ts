@@ -0,0 +1,94 @@
+import { Page, Locator } from '@playwright/test';
+import { LeaveRequestFormPage, LeaveFormField, PartialDayDuration } from './LeaveRequestFormPage';
+import { OxdAutocomplete } from '@components/OxdAutocomplete';
+import { OxdField } from '@components/OxdComponent';
+import { OxdDialog } from '@components/OxdDialog';
+import type { LeaveData } from '@utils/testData';
+
+/**
+ * OrangeHRM Assign Leave Page Object
+ *
+ * Page object for Leave > Assign Leave, where an admin or supervisor books leave on an
+ * employee's behalf. Assigned leave is scheduled straight away.
+ */
+export class AssignLeavePage extends LeaveRequestFormPage {
+  readonly employeeName: OxdAutocomplete;
+  readonly confirmDialog: OxdDialog;
+
+  readonly employeeNameInput: Locator;
+  readonly employeeNameSuggestions: Locator;
+
+  constructor(page: Page) {
+    super(page);
+
+    this.employeeName = OxdAutocomplete.byLabel(page.locator('.oxd-form'), 'Employee Name');
+    this.confirmDialog = OxdDialog.on(page, 'Confirm Leave Assignment');
+
+    this.employeeNameInput = this.employeeName.input;
+    this.employeeNameSuggestions = this.employeeName.suggestions;
+  }
+
+  /**
+   * Navigate to the Assign Leave form
+   */
+  async goto(): Promise<void> {
+    await this.navigateTo('/web/index.php/leave/assignLeave');
+    await this.waitForLeaveFormLoad();
+  }
+
+  /**
+   * Verify we are on the Assign Leave page
+   */
+  async verifyAssignLeavePage(): Promise<void> {
+    await this.expectElementToContainText(
+      '.oxd-topbar-header-breadcrumb h6',
+      'Leave',
+      'Should be on Leave module',
+    );
+    await this.expectElementToHaveText(
+      '.orangehrm-main-title',
+      'Assign Leave',
+      'Assign Leave title should be visible',
+    );
+    await this.expectUrlToContain('/leave/assignLeave', 'URL should contain assignLeave');
+  }
+
+  /**
+   * Type an employee name and pick the matching autocomplete suggestion
+   */
+  async selectEmployee(employeeName: string): Promise<void> {
+    await this.employeeName.select(employeeName);
+  }
+
+  /**
+   * Submit the form and return the toast message
+   *
+   * When the employee's balance doesn't cover the leave OrangeHRM asks for confirmation
+   * first; the assignment is confirmed.
+   */
+  async submit(): Promise<string> {
+    await this.clickSubmit();
+    await this.toast.toasts.or(this.confirmDialog.root).first().waitFor({ timeout: 10000 });
+    if (await this.confirmDialog.isVisible()) {
+      await this.confirmDialog.clickButton('Ok');
+    }
+    return await this.waitForToastMessage();
+  }
+
+  /**
+   * Assign leave to an employee, returning the toast message
+   */
+  async assignLeave(
+    employeeName: string,
+    leave: LeaveData,
+    duration?: PartialDayDuration,
+  ): Promise<string> {
+    await this.selectEmployee(employeeName);
+    await this.fillLeaveDetails(leave, duration);
+    return await this.submit();
+  }
+
+  protected getFields(): Partial<Record<LeaveFormField, OxdField>> {
+    return { employeeName: this.employeeName, ...super.getFields() };
+  }
+}
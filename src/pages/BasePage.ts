@@ -1,15 +1,38 @@
 import { Page, Locator, BrowserContext, expect } from '@playwright/test';
 import { Environment } from '@config/environment';
+import { OxdButton } from '@components/OxdButton';
+import { OxdDateInput } from '@components/OxdDateInput';
+import { OxdInput } from '@components/OxdInput';
+import { OxdSelect } from '@components/OxdSelect';
+import { OxdTable } from '@components/OxdTable';
+import { OxdToast } from '@components/OxdToast';
+import {
+  AccessibilityAudit,
+  AccessibilityAuditOptions,
+  AccessibilityAuditResult,
+} from '@utils/accessibility';
+import { expectErrorFeedback } from '@utils/faultInjection';
+
+export interface VisualMatchOptions {
+  // Compare one element - a selector, as for takeElementScreenshot(), or a locator - instead of the full page
+  element?: string | Locator;
+  // Regions to mask on top of the page's own dynamicRegions
+  mask?: Locator[];
+  // Share of pixels allowed to differ, overriding the default in playwright.config.ts
+  maxDiffPixelRatio?: number;
+}
 
 export abstract class BasePage {
   protected page: Page;
   protected context: BrowserContext;
   protected baseUrl: string;
+  readonly toast: OxdToast;
 
   constructor(page: Page) {
     this.page = page;
     this.context = page.context();
     this.baseUrl = Environment.getConfig().baseUrl;
+    this.toast = OxdToast.on(page);
   }
 
   // Common navigation methods
@@ -70,11 +93,13 @@ export abstract class BasePage {
     await this.waitForPageLoad();
   }
 
+  // Assert the page reports a failed request - an error toast or a retry state - rather than hanging
+  async expectErrorFeedback(timeout?: number): Promise<void> {
+    await expectErrorFeedback(this.page, timeout);
+  }
+
   async waitForToastMessage(): Promise<string> {
-    const toastSelector = '.oxd-toast-content--success, .oxd-toast-content--error, .oxd-toast-content--warn';
-    await this.page.waitForSelector(toastSelector, { timeout: 10000 });
-    const toastText = await this.getText(toastSelector);
-    return toastText;
+    return await this.toast.waitForText(['success', 'error', 'warn']);
   }
 
   // Enhanced element interaction methods
@@ -162,45 +187,23 @@ export abstract class BasePage {
 
   // OrangeHRM-specific utility methods
   async clickOrangeHRMButton(buttonText: string): Promise<void> {
-    const buttonSelector = `button:has-text("${buttonText}"), .oxd-button:has-text("${buttonText}")`;
-    await this.click(buttonSelector);
+    await OxdButton.byText(this.page, buttonText).click();
   }
 
   async fillOrangeHRMInput(labelText: string, value: string): Promise<void> {
-    // OrangeHRM often uses labels with associated inputs
-    const inputSelector = `label:has-text("${labelText}") + * input, label:has-text("${labelText}") ~ * input`;
-    await this.fill(inputSelector, value);
+    await OxdInput.byLabel(this.page, labelText).fill(value);
+  }
+
+  async fillOrangeHRMDateInput(labelText: string, isoDate: string): Promise<void> {
+    await OxdDateInput.byLabel(this.page, labelText).fill(isoDate);
   }
 
   async selectFromOrangeHRMDropdown(labelText: string, optionText: string): Promise<void> {
-    // Click dropdown
-    const dropdownSelector = `label:has-text("${labelText}") + * .oxd-select-text, label:has-text("${labelText}") ~ * .oxd-select-text`;
-    await this.click(dropdownSelector);
-    
-    // Select option
-    const optionSelector = `.oxd-select-option:has-text("${optionText}")`;
-    await this.click(optionSelector);
+    await OxdSelect.byLabel(this.page, labelText).select(optionText);
   }
 
   async getOrangeHRMTableData(tableSelector: string = '.oxd-table'): Promise<string[][]> {
-    const rows = await this.page.locator(`${tableSelector} .oxd-table-row`).all();
-    const tableData: string[][] = [];
-    
-    for (const row of rows) {
-      const cells = await row.locator('.oxd-table-cell').all();
-      const rowData: string[] = [];
-      
-      for (const cell of cells) {
-        const cellText = await cell.innerText();
-        rowData.push(cellText.trim());
-      }
-      
-      if (rowData.length > 0) {
-        tableData.push(rowData);
-      }
-    }
-    
-    return tableData;
+    return await new OxdTable(this.page.locator(tableSelector).first()).getRawData();
   }
 
   // Screenshot and debugging methods
@@ -221,6 +224,29 @@ export abstract class BasePage {
     });
   }
 
+  /**
+   * Regions whose content changes from run to run, masked in every visual comparison
+   */
+  protected get dynamicRegions(): Locator[] {
+    return [];
+  }
+
+  // Visual checkpoint - compares the page, or one element, with the baseline stored for the browser project
+  async expectVisualMatch(name: string, options: VisualMatchOptions = {}): Promise<void> {
+    const mask = [...this.dynamicRegions, ...(options.mask ?? [])];
+    const screenshotOptions = { mask, maxDiffPixelRatio: options.maxDiffPixelRatio };
+    if (options.element) {
+      const element =
+        typeof options.element === 'string' ? this.page.locator(options.element) : options.element;
+      await expect(element).toHaveScreenshot(`${name}-element.png`, screenshotOptions);
+    } else {
+      await expect(this.page).toHaveScreenshot(`${name}.png`, {
+        ...screenshotOptions,
+        fullPage: true,
+      });
+    }
+  }
+
   async logPageInfo(): Promise<void> {
     console.log(`Current URL: ${await this.getCurrentUrl()}`);
     console.log(`Page Title: ${await this.getTitle()}`);
@@ -247,6 +273,13 @@ export abstract class BasePage {
     await expect(this.page, message).toHaveURL(new RegExp(expectedUrlPart));
   }
 
+  // Accessibility audit with axe-core - attaches an HTML report and fails on violations not in the baseline
+  async auditAccessibility(
+    options: AccessibilityAuditOptions = {},
+  ): Promise<AccessibilityAuditResult> {
+    return AccessibilityAudit.run(this.page, { name: this.constructor.name, ...options });
+  }
+
   // Get locator helper (enhanced)
   protected getLocator(selector: string): Locator {
     return this.page.locator(selector);
@@ -308,6 +308,13 @@ export class OrangeHRMDashboardPage extends BasePage {
     };
   }
 
+  /**
+   * The signed-in user, their punch in/out times and the latest Buzz posts change between runs
+   */
+  protected get dynamicRegions(): Locator[] {
+    return [this.userName, this.profilePicture, this.timeAtWorkWidget, this.buzzLatestPostsWidget];
+  }
+
   /**
    * Take a screenshot of the dashboard
    */
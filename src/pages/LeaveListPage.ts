@@ -0,0 +1,288 @@
+import { Page, Locator } from '@playwright/test';
+import { BasePage } from './BasePage';
+import { OxdAutocomplete } from '@components/OxdAutocomplete';
+import { OxdDateInput } from '@components/OxdDateInput';
+import { OxdMultiSelect, OxdSelect } from '@components/OxdSelect';
+import { OxdRowCriteria, OxdTable, OxdTableRow } from '@components/OxdTable';
+import type { LeaveStatus } from '@api/OrangeHRMApiClient';
+
+/**
+ * A row of the leave list table
+ */
+export interface LeaveListRow {
+  date: string;
+  employeeName: string;
+  leaveType: string;
+  leaveBalance: string;
+  numberOfDays: string;
+  status: string;
+  comments: string;
+}
+
+/**
+ * Filters offered above the leave list; dates are ISO `YYYY-MM-DD` strings
+ */
+export interface LeaveListFilters {
+  fromDate?: string;
+  toDate?: string;
+  statuses?: LeaveStatus[];
+  leaveType?: string;
+  employeeName?: string;
+}
+
+/**
+ * Cell texts a leave list row must have; every given field has to match exactly
+ */
+export interface LeaveRowMatch {
+  employeeName?: string;
+  leaveType?: string;
+  comment?: string;
+}
+
+/**
+ * OrangeHRM Leave List Page Object
+ *
+ * Page object for Leave > Leave List. Filters leave requests by date range, status,
+ * leave type and employee, reads the results and approves or rejects requests.
+ */
+export class LeaveListPage extends BasePage {
+  // Components
+  readonly fromDate: OxdDateInput;
+  readonly toDate: OxdDateInput;
+  readonly statusFilter: OxdMultiSelect;
+  readonly leaveTypeFilter: OxdSelect;
+  readonly employeeName: OxdAutocomplete;
+  readonly leaveTable: OxdTable;
+
+  // Filter elements
+  readonly filterTitle: Locator;
+  readonly statusChips: Locator;
+  readonly employeeNameInput: Locator;
+  readonly employeeNameSuggestions: Locator;
+  readonly searchButton: Locator;
+  readonly resetButton: Locator;
+
+  // Results elements
+  readonly recordsFoundText: Locator;
+  readonly tableRows: Locator;
+  readonly loadingSpinner: Locator;
+
+  constructor(page: Page) {
+    super(page);
+
+    // Initialize components
+    const filter = page.locator('.oxd-table-filter');
+    this.fromDate = OxdDateInput.byLabel(filter, 'From Date');
+    this.toDate = OxdDateInput.byLabel(filter, 'To Date');
+    this.statusFilter = OxdMultiSelect.byLabel(filter, 'Show Leave with Status');
+    this.leaveTypeFilter = OxdSelect.byLabel(filter, 'Leave Type');
+    this.employeeName = OxdAutocomplete.byLabel(filter, 'Employee Name');
+    this.leaveTable = OxdTable.on(page);
+
+    // Initialize filter locators
+    this.filterTitle = page.locator('.oxd-table-filter-title');
+    this.statusChips = this.statusFilter.chips;
+    this.employeeNameInput = this.employeeName.input;
+    this.employeeNameSuggestions = this.employeeName.suggestions;
+    this.searchButton = page.locator('.oxd-table-filter button[type="submit"]');
+    this.resetButton = page.locator('.oxd-table-filter button[type="reset"]');
+
+    // Initialize results locators
+    this.recordsFoundText = page.locator('.orangehrm-horizontal-padding .oxd-text--span');
+    this.tableRows = this.leaveTable.rows;
+    this.loadingSpinner = this.leaveTable.loadingSpinner;
+  }
+
+  /**
+   * Navigate to the leave list
+   */
+  async goto(): Promise<void> {
+    await this.navigateTo('/web/index.php/leave/viewLeaveList');
+    await this.waitForResults();
+  }
+
+  /**
+   * Verify we are on the leave list page
+   */
+  async verifyLeaveListPage(): Promise<void> {
+    await this.expectElementToContainText(
+      '.oxd-topbar-header-breadcrumb h6',
+      'Leave',
+      'Should be on Leave module',
+    );
+    await this.expectElementToHaveText(
+      '.oxd-table-filter-title',
+      'Leave List',
+      'Leave list filter should be visible',
+    );
+    await this.expectUrlToContain('/leave/viewLeaveList', 'URL should contain viewLeaveList');
+  }
+
+  /**
+   * Wait for the results table to finish loading
+   */
+  async waitForResults(): Promise<void> {
+    await this.waitForElement('.oxd-table-filter');
+    await this.loadingSpinner.waitFor({ state: 'hidden', timeout: 15000 });
+    await this.recordsFoundText.filter({ hasText: /Found/ }).waitFor();
+  }
+
+  // Filter methods
+  /**
+   * Set the date range filter
+   */
+  async filterByDateRange(fromDate: string, toDate: string): Promise<void> {
+    await this.fromDate.fill(fromDate);
+    await this.toDate.fill(toDate);
+  }
+
+  /**
+   * Show only leave with the given statuses (the list defaults to "Pending Approval")
+   */
+  async filterByStatus(statuses: LeaveStatus[]): Promise<void> {
+    await this.statusFilter.selectOnly(statuses);
+  }
+
+  /**
+   * Remove every status from the status filter
+   */
+  async clearStatusFilter(): Promise<void> {
+    await this.statusFilter.clear();
+  }
+
+  /**
+   * Get the statuses currently selected in the status filter
+   */
+  async getSelectedStatuses(): Promise<string[]> {
+    return await this.statusFilter.getSelectedOptions();
+  }
+
+  /**
+   * Show only leave of the given type
+   */
+  async filterByLeaveType(leaveType: string): Promise<void> {
+    await this.leaveTypeFilter.select(leaveType);
+  }
+
+  /**
+   * Show only one employee's leave, picked from the name suggestions
+   */
+  async filterByEmployee(employeeName: string): Promise<void> {
+    await this.employeeName.select(employeeName);
+  }
+
+  /**
+   * Apply the given filters and search
+   */
+  async search(filters: LeaveListFilters = {}): Promise<void> {
+    if (filters.fromDate !== undefined || filters.toDate !== undefined) {
+      await this.filterByDateRange(filters.fromDate || '', filters.toDate || '');
+    }
+    if (filters.statuses) {
+      await this.filterByStatus(filters.statuses);
+    }
+    if (filters.leaveType) {
+      await this.filterByLeaveType(filters.leaveType);
+    }
+    if (filters.employeeName) {
+      await this.filterByEmployee(filters.employeeName);
+    }
+    await this.clickSearch();
+  }
+
+  /**
+   * Click Search and wait for the results
+   */
+  async clickSearch(): Promise<void> {
+    await this.searchButton.click();
+    await this.waitForResults();
+  }
+
+  /**
+   * Restore the default filters and reload the list
+   */
+  async resetFilters(): Promise<void> {
+    await this.resetButton.click();
+    await this.waitForResults();
+  }
+
+  // Results methods
+  /**
+   * Get the total number of records found by the current search
+   */
+  async getRecordCount(): Promise<number> {
+    const text = (await this.recordsFoundText.textContent()) || '';
+    const match = text.match(/\((\d+)\)/);
+    return match ? parseInt(match[1]) : 0;
+  }
+
+  /**
+   * Get the rows shown in the table
+   *
+   * The status column reads like "Pending Approval (5.00)"; only the status is kept.
+   */
+  async getRows(): Promise<LeaveListRow[]> {
+    const rows = await this.leaveTable.getData();
+    return rows.map(row => ({
+      date: row['Date'],
+      employeeName: row['Employee Name'],
+      leaveType: row['Leave Type'],
+      leaveBalance: row['Leave Balance (Days)'],
+      numberOfDays: row['Number of Days'],
+      status: row['Status'].replace(/\s*\([\d.]+\)$/, ''),
+      comments: row['Comments'],
+    }));
+  }
+
+  /**
+   * The first row that matches every given field
+   */
+  getRow(match: LeaveRowMatch): OxdTableRow {
+    return this.leaveTable.rowWhere(this.toCriteria(match));
+  }
+
+  /**
+   * Check whether a matching leave request is listed
+   */
+  async hasLeave(match: LeaveRowMatch): Promise<boolean> {
+    return await this.leaveTable.hasRowWhere(this.toCriteria(match));
+  }
+
+  /**
+   * Approve the first matching leave request and return the toast message
+   */
+  async approveLeave(match: LeaveRowMatch): Promise<string> {
+    return await this.clickRowAction(match, 'Approve');
+  }
+
+  /**
+   * Reject the first matching leave request and return the toast message
+   */
+  async rejectLeave(match: LeaveRowMatch): Promise<string> {
+    return await this.clickRowAction(match, 'Reject');
+  }
+
+  private async clickRowAction(
+    match: LeaveRowMatch,
+    action: 'Approve' | 'Reject',
+  ): Promise<string> {
+    await this.getRow(match).action(action);
+    const message = await this.waitForToastMessage();
+    await this.waitForResults();
+    return message;
+  }
+
+  private toCriteria(match: LeaveRowMatch): OxdRowCriteria {
+    const criteria: OxdRowCriteria = {};
+    if (match.employeeName) {
+      criteria['Employee Name'] = match.employeeName;
+    }
+    if (match.leaveType) {
+      criteria['Leave Type'] = match.leaveType;
+    }
+    if (match.comment) {
+      criteria['Comments'] = match.comment;
+    }
+    return criteria;
+  }
+}
@@ -0,0 +1,222 @@
+import { Page, Locator } from '@playwright/test';
+import { BasePage } from './BasePage';
+import { OxdField } from '@components/OxdComponent';
+import { OxdDateInput } from '@components/OxdDateInput';
+import { OxdInput } from '@components/OxdInput';
+import { OxdSelect } from '@components/OxdSelect';
+import type { LeaveData } from '@utils/testData';
+
+/**
+ * Half-day duration chosen for partial leave days
+ */
+export type PartialDayDuration = 'Half Day - Morning' | 'Half Day - Afternoon';
+
+/**
+ * Fields of the leave request forms that can show a validation error
+ */
+export type LeaveFormField = 'employeeName' | 'leaveType' | 'fromDate' | 'toDate' | 'comment';
+
+/**
+ * `LeaveData.partialDays` values and the option text OrangeHRM shows for them
+ */
+const PARTIAL_DAYS_OPTIONS: Record<NonNullable<LeaveData['partialDays']>, string> = {
+  'All Days': 'All Days',
+  'Start Day Only': 'Start Day Only',
+  'End Day Only': 'End Day Only',
+  'Start and End Day': 'Start and End',
+};
+
+/**
+ * Shared behaviour of the Apply Leave and Assign Leave forms
+ *
+ * Both forms capture a leave type, a date range, how partial days are taken and a
+ * comment; Assign Leave adds the employee the leave is for.
+ */
+export abstract class LeaveRequestFormPage extends BasePage {
+  // Components
+  readonly leaveType: OxdSelect;
+  readonly fromDate: OxdDateInput;
+  readonly toDate: OxdDateInput;
+  readonly partialDays: OxdSelect;
+  readonly comment: OxdInput;
+
+  readonly pageTitle: Locator;
+  readonly partialDaysSelect: Locator;
+  readonly commentTextarea: Locator;
+  readonly submitButton: Locator;
+  readonly validationErrors: Locator;
+
+  constructor(page: Page) {
+    super(page);
+
+    const form = page.locator('.oxd-form');
+    this.leaveType = OxdSelect.byLabel(form, 'Leave Type');
+    this.fromDate = OxdDateInput.byLabel(form, 'From Date');
+    this.toDate = OxdDateInput.byLabel(form, 'To Date');
+    this.partialDays = OxdSelect.byLabel(form, 'Partial Days');
+    this.comment = OxdInput.byLabel(form, 'Comments');
+
+    this.pageTitle = page.locator('.orangehrm-main-title');
+    this.partialDaysSelect = this.partialDays.trigger;
+    this.commentTextarea = this.comment.input;
+    this.submitButton = page.locator('.oxd-form-actions button[type="submit"]');
+    this.validationErrors = page.locator('.oxd-input-field-error-message');
+  }
+
+  /**
+   * Wait for the form to be ready
+   */
+  async waitForLeaveFormLoad(): Promise<void> {
+    await this.waitForElement('.oxd-form .oxd-date-input');
+    await this.waitForOrangeHRMPageLoad();
+  }
+
+  /**
+   * Get the date format the date inputs expect, such as "yyyy-dd-mm"
+   */
+  async getDateFormat(): Promise<string> {
+    return await this.fromDate.getFormat();
+  }
+
+  // Form filling methods
+  /**
+   * Pick the leave type
+   */
+  async selectLeaveType(leaveType: string): Promise<void> {
+    await this.leaveType.select(leaveType);
+  }
+
+  /**
+   * Enter the leave period; dates are ISO `YYYY-MM-DD` strings, as in `LeaveData`
+   */
+  async fillDateRange(fromDate: string, toDate: string): Promise<void> {
+    await this.fromDate.fill(fromDate);
+    await this.toDate.fill(toDate);
+  }
+
+  /**
+   * Type the leave period as text in the site's date format, malformed or not, as a user would
+   */
+  async typeDateRange(fromDate: string, toDate: string): Promise<void> {
+    await this.fromDate.type(fromDate);
+    await this.toDate.type(toDate);
+  }
+
+  /**
+   * Choose how partial days are taken for a multi-day leave
+   *
+   * OrangeHRM only offers "Partial Days" when the range spans more than one day. Every
+   * partial day is taken as `duration` (morning by default).
+   */
+  async selectPartialDays(
+    partialDays: NonNullable<LeaveData['partialDays']>,
+    duration: PartialDayDuration = 'Half Day - Morning',
+  ): Promise<void> {
+    await this.partialDays.select(PARTIAL_DAYS_OPTIONS[partialDays]);
+    const durationLabels: Record<NonNullable<LeaveData['partialDays']>, string[]> = {
+      'All Days': ['Duration'],
+      'Start Day Only': ['Start Day'],
+      'End Day Only': ['End Day'],
+      'Start and End Day': ['Start Day', 'End Day'],
+    };
+    for (const label of durationLabels[partialDays]) {
+      await OxdSelect.byLabel(this.page.locator('.oxd-form'), label).select(duration);
+    }
+  }
+
+  /**
+   * Check whether the "Partial Days" dropdown is offered
+   */
+  async isPartialDaysAvailable(): Promise<boolean> {
+    return await this.partialDays.isVisible();
+  }
+
+  /**
+   * Enter a comment
+   */
+  async fillComment(comment: string): Promise<void> {
+    await this.comment.fill(comment);
+  }
+
+  /**
+   * Fill the leave type, dates, partial days and comment from a `LeaveData`
+   *
+   * Empty values are skipped so that `INVALID_LEAVE_DATA` entries leave those fields blank.
+   * `partialDays` only applies to multi-day leave, and "All Days" means full days (as in
+   * `OrangeHRMApiClient`) unless a half-day `duration` is given.
+   */
+  async fillLeaveDetails(leave: Partial<LeaveData>, duration?: PartialDayDuration): Promise<void> {
+    if (leave.leaveType) {
+      await this.selectLeaveType(leave.leaveType);
+    }
+    await this.fillDateRange(leave.fromDate || '', leave.toDate || '');
+    const isMultiDay = !!leave.fromDate && !!leave.toDate && leave.fromDate < leave.toDate;
+    if (leave.partialDays && isMultiDay && (leave.partialDays !== 'All Days' || duration)) {
+      await this.selectPartialDays(leave.partialDays, duration);
+    }
+    if (leave.comment) {
+      await this.fillComment(leave.comment);
+    }
+  }
+
+  // Form actions
+  /**
+   * Click the submit button without waiting for the outcome
+   */
+  async clickSubmit(): Promise<void> {
+    await this.submitButton.click();
+  }
+
+  /**
+   * Submit the form and return the toast message OrangeHRM shows
+   */
+  async submit(): Promise<string> {
+    await this.clickSubmit();
+    return await this.waitForToastMessage();
+  }
+
+  // Validation methods
+  /**
+   * Submit the form and wait for validation errors to appear
+   */
+  async submitExpectingErrors(): Promise<Partial<Record<LeaveFormField, string>>> {
+    await this.clickSubmit();
+    await this.validationErrors.first().waitFor({ timeout: 10000 });
+    return await this.getValidationErrors();
+  }
+
+  /**
+   * Get the validation error shown for a field, or an empty string when there is none
+   */
+  async getFieldError(field: LeaveFormField): Promise<string> {
+    const component = this.getFields()[field];
+    return component ? await component.getError() : '';
+  }
+
+  /**
+   * Get every visible validation error, keyed by field
+   */
+  async getValidationErrors(): Promise<Partial<Record<LeaveFormField, string>>> {
+    const errors: Partial<Record<LeaveFormField, string>> = {};
+    for (const field of Object.keys(this.getFields()) as LeaveFormField[]) {
+      const message = await this.getFieldError(field);
+      if (message) {
+        errors[field] = message;
+      }
+    }
+    return errors;
+  }
+
+  // Component helpers
+  /**
+   * The fields this form shows, keyed by field
+   */
+  protected getFields(): Partial<Record<LeaveFormField, OxdField>> {
+    return {
+      leaveType: this.leaveType,
+      fromDate: this.fromDate,
+      toDate: this.toDate,
+      comment: this.comment,
+    };
+  }
+}
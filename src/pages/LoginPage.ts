@@ -215,6 +215,20 @@ export class OrangeHRMLoginPage extends BasePage {
     return await this.isVisible(errorLocator);
   }
 
+  /**
+   * Get the validation errors shown under the username and password fields, keyed by field
+   */
+  async getValidationErrors(): Promise<Partial<Record<'username' | 'password', string>>> {
+    const errors: Partial<Record<'username' | 'password', string>> = {};
+    if (await this.hasUsernameError()) {
+      errors.username = await this.getUsernameRequiredError();
+    }
+    if (await this.hasPasswordError()) {
+      errors.password = await this.getPasswordRequiredError();
+    }
+    return errors;
+  }
+
   // Form interaction methods
   /**
    * Clear login form
@@ -238,6 +252,13 @@ export class OrangeHRMLoginPage extends BasePage {
     return await this.getValue('input[name="password"]');
   }
 
+  /**
+   * Get the CSRF token the login form posts with
+   */
+  async getCsrfToken(): Promise<string> {
+    return (await this.page.locator('input[name="_token"]').getAttribute('value')) ?? '';
+  }
+
   /**
    * Check if username field is focused
    */
@@ -363,6 +384,13 @@ export class OrangeHRMLoginPage extends BasePage {
     return await this.getText('.orangehrm-copyright-wrapper');
   }
 
+  /**
+   * The copyright year and OrangeHRM version change with releases of the site
+   */
+  protected get dynamicRegions(): Locator[] {
+    return [this.copyrightText];
+  }
+
   /**
    * Take screenshot of login page
    */
@@ -0,0 +1,310 @@
+import { Page, Locator } from '@playwright/test';
+import { BasePage } from './BasePage';
+import { OxdAutocomplete } from '@components/OxdAutocomplete';
+import { OxdDialog } from '@components/OxdDialog';
+import { OxdInput } from '@components/OxdInput';
+import { OxdTable } from '@components/OxdTable';
+
+/**
+ * A row of the PIM employee table
+ */
+export interface EmployeeListRow {
+  id: string;
+  firstAndMiddleName: string;
+  lastName: string;
+  jobTitle: string;
+  employmentStatus: string;
+  subUnit: string;
+  supervisor: string;
+}
+
+/**
+ * OrangeHRM PIM Employee List Page Object
+ *
+ * Page object for PIM > Employee List. Covers searching by employee name or id,
+ * reading the results table and record count, paging through the results and deleting
+ * employees.
+ */
+export class PIMEmployeeListPage extends BasePage {
+  // Components
+  readonly employeeName: OxdAutocomplete;
+  readonly employeeId: OxdInput;
+  readonly employeeTable: OxdTable;
+  readonly deleteDialog: OxdDialog;
+
+  // Filter elements
+  readonly filterTitle: Locator;
+  readonly employeeNameInput: Locator;
+  readonly employeeNameSuggestions: Locator;
+  readonly employeeIdInput: Locator;
+  readonly searchButton: Locator;
+  readonly resetButton: Locator;
+
+  // Results elements
+  readonly addButton: Locator;
+  readonly recordsFoundText: Locator;
+  readonly tableRows: Locator;
+  readonly loadingSpinner: Locator;
+
+  // Pagination elements
+  readonly pagination: Locator;
+  readonly pageButtons: Locator;
+  readonly selectedPageButton: Locator;
+  readonly previousPageButton: Locator;
+  readonly nextPageButton: Locator;
+
+  constructor(page: Page) {
+    super(page);
+
+    // Initialize components
+    const filter = page.locator('.oxd-table-filter');
+    this.employeeName = OxdAutocomplete.byLabel(filter, 'Employee Name');
+    this.employeeId = OxdInput.byLabel(filter, 'Employee Id');
+    this.employeeTable = OxdTable.on(page);
+    this.deleteDialog = OxdDialog.on(page, 'Are you Sure?');
+
+    // Initialize filter locators
+    this.filterTitle = page.locator('.oxd-table-filter-title');
+    this.employeeNameInput = this.employeeName.input;
+    this.employeeNameSuggestions = this.employeeName.suggestions;
+    this.employeeIdInput = this.employeeId.input;
+    this.searchButton = page.locator('.oxd-table-filter button[type="submit"]');
+    this.resetButton = page.locator('.oxd-table-filter button[type="reset"]');
+
+    // Initialize results locators
+    this.addButton = page.locator('.orangehrm-header-container button', { hasText: 'Add' });
+    this.recordsFoundText = page.locator('.orangehrm-horizontal-padding .oxd-text--span');
+    this.tableRows = this.employeeTable.rows;
+    this.loadingSpinner = this.employeeTable.loadingSpinner;
+
+    // Initialize pagination locators
+    this.pagination = page.locator('.oxd-pagination-nav');
+    this.pageButtons = page.locator('.oxd-pagination-page-item--page');
+    this.selectedPageButton = page.locator('.oxd-pagination-page-item--page-selected');
+    this.previousPageButton = page.locator(
+      'button.oxd-pagination-page-item--previous-next:has(.bi-chevron-left)',
+    );
+    this.nextPageButton = page.locator(
+      'button.oxd-pagination-page-item--previous-next:has(.bi-chevron-right)',
+    );
+  }
+
+  /**
+   * Navigate to the employee list
+   */
+  async goto(): Promise<void> {
+    await this.navigateTo('/web/index.php/pim/viewEmployeeList');
+    await this.waitForResults();
+  }
+
+  /**
+   * Verify we are on the employee list page
+   */
+  async verifyEmployeeListPage(): Promise<void> {
+    await this.expectElementToContainText(
+      '.oxd-topbar-header-breadcrumb h6',
+      'PIM',
+      'Should be on PIM module',
+    );
+    await this.expectElementToHaveText(
+      '.oxd-table-filter-title',
+      'Employee Information',
+      'Employee filter should be visible',
+    );
+    await this.expectUrlToContain('/pim/viewEmployeeList', 'URL should contain viewEmployeeList');
+  }
+
+  /**
+   * Wait for the results table to finish loading
+   */
+  async waitForResults(): Promise<void> {
+    await this.waitForElement('.oxd-table-filter');
+    await this.loadingSpinner.waitFor({ state: 'hidden', timeout: 15000 });
+    await this.recordsFoundText.filter({ hasText: /Found/ }).waitFor();
+  }
+
+  // Search methods
+  /**
+   * Search by employee name
+   *
+   * With `selectSuggestion` the matching autocomplete suggestion is picked, which filters
+   * to exactly that employee; otherwise the typed text is used as a partial name match.
+   */
+  async searchByName(name: string, options: { selectSuggestion?: boolean } = {}): Promise<void> {
+    await this.employeeName.type(name);
+    if (options.selectSuggestion) {
+      await this.selectNameSuggestion(name);
+    }
+    await this.clickSearch();
+  }
+
+  /**
+   * Search by employee id
+   */
+  async searchById(employeeId: string): Promise<void> {
+    await this.employeeId.fill(employeeId);
+    await this.clickSearch();
+  }
+
+  /**
+   * Pick an employee from the name autocomplete suggestions
+   */
+  async selectNameSuggestion(name: string): Promise<void> {
+    await this.employeeName.pickSuggestion(name);
+  }
+
+  /**
+   * Get the autocomplete suggestions offered for a partial name
+   */
+  async getNameSuggestions(partialName: string): Promise<string[]> {
+    return await this.employeeName.getSuggestions(partialName);
+  }
+
+  /**
+   * Click Search and wait for the results
+   */
+  async clickSearch(): Promise<void> {
+    await this.searchButton.click();
+    await this.waitForResults();
+  }
+
+  /**
+   * Clear the filters and reload the full list
+   */
+  async resetFilters(): Promise<void> {
+    await this.resetButton.click();
+    await this.waitForResults();
+  }
+
+  // Results methods
+  /**
+   * Get the total number of records found by the current search
+   */
+  async getRecordCount(): Promise<number> {
+    const text = (await this.recordsFoundText.textContent()) || '';
+    const match = text.match(/\((\d+)\)/);
+    return match ? parseInt(match[1]) : 0;
+  }
+
+  /**
+   * Get the rows shown on the current page
+   */
+  async getRows(): Promise<EmployeeListRow[]> {
+    const rows = await this.employeeTable.getData();
+    return rows.map(row => ({
+      id: row['Id'],
+      firstAndMiddleName: row['First (& Middle) Name'],
+      lastName: row['Last Name'],
+      jobTitle: row['Job Title'],
+      employmentStatus: row['Employment Status'],
+      subUnit: row['Sub Unit'],
+      supervisor: row['Supervisor'],
+    }));
+  }
+
+  /**
+   * Get the employee ids shown on the current page
+   */
+  async getEmployeeIds(): Promise<string[]> {
+    const rows = await this.getRows();
+    return rows.map(row => row.id);
+  }
+
+  /**
+   * Check whether an employee with the given id is on the current page
+   */
+  async hasEmployee(employeeId: string): Promise<boolean> {
+    const ids = await this.getEmployeeIds();
+    return ids.includes(employeeId);
+  }
+
+  /**
+   * Open an employee's details from the results table
+   */
+  async openEmployee(employeeId: string): Promise<void> {
+    await this.employeeTable.rowWhere({ Id: employeeId }).click();
+    await this.waitForUrl(/viewPersonalDetails/);
+  }
+
+  /**
+   * Delete an employee from the results table, confirming the dialog, and return the toast message
+   */
+  async deleteEmployee(employeeId: string): Promise<string> {
+    await this.employeeTable.rowWhere({ Id: employeeId }).action('Delete');
+    await this.deleteDialog.waitFor();
+    await this.deleteDialog.clickButton('Yes, Delete');
+    const message = await this.waitForToastMessage();
+    await this.waitForResults();
+    return message;
+  }
+
+  /**
+   * Go to the Add Employee form
+   */
+  async clickAddEmployee(): Promise<void> {
+    await this.addButton.click();
+    await this.waitForUrl(/addEmployee/);
+  }
+
+  // Pagination methods
+  /**
+   * Get the number of result pages (1 when there is no pagination)
+   */
+  async getPageCount(): Promise<number> {
+    const count = await this.pageButtons.count();
+    return Math.max(count, 1);
+  }
+
+  /**
+   * Get the currently selected page number
+   */
+  async getCurrentPageNumber(): Promise<number> {
+    if ((await this.selectedPageButton.count()) === 0) {
+      return 1;
+    }
+    return parseInt((await this.selectedPageButton.textContent()) || '1');
+  }
+
+  /**
+   * Check whether there is a next page of results
+   */
+  async hasNextPage(): Promise<boolean> {
+    return await this.nextPageButton.isVisible();
+  }
+
+  /**
+   * Go to the next page of results
+   */
+  async goToNextPage(): Promise<void> {
+    await this.nextPageButton.click();
+    await this.waitForResults();
+  }
+
+  /**
+   * Go to the previous page of results
+   */
+  async goToPreviousPage(): Promise<void> {
+    await this.previousPageButton.click();
+    await this.waitForResults();
+  }
+
+  /**
+   * Go to a specific page of results
+   */
+  async goToPage(pageNumber: number): Promise<void> {
+    await this.pageButtons.filter({ hasText: new RegExp(`^${pageNumber}$`) }).click();
+    await this.waitForResults();
+  }
+
+  /**
+   * Collect the employee ids from every page, starting at the current one
+   */
+  async getEmployeeIdsFromAllPages(): Promise<string[]> {
+    const ids = await this.getEmployeeIds();
+    while (await this.hasNextPage()) {
+      await this.goToNextPage();
+      ids.push(...(await this.getEmployeeIds()));
+    }
+    return ids;
+  }
+}
@@ -0,0 +1,179 @@
+import type { FullResult, Reporter } from '@playwright/test/reporter';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// ===== INTERFACES =====
+
+export interface RetentionPolicy {
+  // Number of most recent runs kept whatever their result
+  keepRuns: number;
+  // Keep older runs that had failures, within the size cap
+  keepFailures: boolean;
+  // Size the archive is trimmed to, oldest runs first
+  maxSizeMb: number;
+}
+
+export interface ArchiveReporterOptions extends Partial<RetentionPolicy> {
+  // Archive nothing unless enabled, e.g. with ARCHIVE_RESULTS=true
+  enabled?: boolean;
+  dir?: string;
+  // Folders copied into each archived run
+  sources?: string[];
+}
+
+/**
+ * An archived run, as found by ArchiveReporter.listRuns()
+ */
+export interface ArchivedRun {
+  name: string;
+  path: string;
+  failed: boolean;
+  size: number;
+}
+
+// ===== REPORTER =====
+
+export const DEFAULT_RETENTION: RetentionPolicy = {
+  keepRuns: 20,
+  keepFailures: true,
+  maxSizeMb: 500,
+};
+
+/**
+ * Playwright reporter that archives each run's results and applies the retention policy
+ *
+ * `test-results` and `playwright-report` are copied into `archived-results/<timestamp>`,
+ * where `npm run report:trends` builds the trend dashboard from them. It must be listed
+ * after the html and summary reporters, since reporters finish in order and global
+ * teardown runs before any of them do.
+ *
+ * After archiving, the last `keepRuns` runs are kept, older runs are kept only if they had
+ * failures, and the oldest runs are removed - passing ones first - until the archive fits
+ * in `maxSizeMb`. The run just archived is never removed.
+ */
+export default class ArchiveReporter implements Reporter {
+  private readonly enabled: boolean;
+  private readonly dir: string;
+  private readonly sources: string[];
+  private readonly policy: RetentionPolicy;
+
+  constructor(options: ArchiveReporterOptions = {}) {
+    const { enabled, dir, sources, ...policy } = options;
+    this.enabled = enabled ?? false;
+    this.dir = dir ?? 'archived-results';
+    this.sources = sources ?? ['test-results', 'playwright-report'];
+    this.policy = { ...DEFAULT_RETENTION, ...policy };
+  }
+
+  async onEnd(_result: FullResult): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+    // A full disk or a locked file should not fail the run's reporting
+    try {
+      const archived = this.archive();
+      const removed = ArchiveReporter.applyRetention(
+        this.dir,
+        this.policy,
+        path.basename(archived),
+      );
+      process.stdout.write(
+        `📦 Results archived to ${archived}${removed.length > 0 ? `, ${removed.length} old run(s) removed` : ''}\n`,
+      );
+    } catch (error) {
+      console.warn('⚠️  Warning: Could not archive test results');
+      console.warn(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  printsToStdio(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Copy this run's results into a new timestamped folder
+   */
+  archive(): string {
+    const target = path.join(this.dir, new Date().toISOString().replace(/[:.]/g, '-'));
+    fs.mkdirSync(target, { recursive: true });
+    this.sources
+      .filter(source => fs.existsSync(source))
+      .forEach(source =>
+        fs.cpSync(source, path.join(target, path.basename(source)), { recursive: true }),
+      );
+    return target;
+  }
+
+  /**
+   * Get the archived runs, oldest first
+   *
+   * A run counts as failed when its test-summary.json says so; runs archived before the
+   * summary reporter existed count as passed.
+   */
+  static listRuns(dir: string): ArchivedRun[] {
+    if (!fs.existsSync(dir)) {
+      return [];
+    }
+    return fs
+      .readdirSync(dir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory())
+      .map(entry => entry.name)
+      .sort()
+      .map(name => {
+        const runPath = path.join(dir, name);
+        const summaryPath = path.join(runPath, 'test-results', 'test-summary.json');
+        const summary = fs.existsSync(summaryPath)
+          ? (JSON.parse(fs.readFileSync(summaryPath, 'utf-8')) as { totals?: { failed?: number } })
+          : undefined;
+        return {
+          name,
+          path: runPath,
+          failed: (summary?.totals?.failed ?? 0) > 0,
+          size: directorySize(runPath),
+        };
+      });
+  }
+
+  /**
+   * Remove the runs the retention policy does not keep, returning their names
+   */
+  static applyRetention(
+    dir: string,
+    policy: RetentionPolicy = DEFAULT_RETENTION,
+    protect?: string,
+  ): string[] {
+    const runs = this.listRuns(dir);
+    const recent = new Set(runs.slice(-policy.keepRuns).map(run => run.name));
+    const isProtected = (run: ArchivedRun): boolean =>
+      run.name === protect || run === runs[runs.length - 1];
+
+    const expired = runs.filter(
+      run => !recent.has(run.name) && !(policy.keepFailures && run.failed) && !isProtected(run),
+    );
+    const kept = runs.filter(run => !expired.includes(run));
+
+    // Over the size cap: remove the oldest passing runs, then the oldest failing ones
+    const maxBytes = policy.maxSizeMb * 1024 * 1024;
+    let size = kept.reduce((total, run) => total + run.size, 0);
+    const byRemovalOrder = [...kept.filter(run => !run.failed), ...kept.filter(run => run.failed)];
+    for (const run of byRemovalOrder) {
+      if (size <= maxBytes) {
+        break;
+      }
+      if (!isProtected(run)) {
+        expired.push(run);
+        size -= run.size;
+      }
+    }
+
+    expired.forEach(run => fs.rmSync(run.path, { recursive: true, force: true }));
+    return expired.map(run => run.name).sort();
+  }
+}
+
+function directorySize(dirPath: string): number {
+  return fs.readdirSync(dirPath, { withFileTypes: true }).reduce((total, entry) => {
+    const entryPath = path.join(dirPath, entry.name);
+    return total + (entry.isDirectory() ? directorySize(entryPath) : fs.statSync(entryPath).size);
+  }, 0);
+}
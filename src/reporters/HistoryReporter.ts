@@ -0,0 +1,126 @@
+import type {
+  FullConfig,
+  FullResult,
+  Reporter,
+  Suite,
+  TestCase,
+  TestResult,
+} from '@playwright/test/reporter';
+import {
+  DEFAULT_SCORE_OPTIONS,
+  HistoryRun,
+  ResultsHistory,
+  ScoreOptions,
+  TestRun,
+} from './ResultsHistory';
+
+// ===== INTERFACES =====
+
+export interface HistoryReporterOptions extends Partial<ScoreOptions> {
+  // Folder of the history, TEST_HISTORY_DIR or test-history by default
+  dir?: string;
+  // Number of runs kept in history.json
+  keep?: number;
+}
+
+// ===== REPORTER =====
+
+/**
+ * Playwright reporter that records each run in the results history and rescores flakiness
+ *
+ * Every test's attempts are reduced to passed, flaky (passed on a retry), failed or
+ * skipped in quarantine, with the signature of each failure, and appended to `history.json`. `flakiness.json` is then
+ * rewritten with each test's score over its last runs and the list of tests to quarantine
+ * (see ResultsHistory). Interrupted runs are not recorded, as they would count tests that
+ * were cut short as failures.
+ */
+export default class HistoryReporter implements Reporter {
+  private readonly history: ResultsHistory;
+  private readonly options: ScoreOptions;
+  private readonly keep: number;
+  private config?: FullConfig;
+  private readonly results: Map<string, { test: TestCase; results: TestResult[] }> = new Map();
+
+  constructor(options: HistoryReporterOptions = {}) {
+    // Picked by name: Playwright passes its own options, such as configDir, to every reporter
+    const { dir, keep, window, threshold, minRuns } = options;
+    this.history = new ResultsHistory(dir);
+    this.options = {
+      window: window ?? DEFAULT_SCORE_OPTIONS.window,
+      threshold: threshold ?? DEFAULT_SCORE_OPTIONS.threshold,
+      minRuns: minRuns ?? DEFAULT_SCORE_OPTIONS.minRuns,
+    };
+    this.keep = keep ?? 50;
+  }
+
+  onBegin(config: FullConfig, _suite: Suite): void {
+    this.config = config;
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    const entry = this.results.get(test.id) ?? { test, results: [] };
+    entry.results.push(result);
+    this.results.set(test.id, entry);
+  }
+
+  async onEnd(result: FullResult): Promise<void> {
+    if (result.status === 'interrupted') {
+      return;
+    }
+    const runs = this.history.append(this.buildRun(), this.keep);
+    this.history.writeFlakiness(ResultsHistory.score(runs, this.options));
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+
+  /**
+   * Build the history entry for this run
+   */
+  buildRun(): HistoryRun {
+    const metadata = this.config?.metadata ?? {};
+    const tests: Record<string, TestRun> = {};
+
+    this.results.forEach(({ test, results }) => {
+      const testRun = HistoryReporter.summarizeAttempts(test, results);
+      if (testRun) {
+        tests[ResultsHistory.testKey(test.titlePath().slice(1))] = testRun;
+      }
+    });
+
+    return {
+      runId: String(metadata.runId ?? process.env.TEST_RUN_ID ?? 'unknown'),
+      environment: String(metadata.environment ?? process.env.ENV ?? 'dev'),
+      finishedAt: new Date().toISOString(),
+      tests,
+    };
+  }
+
+  // ===== HELPERS =====
+
+  /**
+   * Reduce a test's attempts to how it ended, or undefined when it did not run
+   *
+   * Statuses are taken as they are rather than against the expected status, so a
+   * quarantined test run with `test.fail()` is still recorded as passing or failing. A
+   * test the quarantine skipped is recorded as skipped, so that it can leave the
+   * quarantine; other skipped tests are not recorded.
+   */
+  private static summarizeAttempts(test: TestCase, results: TestResult[]): TestRun | undefined {
+    const attempts = results.filter(result => result.status !== 'skipped');
+    if (attempts.length === 0) {
+      return ResultsHistory.isQuarantineSkip(test.annotations)
+        ? { status: 'skipped', attempts: 0, failures: [] }
+        : undefined;
+    }
+
+    const failed = attempts.filter(result => result.status !== 'passed');
+    const passed = attempts.length > failed.length;
+    return {
+      status: !passed ? 'failed' : failed.length > 0 ? 'flaky' : 'passed',
+      attempts: attempts.length,
+      failures: failed.map(result => ResultsHistory.failureSignature(result.error)),
+    };
+  }
+}
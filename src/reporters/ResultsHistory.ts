@@ -0,0 +1,248 @@
+import type { TestError } from '@playwright/test/reporter';
+import * as fs from 'fs';
+import * as path from 'path';
+import { firstLine } from './SummaryReporter';
+
+// ===== INTERFACES =====
+
+/**
+ * How a test ended in one run: passed first time, passed on a retry, failed every attempt,
+ * or skipped because it was quarantined
+ */
+export type RunStatus = 'passed' | 'flaky' | 'failed' | 'skipped';
+
+export interface TestRun {
+  status: RunStatus;
+  attempts: number;
+  // Signatures of the failed attempts, see ResultsHistory.failureSignature()
+  failures: string[];
+}
+
+/**
+ * One run in the history, keyed by test (see ResultsHistory.testKey())
+ */
+export interface HistoryRun {
+  runId: string;
+  environment: string;
+  finishedAt: string;
+  tests: Record<string, TestRun>;
+}
+
+export interface ScoreOptions {
+  // Number of a test's most recent runs that are scored
+  window: number;
+  // Score at or above which a test is quarantined
+  threshold: number;
+  // Runs a test needs in the window before it can be quarantined
+  minRuns: number;
+}
+
+/**
+ * A test that was unstable in at least one of its recent runs
+ */
+export interface FlakyTest {
+  key: string;
+  runs: number;
+  passed: number;
+  flaky: number;
+  failed: number;
+  // Runs it sat out in quarantine
+  skipped: number;
+  // Share of the scored runs that were unstable, from 0 to 1
+  score: number;
+  quarantined: boolean;
+  signatures: Array<{ signature: string; count: number }>;
+}
+
+/**
+ * The contents of flakiness.json, rewritten after every run
+ */
+export interface FlakinessReport extends ScoreOptions {
+  updatedAt: string;
+  runs: number;
+  tests: FlakyTest[];
+}
+
+// ===== HISTORY =====
+
+export const DEFAULT_SCORE_OPTIONS: ScoreOptions = { window: 10, threshold: 0.2, minRuns: 3 };
+
+/**
+ * Store of test results across runs
+ *
+ * HistoryReporter appends every run to `history.json` and rewrites `flakiness.json`,
+ * which scores each test over its last runs and lists the ones to quarantine. The
+ * `quarantine` fixture reads that list at the start of the next run. The folder is
+ * TEST_HISTORY_DIR, or `test-history` by default; keep it between CI runs (as a cache or
+ * artifact) for the scores to build up.
+ */
+export class ResultsHistory {
+  static readonly DEFAULT_DIR = 'test-history';
+
+  // Starts the reason the quarantine fixture gives when it skips a test
+  private static readonly QUARANTINE_REASON = 'Quarantined:';
+
+  readonly dir: string;
+
+  constructor(dir: string = process.env.TEST_HISTORY_DIR || ResultsHistory.DEFAULT_DIR) {
+    this.dir = dir;
+  }
+
+  get historyPath(): string {
+    return path.join(this.dir, 'history.json');
+  }
+
+  get flakinessPath(): string {
+    return path.join(this.dir, 'flakiness.json');
+  }
+
+  /**
+   * Get the recorded runs, oldest first
+   */
+  readRuns(): HistoryRun[] {
+    return fs.existsSync(this.historyPath)
+      ? (JSON.parse(fs.readFileSync(this.historyPath, 'utf-8')) as HistoryRun[])
+      : [];
+  }
+
+  /**
+   * Add a run to the history, keeping only the most recent `keep` runs
+   */
+  append(run: HistoryRun, keep: number = 50): HistoryRun[] {
+    const runs = [...this.readRuns(), run].slice(-keep);
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(this.historyPath, JSON.stringify(runs, null, 2));
+    return runs;
+  }
+
+  /**
+   * Get the last flakiness report, or undefined before the first run is recorded
+   */
+  readFlakiness(): FlakinessReport | undefined {
+    return fs.existsSync(this.flakinessPath)
+      ? (JSON.parse(fs.readFileSync(this.flakinessPath, 'utf-8')) as FlakinessReport)
+      : undefined;
+  }
+
+  writeFlakiness(report: FlakinessReport): void {
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(this.flakinessPath, JSON.stringify(report, null, 2));
+  }
+
+  /**
+   * Get the quarantined tests by key
+   */
+  readQuarantine(): Map<string, FlakyTest> {
+    const tests = this.readFlakiness()?.tests ?? [];
+    return new Map(tests.filter(test => test.quarantined).map(test => [test.key, test]));
+  }
+
+  /**
+   * Score every test over its last runs
+   *
+   * A run is unstable when the test passed only on a retry, or failed in a run while it
+   * passed in another of the scored runs. A test that fails every time is broken rather
+   * than flaky, and is left for its failures to be fixed instead of being quarantined.
+   * Runs a quarantined test sat out count as stable, so once it has sat out enough of
+   * them it leaves the quarantine and runs again, to be quarantined again if it is still
+   * unstable.
+   */
+  static score(runs: HistoryRun[], options: ScoreOptions = DEFAULT_SCORE_OPTIONS): FlakinessReport {
+    const byTest = new Map<string, TestRun[]>();
+    runs.forEach(run => {
+      Object.entries(run.tests).forEach(([key, testRun]) =>
+        byTest.set(key, [...(byTest.get(key) ?? []), testRun]),
+      );
+    });
+
+    const tests: FlakyTest[] = [];
+    byTest.forEach((allRuns, key) => {
+      const scored = allRuns.slice(-options.window);
+      const count = (status: RunStatus): number =>
+        scored.filter(run => run.status === status).length;
+      const [passed, flaky, failed, skipped] = [
+        count('passed'),
+        count('flaky'),
+        count('failed'),
+        count('skipped'),
+      ];
+      const unstable = flaky + (passed + flaky > 0 ? failed : 0);
+      if (unstable === 0) {
+        return;
+      }
+
+      const score = Math.round((unstable / scored.length) * 100) / 100;
+      const signatures = new Map<string, number>();
+      scored
+        .flatMap(run => run.failures)
+        .forEach(signature => signatures.set(signature, (signatures.get(signature) ?? 0) + 1));
+
+      tests.push({
+        key,
+        runs: scored.length,
+        passed,
+        flaky,
+        failed,
+        skipped,
+        score,
+        quarantined: scored.length >= options.minRuns && score >= options.threshold,
+        signatures: [...signatures.entries()]
+          .map(([signature, signatureCount]) => ({ signature, count: signatureCount }))
+          .sort((a, b) => b.count - a.count),
+      });
+    });
+
+    return {
+      window: options.window,
+      threshold: options.threshold,
+      minRuns: options.minRuns,
+      updatedAt: new Date().toISOString(),
+      runs: runs.length,
+      tests: tests.sort((a, b) => b.score - a.score || b.runs - a.runs),
+    };
+  }
+
+  /**
+   * Get the reason a quarantined test is skipped or expected to fail with
+   */
+  static quarantineReason(flaky: FlakyTest): string {
+    return `${this.QUARANTINE_REASON} unstable in ${Math.round(flaky.score * 100)}% of the last ${flaky.runs} runs`;
+  }
+
+  /**
+   * Check whether a test's annotations say the quarantine fixture skipped it
+   */
+  static isQuarantineSkip(annotations: Array<{ type: string; description?: string }>): boolean {
+    return annotations.some(
+      ({ type, description }) =>
+        type === 'fixme' && description?.startsWith(this.QUARANTINE_REASON),
+    );
+  }
+
+  /**
+   * Identify a test across runs by project, file and titles, e.g.
+   * `chromium › login.spec.ts › Feature: User Login › Scenario: Successful login`
+   *
+   * Both a reporter's `test.titlePath().slice(1)` and a fixture's
+   * `[testInfo.project.name, ...testInfo.titlePath]` give these parts.
+   */
+  static testKey(parts: string[]): string {
+    return parts.filter(Boolean).join(' › ');
+  }
+
+  /**
+   * Reduce an error to a signature that is the same each time a test fails the same way:
+   * the first line of its message with numbers masked, and where it was thrown
+   */
+  static failureSignature(error: TestError | undefined): string {
+    const message = firstLine(error?.message ?? error?.value ?? 'Unknown error')
+      .replace(/\d+/g, 'N')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .slice(0, 160);
+    const location = error?.location
+      ? ` (${path.basename(error.location.file)}:${error.location.line})`
+      : '';
+    return `${message}${location}`;
+  }
+}
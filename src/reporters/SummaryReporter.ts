@@ -0,0 +1,329 @@
+import type {
+  FullConfig,
+  FullResult,
+  Reporter,
+  Suite,
+  TestCase,
+  TestResult,
+  TestStep,
+} from '@playwright/test/reporter';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { PerformanceMetrics } from '../utils/performance';
+
+// ===== INTERFACES =====
+
+export interface SummaryReporterOptions {
+  // Folder the summary files are written to
+  outputDir?: string;
+  // Number of slowest tests listed in the Markdown digest
+  slowest?: number;
+}
+
+/**
+ * A `test.step` and the steps inside it
+ */
+export interface StepSummary {
+  title: string;
+  duration: number;
+  error?: string;
+  steps?: StepSummary[];
+}
+
+/**
+ * One test, as it ended after its last retry
+ */
+export interface TestSummary {
+  title: string;
+  titlePath: string[];
+  file: string;
+  line: number;
+  project: string;
+  status: TestResult['status'];
+  outcome: ReturnType<TestCase['outcome']>;
+  duration: number;
+  retries: number;
+  tags: string[];
+  error?: string;
+  steps: StepSummary[];
+  attachments: Array<{ name: string; contentType: string; path: string }>;
+  // Metrics PerformanceMonitor attached in the last attempt, by page
+  performance?: Record<string, PerformanceMetrics>;
+}
+
+export type RunTotals = Record<'total' | 'passed' | 'failed' | 'flaky' | 'skipped', number>;
+
+/**
+ * The contents of test-summary.json
+ */
+export interface RunSummary {
+  runId: string;
+  environment: string;
+  baseUrl: string;
+  status: FullResult['status'];
+  startedAt: string;
+  duration: number;
+  shard: { current: number; total: number } | null;
+  totals: RunTotals;
+  tests: TestSummary[];
+}
+
+// ===== REPORTER =====
+
+/**
+ * Playwright reporter that writes a summary of the run
+ *
+ * At the end of the run it writes `test-summary.json`, with the status, duration,
+ * retries, tags, `test.step` timings and attachment paths of every test, and
+ * `test-summary.md`, a digest of failures, flaky tests and the slowest tests for pull
+ * requests and CI job pages. Both are labelled with the run's TEST_RUN_ID.
+ *
+ * Sharded runs are summarised once for all shards: each machine runs its shard with
+ * `--reporter=blob`, and `npm run report:merge` replays the collected blob reports
+ * through this reporter.
+ */
+export default class SummaryReporter implements Reporter {
+  private readonly outputDir: string;
+  private readonly slowest: number;
+  private config?: FullConfig;
+  private readonly tests: Map<string, { test: TestCase; results: TestResult[] }> = new Map();
+
+  constructor(options: SummaryReporterOptions = {}) {
+    this.outputDir = options.outputDir ?? 'test-results';
+    this.slowest = options.slowest ?? 5;
+  }
+
+  onBegin(config: FullConfig, _suite: Suite): void {
+    this.config = config;
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    const entry = this.tests.get(test.id) ?? { test, results: [] };
+    entry.results.push(result);
+    this.tests.set(test.id, entry);
+  }
+
+  async onEnd(result: FullResult): Promise<void> {
+    const summary = this.buildSummary(result);
+    fs.mkdirSync(this.outputDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(this.outputDir, 'test-summary.json'),
+      JSON.stringify(summary, null, 2),
+    );
+    fs.writeFileSync(
+      path.join(this.outputDir, 'test-summary.md'),
+      SummaryReporter.toMarkdown(summary, this.slowest),
+    );
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+
+  /**
+   * Build the run summary from the tests seen so far
+   */
+  buildSummary(result: FullResult): RunSummary {
+    const metadata = this.config?.metadata ?? {};
+    const tests = [...this.tests.values()].map(({ test, results }) =>
+      SummaryReporter.summarizeTest(test, results),
+    );
+
+    return {
+      runId: String(metadata.runId ?? process.env.TEST_RUN_ID ?? 'unknown'),
+      environment: String(metadata.environment ?? process.env.ENV ?? 'dev'),
+      baseUrl: String(metadata.baseUrl ?? ''),
+      status: result.status,
+      startedAt: result.startTime.toISOString(),
+      duration: result.duration,
+      shard: this.config?.shard ?? null,
+      totals: SummaryReporter.countOutcomes(tests),
+      tests,
+    };
+  }
+
+  /**
+   * Render a summary as a Markdown digest
+   */
+  static toMarkdown(summary: RunSummary, slowest: number = 5): string {
+    const { totals } = summary;
+    const lines = [
+      `# Test run ${summary.runId}`,
+      '',
+      `**${summary.status.toUpperCase()}** on \`${summary.environment}\`${summary.baseUrl ? ` (${summary.baseUrl})` : ''}, ` +
+        `${totals.total} tests in ${formatDuration(summary.duration)}`,
+      '',
+      '| Passed | Failed | Flaky | Skipped |',
+      '|--------|--------|-------|---------|',
+      `| ${totals.passed} | ${totals.failed} | ${totals.flaky} | ${totals.skipped} |`,
+    ];
+
+    const failed = summary.tests.filter(test => test.outcome === 'unexpected');
+    if (failed.length > 0) {
+      lines.push(
+        '',
+        '## Failed',
+        '',
+        '| Test | Project | Retries | Error |',
+        '|------|---------|---------|-------|',
+      );
+      failed.forEach(test => {
+        lines.push(
+          `| ${describeTest(test)} | ${test.project} | ${test.retries} | ${escapeCell(firstLine(test.error))} |`,
+        );
+      });
+    }
+
+    const flaky = summary.tests.filter(test => test.outcome === 'flaky');
+    if (flaky.length > 0) {
+      lines.push('', '## Flaky', '');
+      flaky.forEach(test =>
+        lines.push(
+          `- ${describeTest(test)} (${test.project}) passed after ${test.retries} ${test.retries === 1 ? 'retry' : 'retries'}`,
+        ),
+      );
+    }
+
+    const slowestTests = summary.tests
+      .filter(test => test.outcome !== 'skipped')
+      .sort((a, b) => b.duration - a.duration)
+      .slice(0, slowest);
+    if (slowestTests.length > 0) {
+      lines.push(
+        '',
+        '## Slowest tests',
+        '',
+        '| Test | Project | Duration |',
+        '|------|---------|----------|',
+      );
+      slowestTests.forEach(test =>
+        lines.push(
+          `| ${describeTest(test)} | ${test.project} | ${formatDuration(test.duration)} |`,
+        ),
+      );
+    }
+
+    const tags = [...new Set(summary.tests.flatMap(test => test.tags))].sort();
+    if (tags.length > 0) {
+      lines.push(
+        '',
+        '## By tag',
+        '',
+        '| Tag | Passed | Failed | Flaky | Skipped |',
+        '|-----|--------|--------|-------|---------|',
+      );
+      tags.forEach(tag => {
+        const counts = SummaryReporter.countOutcomes(
+          summary.tests.filter(test => test.tags.includes(tag)),
+        );
+        lines.push(
+          `| ${tag} | ${counts.passed} | ${counts.failed} | ${counts.flaky} | ${counts.skipped} |`,
+        );
+      });
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  // ===== HELPERS =====
+
+  private static summarizeTest(test: TestCase, results: TestResult[]): TestSummary {
+    const last = results[results.length - 1];
+    return {
+      title: test.title,
+      titlePath: test.titlePath().filter(Boolean),
+      file: test.location.file,
+      line: test.location.line,
+      project: test.parent.project()?.name ?? '',
+      status: last.status,
+      outcome: test.outcome(),
+      duration: results.reduce((total, result) => total + result.duration, 0),
+      retries: results.length - 1,
+      tags: test.tags,
+      error: last.error?.message,
+      steps: this.summarizeSteps(last.steps),
+      attachments: results.flatMap(result =>
+        result.attachments
+          .filter(
+            (attachment): attachment is typeof attachment & { path: string } =>
+              attachment.path !== undefined,
+          )
+          .map(({ name, contentType, path: attachmentPath }) => ({
+            name,
+            contentType,
+            path: attachmentPath,
+          })),
+      ),
+      ...this.summarizePerformance(last),
+    };
+  }
+
+  private static summarizePerformance(result: TestResult): Pick<TestSummary, 'performance'> {
+    const measured = result.attachments.filter(
+      attachment => attachment.name.startsWith('performance-') && attachment.body,
+    );
+    if (measured.length === 0) {
+      return {};
+    }
+    return {
+      performance: Object.fromEntries(
+        measured.map(attachment => [
+          attachment.name.slice('performance-'.length),
+          JSON.parse(attachment.body!.toString('utf-8')) as PerformanceMetrics,
+        ]),
+      ),
+    };
+  }
+
+  private static summarizeSteps(steps: TestStep[]): StepSummary[] {
+    return steps.flatMap(step => {
+      const inner = this.summarizeSteps(step.steps);
+      if (step.category !== 'test.step') {
+        // Hooks, fixtures and API calls are left out, but test.steps inside them are kept
+        return inner;
+      }
+      return [
+        {
+          title: step.title,
+          duration: step.duration,
+          ...(step.error ? { error: step.error.message } : {}),
+          ...(inner.length > 0 ? { steps: inner } : {}),
+        },
+      ];
+    });
+  }
+
+  private static countOutcomes(tests: TestSummary[]): RunTotals {
+    return {
+      total: tests.length,
+      passed: tests.filter(test => test.outcome === 'expected').length,
+      failed: tests.filter(test => test.outcome === 'unexpected').length,
+      flaky: tests.filter(test => test.outcome === 'flaky').length,
+      skipped: tests.filter(test => test.outcome === 'skipped').length,
+    };
+  }
+}
+
+function describeTest(test: TestSummary): string {
+  return escapeCell(`${path.basename(test.file)}:${test.line} › ${test.title}`);
+}
+
+// Terminal colour codes, which Playwright puts in assertion messages
+const COLOUR_CODES = new RegExp(`${String.fromCharCode(27)}\\[[0-9;]*m`, 'g');
+
+/**
+ * Get the first line of an error message, without terminal colours
+ */
+export function firstLine(text: string | undefined): string {
+  return (text ?? '').replace(COLOUR_CODES, '').split('\n')[0].trim();
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, '\\|');
+}
+
+function formatDuration(milliseconds: number): string {
+  return milliseconds < 1000
+    ? `${Math.round(milliseconds)}ms`
+    : `${(milliseconds / 1000).toFixed(1)}s`;
+}
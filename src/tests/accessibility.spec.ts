@@ -0,0 +1,152 @@
+import { test, expect } from '@fixtures/test';
+import { Environment } from '@config/environment';
+import { AccessibilityAudit, AccessibilityFinding, BaselineEntry } from '@utils/accessibility';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Feature: Accessibility auditing
+ *
+ * As a test engineer
+ * I want the login page and dashboard audited with axe-core against a baseline of known issues
+ * So that new accessibility problems fail the build while old ones are tracked
+ */
+
+test.describe('Feature: Accessibility auditing', { tag: '@accessibility' }, () => {
+  const finding = (rule: string, target: string): AccessibilityFinding => ({
+    rule,
+    target,
+    impact: 'serious',
+    help: 'Elements must meet minimum color contrast ratio thresholds',
+    helpUrl: `https://dequeuniversity.com/rules/axe/4.10/${rule}`,
+    html: '<p class="orangehrm-copyright">OrangeHRM OS 5.7</p>',
+  });
+
+  test('Scenario: The login page has no violations beyond the baseline', async ({ loginPage }) => {
+    await loginPage.goto();
+    await loginPage.verifyLoginPage();
+
+    const result = await loginPage.auditAccessibility();
+
+    expect(result.name).toBe('OrangeHRMLoginPage');
+    expect(test.info().attachments.map(attachment => attachment.name)).toContain(
+      'accessibility-OrangeHRMLoginPage',
+    );
+  });
+
+  test('Scenario: The dashboard has no violations beyond the baseline', async ({
+    loginPage,
+    dashboardPage,
+  }) => {
+    const { username, password } = Environment.getRoleCredentials('admin');
+    await loginPage.goto();
+    await loginPage.login(username, password);
+    await dashboardPage.waitForDashboardLoad();
+
+    const result = await dashboardPage.auditAccessibility();
+
+    expect(result.url).toContain('/dashboard');
+  });
+
+  test('Scenario: Rules can be chosen or skipped', async ({ loginPage }) => {
+    await loginPage.goto();
+
+    const chosen = await loginPage.auditAccessibility({
+      name: 'login-form',
+      include: ['label', 'button-name'],
+    });
+    const skipped = await loginPage.auditAccessibility({
+      name: 'login-contrast',
+      exclude: ['color-contrast'],
+    });
+
+    expect(chosen.findings.every(({ rule }) => ['label', 'button-name'].includes(rule))).toBe(true);
+    expect(skipped.findings.map(({ rule }) => rule)).not.toContain('color-contrast');
+  });
+
+  test('Scenario: Only violations missing from the baseline are new', async () => {
+    const findings = [
+      finding('color-contrast', '.orangehrm-copyright'),
+      finding('label', '#username'),
+      finding('color-contrast', '.oxd-text'),
+    ];
+
+    const newFindings = AccessibilityAudit.compareWithBaseline(
+      findings,
+      [
+        {
+          page: 'OrangeHRMLoginPage',
+          rule: 'color-contrast',
+          target: '.orangehrm-copyright',
+          reason: 'Footer colours come from the product theme',
+        },
+        {
+          rule: 'label',
+          target: '#username',
+          reason: 'The product labels the field with a placeholder',
+        },
+        {
+          page: 'OrangeHRMDashboardPage',
+          rule: 'color-contrast',
+          target: '.oxd-text',
+          reason: 'Muted text from the product theme',
+        },
+      ],
+      'OrangeHRMLoginPage',
+    );
+
+    expect(newFindings).toEqual([finding('color-contrast', '.oxd-text')]);
+  });
+
+  test('Scenario: Violations baselined by parallel workers are merged once', async () => {
+    const dir = test.info().outputPath('pending');
+    const baselinePath = test.info().outputPath('baseline.json');
+    const entry = (page: string, rule: string, target: string): BaselineEntry => ({
+      page,
+      rule,
+      target,
+      reason: AccessibilityAudit.PENDING_REASON,
+    });
+    AccessibilityAudit.writeBaseline(baselinePath, [
+      { ...entry('OrangeHRMLoginPage', 'label', '#username'), reason: 'Placeholder label' },
+    ]);
+
+    AccessibilityAudit.addPending(path.join(dir, 'worker-0.json'), baselinePath, [
+      entry('OrangeHRMLoginPage', 'label', '#username'),
+      entry('OrangeHRMLoginPage', 'color-contrast', '.oxd-text'),
+    ]);
+    AccessibilityAudit.addPending(path.join(dir, 'worker-1.json'), baselinePath, [
+      entry('OrangeHRMLoginPage', 'color-contrast', '.oxd-text'),
+    ]);
+    AccessibilityAudit.addPending(path.join(dir, 'worker-1.json'), baselinePath, [
+      entry('OrangeHRMDashboardPage', 'region', '.oxd-topbar'),
+    ]);
+
+    expect(AccessibilityAudit.mergePending(dir)).toBe(2);
+    expect(AccessibilityAudit.readBaseline(baselinePath)).toEqual([
+      { ...entry('OrangeHRMLoginPage', 'label', '#username'), reason: 'Placeholder label' },
+      entry('OrangeHRMLoginPage', 'color-contrast', '.oxd-text'),
+      entry('OrangeHRMDashboardPage', 'region', '.oxd-topbar'),
+    ]);
+    expect(fs.existsSync(dir)).toBe(false);
+  });
+
+  test('Scenario: The HTML report marks new violations and escapes page markup', async () => {
+    const findings = [
+      finding('color-contrast', '.orangehrm-copyright'),
+      finding('label', '#username'),
+    ];
+
+    const html = AccessibilityAudit.toHtml({
+      name: 'OrangeHRMLoginPage',
+      url: 'https://example.test/auth/login',
+      findings,
+      newFindings: [findings[1]],
+      passedRules: 30,
+    });
+
+    expect(html).toContain('1 new and 1 baselined violation(s); 30 rule(s) passed.');
+    expect(html).toContain('&lt;p class=&quot;orangehrm-copyright&quot;&gt;');
+    expect(html).not.toContain('<p class="orangehrm-copyright">');
+  });
+});
@@ -0,0 +1,234 @@
+import { test, expect } from '@fixtures/test';
+import { OrangeHRMApiError } from '@api/OrangeHRMApiClient';
+import { DataFactory } from '@api/DataFactory';
+import {
+  getRandomDepartment,
+  getRandomEmployeeData,
+  getRandomJobTitle,
+  getRandomLocation,
+} from '@utils/testData';
+
+/**
+ * Feature: OrangeHRM REST API
+ *
+ * As a test engineer
+ * I want to create and inspect OrangeHRM records through the REST API
+ * So that UI tests can arrange their data quickly and reliably
+ */
+
+test.describe('Feature: OrangeHRM REST API', () => {
+  const uniqueSuffix = (): string => Date.now().toString().slice(-6);
+
+  test('Scenario: Create, find and delete an employee', async ({ api }) => {
+    const employee = { ...getRandomEmployeeData(), employeeId: `API${uniqueSuffix()}` };
+
+    const created = await test.step('Given I create an employee through the API', async () => {
+      return api.createEmployee(employee);
+    });
+
+    await test.step('Then the employee can be found by employee id', async () => {
+      const found = await api.findEmployeeById(employee.employeeId);
+      expect(found?.id).toBe(created.id);
+      expect(found?.firstName).toBe(employee.firstName);
+      expect(found?.lastName).toBe(employee.lastName);
+    });
+
+    await test.step('When I delete the employee', async () => {
+      await api.deleteEmployees([created.id]);
+    });
+
+    await test.step('Then the employee no longer exists', async () => {
+      expect(await api.findEmployeeById(employee.employeeId)).toBeUndefined();
+    });
+  });
+
+  test('Scenario: Reject a duplicate employee id', async ({ api }) => {
+    const employee = { ...getRandomEmployeeData(), employeeId: `DUP${uniqueSuffix()}` };
+    const created = await api.createEmployee(employee);
+
+    try {
+      await test.step('Then creating a second employee with the same id fails', async () => {
+        const error = await api.createEmployee(employee).catch(e => e);
+        expect(error).toBeInstanceOf(OrangeHRMApiError);
+        expect((error as OrangeHRMApiError).status).toBe(422);
+      });
+    } finally {
+      await api.deleteEmployees([created.id]);
+    }
+  });
+
+  test('Scenario: Manage job titles, subunits and locations', async ({ api }) => {
+    const job = { ...getRandomJobTitle(), jobTitle: `API Job ${uniqueSuffix()}` };
+    const department = { ...getRandomDepartment(), name: `API Unit ${uniqueSuffix()}` };
+    const location = { ...getRandomLocation(), name: `API Location ${uniqueSuffix()}` };
+
+    const createdJob = await api.createJobTitle(job);
+    const createdUnit = await api.createSubunit(department);
+    const createdLocation = await api.createLocation(location);
+
+    try {
+      await test.step('Then the records are returned by the list endpoints', async () => {
+        expect((await api.getJobTitles()).map(j => j.jobTitle)).toContain(job.jobTitle);
+        expect((await api.getSubunits()).map(s => s.name)).toContain(department.name);
+        const locations = await api.getLocations();
+        const found = locations.find(l => l.id === createdLocation.id);
+        expect(found?.country).toBe(location.country);
+        expect(found?.city).toBe(location.city);
+      });
+    } finally {
+      await api.deleteJobTitles([createdJob.id]);
+      await api.deleteSubunit(createdUnit.id);
+      await api.deleteLocations([createdLocation.id]);
+    }
+  });
+
+  test('Scenario: List leave types and leave requests', async ({ api }) => {
+    await test.step('Then the standard leave types are available', async () => {
+      const types = (await api.getLeaveTypes()).map(type => type.name);
+      expect(types.length).toBeGreaterThan(0);
+    });
+
+    await test.step('And leave requests can be filtered by status', async () => {
+      const requests = await api.getLeaveRequests({
+        fromDate: '2024-01-01',
+        toDate: '2024-12-31',
+        statuses: ['Pending Approval'],
+      });
+      requests.forEach(request => expect(request.status).toBe('Pending Approval'));
+    });
+  });
+
+  test('Scenario: Book a half day of leave', async ({ api }) => {
+    const factory = new DataFactory(api);
+
+    try {
+      const leave = await test.step('When I assign one day of leave for its end only', async () => {
+        return factory.assignLeave(undefined, {
+          fromDate: '2030-03-06',
+          toDate: '2030-03-06',
+          partialDays: 'End Day Only',
+        });
+      });
+
+      await test.step('Then the afternoon is taken, as half a day', async () => {
+        expect(leave.duration).toBe('0.50');
+        expect(leave.startDuration).toBe('half_day_afternoon');
+        expect(leave.endDuration).toBe('half_day_afternoon');
+      });
+    } finally {
+      await factory.cleanup();
+    }
+  });
+
+  test('Scenario: Book leave that ends on a partial day', async ({ api }) => {
+    const factory = new DataFactory(api);
+
+    try {
+      const leave =
+        await test.step('When I assign three days of leave with a partial end day', async () => {
+          return factory.assignLeave(undefined, {
+            fromDate: '2030-03-11',
+            toDate: '2030-03-13',
+            partialDays: 'End Day Only',
+          });
+        });
+
+      await test.step('Then the first day is taken in full and the last in the afternoon', async () => {
+        expect(leave.partialDays).toBe('End Day Only');
+        expect(leave.duration).toBe('2.50');
+        expect(leave.startDuration).toBe('full_day');
+        expect(leave.endDuration).toBe('half_day_afternoon');
+      });
+    } finally {
+      await factory.cleanup();
+    }
+  });
+
+  test('Scenario: The data factory removes what it created', async ({ api }) => {
+    const factory = new DataFactory(api);
+
+    const { employee, job, location } =
+      await test.step('Given records created through the data factory', async () => {
+        const employee = await factory.createEmployee();
+        const leave = await factory.assignLeave(employee.id, {
+          fromDate: '2030-03-04',
+          toDate: '2030-03-04',
+        });
+        expect(employee.middleName).toBe(factory.runId);
+        expect(leave.comment).toContain(factory.runId);
+        return {
+          employee,
+          job: await factory.createJobTitle(),
+          location: await factory.createLocation(),
+        };
+      });
+
+    await test.step('Then they are tracked in order of creation', async () => {
+      expect(factory.getCreated().map(record => record.entity)).toEqual([
+        'employee',
+        'leaveRequest',
+        'jobTitle',
+        'location',
+      ]);
+    });
+
+    await test.step('When the factory cleans up', async () => {
+      await factory.cleanup();
+    });
+
+    await test.step('Then none of them remain', async () => {
+      expect(factory.getCreated()).toHaveLength(0);
+      expect(await api.findEmployeeById(employee.employeeId)).toBeUndefined();
+      expect((await api.getJobTitles()).map(j => j.id)).not.toContain(job.id);
+      expect((await api.getLocations()).map(l => l.id)).not.toContain(location.id);
+    });
+  });
+
+  test('Scenario: Cleanup passes over settled leave but reports other failures', async ({
+    api,
+  }) => {
+    const factory = new DataFactory(api);
+    const warnings: string[] = [];
+    const warn = console.warn;
+    let failures: string[] = [];
+
+    await test.step('Given leave that was cancelled already, and leave that does not exist', async () => {
+      const employee = await factory.createEmployee();
+      const leave = await factory.assignLeave(employee.id, {
+        fromDate: '2030-03-05',
+        toDate: '2030-03-05',
+      });
+      await api.cancelLeaveRequest(leave.id);
+      factory.track('leaveRequest', 999999);
+    });
+
+    await test.step('When the factory cleans up', async () => {
+      console.warn = (...args: unknown[]): void => {
+        warnings.push(args.join(' '));
+      };
+      try {
+        failures = await factory.cleanup();
+      } finally {
+        console.warn = warn;
+      }
+    });
+
+    await test.step('Then only the missing leave is reported', async () => {
+      expect(warnings[0]).toContain('Could not clean up 1 test record(s)');
+      expect(warnings.slice(1)).toEqual([expect.stringMatching(/^ +leaveRequest 999999: .*404/)]);
+      expect(failures).toEqual([expect.stringMatching(/^leaveRequest 999999: .*404/)]);
+    });
+  });
+
+  test('Scenario: Sweep records left behind by a run', async ({ api }) => {
+    const runId = `sweep_${Date.now()}`;
+    // A middle name of its own keeps the run id after it, so the sweep still finds the employee
+    const leftover = await new DataFactory(api, runId).createEmployee({ middleName: 'Luis' });
+    expect(leftover.middleName).toBe(`Luis ${runId}`);
+
+    const summary = await DataFactory.sweep(api, runId);
+
+    expect(summary.employee).toBe(1);
+    expect(await api.findEmployeeById(leftover.employeeId)).toBeUndefined();
+  });
+});
@@ -0,0 +1,76 @@
+import { test, expect } from '@fixtures/test';
+import ArchiveReporter from '../reporters/ArchiveReporter';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Feature: Results archive retention
+ *
+ * As a test engineer
+ * I want the archive of past runs trimmed by a retention policy rather than by age
+ * So that recent runs and failures stay available for the trend dashboard without filling the disk
+ */
+
+test.describe('Feature: Results archive retention', () => {
+  // Archive runs named run-01, run-02, ... with the given number of failures and size in KB
+  const createArchive = (runs: Array<{ failed: number; sizeKb?: number }>): string => {
+    const dir = test.info().outputPath('archived-results');
+    runs.forEach(({ failed, sizeKb = 1 }, index) => {
+      const results = path.join(dir, `run-${String(index + 1).padStart(2, '0')}`, 'test-results');
+      fs.mkdirSync(results, { recursive: true });
+      fs.writeFileSync(
+        path.join(results, 'test-summary.json'),
+        JSON.stringify({ totals: { failed } }),
+      );
+      fs.writeFileSync(path.join(results, 'video.webm'), Buffer.alloc(sizeKb * 1024));
+    });
+    return dir;
+  };
+
+  const remaining = (dir: string): string[] => ArchiveReporter.listRuns(dir).map(run => run.name);
+
+  test('Scenario: The last runs and older failures are kept', async () => {
+    const dir = createArchive([
+      { failed: 0 },
+      { failed: 2 },
+      { failed: 0 },
+      { failed: 0 },
+      { failed: 1 },
+      { failed: 0 },
+    ]);
+
+    const removed = ArchiveReporter.applyRetention(dir, {
+      keepRuns: 2,
+      keepFailures: true,
+      maxSizeMb: 100,
+    });
+
+    expect(removed).toEqual(['run-01', 'run-03', 'run-04']);
+    expect(remaining(dir)).toEqual(['run-02', 'run-05', 'run-06']);
+  });
+
+  test('Scenario: Older failures go too when they are not kept', async () => {
+    const dir = createArchive([{ failed: 1 }, { failed: 1 }, { failed: 0 }]);
+
+    ArchiveReporter.applyRetention(dir, { keepRuns: 1, keepFailures: false, maxSizeMb: 100 });
+
+    expect(remaining(dir)).toEqual(['run-03']);
+  });
+
+  test('Scenario: The archive is trimmed to its size cap, passing runs first', async () => {
+    const dir = createArchive([
+      { failed: 1, sizeKb: 300 },
+      { failed: 0, sizeKb: 300 },
+      { failed: 0, sizeKb: 300 },
+      { failed: 0, sizeKb: 300 },
+    ]);
+
+    // 1 MB holds three of the four runs
+    ArchiveReporter.applyRetention(dir, { keepRuns: 10, keepFailures: true, maxSizeMb: 1 });
+    expect(remaining(dir)).toEqual(['run-01', 'run-03', 'run-04']);
+
+    // The newest run is kept even when it alone is over the cap
+    ArchiveReporter.applyRetention(dir, { keepRuns: 10, keepFailures: true, maxSizeMb: 0.1 });
+    expect(remaining(dir)).toEqual(['run-04']);
+  });
+});
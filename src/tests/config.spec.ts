@@ -0,0 +1,132 @@
+import { test, expect } from '@fixtures/test';
+import { Environment } from '@config/environment';
+import { ConfigError } from '@config/configSchema';
+import { LocalOrangeHRMServer } from '@mock/server';
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * Feature: Layered environment configuration
+ *
+ * As a test engineer
+ * I want settings to come from defaults, environments/<name>.json, .env and the shell, in that order
+ * So that I can change one setting without copying a whole environment, and typos fail loudly
+ */
+
+test.describe('Feature: Layered environment configuration', () => {
+  const noDotenv = '/nonexistent/.env';
+
+  const loadError = (load: () => unknown): ConfigError => {
+    try {
+      load();
+    } catch (error) {
+      if (error instanceof ConfigError) {
+        return error;
+      }
+      throw error;
+    }
+    throw new Error('Expected the configuration to be rejected');
+  };
+
+  test('Scenario: Each layer overrides the one before it', async () => {
+    const dotenvPath = test.info().outputPath('.env');
+    fs.writeFileSync(dotenvPath, 'TIMEOUT=20000\nVIDEO=off\nSCREENSHOT=on\n');
+
+    const config = Environment.loadConfig('staging', { SCREENSHOT: 'off' }, dotenvPath);
+
+    expect(config.headless).toBe(true); // default
+    expect(config.trace).toBe('on'); // environments/staging.json
+    expect(config.timeout).toBe(20000); // .env over the file
+    expect(config.video).toBe('off'); // .env over the file
+    expect(config.screenshot).toBe('off'); // process environment over .env
+  });
+
+  test('Scenario: Values from environment variables are converted to their types', async () => {
+    const config = Environment.loadConfig(
+      'dev',
+      { HEADLESS: 'false', SLOW_MO: '250', RETRIES: '1' },
+      noDotenv,
+    );
+
+    expect(config.headless).toBe(false);
+    expect(config.slowMo).toBe(250);
+    expect(config.retries).toBe(1);
+  });
+
+  test('Scenario: Failed tests are retried twice on CI unless retries are set', async () => {
+    expect(Environment.loadConfig('dev', {}, noDotenv).retries).toBe(0);
+    expect(Environment.loadConfig('dev', { CI: '1' }, noDotenv).retries).toBe(2);
+    expect(Environment.loadConfig('dev', { CI: '1', RETRIES: '0' }, noDotenv).retries).toBe(0);
+  });
+
+  test('Scenario: The API URL follows the base URL unless it is set', async () => {
+    const config = Environment.loadConfig('dev', { BASE_URL: 'https://hr.example.com' }, noDotenv);
+    expect(config.apiUrl).toBe('https://hr.example.com/web/index.php/api/v2');
+
+    const explicit = Environment.loadConfig(
+      'dev',
+      { API_URL: 'https://api.example.com/v2' },
+      noDotenv,
+    );
+    expect(explicit.apiUrl).toBe('https://api.example.com/v2');
+  });
+
+  test('Scenario: A misspelled environment is rejected', async () => {
+    const error = loadError(() => Environment.loadConfig('stagin', {}, noDotenv));
+
+    expect(error.message).toContain('Unknown environment "stagin"');
+    for (const name of ['ci', 'dev', 'local', 'production', 'staging']) {
+      expect(error.message).toContain(name);
+    }
+  });
+
+  test('Scenario: Bad values are all reported with where they came from', async () => {
+    const dotenvPath = test.info().outputPath('.env');
+    fs.writeFileSync(dotenvPath, 'TRACE=always\n');
+
+    const error = loadError(() =>
+      Environment.loadConfig(
+        'dev',
+        { SCREENSHOT: 'sometimes', TIMEOUT: 'soon', HEADLESS: 'yes', QUARANTINE: 'skp' },
+        dotenvPath,
+      ),
+    );
+
+    expect(error.problems).toEqual([
+      '.env: TRACE must be one of on, retain-on-failure, on-first-retry, off but was "always"',
+      'environment variables: TIMEOUT must be a number but was "soon"',
+      'environment variables: HEADLESS must be a boolean but was "yes"',
+      'environment variables: SCREENSHOT must be one of on, only-on-failure, off but was "sometimes"',
+      'environment variables: QUARANTINE must be one of fixme, fail, off but was "skp"',
+    ]);
+  });
+
+  test('Scenario: The local stand-in will not run beside another process on its port', async () => {
+    const port = process.env.LOCAL_SERVER_PORT;
+    const other = http.createServer((_req, res) => res.end('<h1>Not OrangeHRM</h1>'));
+    await new Promise<void>(resolve => other.listen(0, 'localhost', resolve));
+
+    try {
+      await test.step('Given the stand-in answers on its own port', async () => {
+        LocalOrangeHRMServer.ensureStarted();
+        await LocalOrangeHRMServer.verify();
+      });
+
+      await test.step('Then a port another process holds is rejected', async () => {
+        const { port: otherPort } = other.address() as AddressInfo;
+        process.env.LOCAL_SERVER_PORT = String(otherPort);
+        await expect(LocalOrangeHRMServer.verify()).rejects.toThrow(
+          `Port ${otherPort} is in use by a process that is not the local OrangeHRM stand-in`,
+        );
+      });
+    } finally {
+      if (port === undefined) {
+        delete process.env.LOCAL_SERVER_PORT;
+      } else {
+        process.env.LOCAL_SERVER_PORT = port;
+      }
+      other.close();
+    }
+  });
+});
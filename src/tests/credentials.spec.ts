@@ -0,0 +1,128 @@
+import { test, expect } from '@fixtures/test';
+import { Environment } from '@config/environment';
+import {
+  ChainedCredentialProvider,
+  CredentialError,
+  EnvCredentialProvider,
+  StubCredentialProvider,
+  VaultCredentialProvider,
+} from '@config/credentials';
+import { Secrets } from '@utils/secrets';
+import { TestReporting } from '@utils/testHelpers';
+import * as fs from 'fs';
+
+/**
+ * Feature: Credentials without hard-coded passwords
+ *
+ * As a test engineer pointing the suite at a real OrangeHRM instance
+ * I want credentials to come from environment variables or an encrypted vault, and never show up in logs
+ * So that passwords stay out of the code, the console and the report
+ */
+
+test.describe('Feature: Credentials without hard-coded passwords', () => {
+  test.afterEach(() => {
+    Environment.useCredentialProvider();
+  });
+
+  test('Scenario: Credentials are read back from an encrypted vault', async () => {
+    const vaultPath = test.info().outputPath('test.vault');
+    VaultCredentialProvider.save(
+      vaultPath,
+      { admin: { username: 'hr.admin', password: 'Vault-Pass-1' } },
+      'passphrase',
+    );
+
+    await test.step('Then the file does not contain the password', async () => {
+      expect(fs.readFileSync(vaultPath, 'utf-8')).not.toContain('Vault-Pass-1');
+    });
+
+    await test.step('And the right passphrase opens it', async () => {
+      const vault = new VaultCredentialProvider(vaultPath, 'passphrase');
+      expect(vault.getCredentials('admin')).toEqual({
+        username: 'hr.admin',
+        password: 'Vault-Pass-1',
+      });
+      expect(vault.getCredentials('ess')).toBeUndefined();
+    });
+
+    await test.step('And a wrong passphrase is reported as such', async () => {
+      const vault = new VaultCredentialProvider(vaultPath, 'wrong');
+      expect(() => vault.getCredentials('admin')).toThrow(/check CREDENTIALS_VAULT_KEY/);
+    });
+  });
+
+  test('Scenario: Environment variables come before the vault', async () => {
+    const provider = new ChainedCredentialProvider([
+      new EnvCredentialProvider({ ESS_USERNAME: 'env.ess', ESS_PASSWORD: 'Env-Pass-1' }),
+      new StubCredentialProvider({
+        admin: { username: 'stub.admin', password: 'Stub-Pass-1' },
+        ess: { username: 'stub.ess', password: 'Stub-Pass-2' },
+      }),
+    ]);
+
+    expect(provider.getCredentials('ess')?.username).toBe('env.ess');
+    expect(provider.getCredentials('admin')?.username).toBe('stub.admin');
+    expect(provider.getCredentials('supervisor')).toBeUndefined();
+  });
+
+  test('Scenario: Missing credentials fail fast', async () => {
+    Environment.useCredentialProvider(new StubCredentialProvider({}));
+
+    expect(() => Environment.verifyCredentials()).toThrow(CredentialError);
+    expect(() => Environment.verifyCredentials()).toThrow(/set TEST_USERNAME and TEST_PASSWORD/);
+    expect(() => Environment.getRoleCredentials('ess')).toThrow(
+      'No credentials for the ess user (looked in stub)',
+    );
+    expect(Environment.hasRoleCredentials('admin')).toBeFalsy();
+  });
+
+  test('Scenario: Only the demo site and the local stand-in count as demos', async () => {
+    const config = Environment.getConfig();
+
+    expect(
+      Environment.isDemoSite({ ...config, baseUrl: 'https://opensource-demo.orangehrmlive.com' }),
+    ).toBeTruthy();
+    expect(
+      Environment.isDemoSite({ ...config, baseUrl: 'https://hr-staging.example.com' }),
+    ).toBeFalsy();
+  });
+
+  test('Scenario: Passwords are masked in logged test data and attachments', async () => {
+    Environment.useCredentialProvider(
+      new StubCredentialProvider({ admin: { username: 'stub.admin', password: 'Stub-Pass-1' } }),
+    );
+    const credentials = Environment.getRoleCredentials('admin');
+
+    await test.step('When the test data is logged', async () => {
+      const logged: string[] = [];
+      /* eslint-disable no-console -- captures what TestReporting logs */
+      const log = console.log;
+      console.log = (...args: unknown[]): void => {
+        logged.push(args.join(' '));
+      };
+      try {
+        TestReporting.logTestData('login', {
+          credentials,
+          note: `signed in with ${credentials.password}`,
+        });
+      } finally {
+        console.log = log;
+      }
+      /* eslint-enable no-console */
+
+      const output = logged.join('\n');
+      expect(output).toContain('stub.admin');
+      expect(output).not.toContain('Stub-Pass-1');
+      expect(output).toContain(Secrets.MASK);
+    });
+
+    await test.step('When a text attachment contains the password', async () => {
+      await test
+        .info()
+        .attach('request', { body: `password=${credentials.password}`, contentType: 'text/plain' });
+
+      const attachment = test.info().attachments.find(item => item.name === 'request');
+      expect(attachment?.body?.toString()).toBe(`password=${Secrets.MASK}`);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { test, expect } from '@fixtures/test';
+import { Page } from '@playwright/test';
+import { Environment } from '@config/environment';
+import { ApiMock, ApiResponses, MockEmployee } from '@api/ApiMock';
+import { OxdToast } from '@components/OxdToast';
+
+/**
+ * Feature: Dashboard widgets with mocked API responses
+ *
+ * As a test engineer
+ * I want to feed the dashboard widgets empty, huge and failing API responses
+ * So that I can see how the dashboard copes with data the demo site never returns
+ */
+
+test.describe('Feature: Dashboard widgets with mocked API responses', () => {
+  const { username, password } = Environment.getRoleCredentials('admin');
+  const employee = (index: number): MockEmployee => ({
+    firstName: `Mocked${index}`,
+    lastName: `Employee${index}`,
+  });
+
+  test('Scenario: Widgets with nothing to show have an empty state', async ({
+    loginPage,
+    dashboardPage,
+    mockApi,
+  }) => {
+    await test.step('Given no one is on leave and there are no Buzz posts', async () => {
+      await mockApi.dashboard.employeesOnLeave([]);
+      await mockApi.dashboard.buzzFeed([]);
+    });
+
+    await test.step('When I log in', async () => {
+      await loginPage.goto();
+      await loginPage.loginAndWaitForDashboard(username, password);
+      await dashboardPage.waitForDashboardLoad();
+    });
+
+    await test.step('Then the widgets say there is nothing to show', async () => {
+      await expect(dashboardPage.employeesOnLeaveWidget).toContainText(
+        'No Employees are on Leave Today',
+      );
+      await expect(dashboardPage.buzzLatestPostsWidget).toContainText('No Posts Available');
+    });
+  });
+
+  test('Scenario: Widgets cope with huge payloads', async ({
+    loginPage,
+    dashboardPage,
+    mockApi,
+  }) => {
+    const longPost = 'Lorem ipsum dolor sit amet. '.repeat(200);
+
+    await test.step('Given 500 employees are on leave and the Buzz posts are very long', async () => {
+      await mockApi.dashboard.employeesOnLeave(
+        Array.from({ length: 500 }, (_, index) => ({
+          employee: employee(index),
+          leaveType: index % 2 ? 'Annual' : 'Medical',
+        })),
+      );
+      await mockApi.dashboard.buzzFeed(
+        Array.from({ length: 5 }, (_, index) => ({ employee: employee(index), text: longPost })),
+      );
+      await mockApi.dashboard.timeAtWork({
+        state: 'PUNCHED IN',
+        thisWeek: { hours: 168, minutes: 59 },
+      });
+    });
+
+    await test.step('When I log in', async () => {
+      await loginPage.goto();
+      await loginPage.loginAndWaitForDashboard(username, password);
+      await dashboardPage.waitForDashboardLoad();
+    });
+
+    await test.step('Then every widget shows its data and the dashboard stays usable', async () => {
+      await expect(dashboardPage.employeesOnLeaveWidget).toContainText('Mocked499 Employee499');
+      await expect(dashboardPage.buzzLatestPostsWidget).toContainText('Mocked4 Employee4');
+      await expect(dashboardPage.timeAtWorkWidget).toContainText('168h 59m');
+      await dashboardPage.verifyQuickLaunchWidget();
+    });
+  });
+
+  test('Scenario: A failing widget does not take the dashboard down', async ({
+    page,
+    loginPage,
+    dashboardPage,
+    mockApi,
+  }) => {
+    await test.step('Given the leave and Buzz endpoints fail', async () => {
+      await mockApi.fail('/dashboard/employees/leaves', 500);
+      await mockApi.fail('/buzz/feed', 503, 'Service Unavailable');
+    });
+
+    await test.step('When I log in', async () => {
+      await loginPage.goto();
+      await loginPage.loginAndWaitForDashboard(username, password);
+      await dashboardPage.waitForDashboardLoad();
+    });
+
+    await test.step('Then the failing widgets say they could not load', async () => {
+      const toast = await OxdToast.on(page).waitForMessage(['error']);
+      expect(toast.message).toBe('Unexpected Error!');
+      await expect(dashboardPage.employeesOnLeaveWidget).toContainText('Unable to load data');
+      await expect(dashboardPage.buzzLatestPostsWidget).toContainText('Unable to load data');
+    });
+
+    await test.step('And the other widgets still load', async () => {
+      await dashboardPage.verifyQuickLaunchWidget();
+      await expect(dashboardPage.timeAtWorkWidget).toBeVisible();
+    });
+  });
+
+  test('Scenario: Mocks the page never requested are reported', async () => {
+    const page = { route: async (): Promise<void> => {} } as unknown as Page;
+    const mockApi = new ApiMock(page, 'https://example.test/web/index.php/api/v2');
+
+    await mockApi.dashboard.employeesOnLeave([{ employee: employee(1) }]);
+    await mockApi.fail('/pim/employees', 500, undefined, { method: 'POST', times: 2 });
+
+    expect(mockApi.unconsumed()).toEqual([
+      'GET /dashboard/employees/leaves: requested 0 time(s)',
+      'POST /pim/employees: requested 0 time(s) of 2',
+    ]);
+    expect(
+      ApiResponses.employeesOnLeave(
+        [{ employee: employee(1), leaveType: 'Medical' }],
+        '2026-10-19',
+      ),
+    ).toEqual({
+      data: [
+        {
+          id: 1,
+          date: '2026-10-19',
+          leaveType: { id: 1, type: 'Medical' },
+          employee: {
+            empNumber: 1,
+            firstName: 'Mocked1',
+            middleName: '',
+            lastName: 'Employee1',
+            employeeId: '0001',
+            terminationId: null,
+          },
+          duration: 'full_day',
+        },
+      ],
+      meta: { total: 1, date: '2026-10-19' },
+      rels: [],
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import * as fs from 'fs';
+import { test, expect } from '@fixtures/test';
+import { testEach } from '@fixtures/dataDriven';
+import { DataSource, DataSourceError, LoginScenario } from '@utils/dataSource';
+import { Environment } from '@config/environment';
+
+/**
+ * Fill in the admin's credentials where a row has `{admin.username}`, `{admin.password}` or
+ * `{admin.password|uppercase}`, so the data file holds no password and suits any site
+ */
+function withAdminCredentials(row: LoginScenario): LoginScenario {
+  const admin = Environment.getRoleCredentials('admin');
+  const fill = (value: string): string =>
+    value
+      .replace('{admin.username}', admin.username)
+      .replace('{admin.password|uppercase}', admin.password.toUpperCase())
+      .replace('{admin.password}', admin.password);
+  return { ...row, username: fill(row.username), password: fill(row.password) };
+}
+
+/**
+ * Feature: Data-driven scenarios from data files
+ *
+ * As a team member who does not write code
+ * I want to add test cases as rows of CSV, JSON or YAML files in src/data
+ * So that a new case is a new row, and a bad row is reported before anything runs
+ */
+
+test.describe('Feature: Data-driven scenarios from data files', () => {
+  test.describe('Login scenarios from login-scenarios.csv', () => {
+    testEach(
+      DataSource.load('login-scenarios.csv', 'loginScenarios'),
+      row => `Scenario: Login with ${row.description}`,
+      scenario =>
+        async ({ page, loginPage, dashboardPage }): Promise<void> => {
+          const row = withAdminCredentials(scenario);
+
+          await test.step('Given I am on the OrangeHRM login page', async () => {
+            await loginPage.goto();
+          });
+
+          await test.step(`When I log in as "${row.username}"`, async () => {
+            await loginPage.login(row.username, row.password);
+          });
+
+          if (row.expectedResult === 'success') {
+            await test.step('Then I reach the dashboard', async () => {
+              await dashboardPage.waitForDashboardLoad();
+            });
+            return;
+          }
+
+          await test.step(`Then I see "${row.errorMessage}"`, async () => {
+            const errors =
+              row.errorMessage === 'Required'
+                ? page.locator('.oxd-input-field-error-message')
+                : loginPage.invalidCredentialsError;
+            await expect(errors.first()).toHaveText(row.errorMessage ?? '');
+            expect(page.url()).not.toContain('/dashboard');
+          });
+        },
+    );
+  });
+
+  test.describe('Employees from employees.yaml', () => {
+    testEach(
+      DataSource.load('employees.yaml', 'employees'),
+      row => `Scenario: Create employee ${row.firstName} ${row.lastName}`,
+      row =>
+        async ({ api, dataFactory }): Promise<void> => {
+          // Dataset ids are fixed, so give each run its own to avoid clashing on shared sites
+          const employeeId = `${row.employeeId}${Date.now().toString().slice(-4)}`;
+
+          const created = await test.step('When the employee is created', async () => {
+            return dataFactory.createEmployee({ ...row, employeeId });
+          });
+
+          await test.step('Then it is stored with the names from the file', async () => {
+            const employee = await api.getEmployee(created.id);
+            expect(employee).toMatchObject({
+              firstName: row.firstName,
+              lastName: row.lastName,
+              employeeId,
+            });
+          });
+        },
+    );
+  });
+
+  test.describe('Leave requests from leave-requests.json', () => {
+    testEach(
+      DataSource.load('leave-requests.json', 'leave'),
+      row => `Scenario: Apply for ${row.leaveType} leave from ${row.fromDate} to ${row.toDate}`,
+      row =>
+        async ({ dataFactory }): Promise<void> => {
+          const request = await dataFactory.applyLeave(row);
+
+          expect(request).toMatchObject({
+            fromDate: row.fromDate,
+            toDate: row.toDate,
+            status: 'Pending Approval',
+          });
+        },
+    );
+  });
+
+  test('Scenario: Every problem in a data file is reported by row', async () => {
+    const file = test.info().outputPath('employees.yaml');
+    fs.writeFileSync(
+      file,
+      [
+        '- firstName: Ada',
+        '  lastName: Lovelace',
+        '  employeeId: 0042',
+        '- firstName: ""',
+        '  lastName: Hopper',
+        '  employeeId: "EMP2"',
+        '  gender: Unknown',
+        '  birthday: "1906-12-09"',
+      ].join('\n'),
+    );
+
+    let error: unknown;
+    try {
+      DataSource.load(file, 'employees');
+    } catch (thrown) {
+      error = thrown;
+    }
+
+    expect(error).toBeInstanceOf(DataSourceError);
+    expect(
+      (error as DataSourceError).problems.map(problem =>
+        problem.replace(/^.*employees\.yaml /, ''),
+      ),
+    ).toEqual([
+      'row 1: employeeId must be text but was 42 - put it in quotes',
+      'row 2: unknown column "birthday" (expected one of firstName, lastName, middleName, employeeId, email, phone, address, city, state, zipCode, dateOfBirth, maritalStatus, gender, nationality)',
+      'row 2: firstName must not be empty',
+      'row 2: gender must be one of Male, Female but was "Unknown"',
+    ]);
+  });
+
+  test('Scenario: CSV values can hold commas, quotes and line breaks', async () => {
+    const rows = DataSource.parseCsv(
+      [
+        'username,password,description,expectedResult',
+        '"Admin, Jr.","say ""hi""","two',
+        'lines",failure',
+        '',
+        ',,Both fields empty,failure',
+      ].join('\r\n'),
+    );
+
+    expect(rows).toEqual([
+      {
+        username: 'Admin, Jr.',
+        password: 'say "hi"',
+        description: 'two\r\nlines',
+        expectedResult: 'failure',
+      },
+      { username: '', password: '', description: 'Both fields empty', expectedResult: 'failure' },
+    ]);
+    expect(
+      DataSource.validate(
+        rows,
+        {
+          username: { required: true },
+          password: { required: true },
+          description: {},
+          expectedResult: {},
+        },
+        'inline',
+      ),
+    ).toEqual(rows);
+  });
+
+  test('Scenario: Rows that would give two tests the same name are rejected', async () => {
+    const rows = DataSource.load('login-scenarios.csv', 'loginScenarios');
+
+    expect(() =>
+      testEach(
+        [...rows, rows[0]],
+        row => row.description,
+        () => async (): Promise<void> => {},
+      ),
+    ).toThrow(`row ${rows.length + 1}: "${rows[0].description}" is already the title of row 1`);
+  });
+});
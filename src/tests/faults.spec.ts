@@ -0,0 +1,166 @@
+import { test, expect } from '@fixtures/test';
+import { Environment } from '@config/environment';
+import { FaultInjector, expectLoadingFinished } from '@utils/faultInjection';
+
+/**
+ * Feature: Slow and failing backends
+ *
+ * As a test engineer
+ * I want to slow down, drop and break OrangeHRM's API responses
+ * So that I know the UI tells users about a failing backend instead of hanging
+ */
+
+test.describe('Feature: Slow and failing backends', () => {
+  const { username, password } = Environment.getRoleCredentials('admin');
+
+  test('Scenario: A slow endpoint delays its widget but the dashboard finishes loading', async ({
+    page,
+    loginPage,
+    dashboardPage,
+    faultInjector,
+  }) => {
+    await test.step('Given the employees on leave take 3 seconds to arrive', async () => {
+      await faultInjector.latency('/dashboard/employees/leaves', 3000);
+    });
+
+    await test.step('When I log in', async () => {
+      await loginPage.goto();
+      await loginPage.loginAndWaitForDashboard(username, password);
+    });
+
+    await test.step('Then the widget loads once the response arrives', async () => {
+      await expectLoadingFinished(page, 15000);
+      await expect(dashboardPage.employeesOnLeaveWidget).not.toContainText('Unable to load data');
+    });
+  });
+
+  test('Scenario: A dropped connection is reported', async ({
+    loginPage,
+    dashboardPage,
+    faultInjector,
+  }) => {
+    await test.step('Given the connection to the Buzz feed is reset', async () => {
+      await faultInjector.drop('/buzz/feed');
+    });
+
+    await test.step('When I log in', async () => {
+      await loginPage.goto();
+      await loginPage.loginAndWaitForDashboard(username, password);
+    });
+
+    await test.step('Then I am told the request failed', async () => {
+      await dashboardPage.expectErrorFeedback();
+    });
+  });
+
+  test('Scenario: A server error is reported and the rest of the dashboard still works', async ({
+    loginPage,
+    dashboardPage,
+    faultInjector,
+  }) => {
+    await test.step('Given Time at Work answers 503 Service Unavailable', async () => {
+      await faultInjector.serverError('/dashboard/employees/time-at-work', 503);
+    });
+
+    await test.step('When I log in', async () => {
+      await loginPage.goto();
+      await loginPage.loginAndWaitForDashboard(username, password);
+    });
+
+    await test.step('Then I am told the request failed', async () => {
+      await dashboardPage.expectErrorFeedback();
+    });
+
+    await test.step('And the other widgets still load', async () => {
+      await dashboardPage.verifyQuickLaunchWidget();
+    });
+  });
+
+  test('Scenario: A malformed response is reported', async ({
+    loginPage,
+    dashboardPage,
+    faultInjector,
+  }) => {
+    await test.step('Given the employees on leave come back as broken JSON', async () => {
+      await faultInjector.malformedJson('/dashboard/employees/leaves');
+    });
+
+    await test.step('When I log in', async () => {
+      await loginPage.goto();
+      await loginPage.loginAndWaitForDashboard(username, password);
+    });
+
+    await test.step('Then I am told the request failed', async () => {
+      await dashboardPage.expectErrorFeedback();
+    });
+  });
+
+  test.describe('with faults set for every test', () => {
+    test.use({
+      faults: [
+        { endpoint: '/dashboard/employees/subunit', fault: { kind: 'server-error' }, times: 1 },
+      ],
+    });
+
+    test('Scenario: A fault from test.use() is injected', async ({ loginPage, dashboardPage }) => {
+      await test.step('When I log in', async () => {
+        await loginPage.goto();
+        await loginPage.loginAndWaitForDashboard(username, password);
+      });
+
+      await test.step('Then the failing Employee Distribution request is reported', async () => {
+        await dashboardPage.expectErrorFeedback();
+      });
+    });
+  });
+
+  test.describe('on a slow 3G network', () => {
+    test.use({ throttling: 'slow-3g' });
+
+    test('Scenario: Logging in still works on a slow network', async ({
+      browserName,
+      page,
+      loginPage,
+      dashboardPage,
+    }) => {
+      test.skip(browserName !== 'chromium', 'Throttling needs Chromium');
+      test.slow();
+
+      await test.step('When I log in over slow 3G', async () => {
+        await loginPage.goto();
+        await loginPage.loginAndWaitForDashboard(username, password);
+      });
+
+      await test.step('Then the dashboard finishes loading', async () => {
+        await dashboardPage.waitForDashboardLoad();
+        await expectLoadingFinished(page, 30000);
+      });
+    });
+  });
+
+  test('Scenario: Faults match an API path and the paths under it', async () => {
+    const apiUrl = 'https://example.test/web/index.php/api/v2';
+
+    expect(
+      FaultInjector.matches('/pim/employees', `${apiUrl}/pim/employees?limit=50`, apiUrl),
+    ).toBe(true);
+    expect(FaultInjector.matches('/pim/employees', `${apiUrl}/pim/employees/7`, apiUrl)).toBe(true);
+    expect(FaultInjector.matches('/pim/employees', `${apiUrl}/pim/employees-report`, apiUrl)).toBe(
+      false,
+    );
+    expect(
+      FaultInjector.matches(
+        '/pim/employees',
+        'https://example.test/web/index.php/pim/employees',
+        apiUrl,
+      ),
+    ).toBe(false);
+    expect(
+      FaultInjector.matches(
+        /\/auth\/validate$/,
+        'https://example.test/web/index.php/auth/validate',
+        apiUrl,
+      ),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,12 @@
+import * as path from 'path';
+import { FeatureRunner } from '@bdd/FeatureRunner';
+import '@bdd/steps/login.steps';
+
+/**
+ * Scenarios written in Gherkin
+ *
+ * Every .feature file in src/features runs here, against the step definitions
+ * imported above.
+ */
+
+new FeatureRunner().runDirectory(path.join(__dirname, '..', 'features'));
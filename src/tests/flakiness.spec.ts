@@ -0,0 +1,185 @@
+import { test, expect } from '@fixtures/test';
+import type { FullConfig, TestCase, TestResult } from '@playwright/test/reporter';
+import HistoryReporter from '../reporters/HistoryReporter';
+import { HistoryRun, ResultsHistory, RunStatus } from '../reporters/ResultsHistory';
+
+/**
+ * Feature: Flaky test detection and quarantine
+ *
+ * As a test engineer
+ * I want every run recorded and each test scored over its recent runs
+ * So that tests passing only on retry are found and quarantined instead of hidden
+ */
+
+test.describe('Feature: Flaky test detection and quarantine', () => {
+  const options = { window: 5, threshold: 0.4, minRuns: 3 };
+
+  // Runs in which each test ended with the given statuses, oldest first
+  const history = (statuses: Record<string, RunStatus[]>): HistoryRun[] => {
+    const count = Math.max(...Object.values(statuses).map(list => list.length));
+    return Array.from({ length: count }, (_, index) => ({
+      runId: `run_${index}`,
+      environment: 'local',
+      finishedAt: new Date(2026, 0, index + 1).toISOString(),
+      tests: Object.fromEntries(
+        Object.entries(statuses)
+          .filter(([, list]) => list[index] !== undefined)
+          .map(([key, list]) => [
+            key,
+            {
+              status: list[index],
+              attempts: list[index] === 'passed' ? 1 : 2,
+              failures: list[index] === 'passed' ? [] : ['Timed out waiting for toast'],
+            },
+          ]),
+      ),
+    }));
+  };
+
+  const fakeTest = (title: string, annotations: TestCase['annotations'] = []): TestCase =>
+    ({
+      id: title,
+      titlePath: () => ['', 'chromium', 'leave.spec.ts', title],
+      annotations,
+    }) as unknown as TestCase;
+
+  const fakeResult = (status: TestResult['status'], message?: string): TestResult =>
+    ({ status, error: message === undefined ? undefined : { message } }) as unknown as TestResult;
+
+  test('Scenario: Tests passing on retry or failing now and then are scored', async () => {
+    const report = ResultsHistory.score(
+      history({
+        stable: ['passed', 'passed', 'passed', 'passed'],
+        retried: ['passed', 'flaky', 'passed', 'flaky'],
+        sometimes: ['failed', 'passed', 'passed', 'passed'],
+        broken: ['failed', 'failed', 'failed', 'failed'],
+      }),
+      options,
+    );
+
+    expect(
+      report.tests.map(({ key, score, quarantined }) => ({ key, score, quarantined })),
+    ).toEqual([
+      { key: 'retried', score: 0.5, quarantined: true },
+      { key: 'sometimes', score: 0.25, quarantined: false },
+    ]);
+    expect(report.tests[0].signatures).toEqual([
+      { signature: 'Timed out waiting for toast', count: 2 },
+    ]);
+  });
+
+  test('Scenario: Only the last runs of a test are scored', async () => {
+    const report = ResultsHistory.score(
+      history({
+        recovered: ['flaky', 'flaky', 'flaky', 'passed', 'passed', 'passed', 'passed', 'passed'],
+        new: ['flaky', 'flaky'],
+      }),
+      options,
+    );
+
+    expect(report.tests.find(test => test.key === 'recovered')).toBeUndefined();
+    // Too few runs to quarantine yet
+    expect(report.tests.find(test => test.key === 'new')).toMatchObject({
+      score: 1,
+      quarantined: false,
+    });
+  });
+
+  test('Scenario: Each run is appended to the history and the quarantine list rewritten', async () => {
+    const dir = test.info().outputPath('history');
+    const reporter = (): HistoryReporter => {
+      // Playwright adds options of its own to every reporter's
+      const playwrightOptions = { configDir: '/repo', _mode: 'test' };
+      const instance = new HistoryReporter({ dir, ...options, ...playwrightOptions });
+      instance.onBegin(
+        { metadata: { runId: 'nightly', environment: 'local' } } as unknown as FullConfig,
+        {} as never,
+      );
+      return instance;
+    };
+
+    for (let run = 0; run < 3; run++) {
+      const instance = reporter();
+      instance.onTestEnd(
+        fakeTest('Apply leave'),
+        fakeResult('failed', '\u001b[31mTimed out 5000ms\u001b[39m\nCall log:'),
+      );
+      instance.onTestEnd(fakeTest('Apply leave'), fakeResult('passed'));
+      instance.onTestEnd(fakeTest('Cancel leave'), fakeResult('passed'));
+      instance.onTestEnd(fakeTest('Approve leave'), fakeResult('skipped'));
+      await instance.onEnd({ status: 'passed', startTime: new Date(), duration: 1000 });
+    }
+    await reporter().onEnd({ status: 'interrupted', startTime: new Date(), duration: 1000 });
+
+    const store = new ResultsHistory(dir);
+    const runs = store.readRuns();
+    expect(runs).toHaveLength(3);
+    expect(runs[0]).toMatchObject({ runId: 'nightly', environment: 'local' });
+    expect(runs[0].tests).toEqual({
+      'chromium › leave.spec.ts › Apply leave': {
+        status: 'flaky',
+        attempts: 2,
+        failures: ['Timed out Nms'],
+      },
+      'chromium › leave.spec.ts › Cancel leave': { status: 'passed', attempts: 1, failures: [] },
+    });
+    expect([...store.readQuarantine().keys()]).toEqual(['chromium › leave.spec.ts › Apply leave']);
+    expect(Object.keys(store.readFlakiness() ?? {})).toEqual([
+      'window',
+      'threshold',
+      'minRuns',
+      'updatedAt',
+      'runs',
+      'tests',
+    ]);
+  });
+
+  test('Scenario: A quarantined test leaves the quarantine once it has sat out enough runs', async () => {
+    const dir = test.info().outputPath('history');
+    const store = new ResultsHistory(dir);
+    const key = 'chromium › leave.spec.ts › Apply leave';
+    const record = async (
+      annotations: TestCase['annotations'],
+      ...results: TestResult[]
+    ): Promise<void> => {
+      const instance = new HistoryReporter({ dir, ...options });
+      instance.onBegin({ metadata: {} } as unknown as FullConfig, {} as never);
+      results.forEach(result => instance.onTestEnd(fakeTest('Apply leave', annotations), result));
+      await instance.onEnd({ status: 'passed', startTime: new Date(), duration: 1000 });
+    };
+
+    await test.step('Given a test quarantined after passing only on retries', async () => {
+      for (let run = 0; run < 3; run++) {
+        await record([], fakeResult('failed', 'Timed out'), fakeResult('passed'));
+      }
+      expect(store.readQuarantine().has(key)).toBe(true);
+    });
+
+    await test.step('When the quarantine skips it, the skipped runs are recorded until it leaves', async () => {
+      const quarantinedFor: boolean[] = [];
+      for (let run = 0; run < 4; run++) {
+        const flaky = store.readQuarantine().get(key);
+        await record(
+          [{ type: 'fixme', description: ResultsHistory.quarantineReason(flaky!) }],
+          fakeResult('skipped'),
+        );
+        quarantinedFor.push(store.readQuarantine().has(key));
+      }
+      expect(quarantinedFor).toEqual([true, true, true, false]);
+      expect(store.readRuns().at(-1)?.tests[key]).toEqual({
+        status: 'skipped',
+        attempts: 0,
+        failures: [],
+      });
+    });
+
+    await test.step('Then its report counts the runs it sat out', async () => {
+      expect(store.readFlakiness()?.tests.find(flaky => flaky.key === key)).toMatchObject({
+        runs: 5,
+        flaky: 1,
+        skipped: 4,
+        quarantined: false,
+      });
+    });
+  });
+});
@@ -0,0 +1,222 @@
+import { test, expect } from '@fixtures/test';
+import { Fuzz, FormRules, PropertyFailure } from '@utils/fuzz';
+import { RandomSeed } from '@utils/random';
+import { EmployeeData, SAMPLE_LEAVE_REQUESTS, TEST_CONSTANTS } from '@utils/testData';
+
+type EmployeeName = Pick<EmployeeData, 'firstName' | 'middleName' | 'lastName'>;
+
+/**
+ * Feature: Form input fuzzing
+ *
+ * As a QA engineer
+ * I want forms filled with generated text at and past their limits, in other scripts, with
+ * emoji, blank or hostile, and with malformed dates
+ * So that validation gaps and corrupted data are found, with the smallest input that shows them
+ */
+
+test.describe('Feature: Form input fuzzing', () => {
+  // Every run fills in a form, and a failure is run again while it is shrunk
+  test.describe.configure({ timeout: (Fuzz.RUNS + Fuzz.MAX_SHRINKS) * 10000 });
+
+  const { NAME, LEAVE_COMMENT } = TEST_CONSTANTS.MAX_LENGTHS;
+
+  test('Scenario: The login form refuses any generated credentials with the documented message', async ({
+    page,
+    loginPage,
+  }) => {
+    const pageErrors = Fuzz.watchPageErrors(page);
+    const credentials = Fuzz.record({ username: Fuzz.text(), password: Fuzz.text() });
+
+    await Fuzz.check(credentials, async ({ username, password }) => {
+      const expected = FormRules.loginErrors({ username, password });
+
+      await loginPage.goto();
+      await loginPage.login(username, password);
+
+      if (expected.credentials) {
+        expect(await loginPage.getErrorMessage()).toBe(expected.credentials);
+        expect(await loginPage.getValidationErrors()).toEqual({});
+      } else {
+        await page.locator('.oxd-input-field-error-message').first().waitFor();
+        expect(await loginPage.getValidationErrors()).toEqual(expected);
+      }
+      await expect(page).toHaveURL(/auth\/login/);
+      expect(pageErrors.splice(0)).toEqual([]);
+    });
+  });
+
+  test('Scenario: An employee name is either rejected with the documented message or saved as shown', async ({
+    authenticatedPage,
+    addEmployeePage,
+    api,
+    dataFactory,
+  }) => {
+    const pageErrors = Fuzz.watchPageErrors(authenticatedPage);
+    const names = Fuzz.record({
+      firstName: Fuzz.text({ maxLength: NAME }),
+      middleName: Fuzz.text({ maxLength: NAME }),
+      lastName: Fuzz.text({ maxLength: NAME }),
+    });
+
+    const trimmed = ({ firstName, middleName, lastName }: EmployeeName): EmployeeName => ({
+      firstName: firstName.trim(),
+      middleName: (middleName ?? '').trim(),
+      lastName: lastName.trim(),
+    });
+
+    // The form suggests a free employee id, which is left as it is
+    await Fuzz.check(names, async name => {
+      const expected = FormRules.employeeErrors(name);
+
+      await addEmployeePage.goto();
+      await addEmployeePage.fillEmployeeDetails(name);
+
+      if (Object.keys(expected).length > 0) {
+        expect(await addEmployeePage.submitExpectingErrors()).toEqual(expected);
+      } else {
+        const empNumber = await addEmployeePage.saveAndWaitForPersonalDetails();
+        dataFactory.track('employee', empNumber);
+
+        const saved = await api.getEmployee(empNumber);
+        const shown = await addEmployeePage.getEmployeeName();
+        expect(shown).toEqual({
+          firstName: saved.firstName,
+          middleName: saved.middleName ?? '',
+          lastName: saved.lastName,
+        });
+        // Surrounding spaces may be dropped, but nothing else: no lost emoji, escaped markup or reordered text
+        expect(trimmed(shown)).toEqual(trimmed(name));
+      }
+      expect(pageErrors.splice(0)).toEqual([]);
+    });
+  });
+
+  test('Scenario: Leave requests with malformed dates or long comments are rejected with the documented messages', async ({
+    authenticatedPage,
+    applyLeavePage,
+  }) => {
+    const pageErrors = Fuzz.watchPageErrors(authenticatedPage);
+    const { leaveType } = SAMPLE_LEAVE_REQUESTS[0];
+
+    const format = await test.step('Given I am on the Apply Leave page', async () => {
+      await applyLeavePage.goto();
+      return applyLeavePage.getDateFormat();
+    });
+
+    // Only requests the form must refuse, so nothing is booked
+    const requests = Fuzz.filter(
+      Fuzz.record({
+        fromDate: Fuzz.date(format),
+        toDate: Fuzz.date(format),
+        comment: Fuzz.text({ maxLength: LEAVE_COMMENT }),
+      }),
+      request => Object.keys(FormRules.leaveErrors({ ...request, leaveType }, format)).length > 0,
+    );
+
+    await Fuzz.check(requests, async request => {
+      await applyLeavePage.goto();
+      await applyLeavePage.selectLeaveType(leaveType);
+      await applyLeavePage.typeDateRange(request.fromDate, request.toDate);
+      await applyLeavePage.fillComment(request.comment);
+
+      expect(await applyLeavePage.submitExpectingErrors()).toEqual(
+        FormRules.leaveErrors({ ...request, leaveType }, format),
+      );
+      expect(pageErrors.splice(0)).toEqual([]);
+    });
+  });
+
+  test('Scenario: A failing input is shrunk to a minimal reproducer', async () => {
+    RandomSeed.use(1);
+
+    const failure = await Fuzz.check(
+      Fuzz.record({
+        firstName: Fuzz.text({ maxLength: NAME, kinds: ['boundary'] }),
+        lastName: Fuzz.text(),
+      }),
+      ({ firstName }) => expect(firstName.length).toBeLessThanOrEqual(NAME),
+      { maxShrinks: 1000 },
+    ).catch((error: unknown) => error);
+
+    expect(failure).toBeInstanceOf(PropertyFailure);
+    const { counterexample, shrunk, seed, message } = failure as PropertyFailure;
+    expect((counterexample as { firstName: string }).firstName.length).toBe(NAME + 1);
+    // Down to plain letters, bar an emoji that makes up the length
+    expect(shrunk).toEqual({ firstName: expect.stringMatching(/^a+(😀)?$/), lastName: '' });
+    expect((shrunk as { firstName: string }).firstName.length).toBe(NAME + 1);
+    expect(seed).toBe(1);
+    expect(message).toContain(`replay with TEST_SEED=${process.env.TEST_SEED}`);
+  });
+
+  test('Scenario: The same seed generates the same inputs', async () => {
+    const generate = (seed: number): unknown[] => {
+      const random = RandomSeed.use(seed);
+      const form = Fuzz.record({ name: Fuzz.text(), date: Fuzz.date('yyyy-dd-mm') });
+      return Array.from({ length: 20 }, () => form.generate(random));
+    };
+
+    expect(generate(99)).toEqual(generate(99));
+    expect(generate(99)).not.toEqual(generate(100));
+  });
+
+  test('Scenario: Expected validation follows the documented messages', async () => {
+    const {
+      REQUIRED_FIELD,
+      INVALID_CREDENTIALS,
+      INVALID_DATE,
+      NAME_TOO_LONG,
+      TO_DATE_BEFORE_FROM_DATE,
+      LEAVE_COMMENT_TOO_LONG,
+    } = TEST_CONSTANTS.ERROR_MESSAGES;
+
+    await test.step('Whitespace-only credentials are missing; anything else is refused', async () => {
+      expect(FormRules.loginErrors({ username: '\u3000\t', password: 'x' })).toEqual({
+        username: REQUIRED_FIELD,
+      });
+      expect(FormRules.loginErrors({ username: '\u200b', password: '\u202eadmin' })).toEqual({
+        credentials: INVALID_CREDENTIALS,
+      });
+    });
+
+    await test.step('Names count UTF-16 code units, spaces included', async () => {
+      expect(FormRules.employeeErrors({ firstName: `${'a'.repeat(28)}😀`, lastName: ' ' })).toEqual(
+        { lastName: REQUIRED_FIELD },
+      );
+      expect(
+        FormRules.employeeErrors({
+          firstName: `${'a'.repeat(29)}😀`,
+          middleName: ` ${'b'.repeat(30)}`,
+          lastName: 'c',
+        }),
+      ).toEqual({ firstName: NAME_TOO_LONG, middleName: NAME_TOO_LONG });
+    });
+
+    await test.step('Dates must be real and written exactly in the format the site uses', async () => {
+      const format = 'yyyy-dd-mm';
+      const invalidDate = INVALID_DATE.replace('yyyy-mm-dd', format);
+      expect(FormRules.parseDate('2024-31-01', format)).toBe('2024-01-31');
+      expect(
+        FormRules.leaveErrors(
+          {
+            leaveType: 'Annual',
+            fromDate: '2024-31-01',
+            toDate: '2024/31/01',
+            comment: 'x'.repeat(251),
+          },
+          format,
+        ),
+      ).toEqual({ toDate: invalidDate, comment: LEAVE_COMMENT_TOO_LONG });
+      expect(
+        FormRules.leaveErrors(
+          { leaveType: 'Annual', fromDate: '2024-02-01', toDate: '2024-01-01' },
+          format,
+        ),
+      ).toEqual({ toDate: TO_DATE_BEFORE_FROM_DATE });
+      expect(FormRules.leaveErrors({ fromDate: '2023-29-02', toDate: ' ' }, format)).toEqual({
+        leaveType: REQUIRED_FIELD,
+        fromDate: invalidDate,
+        toDate: REQUIRED_FIELD,
+      });
+    });
+  });
+});
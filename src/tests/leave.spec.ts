@@ -0,0 +1,232 @@
+import { test, expect } from '@fixtures/test';
+import { LeaveRequestRecord, OrangeHRMApiClient } from '@api/OrangeHRMApiClient';
+import { DataFactory } from '@api/DataFactory';
+import { TestHelpers } from '@utils/helper';
+import {
+  INVALID_LEAVE_DATA,
+  LeaveData,
+  SAMPLE_EMPLOYEES,
+  SAMPLE_LEAVE_REQUESTS,
+} from '@utils/testData';
+
+/**
+ * Feature: OrangeHRM Leave Management
+ *
+ * As an employee or HR administrator
+ * I want to request, assign and review leave
+ * So that time off is recorded and approved
+ */
+
+test.describe('Feature: OrangeHRM Leave Management', () => {
+  // Leave and employees a test creates are tracked by the dataFactory fixture and cancelled or deleted afterwards
+
+  // Give each request its own comment so it can be told apart from earlier runs
+  const withUniqueComment = (leave: LeaveData): LeaveData => ({
+    ...leave,
+    comment: `${leave.comment || 'Leave'} ${TestHelpers.generateRandomString(6)}`,
+  });
+
+  // Look up a request made through the UI by its unique comment, and track it for cleanup
+  const findLeave = async (
+    api: OrangeHRMApiClient,
+    dataFactory: DataFactory,
+    leave: LeaveData,
+  ): Promise<LeaveRequestRecord | undefined> => {
+    const requests = await api.getLeaveRequests({
+      fromDate: leave.fromDate,
+      toDate: leave.toDate,
+      limit: 0,
+    });
+    const request = requests.find(r => r.comment === leave.comment);
+    if (request) {
+      dataFactory.track('leaveRequest', request.id);
+    }
+    return request;
+  };
+
+  for (const sample of SAMPLE_LEAVE_REQUESTS) {
+    test(`Scenario: Apply for ${sample.leaveType} leave`, async ({
+      applyLeavePage,
+      api,
+      dataFactory,
+    }) => {
+      const leave = withUniqueComment(sample);
+
+      await test.step('Given I am on the Apply Leave page', async () => {
+        await applyLeavePage.goto();
+        await applyLeavePage.verifyApplyLeavePage();
+      });
+
+      await test.step('When I submit the leave request', async () => {
+        expect(await applyLeavePage.applyLeave(leave)).toContain('Successfully Saved');
+      });
+
+      await test.step('Then the request is waiting for approval', async () => {
+        const request = await findLeave(api, dataFactory, leave);
+        expect(request).toBeDefined();
+        expect(request?.leaveType).toBe(leave.leaveType);
+        expect(request?.status).toBe('Pending Approval');
+      });
+    });
+  }
+
+  test('Scenario: Apply for leave taking the first day as a half day', async ({
+    applyLeavePage,
+    api,
+    dataFactory,
+  }) => {
+    const leave = withUniqueComment({ ...SAMPLE_LEAVE_REQUESTS[0], partialDays: 'Start Day Only' });
+
+    await applyLeavePage.goto();
+    expect(await applyLeavePage.applyLeave(leave, 'Half Day - Afternoon')).toContain(
+      'Successfully Saved',
+    );
+
+    const request = await findLeave(api, dataFactory, leave);
+    expect(request?.partialDays).toBe('Start Day Only');
+  });
+
+  test('Scenario: Partial days are only offered for multi-day leave', async ({
+    applyLeavePage,
+  }) => {
+    const { fromDate, toDate } = SAMPLE_LEAVE_REQUESTS[0];
+    await applyLeavePage.goto();
+
+    await applyLeavePage.fillDateRange(fromDate, fromDate);
+    expect(await applyLeavePage.isPartialDaysAvailable()).toBeFalsy();
+
+    await applyLeavePage.fillDateRange(fromDate, toDate);
+    expect(await applyLeavePage.isPartialDaysAvailable()).toBeTruthy();
+  });
+
+  const validationCases: Array<{
+    name: string;
+    leave: Partial<LeaveData>;
+    field: 'leaveType' | 'fromDate' | 'toDate';
+    message: string;
+  }> = [
+    {
+      name: 'Leave type is required',
+      leave: INVALID_LEAVE_DATA[0],
+      field: 'leaveType',
+      message: 'Required',
+    },
+    {
+      name: 'From date is required',
+      leave: INVALID_LEAVE_DATA[1],
+      field: 'fromDate',
+      message: 'Required',
+    },
+    {
+      name: 'To date must not be before from date',
+      leave: INVALID_LEAVE_DATA[2],
+      field: 'toDate',
+      message: 'To date should be after from date',
+    },
+  ];
+
+  for (const { name, leave, field, message } of validationCases) {
+    test(`Scenario: ${name}`, async ({ applyLeavePage }) => {
+      await applyLeavePage.goto();
+      await applyLeavePage.fillLeaveDetails(leave);
+
+      const errors = await applyLeavePage.submitExpectingErrors();
+      expect(errors[field]).toBe(message);
+    });
+  }
+
+  test('Scenario: Assign leave to an employee', async ({ assignLeavePage, api, dataFactory }) => {
+    const employee = await dataFactory.createEmployee({
+      ...SAMPLE_EMPLOYEES[1],
+      employeeId: `L${Date.now().toString().slice(-8)}`,
+    });
+    const leave = withUniqueComment(SAMPLE_LEAVE_REQUESTS[1]);
+
+    await test.step('Given I am on the Assign Leave page', async () => {
+      await assignLeavePage.goto();
+      await assignLeavePage.verifyAssignLeavePage();
+    });
+
+    await test.step('When I assign leave to the employee', async () => {
+      const message = await assignLeavePage.assignLeave(
+        `${employee.firstName} ${employee.lastName}`,
+        leave,
+      );
+      expect(message).toContain('Successfully Saved');
+    });
+
+    await test.step('Then the leave is scheduled for that employee', async () => {
+      const request = await findLeave(api, dataFactory, leave);
+      expect(request?.empNumber).toBe(employee.id);
+      expect(request?.status).toBe('Scheduled');
+    });
+  });
+
+  test('Scenario: Employee name is required to assign leave', async ({ assignLeavePage }) => {
+    await assignLeavePage.goto();
+    await assignLeavePage.fillLeaveDetails(SAMPLE_LEAVE_REQUESTS[1]);
+
+    const errors = await assignLeavePage.submitExpectingErrors();
+    expect(errors.employeeName).toBe('Required');
+  });
+
+  for (const decision of ['approve', 'reject'] as const) {
+    test(`Scenario: ${decision === 'approve' ? 'Approve' : 'Reject'} a pending leave request`, async ({
+      leaveListPage,
+      api,
+      dataFactory,
+    }) => {
+      const created = await dataFactory.applyLeave(withUniqueComment(SAMPLE_LEAVE_REQUESTS[2]));
+      const leave = { ...created, comment: created.comment as string };
+
+      await test.step('Given the request is listed as pending approval', async () => {
+        await leaveListPage.goto();
+        await leaveListPage.verifyLeaveListPage();
+        await leaveListPage.search({
+          fromDate: leave.fromDate,
+          toDate: leave.toDate,
+          statuses: ['Pending Approval'],
+        });
+        expect(await leaveListPage.hasLeave({ comment: leave.comment })).toBeTruthy();
+      });
+
+      await test.step(`When I ${decision} it`, async () => {
+        const message =
+          decision === 'approve'
+            ? await leaveListPage.approveLeave({ comment: leave.comment })
+            : await leaveListPage.rejectLeave({ comment: leave.comment });
+        expect(message).toContain('Successfully Updated');
+      });
+
+      await test.step('Then it is no longer pending', async () => {
+        expect(await leaveListPage.hasLeave({ comment: leave.comment })).toBeFalsy();
+        const [request] = (
+          await api.getLeaveRequests({ fromDate: leave.fromDate, toDate: leave.toDate, limit: 0 })
+        ).filter(r => r.id === created.id);
+        expect(request.status).toBe(decision === 'approve' ? 'Scheduled' : 'Rejected');
+      });
+    });
+  }
+
+  test('Scenario: Filter the leave list by status', async ({ leaveListPage, api, dataFactory }) => {
+    const created = await dataFactory.applyLeave(withUniqueComment(SAMPLE_LEAVE_REQUESTS[1]));
+    const leave = { ...created, comment: created.comment as string };
+    await api.approveLeaveRequest(created.id);
+
+    await leaveListPage.goto();
+    expect(await leaveListPage.getSelectedStatuses()).toEqual(['Pending Approval']);
+
+    await leaveListPage.search({
+      fromDate: leave.fromDate,
+      toDate: leave.toDate,
+      statuses: ['Scheduled'],
+    });
+    expect(await leaveListPage.getSelectedStatuses()).toEqual(['Scheduled']);
+    const rows = await leaveListPage.getRows();
+    expect(rows.length).toBeGreaterThan(0);
+    expect(rows.every(row => row.status === 'Scheduled')).toBeTruthy();
+    expect(
+      await leaveListPage.hasLeave({ leaveType: leave.leaveType, comment: leave.comment }),
+    ).toBeTruthy();
+  });
+});
@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '@fixtures/test';
 import { OrangeHRMLoginPage } from '../pages/LoginPage';
 import { OrangeHRMDashboardPage } from '../pages/DashboardPage';
 import { 
@@ -0,0 +1,106 @@
+import { test, expect } from '@fixtures/test';
+import { HarEntry, NetworkRecorder } from '@utils/networkRecorder';
+import { Secrets } from '@utils/secrets';
+
+/**
+ * Feature: Recorded network traffic
+ *
+ * As a test engineer
+ * I want specs to replay OrangeHRM traffic recorded from the demo site
+ * So that they run the same way when the site is slow or out of reach
+ */
+
+test.describe('Feature: Recorded network traffic', () => {
+  const FORM = 'application/x-www-form-urlencoded';
+
+  const entry = (method: string, url: string, body: string, postData?: string): HarEntry => ({
+    startedDateTime: '2026-10-19T09:00:00.000Z',
+    time: 12,
+    request: {
+      method,
+      url,
+      httpVersion: 'HTTP/1.1',
+      headers: [],
+      queryString: [],
+      cookies: [],
+      headersSize: -1,
+      bodySize: postData?.length ?? 0,
+      ...(postData ? { postData: { mimeType: FORM, text: postData } } : {}),
+    },
+    response: {
+      status: 200,
+      statusText: 'OK',
+      httpVersion: 'HTTP/1.1',
+      headers: [{ name: 'Content-Type', value: 'application/json' }],
+      cookies: [],
+      content: { size: body.length, mimeType: 'application/json', text: body },
+      redirectURL: '',
+      headersSize: -1,
+      bodySize: body.length,
+    },
+    cache: {},
+    timings: { send: 0, wait: 12, receive: 0 },
+  });
+
+  test('Scenario: Requests match their recording whatever their CSRF token and cache busters', async () => {
+    Secrets.register('s3cret-pass');
+    const recorded = NetworkRecorder.requestKey(
+      'POST',
+      'https://example.test/web/index.php/auth/validate?_=1000',
+      '_token=recorded-token&username=Admin&password=s3cret-pass',
+      FORM,
+    );
+
+    expect(recorded).toBe('POST /web/index.php/auth/validate password=********&username=Admin');
+    expect(
+      NetworkRecorder.requestKey(
+        'POST',
+        'http://localhost:8089/web/index.php/auth/validate?_=2000',
+        'username=Admin&password=s3cret-pass&_token=new-token',
+        `${FORM}; charset=UTF-8`,
+      ),
+    ).toBe(recorded);
+    expect(
+      NetworkRecorder.requestKey(
+        'POST',
+        'https://example.test/web/index.php/auth/validate',
+        'username=Admin&password=wrong',
+        FORM,
+      ),
+    ).not.toBe(recorded);
+    expect(
+      NetworkRecorder.requestKey(
+        'GET',
+        'https://example.test/web/index.php/api/v2/pim/employees?offset=0&limit=50&t=1',
+        null,
+        undefined,
+      ),
+    ).toBe('GET /web/index.php/api/v2/pim/employees?limit=50&offset=0');
+  });
+
+  test('Scenario: The recordings of a spec are read with those of the test first', async () => {
+    const specDir = test.info().outputPath('login.spec.ts');
+    const url = 'https://example.test/web/index.php/api/v2/core/about';
+    NetworkRecorder.writeRecording(`${specDir}/another-test.har`, [
+      entry('GET', url, '{"from":"another test"}'),
+    ]);
+    NetworkRecorder.writeRecording(`${specDir}/this-test.har`, [
+      entry('GET', url, '{"from":"this test","call":1}'),
+      entry('GET', url, '{"from":"this test","call":2}'),
+    ]);
+
+    const index = NetworkRecorder.index(
+      NetworkRecorder.readRecordings(specDir, `${specDir}/this-test.har`),
+    );
+
+    expect(
+      index
+        .get('GET /web/index.php/api/v2/core/about')
+        ?.map(({ response }) => response.content.text),
+    ).toEqual([
+      '{"from":"this test","call":1}',
+      '{"from":"this test","call":2}',
+      '{"from":"another test"}',
+    ]);
+  });
+});
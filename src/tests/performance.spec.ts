@@ -0,0 +1,72 @@
+import { test, expect } from '@fixtures/test';
+import { Environment } from '@config/environment';
+import { PerformanceMetrics, PerformanceMonitor } from '@utils/performance';
+
+/**
+ * Feature: Web performance budgets
+ *
+ * As a test engineer
+ * I want the login page and dashboard measured on every run and checked against their budgets
+ * So that a page getting slower is caught when it happens, not when users complain
+ */
+
+test.describe('Feature: Web performance budgets', { tag: '@performance' }, () => {
+  test('Scenario: The login page and dashboard are measured and checked against their budgets', async ({
+    page,
+    loginPage,
+    dashboardPage,
+    performanceMonitor,
+  }) => {
+    const { username, password } = Environment.getRoleCredentials('admin');
+
+    await test.step('Given I open the login page', async () => {
+      await loginPage.goto();
+      await loginPage.verifyLoginPage();
+    });
+
+    await test.step('Then the login page is measured', async () => {
+      const metrics = await performanceMonitor.measure(page, 'login');
+      expect(metrics.load).toBeGreaterThan(0);
+      expect(metrics.firstContentfulPaint).toBeGreaterThan(0);
+    });
+
+    await test.step('When I log in', async () => {
+      await loginPage.login(username, password);
+      await dashboardPage.waitForDashboardLoad();
+    });
+
+    await test.step('Then the dashboard is measured with the requests its widgets make', async () => {
+      const metrics = await performanceMonitor.measure(page, 'dashboard');
+      expect(metrics.url).toContain('/dashboard');
+      expect(metrics.requests.length).toBeGreaterThan(0);
+    });
+
+    await test.step('And both measurements are attached to the test result', async () => {
+      const names = test.info().attachments.map(attachment => attachment.name);
+      expect(names).toEqual(expect.arrayContaining(['performance-login', 'performance-dashboard']));
+    });
+  });
+
+  test('Scenario: Only measured metrics over budget are reported', async () => {
+    const metrics: PerformanceMetrics = {
+      url: 'https://example.test/dashboard',
+      load: 4200,
+      largestContentfulPaint: 1900,
+      cumulativeLayoutShift: 0.25,
+      requests: [],
+    };
+
+    const violations = PerformanceMonitor.checkBudget(metrics, {
+      load: 4000,
+      largestContentfulPaint: 2500,
+      cumulativeLayoutShift: 0.1,
+      totalBlockingTime: 300,
+    });
+
+    expect(violations).toEqual([
+      { metric: 'load', value: 4200, budget: 4000 },
+      { metric: 'cumulativeLayoutShift', value: 0.25, budget: 0.1 },
+    ]);
+    expect(PerformanceMonitor.describe(metrics)).toBe('LCP 1900ms, load 4200ms, CLS 0.25');
+  });
+});
@@ -0,0 +1,244 @@
+import { test, expect } from '@fixtures/test';
+import { TestHelpers } from '@utils/helper';
+import { EmployeeData, INVALID_EMPLOYEE_DATA, SAMPLE_EMPLOYEES } from '@utils/testData';
+
+/**
+ * Feature: OrangeHRM PIM Employee Management
+ *
+ * As an HR administrator
+ * I want to add employees and find them in the employee list
+ * So that I can keep employee records up to date
+ */
+
+test.describe('Feature: OrangeHRM PIM Employee Management', () => {
+  // Employees a test creates, through the API or the UI, are tracked by the dataFactory fixture and deleted afterwards
+
+  // Sample employee ids are fixed, so give each run its own to avoid clashing on shared sites
+  const withUniqueId = (employee: EmployeeData): EmployeeData => ({
+    ...employee,
+    employeeId: `E${Date.now().toString().slice(-8)}`,
+  });
+
+  for (const sample of SAMPLE_EMPLOYEES) {
+    test(`Scenario: Add employee ${sample.firstName} ${sample.lastName}`, async ({
+      addEmployeePage,
+      employeeListPage,
+      dataFactory,
+    }) => {
+      const employee = withUniqueId(sample);
+
+      await test.step('Given I am on the Add Employee page', async () => {
+        await addEmployeePage.goto();
+        await addEmployeePage.verifyAddEmployeePage();
+      });
+
+      await test.step('When I save the employee details', async () => {
+        const empNumber = await addEmployeePage.addEmployee(employee);
+        dataFactory.track('employee', empNumber);
+        expect(empNumber).toBeGreaterThan(0);
+      });
+
+      await test.step('Then I see a success message', async () => {
+        expect(await addEmployeePage.waitForToastMessage()).toContain('Successfully Saved');
+      });
+
+      await test.step('And the employee can be found by id in the employee list', async () => {
+        await employeeListPage.goto();
+        await employeeListPage.searchById(employee.employeeId);
+        const rows = await employeeListPage.getRows();
+        expect(rows).toHaveLength(1);
+        expect(rows[0].firstAndMiddleName).toBe(
+          [employee.firstName, employee.middleName].filter(Boolean).join(' '),
+        );
+        expect(rows[0].lastName).toBe(employee.lastName);
+      });
+    });
+  }
+
+  test('Scenario: Add employee with login details', async ({
+    addEmployeePage,
+    api,
+    dataFactory,
+  }) => {
+    const employee = TestHelpers.generateEmployeeData();
+    const username = `${employee.firstName.toLowerCase()}.${TestHelpers.generateRandomNumber(10000, 99999)}`;
+
+    await test.step('Given I am on the Add Employee page', async () => {
+      await addEmployeePage.goto();
+    });
+
+    await test.step('When I turn on "Create Login Details" and fill in the login', async () => {
+      await addEmployeePage.fillEmployeeDetails(employee);
+      await addEmployeePage.fillLoginDetails({
+        username,
+        password: 'Passw0rd123',
+        status: 'Enabled',
+      });
+      expect(await addEmployeePage.isCreateLoginDetailsEnabled()).toBeTruthy();
+    });
+
+    await test.step('Then the employee is saved', async () => {
+      const empNumber = await addEmployeePage.saveAndWaitForPersonalDetails();
+      dataFactory.track('employee', empNumber);
+      const saved = await api.getEmployee(empNumber);
+      expect(saved.lastName).toBe(employee.lastName);
+    });
+  });
+
+  test('Scenario: Login details are hidden until the toggle is switched on', async ({
+    addEmployeePage,
+  }) => {
+    await addEmployeePage.goto();
+    expect(await addEmployeePage.isCreateLoginDetailsEnabled()).toBeFalsy();
+    await expect(addEmployeePage.usernameInput).toBeHidden();
+
+    await addEmployeePage.setCreateLoginDetails(true);
+    await expect(addEmployeePage.usernameInput).toBeVisible();
+    await expect(addEmployeePage.passwordInput).toBeVisible();
+
+    await addEmployeePage.setCreateLoginDetails(false);
+    await expect(addEmployeePage.usernameInput).toBeHidden();
+  });
+
+  for (const invalid of INVALID_EMPLOYEE_DATA.filter(data => !data.firstName || !data.lastName)) {
+    const missingField = invalid.firstName ? 'lastName' : 'firstName';
+
+    test(`Scenario: Required ${missingField} is validated`, async ({ addEmployeePage }) => {
+      await addEmployeePage.goto();
+      await addEmployeePage.fillEmployeeDetails({ ...invalid, employeeId: undefined });
+
+      const errors = await addEmployeePage.submitExpectingErrors();
+      expect(errors[missingField]).toBe('Required');
+      await addEmployeePage.expectUrlToContain('/addEmployee', 'The form should not be submitted');
+    });
+  }
+
+  test('Scenario: Duplicate employee id is rejected', async ({
+    addEmployeePage,
+    api,
+    dataFactory,
+  }) => {
+    const duplicate = INVALID_EMPLOYEE_DATA.find(
+      data => data.employeeId === 'EMP001',
+    ) as EmployeeData;
+
+    await test.step('Given an employee with that id already exists', async () => {
+      const existing = await api.findEmployeeById(duplicate.employeeId);
+      if (!existing) {
+        await dataFactory.createEmployee(SAMPLE_EMPLOYEES[0]);
+      }
+    });
+
+    await test.step('When I add another employee with the same id', async () => {
+      await addEmployeePage.goto();
+      await addEmployeePage.fillEmployeeDetails(duplicate);
+    });
+
+    await test.step('Then the employee id field shows an error', async () => {
+      const errors = await addEmployeePage.submitExpectingErrors();
+      expect(errors.employeeId).toBe('Employee Id already exists');
+    });
+  });
+
+  test('Scenario: Login details are validated', async ({ addEmployeePage }) => {
+    await addEmployeePage.goto();
+    await addEmployeePage.fillEmployeeDetails(withUniqueId(SAMPLE_EMPLOYEES[1]));
+    await addEmployeePage.fillLoginDetails({
+      username: 'abc',
+      password: 'short',
+      confirmPassword: 'different',
+    });
+
+    const errors = await addEmployeePage.submitExpectingErrors();
+    expect(errors.username).toBe('Should be at least 5 characters');
+    expect(errors.password).toBe('Should have at least 7 characters');
+    expect(errors.confirmPassword).toBe('Passwords do not match');
+  });
+
+  test('Scenario: Search employees by name and id', async ({ employeeListPage, dataFactory }) => {
+    const employee = await dataFactory.createEmployee(withUniqueId(SAMPLE_EMPLOYEES[2]));
+    const fullName = [employee.firstName, employee.middleName, employee.lastName]
+      .filter(Boolean)
+      .join(' ');
+
+    await test.step('Given I am on the employee list', async () => {
+      await employeeListPage.goto();
+      await employeeListPage.verifyEmployeeListPage();
+    });
+
+    await test.step('When I pick the employee from the name suggestions', async () => {
+      expect(await employeeListPage.getNameSuggestions(employee.firstName)).toContain(fullName);
+      await employeeListPage.searchByName(fullName, { selectSuggestion: true });
+    });
+
+    await test.step('Then only that employee is listed', async () => {
+      expect(await employeeListPage.getRecordCount()).toBe(1);
+      expect(await employeeListPage.getEmployeeIds()).toEqual([employee.employeeId]);
+    });
+
+    await test.step('And searching by id finds the same employee', async () => {
+      await employeeListPage.resetFilters();
+      await employeeListPage.searchById(employee.employeeId);
+      expect(await employeeListPage.hasEmployee(employee.employeeId)).toBeTruthy();
+    });
+  });
+
+  test('Scenario: Delete an employee from the list', async ({
+    employeeListPage,
+    api,
+    dataFactory,
+  }) => {
+    const employee = await dataFactory.createEmployee(withUniqueId(SAMPLE_EMPLOYEES[0]));
+
+    await test.step('Given the employee is listed', async () => {
+      await employeeListPage.goto();
+      await employeeListPage.searchById(employee.employeeId);
+      expect(await employeeListPage.hasEmployee(employee.employeeId)).toBeTruthy();
+    });
+
+    await test.step('When I delete it and confirm', async () => {
+      expect(await employeeListPage.deleteEmployee(employee.employeeId)).toContain(
+        'Successfully Deleted',
+      );
+    });
+
+    await test.step('Then the employee is gone', async () => {
+      expect(await employeeListPage.hasEmployee(employee.employeeId)).toBeFalsy();
+      expect(await api.findEmployeeById(employee.employeeId)).toBeUndefined();
+      dataFactory.untrack('employee', employee.id);
+    });
+  });
+
+  test('Scenario: Search with no matches shows no records', async ({ employeeListPage }) => {
+    await employeeListPage.goto();
+    await employeeListPage.searchByName(`Nobody ${TestHelpers.generateRandomString(8)}`);
+
+    expect(await employeeListPage.getRecordCount()).toBe(0);
+    await expect(employeeListPage.recordsFoundText).toHaveText('No Records Found');
+    expect(await employeeListPage.getRows()).toHaveLength(0);
+  });
+
+  test('Scenario: Page through the employee list', async ({ employeeListPage }) => {
+    await employeeListPage.goto();
+    test.skip(!(await employeeListPage.hasNextPage()), 'The employee list fits on a single page');
+
+    const firstPageIds = await employeeListPage.getEmployeeIds();
+
+    await test.step('When I go to the next page', async () => {
+      await employeeListPage.goToNextPage();
+    });
+
+    await test.step('Then page 2 is selected and shows different employees', async () => {
+      expect(await employeeListPage.getCurrentPageNumber()).toBe(2);
+      const secondPageIds = await employeeListPage.getEmployeeIds();
+      expect(secondPageIds.length).toBeGreaterThan(0);
+      expect(secondPageIds.filter(id => firstPageIds.includes(id))).toHaveLength(0);
+    });
+
+    await test.step('And I can go back to the first page', async () => {
+      await employeeListPage.goToPreviousPage();
+      expect(await employeeListPage.getCurrentPageNumber()).toBe(1);
+      expect(await employeeListPage.getEmployeeIds()).toEqual(firstPageIds);
+    });
+  });
+});
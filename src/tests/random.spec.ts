@@ -0,0 +1,202 @@
+import { test, expect } from '@fixtures/test';
+import { TestHelpers } from '@utils/helper';
+import { Country, RandomSeed, SeededRandom } from '@utils/random';
+
+/**
+ * Feature: Reproducible generated test data
+ *
+ * As a QA engineer
+ * I want generated names, ids, addresses and dates to come from a seed
+ * So that a failing test can be run again with exactly the data it failed with
+ */
+
+test.describe('Feature: Reproducible generated test data', () => {
+  test('Scenario: The same seed generates the same data', async () => {
+    const generate = (seed: number): unknown => {
+      RandomSeed.use(seed);
+      return {
+        employee: TestHelpers.generateEmployeeData('DE'),
+        leave: TestHelpers.generateLeaveData(),
+      };
+    };
+
+    const first = await test.step('Given data generated from seed 1234', async () =>
+      generate(1234));
+
+    await test.step('When it is generated again from the same seed', async () => {
+      expect(generate(1234)).toEqual(first);
+    });
+
+    await test.step('Then another seed generates different data', async () => {
+      expect(generate(1235)).not.toEqual(first);
+    });
+  });
+
+  test('Scenario: Each test has its own seed, attached to its result', async ({ seed }) => {
+    await test.step('Then the seed is derived from TEST_SEED and the test', async () => {
+      expect(seed).toBe(RandomSeed.forTest(test.info()));
+      expect(RandomSeed.random.seed).toBe(seed);
+    });
+
+    await test.step('And it is attached with the TEST_SEED that replays it', async () => {
+      const attachment = test.info().attachments.find(({ name }) => name === 'seed');
+      expect(attachment?.body?.toString()).toBe(`${seed} (replay with ${RandomSeed.replay()})`);
+    });
+  });
+
+  test('Scenario: Tests and workers derive different seeds that stay the same', async () => {
+    const testInfo = {
+      project: { name: 'chromium' },
+      titlePath: ['random.spec.ts', 'A test'],
+      repeatEachIndex: 0,
+    };
+    const seed = RandomSeed.forTest(testInfo);
+
+    expect(RandomSeed.forTest(testInfo)).toBe(seed);
+    expect([
+      RandomSeed.forTest({ ...testInfo, project: { name: 'firefox' } }),
+      RandomSeed.forTest({ ...testInfo, titlePath: ['random.spec.ts', 'Another test'] }),
+      RandomSeed.forTest({ ...testInfo, repeatEachIndex: 1 }),
+      RandomSeed.forWorker({ parallelIndex: 0 }),
+      RandomSeed.forWorker({ parallelIndex: 1 }),
+    ]).not.toContain(seed);
+    expect(RandomSeed.forWorker({ parallelIndex: 0 })).not.toBe(
+      RandomSeed.forWorker({ parallelIndex: 1 }),
+    );
+  });
+
+  test('Scenario: Employees are generated in the formats of their country', async () => {
+    const formats: Record<Country, { zipCode: RegExp; phone: RegExp; country: string }> = {
+      US: {
+        zipCode: /^\d{5}(-\d{4})?$/,
+        phone: /^(\+1 )?\(?[2-9]\d{2}\)?[ -][2-9]\d{2}-\d{4}$/,
+        country: 'United States',
+      },
+      GB: {
+        zipCode: /^[A-Z]{1,2}\d{1,2} \d[A-Z]{2}$/,
+        phone: /^(0|\+44 )(7\d{3} \d{6}|1\d{3} \d{6}|20 \d{4} \d{4})$/,
+        country: 'United Kingdom',
+      },
+      DE: {
+        zipCode: /^\d{5}$/,
+        phone: /^(\+49 |0)(15\d \d{8}|30 \d{8}|[2-9]\d{2} \d{7})$/,
+        country: 'Germany',
+      },
+      FR: { zipCode: /^\d{5}$/, phone: /^(0|\+33 )\d( \d{2}){4}$/, country: 'France' },
+      ES: { zipCode: /^\d{5}$/, phone: /^(\+34 )?[69]\d{2} \d{3} \d{3}$/, country: 'Spain' },
+      IN: {
+        zipCode: /^\d{3} \d{3}$/,
+        phone: /^(\+91 \d{5} \d{5}|0\d{2} \d{8})$/,
+        country: 'India',
+      },
+      AU: {
+        zipCode: /^\d{4}$/,
+        phone: /^(04\d{2} \d{3} \d{3}|\+61 4\d{2} \d{3} \d{3}|\(0[2-9]\) \d{4} \d{4})$/,
+        country: 'Australia',
+      },
+    };
+
+    for (const [country, format] of Object.entries(formats) as [
+      Country,
+      (typeof formats)[Country],
+    ][]) {
+      await test.step(`Then employees from ${country} have its zip codes, phone numbers and names`, async () => {
+        for (let seed = 0; seed < 20; seed++) {
+          RandomSeed.use(seed);
+          const employee = TestHelpers.generateEmployeeData(country);
+          const address = RandomSeed.random.address(country);
+
+          expect(employee.zipCode).toMatch(format.zipCode);
+          expect(employee.phone).toMatch(format.phone);
+          expect(address.country).toBe(format.country);
+          expect(employee.firstName).not.toBe('');
+          expect(employee.lastName).not.toBe('');
+          expect(employee.email).toMatch(/^[a-z]+\.[a-z]+@company\.com$/);
+          expect(employee.dateOfBirth).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+        }
+      });
+    }
+  });
+
+  test('Scenario: Generated dates fall within the range asked for', async () => {
+    const random = RandomSeed.use(42);
+    const from = new Date('2026-01-30T00:00:00Z');
+
+    for (let i = 0; i < 50; i++) {
+      const date = random.date(1, 30, from);
+      expect(date >= '2026-01-31' && date <= '2026-03-01', date).toBe(true);
+    }
+    for (let i = 0; i < 50; i++) {
+      const age =
+        (random.referenceDate.getTime() - new Date(random.birthDate(18, 65)).getTime()) /
+        (365.25 * 24 * 60 * 60 * 1000);
+      expect(age).toBeGreaterThanOrEqual(18);
+      expect(age).toBeLessThan(66);
+    }
+  });
+
+  test('Scenario: Dates count from the reference date, so a replay on another day matches', async () => {
+    const referenceDate = process.env.TEST_REFERENCE_DATE;
+    try {
+      process.env.TEST_REFERENCE_DATE = '2020-06-15';
+      const generate = (): string[] => {
+        const random = new SeededRandom(7);
+        return [random.date(0, 0), random.date(-10, 10), random.birthDate(18, 18)];
+      };
+
+      const [today, nearby, birthDate] = generate();
+      expect(today).toBe('2020-06-15');
+      expect(nearby >= '2020-06-05' && nearby <= '2020-06-25', nearby).toBe(true);
+      expect(birthDate > '2001-06-15' && birthDate <= '2002-06-15', birthDate).toBe(true);
+      expect(generate()).toEqual([today, nearby, birthDate]);
+    } finally {
+      process.env.TEST_REFERENCE_DATE = referenceDate;
+    }
+  });
+
+  test('Scenario: Ids that must be unique change with the run but not with the seed', async () => {
+    const runId = process.env.TEST_RUN_ID;
+    const generate = (run: string): string[] => {
+      process.env.TEST_RUN_ID = run;
+      RandomSeed.use(99);
+      return [TestHelpers.generateRandomEmployeeId(), TestHelpers.generateRandomEmail()];
+    };
+
+    try {
+      const [employeeId, email] = generate('orangehrm_1');
+      expect(employeeId).toMatch(/^EMP[a-z0-9]{3}\d{4}$/);
+      expect(employeeId.length).toBeLessThanOrEqual(10);
+      expect(generate('orangehrm_1')).toEqual([employeeId, email]);
+      const [otherId, otherEmail] = generate('orangehrm_2');
+      expect(otherId).not.toBe(employeeId);
+      expect(otherEmail).not.toBe(email);
+    } finally {
+      process.env.TEST_RUN_ID = runId;
+    }
+  });
+
+  test('Scenario: A TEST_REFERENCE_DATE that is not a date is rejected', async () => {
+    const referenceDate = process.env.TEST_REFERENCE_DATE;
+    try {
+      process.env.TEST_REFERENCE_DATE = '2024-02-29';
+      expect(RandomSeed.referenceDate().toISOString()).toBe('2024-02-29T00:00:00.000Z');
+      for (const value of ['2023-02-29', '29/02/2024', 'today']) {
+        process.env.TEST_REFERENCE_DATE = value;
+        expect(() => RandomSeed.referenceDate()).toThrow(
+          `TEST_REFERENCE_DATE must be a date as YYYY-MM-DD but was "${value}"`,
+        );
+      }
+    } finally {
+      process.env.TEST_REFERENCE_DATE = referenceDate;
+    }
+  });
+
+  test('Scenario: A TEST_SEED that is not a whole number is rejected', async () => {
+    expect(RandomSeed.parse('4294967295')).toBe(RandomSeed.MAX);
+    for (const value of ['abc', '-1', '1.5', '4294967296', '']) {
+      expect(() => RandomSeed.parse(value)).toThrow(
+        `TEST_SEED must be a whole number from 0 to 4294967295 but was "${value}"`,
+      );
+    }
+  });
+});
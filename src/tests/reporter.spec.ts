@@ -0,0 +1,170 @@
+import { test, expect } from '@fixtures/test';
+import type {
+  FullConfig,
+  FullResult,
+  TestCase,
+  TestResult,
+  TestStep,
+} from '@playwright/test/reporter';
+import SummaryReporter, { RunSummary } from '../reporters/SummaryReporter';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Feature: Run summary
+ *
+ * As a test engineer
+ * I want every run to write a summary of its tests and a Markdown digest
+ * So that failures, flaky and slow tests can be seen without opening the HTML report
+ */
+
+test.describe('Feature: Run summary', () => {
+  // Just enough of Playwright's reporter objects for the summary reporter
+  const fakeTest = (
+    title: string,
+    outcome: ReturnType<TestCase['outcome']>,
+    tags: string[] = [],
+  ): TestCase =>
+    ({
+      id: title,
+      title,
+      tags,
+      location: { file: '/suite/src/tests/login.spec.ts', line: 12, column: 3 },
+      parent: { project: () => ({ name: 'chromium' }) },
+      titlePath: () => ['', 'chromium', 'login.spec.ts', title],
+      outcome: () => outcome,
+    }) as unknown as TestCase;
+
+  const fakeStep = (
+    title: string,
+    category: string,
+    duration: number,
+    steps: TestStep[] = [],
+  ): TestStep => ({ title, category, duration, steps }) as unknown as TestStep;
+
+  const fakeResult = (
+    status: TestResult['status'],
+    duration: number,
+    extra: Partial<TestResult> = {},
+  ): TestResult =>
+    ({ status, duration, steps: [], attachments: [], ...extra }) as unknown as TestResult;
+
+  const fakeConfig = (runId: string): FullConfig =>
+    ({
+      metadata: { runId, environment: 'local', baseUrl: 'http://localhost:8089' },
+      shard: null,
+    }) as unknown as FullConfig;
+
+  const endOfRun: FullResult = {
+    status: 'failed',
+    startTime: new Date('2026-01-05T10:00:00Z'),
+    duration: 4200,
+  };
+
+  const runReporter = async (outputDir: string): Promise<RunSummary> => {
+    const reporter = new SummaryReporter({ outputDir });
+    reporter.onBegin(fakeConfig('orangehrm_1234'), {} as never);
+
+    const login = fakeTest('Login with valid credentials', 'expected', ['@smoke']);
+    reporter.onTestEnd(
+      login,
+      fakeResult('passed', 1500, {
+        steps: [
+          fakeStep('Before Hooks', 'hook', 300, [fakeStep('Sign in', 'test.step', 250)]),
+          fakeStep('Given I am on the login page', 'test.step', 400, [
+            fakeStep('page.goto', 'pw:api', 380),
+          ]),
+        ],
+        attachments: [
+          {
+            name: 'screenshot',
+            contentType: 'image/png',
+            path: '/suite/test-results/login/screenshot.png',
+          },
+          { name: 'note', contentType: 'text/plain', body: Buffer.from('inline') },
+        ],
+      }),
+    );
+
+    const search = fakeTest('Search employees', 'flaky', ['@regression']);
+    reporter.onTestEnd(search, fakeResult('failed', 900, { error: { message: 'Timed out' } }));
+    reporter.onTestEnd(search, fakeResult('passed', 800));
+
+    const logout = fakeTest('Logout | menu', 'unexpected', ['@smoke']);
+    reporter.onTestEnd(
+      logout,
+      fakeResult('failed', 300, {
+        error: { message: '\u001b[31mExpected "Login"\u001b[39m\n  at logout' },
+      }),
+    );
+
+    reporter.onTestEnd(fakeTest('Reset password', 'skipped'), fakeResult('skipped', 0));
+
+    await reporter.onEnd(endOfRun);
+    return JSON.parse(
+      fs.readFileSync(path.join(outputDir, 'test-summary.json'), 'utf-8'),
+    ) as RunSummary;
+  };
+
+  test('Scenario: The JSON summary records every test of the run', async () => {
+    const summary = await runReporter(test.info().outputPath('summary'));
+
+    expect(summary).toMatchObject({
+      runId: 'orangehrm_1234',
+      environment: 'local',
+      status: 'failed',
+      duration: 4200,
+    });
+    expect(summary.totals).toEqual({ total: 4, passed: 1, failed: 1, flaky: 1, skipped: 1 });
+
+    const [login, search] = summary.tests;
+    expect(login).toMatchObject({
+      project: 'chromium',
+      line: 12,
+      retries: 0,
+      tags: ['@smoke'],
+      outcome: 'expected',
+    });
+    expect(login.titlePath).toEqual(['chromium', 'login.spec.ts', 'Login with valid credentials']);
+    expect(search).toMatchObject({
+      status: 'passed',
+      outcome: 'flaky',
+      retries: 1,
+      duration: 1700,
+    });
+  });
+
+  test('Scenario: Only test.step timings and attachment files are kept', async () => {
+    const summary = await runReporter(test.info().outputPath('summary'));
+    const [login] = summary.tests;
+
+    expect(login.steps).toEqual([
+      { title: 'Sign in', duration: 250 },
+      { title: 'Given I am on the login page', duration: 400 },
+    ]);
+    expect(login.attachments).toEqual([
+      {
+        name: 'screenshot',
+        contentType: 'image/png',
+        path: '/suite/test-results/login/screenshot.png',
+      },
+    ]);
+  });
+
+  test('Scenario: The Markdown digest lists failures, flaky and slow tests', async () => {
+    const outputDir = test.info().outputPath('summary');
+    await runReporter(outputDir);
+    const digest = fs.readFileSync(path.join(outputDir, 'test-summary.md'), 'utf-8');
+
+    expect(digest).toContain('# Test run orangehrm_1234');
+    expect(digest).toContain('| 1 | 1 | 1 | 1 |');
+    expect(digest).toContain(
+      '| login.spec.ts:12 › Logout \\| menu | chromium | 0 | Expected "Login" |',
+    );
+    expect(digest).toContain(
+      '- login.spec.ts:12 › Search employees (chromium) passed after 1 retry',
+    );
+    expect(digest).toContain('| login.spec.ts:12 › Search employees | chromium | 1.7s |');
+    expect(digest).toContain('| @smoke | 1 | 1 | 0 | 0 |');
+  });
+});
@@ -0,0 +1,91 @@
+import { test, expect } from '@fixtures/test';
+import { Environment, UserRole } from '@config/environment';
+import { AuthStateRegistry } from '@config/authStateRegistry';
+import { OrangeHRMDashboardPage } from '@pages/DashboardPage';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Feature: Signing in by role
+ *
+ * As a test engineer
+ * I want tests to run signed in as an admin, an ESS user or a supervisor
+ * So that each role's view of OrangeHRM can be tested without logging in every time
+ */
+
+test.describe('Feature: Signing in by role', () => {
+  for (const role of ['admin', 'ess', 'supervisor'] as UserRole[]) {
+    test.describe(`As the ${role} user`, () => {
+      test.use({ role });
+
+      test(`Scenario: The ${role} user lands on the dashboard signed in`, async ({
+        authenticatedPage,
+      }) => {
+        test.skip(
+          !Environment.hasRoleCredentials(role),
+          `No ${role} account configured for this environment`,
+        );
+        const dashboardPage = new OrangeHRMDashboardPage(authenticatedPage);
+
+        await dashboardPage.goto();
+        await dashboardPage.verifyDashboardPage();
+        expect(await dashboardPage.getUserName()).not.toBe('');
+        expect(AuthStateRegistry.isExpired(role)).toBeFalsy();
+      });
+    });
+  }
+
+  test.describe('With states of its own', () => {
+    // These tests tamper with the admin state, so they must not touch the one other workers sign in from
+    test.beforeEach(() => {
+      AuthStateRegistry.useStateDir(test.info().outputPath('auth-state'));
+    });
+
+    test.afterEach(() => {
+      AuthStateRegistry.useStateDir();
+    });
+
+    test('Scenario: A state older than the maximum age is expired', async ({ browser }) => {
+      const statePath = await AuthStateRegistry.getState(browser, 'admin');
+      expect(AuthStateRegistry.isExpired('admin')).toBeFalsy();
+
+      const anHourAgo = new Date(Date.now() - 60 * 60 * 1000);
+      fs.utimesSync(statePath, anHourAgo, anHourAgo);
+      expect(AuthStateRegistry.isExpired('admin')).toBeTruthy();
+    });
+
+    test('Scenario: A state whose session has ended is refreshed', async ({
+      browser,
+      environment,
+    }) => {
+      await test.step('Given the saved admin state holds a session OrangeHRM no longer accepts', async () => {
+        fs.mkdirSync(path.dirname(AuthStateRegistry.getStatePath('admin')), { recursive: true });
+        fs.writeFileSync(
+          AuthStateRegistry.getStatePath('admin'),
+          JSON.stringify({
+            cookies: [
+              {
+                name: 'orangehrm',
+                value: 'ended-session',
+                domain: new URL(environment.baseUrl).hostname,
+                path: '/',
+                expires: -1,
+                httpOnly: true,
+                secure: false,
+                sameSite: 'Lax',
+              },
+            ],
+            origins: [],
+          }),
+        );
+        expect(AuthStateRegistry.isExpired('admin')).toBeFalsy();
+      });
+
+      await test.step('Then a new admin context is signed in again', async () => {
+        const context = await AuthStateRegistry.newContext(browser, 'admin');
+        expect(await AuthStateRegistry.isSignedIn(context)).toBeTruthy();
+        await context.close();
+      });
+    });
+  });
+});
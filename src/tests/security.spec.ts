@@ -0,0 +1,259 @@
+import { test, expect } from '@fixtures/test';
+import { APIResponse, Page } from '@playwright/test';
+import { Environment } from '@config/environment';
+import { OrangeHRMApiClient } from '@api/OrangeHRMApiClient';
+import { OrangeHRMLoginPage } from '@pages/LoginPage';
+import { SecurityChecks, SetCookie } from '@utils/security';
+import { SECURITY_PAYLOADS, SPECIAL_CHARACTER_SCENARIOS } from '@utils/testData';
+import { TestConfiguration } from '@utils/testHelpers';
+
+/**
+ * Feature: Login hardening
+ *
+ * As a security-minded test engineer
+ * I want the login form attacked with injection payloads and its session handling inspected
+ * So that XSS, SQL injection, CSRF and session weaknesses are caught before release
+ */
+
+const [SECURITY, XSS, INJECTION] = TestConfiguration.getTestTags('security').map(tag => `@${tag}`);
+
+const LOGIN_PATH = '/web/index.php/auth/login';
+const VALIDATE_PATH = '/web/index.php/auth/validate';
+
+/**
+ * Log in through the form and return the markup of the login page it sends us back to
+ */
+async function submitLogin(
+  page: Page,
+  loginPage: OrangeHRMLoginPage,
+  username: string,
+  password: string,
+): Promise<string> {
+  const loginPageResponse = page.waitForResponse(
+    response => response.url().includes(LOGIN_PATH) && response.request().method() === 'GET',
+  );
+  await loginPage.login(username, password);
+  return (await loginPageResponse).text();
+}
+
+function sessionCookieOf(response: APIResponse): SetCookie | undefined {
+  return response
+    .headersArray()
+    .filter(({ name }) => name.toLowerCase() === 'set-cookie')
+    .map(({ value }) => SecurityChecks.parseSetCookie(value))
+    .find(cookie => cookie.name === SecurityChecks.SESSION_COOKIE);
+}
+
+test.describe('Feature: Login hardening', { tag: SECURITY }, () => {
+  const { username, password } = Environment.getRoleCredentials('admin');
+
+  for (const payload of SECURITY_PAYLOADS) {
+    const tag = payload.category === 'xss' ? XSS : INJECTION;
+
+    test(
+      `Scenario: The login form rejects the ${payload.category.toUpperCase()} payload "${payload.name}"`,
+      { tag },
+      async ({ page, loginPage }) => {
+        const dialogs: string[] = [];
+        page.on('dialog', async dialog => {
+          dialogs.push(dialog.message());
+          await dialog.dismiss();
+        });
+
+        await test.step('Given I am on the login page', async () => {
+          await loginPage.goto();
+        });
+
+        const markup =
+          await test.step('When I log in with the payload as username and password', async () => {
+            return submitLogin(page, loginPage, payload.value, payload.value);
+          });
+
+        await test.step('Then the login is refused and I stay on the login page', async () => {
+          await loginPage.verifyInvalidCredentialsError();
+          await expect(page).toHaveURL(/auth\/login/);
+        });
+
+        await test.step('And the payload is not reflected unescaped or run', async () => {
+          expect(
+            SecurityChecks.isReflectedUnescaped(markup, payload.value),
+            'Payload found unescaped in the login page',
+          ).toBe(false);
+          expect(
+            await page.evaluate(() => (window as Window & { __xss?: number }).__xss),
+          ).toBeUndefined();
+          expect(dialogs).toEqual([]);
+        });
+
+        await test.step('And no database error leaks into the page', async () => {
+          expect(SecurityChecks.findSqlErrors(markup)).toEqual([]);
+        });
+      },
+    );
+  }
+
+  test(
+    'Scenario: Special characters in the credentials are refused without being reflected',
+    { tag: [XSS, INJECTION] },
+    async ({ page, loginPage }) => {
+      const dialogs: string[] = [];
+      page.on('dialog', async dialog => {
+        dialogs.push(dialog.message());
+        await dialog.dismiss();
+      });
+
+      for (const credentials of SPECIAL_CHARACTER_SCENARIOS) {
+        await test.step(credentials.description, async () => {
+          await loginPage.goto();
+          const markup = await submitLogin(
+            page,
+            loginPage,
+            credentials.username,
+            credentials.password,
+          );
+
+          await loginPage.verifyInvalidCredentialsError();
+          [credentials.username, credentials.password]
+            .filter(value => /[<>"']/.test(value))
+            .forEach(value =>
+              expect(
+                SecurityChecks.isReflectedUnescaped(markup, value),
+                `${value} found unescaped`,
+              ).toBe(false),
+            );
+        });
+      }
+      expect(dialogs).toEqual([]);
+    },
+  );
+
+  test('Scenario: The login page is served with security headers', async ({
+    request,
+    environment,
+  }) => {
+    const response = await request.get(`${environment.baseUrl}${LOGIN_PATH}`);
+
+    expect(response.ok()).toBe(true);
+    expect(
+      SecurityChecks.checkSecurityHeaders(
+        response.headers(),
+        environment.baseUrl.startsWith('https:'),
+      ),
+    ).toEqual([]);
+  });
+
+  test('Scenario: The session cookie is HttpOnly, SameSite and Secure over HTTPS', async ({
+    request,
+    environment,
+  }) => {
+    const https = environment.baseUrl.startsWith('https:');
+
+    const anonymous = await test.step('Given I open the login page', async () => {
+      const response = await request.get(`${environment.baseUrl}${LOGIN_PATH}`);
+      const cookie = sessionCookieOf(response);
+      expect(
+        cookie,
+        `The login page should set the ${SecurityChecks.SESSION_COOKIE} cookie`,
+      ).toBeDefined();
+      return {
+        cookie: cookie as SetCookie,
+        token: OrangeHRMApiClient.extractCsrfToken(await response.text()),
+      };
+    });
+
+    await test.step('Then its session cookie has the security flags', async () => {
+      expect(SecurityChecks.checkCookieFlags(anonymous.cookie, https)).toEqual([]);
+    });
+
+    await test.step('When I log in, a new session cookie with the same flags replaces it', async () => {
+      const response = await request.post(`${environment.baseUrl}${VALIDATE_PATH}`, {
+        form: { _token: anonymous.token ?? '', username, password },
+        maxRedirects: 0,
+      });
+      expect(response.headers().location).toContain('/dashboard');
+
+      const cookie = sessionCookieOf(response);
+      expect(cookie?.value, 'The session id should change on login').not.toBe(
+        anonymous.cookie.value,
+      );
+      expect(SecurityChecks.checkCookieFlags(cookie as SetCookie, https)).toEqual([]);
+    });
+  });
+
+  test('Scenario: The login form carries a CSRF token for each session', async ({
+    page,
+    loginPage,
+  }) => {
+    await loginPage.goto();
+    const token = await loginPage.getCsrfToken();
+    expect(token.length).toBeGreaterThanOrEqual(16);
+
+    await page.context().clearCookies();
+    await loginPage.goto();
+    expect(await loginPage.getCsrfToken()).not.toBe(token);
+  });
+
+  for (const [description, token] of [
+    ['without a CSRF token', undefined],
+    ['with a forged CSRF token', 'forged-token'],
+  ] as const) {
+    test(`Scenario: A login posted ${description} is rejected`, async ({
+      request,
+      environment,
+    }) => {
+      await test.step('Given I have a session from the login page', async () => {
+        await request.get(`${environment.baseUrl}${LOGIN_PATH}`);
+      });
+
+      const response = await test.step(`When I post valid credentials ${description}`, async () => {
+        return request.post(`${environment.baseUrl}${VALIDATE_PATH}`, {
+          form: { ...(token ? { _token: token } : {}), username, password },
+          maxRedirects: 0,
+        });
+      });
+
+      await test.step('Then I am sent back to the login page instead of the dashboard', async () => {
+        expect(response.status()).toBe(302);
+        expect(response.headers().location).toContain(LOGIN_PATH);
+        expect(await (await request.get(`${environment.baseUrl}${LOGIN_PATH}`)).text()).toContain(
+          'CSRF token validation failed',
+        );
+      });
+
+      await test.step('And the API does not accept the session', async () => {
+        expect((await request.get(`${environment.apiUrl}/core/about`)).status()).toBe(401);
+      });
+    });
+  }
+
+  test('Scenario: Logging out invalidates the session', async ({
+    page,
+    loginPage,
+    dashboardPage,
+    environment,
+  }) => {
+    const sessionCookie = await test.step('Given I am logged in', async () => {
+      await loginPage.goto();
+      await loginPage.loginAndWaitForDashboard(username, password);
+      const cookie = (await page.context().cookies()).find(
+        ({ name }) => name === SecurityChecks.SESSION_COOKIE,
+      );
+      expect(cookie).toBeDefined();
+      return cookie!;
+    });
+
+    await test.step('When I log out', async () => {
+      await dashboardPage.logout();
+    });
+
+    await test.step('Then replaying the old session cookie does not reach the API', async () => {
+      await page.context().addCookies([sessionCookie]);
+      expect((await page.request.get(`${environment.apiUrl}/core/about`)).status()).toBe(401);
+    });
+
+    await test.step('And it does not reach the dashboard', async () => {
+      await page.goto('/web/index.php/dashboard/index');
+      await expect(page).toHaveURL(/auth\/login/);
+    });
+  });
+});
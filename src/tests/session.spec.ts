@@ -0,0 +1,107 @@
+import { test, expect } from '@fixtures/test';
+import { Environment } from '@config/environment';
+import { OrangeHRMDashboardPage } from '@pages/DashboardPage';
+import {
+  expectDeepLinkRedirect,
+  expectSessionActive,
+  expectSessionInvalidated,
+} from '@utils/session';
+
+/**
+ * Feature: Session lifecycle
+ *
+ * As a test engineer
+ * I want to follow an OrangeHRM session from login to logout or expiry
+ * So that sessions end when they should and only the session that logged out is ended
+ */
+
+test.describe('Feature: Session lifecycle', () => {
+  const { username, password } = Environment.getRoleCredentials('admin');
+
+  test('Scenario: Logging out ends the session on the server', async ({
+    context,
+    session,
+    loginPage,
+    dashboardPage,
+  }) => {
+    const cookie = await test.step('Given I am logged in', async () => {
+      await loginPage.goto();
+      await loginPage.loginAndWaitForDashboard(username, password);
+      await expectSessionActive(context);
+      return session.getCookie();
+    });
+
+    await test.step('Then the session cookie cannot be read by scripts', async () => {
+      expect(cookie?.httpOnly).toBe(true);
+    });
+
+    await test.step('When I log out', async () => {
+      await dashboardPage.logout();
+    });
+
+    await test.step('Then the old session cookie is rejected when replayed', async () => {
+      await expectSessionInvalidated(context, cookie);
+    });
+  });
+
+  test('Scenario: An expired session cookie sends me back to the login page', async ({
+    page,
+    context,
+    session,
+    loginPage,
+    dashboardPage,
+  }) => {
+    await test.step('Given I am logged in', async () => {
+      await loginPage.goto();
+      await loginPage.loginAndWaitForDashboard(username, password);
+    });
+
+    const cookie = await test.step('When my session cookie expires', async () => {
+      return session.expire();
+    });
+
+    await test.step('Then opening the dashboard asks me to log in', async () => {
+      await dashboardPage.navigateTo('/web/index.php/dashboard/index');
+      await expect(page).toHaveURL(/auth\/login/);
+      expect(await session.isActive()).toBe(false);
+    });
+
+    await test.step('And the session itself was not ended, unlike a logout', async () => {
+      expect(cookie).toBeDefined();
+      await session.replay(cookie!);
+      await expectSessionActive(context);
+    });
+  });
+
+  test('Scenario: Logging out of one session leaves a concurrent session signed in', async ({
+    newSession,
+  }) => {
+    const [first, second] =
+      await test.step('Given I am logged in as the same user in two browsers', async () => {
+        return Promise.all([newSession('admin'), newSession('admin')]);
+      });
+
+    await test.step('Then each browser has its own active session', async () => {
+      expect((await first.getCookie())?.value).not.toBe((await second.getCookie())?.value);
+      await expectSessionActive(first.context);
+      await expectSessionActive(second.context);
+    });
+
+    const firstCookie = await test.step('When I log out in the first browser', async () => {
+      const cookie = await first.getCookie();
+      const dashboardPage = new OrangeHRMDashboardPage(await first.context.newPage());
+      await dashboardPage.goto();
+      await dashboardPage.logout();
+      return cookie;
+    });
+
+    await test.step('Then only the first session has ended', async () => {
+      await expectSessionInvalidated(first.context, firstCookie);
+      await expectSessionActive(second.context);
+    });
+  });
+
+  test('Scenario: A deep link survives logging in', async ({ page }) => {
+    await expectDeepLinkRedirect(page, '/web/index.php/pim/viewEmployeeList');
+  });
+});
@@ -0,0 +1,139 @@
+import { test, expect } from '@fixtures/test';
+import type { RunSummary, TestSummary } from '../reporters/SummaryReporter';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Feature: Trend dashboard
+ *
+ * As a test engineer
+ * I want a dashboard built from the archived runs
+ * So that I can see pass rates, durations and new failures change over time
+ */
+
+test.describe('Feature: Trend dashboard', () => {
+  const script = path.join(__dirname, '..', '..', 'scripts', 'trend-dashboard.js');
+
+  const testSummary = (title: string, overrides: Partial<TestSummary> = {}): TestSummary => ({
+    title,
+    titlePath: ['', 'chromium', 'login.spec.ts', 'Feature: Login', title],
+    file: '/repo/src/tests/login.spec.ts',
+    line: 10,
+    project: 'chromium',
+    status: 'passed',
+    outcome: 'expected',
+    duration: 1000,
+    retries: 0,
+    tags: [],
+    steps: [{ title: 'Given I am on the login page', duration: 400 }],
+    attachments: [],
+    ...overrides,
+  });
+
+  // Archive each run the way ArchiveReporter does, as <archive>/<runId>/test-results/test-summary.json
+  const createArchive = (runs: Array<{ runId: string; tests: TestSummary[] }>): string => {
+    const dir = test.info().outputPath('archived-results');
+    runs.forEach(({ runId, tests }, index) => {
+      const failed = tests.filter(t => t.outcome === 'unexpected').length;
+      const summary: RunSummary = {
+        runId,
+        environment: 'local',
+        baseUrl: 'http://localhost:8089',
+        status: failed > 0 ? 'failed' : 'passed',
+        startedAt: `2024-05-0${index + 1}T09:00:00.000Z`,
+        duration: 5000,
+        shard: null,
+        totals: {
+          total: tests.length,
+          passed: tests.length - failed,
+          failed,
+          flaky: 0,
+          skipped: 0,
+        },
+        tests,
+      };
+      const results = path.join(dir, runId, 'test-results');
+      fs.mkdirSync(results, { recursive: true });
+      fs.writeFileSync(path.join(results, 'test-summary.json'), JSON.stringify(summary));
+    });
+    return dir;
+  };
+
+  const runFailing = (args: string[]): { status: number; stderr: string } => {
+    try {
+      execFileSync('node', [script, ...args], { encoding: 'utf-8', stdio: 'pipe' });
+    } catch (error) {
+      return error as { status: number; stderr: string };
+    }
+    throw new Error('Expected the dashboard to fail');
+  };
+
+  const failed = (error: string): Partial<TestSummary> => ({
+    status: 'failed',
+    outcome: 'unexpected',
+    error,
+  });
+
+  test('Scenario: The dashboard charts the archived runs and their new failures', async () => {
+    const archive = createArchive([
+      {
+        runId: 'run-1',
+        tests: [
+          testSummary('Log in'),
+          testSummary('Log out', failed('Error: logout button missing')),
+        ],
+      },
+      {
+        runId: 'run-2',
+        tests: [
+          testSummary('Log in', {
+            ...failed('Error: timed out\n  at login.spec.ts:12'),
+            duration: 3000,
+          }),
+          testSummary('Log out', failed('Error: logout button missing')),
+        ],
+      },
+    ]);
+    const outFile = test.info().outputPath('dashboard.html');
+
+    const output = await test.step('When I build the dashboard', async () => {
+      return execFileSync('node', [script, '--archive', archive, '--out', outFile], {
+        encoding: 'utf-8',
+      });
+    });
+
+    await test.step('Then it covers both runs', async () => {
+      expect(output).toContain(`Dashboard of 2 runs written to ${outFile}`);
+      const html = fs.readFileSync(outFile, 'utf-8');
+      expect(html).toContain('<h2>local</h2>');
+      expect(html).toContain('2 runs, latest run-2 on 2024-05-02T09:00:00.000Z: failed');
+    });
+
+    await test.step('And only the test that passed in the run before is a new failure', async () => {
+      const html = fs.readFileSync(outFile, 'utf-8');
+      const newFailures = html.split('<h3>New failures in run-2</h3>')[1].split('<h3>')[0];
+      expect(newFailures).toContain(
+        '<td>login.spec.ts:10</td><td>Log in</td><td>Error: timed out</td>',
+      );
+      expect(newFailures).not.toContain('Log out');
+    });
+
+    await test.step('And the spec durations and slowest steps are listed', async () => {
+      const html = fs.readFileSync(outFile, 'utf-8');
+      expect(html).toContain('<td>login.spec.ts</td><td>chromium</td>');
+      expect(html).toContain('<td>4.0s</td><td>+100%</td>');
+      expect(html).toContain('<td>Given I am on the login page</td>');
+    });
+  });
+
+  test('Scenario: An archive without runs is reported', async () => {
+    const archive = test.info().outputPath('archived-results');
+    fs.mkdirSync(archive, { recursive: true });
+
+    const error = runFailing(['--archive', archive]);
+
+    expect(error.status).toBe(1);
+    expect(error.stderr).toContain(`No archived runs with a test-summary.json in ${archive}`);
+  });
+});
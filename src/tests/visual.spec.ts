@@ -0,0 +1,57 @@
+import { test } from '@fixtures/test';
+import { Environment } from '@config/environment';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Feature: Visual regression
+ *
+ * As a test engineer
+ * I want the login page and dashboard compared with approved screenshots
+ * So that layout and styling regressions are caught, not just broken behaviour
+ */
+
+test.describe('Feature: Visual regression', { tag: '@visual' }, () => {
+  // On CI a missing baseline would only be written and fail the run, so wait until one is committed
+  // eslint-disable-next-line no-empty-pattern
+  test.beforeEach(async ({}, testInfo) => {
+    const baselineDir = path.dirname(testInfo.snapshotPath('baseline.png'));
+    test.skip(
+      !!process.env.CI && !fs.existsSync(baselineDir),
+      `No visual baselines committed in ${baselineDir}`,
+    );
+  });
+
+  test('Scenario: The login page matches its baseline', async ({ loginPage }) => {
+    await test.step('Given I am on the login page', async () => {
+      await loginPage.goto();
+      await loginPage.verifyLoginPage();
+    });
+
+    await test.step('Then the page and the login form look as approved', async () => {
+      await loginPage.expectVisualMatch('login');
+      await loginPage.expectVisualMatch('login-form', { element: loginPage.loginCard });
+    });
+  });
+
+  test('Scenario: The dashboard matches its baseline with dynamic widgets masked', async ({
+    loginPage,
+    dashboardPage,
+  }) => {
+    const { username, password } = Environment.getRoleCredentials('admin');
+
+    await test.step('Given I am logged in', async () => {
+      await loginPage.goto();
+      await loginPage.login(username, password);
+      await dashboardPage.waitForDashboardLoad();
+    });
+
+    await test.step('Then the dashboard and its side menu look as approved', async () => {
+      await dashboardPage.expectVisualMatch('dashboard');
+      await dashboardPage.expectVisualMatch('side-menu', { element: '.oxd-sidepanel' });
+      await dashboardPage.expectVisualMatch('quick-launch', {
+        element: dashboardPage.quickLaunchWidget,
+      });
+    });
+  });
+});
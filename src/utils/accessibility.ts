@@ -0,0 +1,288 @@
+import { Page, expect, test } from '@playwright/test';
+import AxeBuilder from '@axe-core/playwright';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// ===== INTERFACES =====
+
+export interface AccessibilityAuditOptions {
+  // Name the audit is reported and baselined under; page objects default to their class name
+  name?: string;
+  // Run only these axe rules (by id) instead of every rule tagged with `tags`
+  include?: string[];
+  // Skip these axe rules (by id)
+  exclude?: string[];
+  // Rule tags to run when `include` is not given
+  tags?: string[];
+  // CSS selectors of parts of the page to leave out of the audit
+  skipSelectors?: string[];
+  // Baseline of known violations, accessibility-baseline.json by default
+  baseline?: string;
+}
+
+/**
+ * One element breaking one rule
+ */
+export interface AccessibilityFinding {
+  rule: string;
+  impact: string;
+  help: string;
+  helpUrl: string;
+  // CSS selector of the element, as axe reports it
+  target: string;
+  html: string;
+}
+
+/**
+ * A known violation that does not fail the audit
+ *
+ * `page` is the audit name; leave it out to accept the violation on every page.
+ */
+export interface BaselineEntry {
+  page?: string;
+  rule: string;
+  target: string;
+  // Why the violation is accepted for now, e.g. that it comes from the product theme
+  reason: string;
+}
+
+export interface AccessibilityAuditResult {
+  name: string;
+  url: string;
+  findings: AccessibilityFinding[];
+  // Findings not in the baseline, which fail the audit
+  newFindings: AccessibilityFinding[];
+  passedRules: number;
+}
+
+// ===== AUDIT =====
+
+/**
+ * Accessibility audits with axe-core
+ *
+ * `run()` injects axe-core into the page, checks it against the WCAG 2.0/2.1 A and AA
+ * rules (or the rules chosen), attaches an HTML report of the findings to the test and
+ * fails the test for any finding not in the baseline. Page objects run it with
+ * `auditAccessibility()`. Set UPDATE_A11Y_BASELINE=true to add every finding of the run
+ * to the baseline instead of failing, then review the additions and give each a reason
+ * before committing them. Each worker collects its findings in a file of its own, and
+ * global teardown merges them into the baseline once all workers are done.
+ */
+export class AccessibilityAudit {
+  static readonly BASELINE_PATH = path.join(__dirname, '..', '..', 'accessibility-baseline.json');
+  static readonly DEFAULT_TAGS = ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa'];
+  // Findings to baseline, one file per worker, keyed by the baseline they belong to
+  static readonly PENDING_DIR = path.join('test-results', 'accessibility-baseline');
+  static readonly PENDING_REASON = 'TODO: say why this violation is accepted';
+
+  /**
+   * Audit the page, attach the report and fail on violations beyond the baseline
+   */
+  static async run(
+    page: Page,
+    options: AccessibilityAuditOptions = {},
+  ): Promise<AccessibilityAuditResult> {
+    const name = options.name ?? 'page';
+    const baselinePath = options.baseline ?? this.BASELINE_PATH;
+
+    let builder = new AxeBuilder({ page });
+    builder = options.include?.length
+      ? builder.withRules(options.include)
+      : builder.withTags(options.tags ?? this.DEFAULT_TAGS);
+    if (options.exclude?.length) {
+      builder = builder.disableRules(options.exclude);
+    }
+    (options.skipSelectors ?? []).forEach(selector => {
+      builder = builder.exclude(selector);
+    });
+    const results = await builder.analyze();
+
+    const findings: AccessibilityFinding[] = results.violations.flatMap(violation =>
+      violation.nodes.map(node => ({
+        rule: violation.id,
+        impact: node.impact ?? violation.impact ?? 'unknown',
+        help: violation.help,
+        helpUrl: violation.helpUrl,
+        target: node.target
+          .map(selector => (Array.isArray(selector) ? selector.join(' ') : String(selector)))
+          .join(' >> '),
+        html: node.html,
+      })),
+    );
+    const baseline = this.readBaseline(baselinePath);
+    const result: AccessibilityAuditResult = {
+      name,
+      url: page.url(),
+      findings,
+      newFindings: this.compareWithBaseline(findings, baseline, name),
+      passedRules: results.passes.length,
+    };
+
+    await test
+      .info()
+      .attach(`accessibility-${name}`, { body: this.toHtml(result), contentType: 'text/html' });
+
+    if (process.env.UPDATE_A11Y_BASELINE === 'true') {
+      const entries = result.newFindings.map(({ rule, target }) => ({
+        page: name,
+        rule,
+        target,
+        reason: this.PENDING_REASON,
+      }));
+      this.addPending(
+        path.join(this.PENDING_DIR, `worker-${test.info().workerIndex}.json`),
+        baselinePath,
+        entries,
+      );
+      return result;
+    }
+    expect(
+      result.newFindings.map(finding => `${finding.rule} (${finding.impact}): ${finding.target}`),
+      `New accessibility violations on ${name} - fix them, or add them to ${path.basename(baselinePath)} with a reason`,
+    ).toEqual([]);
+    return result;
+  }
+
+  /**
+   * Get the findings the baseline does not cover for a page
+   */
+  static compareWithBaseline(
+    findings: AccessibilityFinding[],
+    baseline: BaselineEntry[],
+    name: string,
+  ): AccessibilityFinding[] {
+    return findings.filter(
+      finding =>
+        !baseline.some(
+          entry =>
+            (entry.page === undefined || entry.page === name) &&
+            entry.rule === finding.rule &&
+            entry.target === finding.target,
+        ),
+    );
+  }
+
+  static readBaseline(baselinePath: string): BaselineEntry[] {
+    return fs.existsSync(baselinePath)
+      ? (JSON.parse(fs.readFileSync(baselinePath, 'utf-8')) as BaselineEntry[])
+      : [];
+  }
+
+  static writeBaseline(baselinePath: string, entries: BaselineEntry[]): void {
+    fs.writeFileSync(baselinePath, `${JSON.stringify(entries, null, 2)}\n`);
+  }
+
+  /**
+   * Add entries to a worker's pending file, to be merged into their baseline later
+   */
+  static addPending(pendingPath: string, baselinePath: string, entries: BaselineEntry[]): void {
+    const pending: Record<string, BaselineEntry[]> = fs.existsSync(pendingPath)
+      ? JSON.parse(fs.readFileSync(pendingPath, 'utf-8'))
+      : {};
+    pending[baselinePath] = [...(pending[baselinePath] ?? []), ...entries];
+    fs.mkdirSync(path.dirname(pendingPath), { recursive: true });
+    fs.writeFileSync(pendingPath, JSON.stringify(pending, null, 2));
+  }
+
+  /**
+   * Merge the workers' pending entries into their baselines, once each, and remove the
+   * pending files; returns the number of entries added
+   */
+  static mergePending(dir: string = this.PENDING_DIR): number {
+    if (!fs.existsSync(dir)) {
+      return 0;
+    }
+    const byBaseline = new Map<string, BaselineEntry[]>();
+    fs.readdirSync(dir)
+      .filter(file => file.endsWith('.json'))
+      .forEach(file => {
+        const pending = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8')) as Record<
+          string,
+          BaselineEntry[]
+        >;
+        Object.entries(pending).forEach(([baselinePath, entries]) =>
+          byBaseline.set(baselinePath, [...(byBaseline.get(baselinePath) ?? []), ...entries]),
+        );
+      });
+
+    let added = 0;
+    byBaseline.forEach((entries, baselinePath) => {
+      const known = this.readBaseline(baselinePath);
+      const additions: BaselineEntry[] = [];
+      entries.forEach(entry => {
+        const isKnown = [...known, ...additions].some(
+          other =>
+            other.page === entry.page && other.rule === entry.rule && other.target === entry.target,
+        );
+        if (!isKnown) {
+          additions.push(entry);
+        }
+      });
+      if (additions.length > 0) {
+        this.writeBaseline(baselinePath, [...known, ...additions]);
+        added += additions.length;
+      }
+    });
+    fs.rmSync(dir, { recursive: true, force: true });
+    return added;
+  }
+
+  /**
+   * Render an audit as a standalone HTML report
+   */
+  static toHtml(result: AccessibilityAuditResult): string {
+    const isNew = new Set(result.newFindings);
+    const rows = result.findings
+      .map(
+        finding => `<tr class="${isNew.has(finding) ? 'new' : 'baselined'}">
+  <td>${isNew.has(finding) ? 'New' : 'Baseline'}</td>
+  <td><a href="${escapeHtml(finding.helpUrl)}">${escapeHtml(finding.rule)}</a><br>${escapeHtml(finding.help)}</td>
+  <td>${escapeHtml(finding.impact)}</td>
+  <td><code>${escapeHtml(finding.target)}</code><pre>${escapeHtml(finding.html)}</pre></td>
+</tr>`,
+      )
+      .join('\n');
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Accessibility audit: ${escapeHtml(result.name)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 1.5rem; color: #1f2937; }
+  table { border-collapse: collapse; }
+  th, td { border-bottom: 1px solid #e5e7eb; padding: 0.4rem 0.8rem; text-align: left; vertical-align: top; font-size: 0.9rem; }
+  pre { white-space: pre-wrap; margin: 0.3rem 0 0; color: #6b7280; }
+  tr.new td:first-child { color: #b91c1c; font-weight: bold; }
+</style>
+</head>
+<body>
+<h1>Accessibility audit: ${escapeHtml(result.name)}</h1>
+<p>${escapeHtml(result.url)}</p>
+<p>${result.newFindings.length} new and ${result.findings.length - result.newFindings.length} baselined violation(s); ${result.passedRules} rule(s) passed.</p>
+${
+  result.findings.length === 0
+    ? '<p>No violations.</p>'
+    : `<table>
+<thead><tr><th>Status</th><th>Rule</th><th>Impact</th><th>Element</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>`
+}
+</body>
+</html>
+`;
+  }
+}
+
+function escapeHtml(text: string): string {
+  // prettier-ignore
+  const entities: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    '\'': '&#39;',
+  };
+  return text.replace(/[&<>"']/g, char => entities[char]);
+}
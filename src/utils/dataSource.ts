@@ -0,0 +1,265 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import type { EmployeeData, LeaveData, LoginCredentials, TestUser } from './testData';
+
+// ===== INTERFACES =====
+
+/**
+ * A login attempt and what it should lead to, one row of a login dataset
+ */
+export interface LoginScenario extends LoginCredentials {
+  expectedResult: TestUser['expectedResult'];
+  errorMessage?: string;
+}
+
+/**
+ * How one column of a dataset is checked. Every value is text; a required column must be
+ * in every row but may be left empty, unless it is also `nonEmpty`.
+ */
+export interface FieldSchema {
+  required?: boolean;
+  nonEmpty?: boolean;
+  values?: readonly string[];
+  pattern?: RegExp;
+  // Shown after a value that does not match the pattern, e.g. "a date as YYYY-MM-DD"
+  format?: string;
+}
+
+export type DatasetSchema<T> = Record<keyof T, FieldSchema>;
+
+const DATE: FieldSchema = { pattern: /^\d{4}-\d{2}-\d{2}$/, format: 'a date as YYYY-MM-DD' };
+
+/**
+ * Schemas of the datasets tests can load from files
+ */
+export const DATASET_SCHEMAS = {
+  credentials: {
+    username: { required: true },
+    password: { required: true },
+    description: { required: true, nonEmpty: true },
+  } as DatasetSchema<LoginCredentials>,
+  loginScenarios: {
+    username: { required: true },
+    password: { required: true },
+    description: { required: true, nonEmpty: true },
+    expectedResult: { required: true, values: ['success', 'failure'] },
+    errorMessage: {},
+  } as DatasetSchema<LoginScenario>,
+  employees: {
+    firstName: { required: true, nonEmpty: true },
+    lastName: { required: true, nonEmpty: true },
+    middleName: {},
+    employeeId: { required: true, nonEmpty: true },
+    email: { pattern: /^[^@\s]+@[^@\s]+$/, format: 'an email address' },
+    phone: {},
+    address: {},
+    city: {},
+    state: {},
+    zipCode: {},
+    dateOfBirth: DATE,
+    maritalStatus: {},
+    gender: { values: ['Male', 'Female'] },
+    nationality: {},
+  } as DatasetSchema<EmployeeData>,
+  leave: {
+    leaveType: { required: true, nonEmpty: true },
+    fromDate: { required: true, ...DATE },
+    toDate: { required: true, ...DATE },
+    partialDays: { values: ['All Days', 'Start Day Only', 'End Day Only', 'Start and End Day'] },
+    duration: {},
+    comment: {},
+  } as DatasetSchema<LeaveData>,
+};
+
+export type DatasetKind = keyof typeof DATASET_SCHEMAS;
+
+export interface Datasets {
+  credentials: LoginCredentials;
+  loginScenarios: LoginScenario;
+  employees: EmployeeData;
+  leave: LeaveData;
+}
+
+/**
+ * Thrown when a dataset cannot be loaded, listing every problem found
+ */
+export class DataSourceError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid test data:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    this.name = 'DataSourceError';
+  }
+}
+
+// ===== LOADER =====
+
+/**
+ * Loads test data from CSV, JSON and YAML files
+ *
+ * Datasets live in src/data, so scenarios can be added by editing a file rather than the
+ * code. A CSV file has a header row naming the columns; a JSON or YAML file holds a list
+ * of objects. Every row is checked against the dataset's schema in DATASET_SCHEMAS, and
+ * all the problems in the file are reported at once, by file and row, so a misspelled
+ * column or a bad date stops the run before any test starts. Values must be text: quote
+ * numbers such as an employee id of `0042` in YAML or JSON.
+ */
+export class DataSource {
+  static readonly DATA_DIR = path.join(__dirname, '..', 'data');
+
+  /**
+   * Load a dataset, relative to src/data unless the path is absolute
+   */
+  static load<K extends DatasetKind>(file: string, kind: K): Datasets[K][] {
+    const filePath = path.resolve(this.DATA_DIR, file);
+    const source = path.relative(process.cwd(), filePath);
+    if (!fs.existsSync(filePath)) {
+      throw new DataSourceError([`${source}: file not found`]);
+    }
+    const rows = this.read(filePath, source);
+    return this.validate(rows, DATASET_SCHEMAS[kind] as DatasetSchema<Datasets[K]>, source);
+  }
+
+  /**
+   * Read the rows of a data file, by its extension
+   */
+  static read(filePath: string, source: string = filePath): Record<string, unknown>[] {
+    const text = fs.readFileSync(filePath, 'utf-8');
+    const extension = path.extname(filePath).toLowerCase();
+    if (extension === '.csv') {
+      return this.parseCsv(text);
+    }
+    if (!['.json', '.yaml', '.yml'].includes(extension)) {
+      throw new DataSourceError([
+        `${source}: unsupported file type "${extension}" (expected .csv, .json, .yaml or .yml)`,
+      ]);
+    }
+    let data: unknown;
+    try {
+      data = extension === '.json' ? JSON.parse(text) : parseYaml(text);
+    } catch (error) {
+      throw new DataSourceError([`${source}: ${(error as Error).message}`]);
+    }
+    if (
+      !Array.isArray(data) ||
+      data.some(row => !row || typeof row !== 'object' || Array.isArray(row))
+    ) {
+      throw new DataSourceError([`${source}: expected a list of rows, each with its fields`]);
+    }
+    return data as Record<string, unknown>[];
+  }
+
+  /**
+   * Parse CSV text with a header row. Values may be quoted to hold commas, line breaks or
+   * doubled quotes (""); blank lines are skipped.
+   */
+  static parseCsv(text: string): Record<string, string>[] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let value = '';
+    let quoted = false;
+
+    const input = text.replace(/^\uFEFF/, '');
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i];
+      if (quoted) {
+        if (char === '"' && input[i + 1] === '"') {
+          value += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          value += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        record.push(value);
+        value = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && input[i + 1] === '\n') {
+          i++;
+        }
+        record.push(value);
+        records.push(record);
+        record = [];
+        value = '';
+      } else {
+        value += char;
+      }
+    }
+    if (value !== '' || record.length > 0) {
+      record.push(value);
+      records.push(record);
+    }
+
+    const [header = [], ...rows] = records.filter(row => row.some(cell => cell.trim() !== ''));
+    const columns = header.map(column => column.trim());
+    return rows.map(row =>
+      Object.fromEntries(columns.map((column, index) => [column, row[index] ?? ''])),
+    );
+  }
+
+  /**
+   * Check rows against a schema. Empty optional values are left out, and rows are
+   * numbered from 1 in the problems reported.
+   */
+  static validate<T>(
+    rows: Record<string, unknown>[],
+    schema: DatasetSchema<T>,
+    source: string,
+  ): T[] {
+    const problems: string[] = [];
+    const valid = rows.map((row, index) => {
+      const where = `${source} row ${index + 1}`;
+      const item: Record<string, string> = {};
+
+      for (const key of Object.keys(row)) {
+        if (!Object.prototype.hasOwnProperty.call(schema, key)) {
+          problems.push(
+            `${where}: unknown column "${key}" (expected one of ${Object.keys(schema).join(', ')})`,
+          );
+        }
+      }
+      for (const [key, field] of Object.entries(schema) as [string, FieldSchema][]) {
+        const raw = row[key];
+        if (raw === undefined || raw === null) {
+          if (field.required) {
+            problems.push(`${where}: ${key} is required`);
+          }
+          continue;
+        }
+        if (typeof raw !== 'string') {
+          problems.push(
+            `${where}: ${key} must be text but was ${JSON.stringify(raw)} - put it in quotes`,
+          );
+          continue;
+        }
+        if (raw === '') {
+          if (field.nonEmpty) {
+            problems.push(`${where}: ${key} must not be empty`);
+          } else if (field.required) {
+            item[key] = raw;
+          }
+          continue;
+        }
+        if (field.values && !field.values.includes(raw)) {
+          problems.push(
+            `${where}: ${key} must be one of ${field.values.join(', ')} but was ${JSON.stringify(raw)}`,
+          );
+        } else if (field.pattern && !field.pattern.test(raw)) {
+          problems.push(
+            `${where}: ${key} must be ${field.format ?? `like ${field.pattern}`} but was ${JSON.stringify(raw)}`,
+          );
+        } else {
+          item[key] = raw;
+        }
+      }
+      return item as T;
+    });
+
+    if (problems.length > 0) {
+      throw new DataSourceError(problems);
+    }
+    return valid;
+  }
+}
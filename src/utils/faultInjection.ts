@@ -0,0 +1,231 @@
+import { BrowserContext, Page, Route, expect } from '@playwright/test';
+import { THROTTLING_PROFILES, ThrottlingProfileName } from '@config/throttlingProfiles';
+import { ApiResponses } from '@api/ApiMock';
+
+// OrangeHRM's loading indicator, shown while a page or widget waits for data
+const LOADING_SPINNER = '.oxd-loading-spinner';
+const ERROR_TOAST = '.oxd-toast-content--error';
+// What a page offers when it gives up on a request: a widget error or a button to try again
+const RETRY_STATE =
+  '.orangehrm-dashboard-widget-error, button:text-matches("retry|try again", "i")';
+
+// ===== INTERFACES =====
+
+/**
+ * How a connection is dropped, as Playwright's route.abort() names it
+ */
+export type DropErrorCode =
+  | 'connectionreset'
+  | 'connectionrefused'
+  | 'connectionaborted'
+  | 'timedout'
+  | 'failed';
+
+/**
+ * What happens to a request a fault rule matches
+ */
+export type Fault =
+  // Answer it as usual, this many milliseconds late
+  | { kind: 'latency'; ms: number }
+  // Never answer it
+  | { kind: 'drop'; errorCode?: DropErrorCode }
+  // Answer with an OrangeHRM API error, 500 by default
+  | { kind: 'server-error'; status?: number; message?: string }
+  // Answer 200 with a body that is not valid JSON
+  | { kind: 'malformed-json' };
+
+/**
+ * A rule and how many requests it has disturbed, across every context it is installed in
+ */
+interface InstalledRule {
+  rule: FaultRule;
+  calls: number;
+}
+
+export interface FaultRule {
+  // A path under the API base URL (it and the paths under it), or a pattern for any path on the site
+  endpoint: string | RegExp;
+  fault: Fault;
+  // HTTP method to disturb; every method by default
+  method?: string;
+  // Disturb only this many requests, then let the rest through; every time by default
+  times?: number;
+}
+
+// ===== INJECTOR =====
+
+/**
+ * Injects faults into browser contexts' OrangeHRM traffic, and throttles Chromium pages
+ *
+ * Each rule intercepts the requests to one endpoint through `context.route` and delays
+ * them, drops them, or answers them with a 5xx or malformed JSON, so a test can see how
+ * the UI behaves when the backend is slow or failing. Requests a rule lets through go on
+ * to the network, or to the recording in NETWORK_MODE=replay. Rules come from the
+ * `faults` option, per test file or per project, or from the `faultInjector` fixture, and
+ * apply to every context attached to the injector, whether attached before or after.
+ */
+export class FaultInjector {
+  private readonly contexts: BrowserContext[] = [];
+  private readonly rules: InstalledRule[] = [];
+
+  constructor(private readonly apiUrl: string) {}
+
+  /**
+   * Apply the rules injected so far, and any injected later, to a context
+   */
+  async attach(context: BrowserContext): Promise<void> {
+    this.contexts.push(context);
+    for (const rule of this.rules) {
+      await this.install(context, rule);
+    }
+  }
+
+  /**
+   * Install fault rules; install them before navigating to the page that makes the requests
+   */
+  async inject(...rules: FaultRule[]): Promise<void> {
+    for (const rule of rules) {
+      const installed = { rule, calls: 0 };
+      this.rules.push(installed);
+      for (const context of this.contexts) {
+        await this.install(context, installed);
+      }
+    }
+  }
+
+  async latency(
+    endpoint: string | RegExp,
+    ms: number,
+    options: Partial<FaultRule> = {},
+  ): Promise<void> {
+    await this.inject({ ...options, endpoint, fault: { kind: 'latency', ms } });
+  }
+
+  async drop(
+    endpoint: string | RegExp,
+    errorCode: DropErrorCode = 'connectionreset',
+    options: Partial<FaultRule> = {},
+  ): Promise<void> {
+    await this.inject({ ...options, endpoint, fault: { kind: 'drop', errorCode } });
+  }
+
+  async serverError(
+    endpoint: string | RegExp,
+    status: number = 500,
+    options: Partial<FaultRule> = {},
+  ): Promise<void> {
+    await this.inject({ ...options, endpoint, fault: { kind: 'server-error', status } });
+  }
+
+  async malformedJson(endpoint: string | RegExp, options: Partial<FaultRule> = {}): Promise<void> {
+    await this.inject({ ...options, endpoint, fault: { kind: 'malformed-json' } });
+  }
+
+  /**
+   * Throttle a page's network and CPU to a profile from src/config/throttlingProfiles.ts.
+   * Other browsers have no DevTools Protocol, so outside Chromium the page is left as it is.
+   */
+  static async throttle(page: Page, profileName: ThrottlingProfileName): Promise<void> {
+    if (page.context().browser()?.browserType().name() !== 'chromium') {
+      console.warn(`⚠️  Not throttling to ${profileName}: throttling needs Chromium`);
+      return;
+    }
+    const { network, cpuSlowdown } = THROTTLING_PROFILES[profileName];
+    const cdp = await page.context().newCDPSession(page);
+    if (network) {
+      await cdp.send('Network.enable');
+      await cdp.send('Network.emulateNetworkConditions', { offline: false, ...network });
+    }
+    if (cpuSlowdown) {
+      await cdp.send('Emulation.setCPUThrottlingRate', { rate: cpuSlowdown });
+    }
+  }
+
+  /**
+   * Throttle every page a context opens from now on
+   */
+  static throttleContext(context: BrowserContext, profileName: ThrottlingProfileName): void {
+    context.on('page', page => {
+      this.throttle(page, profileName).catch((error: unknown) => {
+        console.warn(
+          `⚠️  Could not throttle a page to ${profileName}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      });
+    });
+  }
+
+  /**
+   * Check whether a rule's endpoint covers a URL
+   */
+  static matches(endpoint: string | RegExp, url: string, apiUrl: string): boolean {
+    const { pathname } = new URL(url);
+    if (endpoint instanceof RegExp) {
+      return endpoint.test(pathname);
+    }
+    const endpointPath = `${new URL(apiUrl).pathname}${endpoint}`;
+    return pathname === endpointPath || pathname.startsWith(`${endpointPath}/`);
+  }
+
+  private async install(context: BrowserContext, installed: InstalledRule): Promise<void> {
+    const { rule } = installed;
+    const method = rule.method?.toUpperCase();
+
+    await context.route(
+      url => FaultInjector.matches(rule.endpoint, url.href, this.apiUrl),
+      async (route: Route) => {
+        if (
+          (method && route.request().method() !== method) ||
+          (rule.times !== undefined && installed.calls >= rule.times)
+        ) {
+          await route.fallback();
+          return;
+        }
+        installed.calls++;
+        await FaultInjector.apply(route, rule.fault);
+      },
+    );
+  }
+
+  private static async apply(route: Route, fault: Fault): Promise<void> {
+    if (fault.kind === 'latency') {
+      await new Promise(resolve => setTimeout(resolve, fault.ms));
+      await route.fallback();
+    } else if (fault.kind === 'drop') {
+      await route.abort(fault.errorCode ?? 'connectionreset');
+    } else if (fault.kind === 'server-error') {
+      const status = fault.status ?? 500;
+      await route.fulfill({ status, json: ApiResponses.error(status, fault.message) });
+    } else {
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: '{"data": [{"id": 1,',
+      });
+    }
+  }
+}
+
+// ===== ASSERTIONS =====
+
+/**
+ * Assert that the page has told the user something went wrong - an error toast, or a
+ * widget error or retry button - instead of leaving them with a spinner
+ */
+export async function expectErrorFeedback(page: Page, timeout: number = 15000): Promise<void> {
+  await expect(
+    page.locator(ERROR_TOAST).or(page.locator(RETRY_STATE)).first(),
+    'OrangeHRM should show an error toast or a retry state',
+  ).toBeVisible({ timeout });
+  await expectLoadingFinished(page, timeout);
+}
+
+/**
+ * Assert that no loading spinner is left on the page, failing if one is still spinning
+ * after the timeout
+ */
+export async function expectLoadingFinished(page: Page, timeout: number = 10000): Promise<void> {
+  await expect(
+    page.locator(`${LOADING_SPINNER}:visible`),
+    `OrangeHRM was still loading after ${timeout / 1000}s`,
+  ).toHaveCount(0, { timeout });
+}
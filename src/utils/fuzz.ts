@@ -0,0 +1,479 @@
+import type { Page } from '@playwright/test';
+import type { AddEmployeeField } from '@pages/AddEmployeePage';
+import type { LeaveFormField } from '@pages/LeaveRequestFormPage';
+import { RandomSeed, SeededRandom } from './random';
+import {
+  EmployeeData,
+  LeaveData,
+  LoginCredentials,
+  SECURITY_PAYLOADS,
+  TEST_CONSTANTS,
+} from './testData';
+
+// ===== INTERFACES =====
+
+/**
+ * Generates values of one kind, and simpler variants of a value to try when it fails
+ */
+export interface Arbitrary<T> {
+  generate(random: SeededRandom): T;
+  // Simplest first
+  shrink(value: T): T[];
+}
+
+export type TextKind =
+  | 'empty'
+  | 'ascii'
+  | 'boundary'
+  | 'unicode'
+  | 'rtl'
+  | 'emoji'
+  | 'whitespace'
+  | 'injection'
+  | 'padded';
+
+export type DateKind =
+  | 'valid'
+  | 'blank'
+  | 'impossible'
+  | 'unpadded'
+  | 'separator'
+  | 'reordered'
+  | 'words';
+
+export interface TextOptions {
+  // The form's limit; `boundary` text is one shorter, as long as or one longer than it
+  maxLength?: number;
+  kinds?: TextKind[];
+}
+
+export interface PropertyOptions {
+  // Values to try; FUZZ_RUNS, or 25, by default
+  runs?: number;
+  // Simpler values to try once one fails
+  maxShrinks?: number;
+}
+
+export type LoginFormField = 'username' | 'password' | 'credentials';
+
+/**
+ * Thrown when a property fails, with the value it failed for and the simplest failing
+ * value shrinking found
+ */
+export class PropertyFailure extends Error {
+  constructor(
+    readonly seed: number,
+    readonly run: number,
+    readonly counterexample: unknown,
+    readonly shrunk: unknown,
+    readonly shrinks: number,
+    readonly failure: Error,
+  ) {
+    super(
+      [
+        `Property failed on run ${run} (seed ${seed}, replay with ${RandomSeed.replay()})`,
+        `  Input:  ${Fuzz.describe(counterexample)}`,
+        `  Shrunk: ${Fuzz.describe(shrunk)} (${shrinks} ${shrinks === 1 ? 'step' : 'steps'})`,
+        '',
+        failure.message,
+      ].join('\n'),
+    );
+    this.name = 'PropertyFailure';
+  }
+}
+
+// ===== INPUTS =====
+
+const PRINTABLE = Array.from({ length: 95 }, (_, index) => String.fromCharCode(32 + index)).join(
+  '',
+);
+
+// Only characters String.prototype.trim() removes, so whitespace-only text counts as empty
+const WHITESPACE = [' ', '\t', '\u00a0', '\u2003', '\u3000', '\ufeff'];
+const UNICODE = [
+  'é',
+  'ñ',
+  'ü',
+  'ß',
+  'Ø',
+  'ç',
+  'Ж',
+  'я',
+  'Ω',
+  '漢',
+  '字',
+  '한',
+  'ー',
+  'e\u0301',
+  '\u200b',
+];
+const RTL = ['مرحبا', 'محمد', 'שלום', 'דוד', '\u202e', '\u200f'];
+const EMOJI = ['😀', '👍🏽', '👩\u200d💻', '🇩🇪', '❤\ufe0f', '🎉'];
+const INJECTION = [
+  ...SECURITY_PAYLOADS.map(({ value }) => value),
+  '=HYPERLINK("http://example.com","x")',
+  '${7*7}',
+  '{{7*7}}',
+  '../../../etc/passwd',
+  '%00',
+  '\\',
+];
+
+const TEXT_KINDS: Record<TextKind, (random: SeededRandom, maxLength: number) => string> = {
+  empty: () => '',
+  ascii: random => random.string(random.int(1, 12), PRINTABLE).trim() || 'a',
+  boundary: (random, maxLength) => {
+    const length = maxLength + random.int(-1, 1);
+    const filler = random.pick(['a', 'Z', 'é', '漢']);
+    // An emoji is two UTF-16 code units, so it can straddle the limit
+    return random.next() < 0.5
+      ? filler.repeat(length)
+      : `${filler.repeat(Math.max(0, length - 2))}😀`;
+  },
+  unicode: random => Array.from({ length: random.int(1, 8) }, () => random.pick(UNICODE)).join(''),
+  rtl: random =>
+    Array.from({ length: random.int(1, 3) }, () => random.pick([...RTL, 'Ali'])).join(' '),
+  emoji: random =>
+    `${random.pick(['', 'Jo'])}${Array.from({ length: random.int(1, 4) }, () => random.pick(EMOJI)).join('')}`,
+  whitespace: random =>
+    Array.from({ length: random.int(1, 5) }, () => random.pick(WHITESPACE)).join(''),
+  injection: random => random.pick(INJECTION),
+  padded: random =>
+    `${random.pick(WHITESPACE)}${random.string(random.int(1, 8))}${random.pick(WHITESPACE)}`,
+};
+
+const DATE_KINDS: Record<DateKind, (random: SeededRandom, format: string) => string> = {
+  valid: (random, format) => FormRules.formatDate(random.date(-400, 400), format),
+  blank: random => random.pick(['', ...WHITESPACE]),
+  impossible: (random, format) =>
+    FormRules.formatDate(
+      random.pick([
+        '2024-13-01',
+        '2024-00-10',
+        '2024-06-31',
+        '2024-02-30',
+        '2023-02-29',
+        '2024-01-32',
+        '2024-01-00',
+      ]),
+      format,
+    ),
+  unpadded: (random, format) =>
+    format
+      .replace('yyyy', String(random.int(2000, 2030)))
+      .replace('mm', String(random.int(1, 9)))
+      .replace('dd', String(random.int(1, 9))),
+  separator: (random, format) => {
+    const separator = format.replace(/[ymd]/g, '')[0] ?? '-';
+    const other = random.pick(
+      ['/', '.', ' ', '-', ''].filter(candidate => candidate !== separator),
+    );
+    return DATE_KINDS.valid(random, format).split(separator).join(other);
+  },
+  reordered: (random, format) => {
+    // yyyy-mm-dd becomes dd-mm-yyyy
+    const tokens = format.match(/yyyy|mm|dd/g) ?? [];
+    const separators = format.split(/yyyy|mm|dd/);
+    const reversed = tokens
+      .reverse()
+      .map((token, index) => `${separators[index]}${token}`)
+      .join('');
+    return DATE_KINDS.valid(random, `${reversed}${separators[tokens.length] ?? ''}`);
+  },
+  words: (random, format) =>
+    random.pick(['today', 'tomorrow', format, '٢٠٢٤-٠٦-٠١', '2024-06-01T00:00', '📅', '<script>']),
+};
+
+// ===== PROPERTIES =====
+
+/**
+ * Property-based testing of form inputs
+ *
+ * A property is an async check run against many generated values: `Fuzz.check` draws
+ * values from an `Arbitrary` and, when one fails, tries simpler variants of it - shorter
+ * text, fewer fields - until none of those fail, and reports the simplest as the
+ * reproducer. Values come from the test's seeded generator (see src/utils/random.ts), so
+ * the TEST_SEED printed with a failure generates the same values again.
+ *
+ * Text covers the values forms get wrong: lengths on either side of a limit, accented and
+ * combining characters, right-to-left text and bidi controls, emoji, whitespace-only and
+ * padded values, and injection payloads. Dates cover impossible days, unpadded parts,
+ * wrong separators and orders, and words.
+ */
+export class Fuzz {
+  static readonly RUNS = Number(process.env.FUZZ_RUNS || 25);
+  static readonly MAX_SHRINKS = 40;
+
+  /**
+   * Text of any of the kinds asked for (all of them by default)
+   */
+  static text(options: TextOptions = {}): Arbitrary<string> {
+    const maxLength = options.maxLength ?? 255;
+    const kinds = options.kinds ?? (Object.keys(TEXT_KINDS) as TextKind[]);
+    return {
+      generate: random => TEXT_KINDS[random.pick(kinds)](random, maxLength),
+      shrink: value => this.shrinkText(value),
+    };
+  }
+
+  /**
+   * A date typed in `format` (such as "yyyy-mm-dd"), valid or malformed in one of the
+   * ways asked for (all of them by default)
+   */
+  static date(
+    format: string,
+    kinds: DateKind[] = Object.keys(DATE_KINDS) as DateKind[],
+  ): Arbitrary<string> {
+    return {
+      generate: random => DATE_KINDS[random.pick(kinds)](random, format),
+      // Dates are short already; blank is the only simpler date
+      shrink: value => (value === '' ? [] : ['']),
+    };
+  }
+
+  /**
+   * An object with a value from each field's arbitrary, shrunk one field at a time
+   */
+  static record<T extends object>(fields: { [K in keyof T]: Arbitrary<T[K]> }): Arbitrary<T> {
+    const keys = Object.keys(fields) as (keyof T)[];
+    return {
+      generate: random =>
+        Object.fromEntries(keys.map(key => [key, fields[key].generate(random)])) as T,
+      shrink: value =>
+        keys.flatMap(key =>
+          fields[key].shrink(value[key]).map(simpler => ({ ...value, [key]: simpler })),
+        ),
+    };
+  }
+
+  /**
+   * Only the values of an arbitrary that pass a check, e.g. only input a form must reject
+   */
+  static filter<T>(arbitrary: Arbitrary<T>, predicate: (value: T) => boolean): Arbitrary<T> {
+    return {
+      generate: (random): T => {
+        for (let attempt = 0; attempt < 1000; attempt++) {
+          const value = arbitrary.generate(random);
+          if (predicate(value)) {
+            return value;
+          }
+        }
+        throw new Error('Fuzz.filter found no value passing its check in 1000 attempts');
+      },
+      shrink: value => arbitrary.shrink(value).filter(predicate),
+    };
+  }
+
+  /**
+   * Run a property against generated values, throwing a PropertyFailure with the
+   * simplest failing value when it fails for one
+   */
+  static async check<T>(
+    arbitrary: Arbitrary<T>,
+    property: (value: T) => unknown,
+    options: PropertyOptions = {},
+  ): Promise<void> {
+    const random = RandomSeed.random;
+    const runs = options.runs ?? this.RUNS;
+    const maxShrinks = options.maxShrinks ?? this.MAX_SHRINKS;
+
+    for (let run = 1; run <= runs; run++) {
+      const value = arbitrary.generate(random);
+      const failure = await this.failureOf(property, value);
+      if (!failure) {
+        continue;
+      }
+
+      // Take the first simpler value that still fails, and start again from it
+      let shrunk = value;
+      let lastFailure = failure;
+      let shrinks = 0;
+      let attempts = 0;
+      let simplified = true;
+      while (simplified && attempts < maxShrinks) {
+        simplified = false;
+        for (const candidate of arbitrary.shrink(shrunk)) {
+          if (attempts++ >= maxShrinks) {
+            break;
+          }
+          const candidateFailure = await this.failureOf(property, candidate);
+          if (candidateFailure) {
+            shrunk = candidate;
+            lastFailure = candidateFailure;
+            shrinks++;
+            simplified = true;
+            break;
+          }
+        }
+      }
+      throw new PropertyFailure(random.seed, run, value, shrunk, shrinks, lastFailure);
+    }
+  }
+
+  /**
+   * Collect the messages of errors the page's scripts throw and do not catch
+   */
+  static watchPageErrors(page: Page): string[] {
+    const errors: string[] = [];
+    page.on('pageerror', error => errors.push(error.message));
+    return errors;
+  }
+
+  /**
+   * Show a value as JSON with every character outside printable ASCII escaped, so
+   * invisible and right-to-left characters can be read and copied
+   */
+  static describe(value: unknown): string {
+    return (JSON.stringify(value) ?? String(value)).replace(
+      /[^\x20-\x7e]/g,
+      char => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`,
+    );
+  }
+
+  /**
+   * Simpler variants of text: empty, trimmed, with runs of characters removed (longest
+   * first), then with single characters replaced by "a"
+   */
+  static shrinkText(value: string): string[] {
+    // By code point, so emoji are not split into halves
+    const chars = Array.from(value);
+    const candidates = ['', value.trim()];
+    for (let size = Math.floor(chars.length / 2); size >= 1; size = Math.floor(size / 2)) {
+      for (let start = 0; start < chars.length; start += size) {
+        candidates.push([...chars.slice(0, start), ...chars.slice(start + size)].join(''));
+      }
+    }
+    chars.forEach((char, index) => {
+      if (char !== 'a') {
+        candidates.push([...chars.slice(0, index), 'a', ...chars.slice(index + 1)].join(''));
+      }
+    });
+    return [...new Set(candidates)].filter(candidate => candidate !== value);
+  }
+
+  private static async failureOf<T>(
+    property: (value: T) => unknown,
+    value: T,
+  ): Promise<Error | undefined> {
+    try {
+      await property(value);
+      return undefined;
+    } catch (error) {
+      return error instanceof Error ? error : new Error(String(error));
+    }
+  }
+}
+
+// ===== EXPECTED VALIDATION =====
+
+/**
+ * The validation errors OrangeHRM's forms show for input, with the messages in
+ * TEST_CONSTANTS.ERROR_MESSAGES
+ *
+ * Values are checked as typed: a required value is missing when it is empty once trimmed,
+ * and lengths count UTF-16 code units, spaces included, as the browser does.
+ */
+export class FormRules {
+  /**
+   * Errors of the login form: a missing username or password, or else the credentials
+   * being refused (which input from a generator always is)
+   */
+  static loginErrors(
+    credentials: Pick<LoginCredentials, 'username' | 'password'>,
+  ): Partial<Record<LoginFormField, string>> {
+    const { REQUIRED_FIELD, INVALID_CREDENTIALS } = TEST_CONSTANTS.ERROR_MESSAGES;
+    const errors: Partial<Record<LoginFormField, string>> = {};
+    if (credentials.username.trim() === '') {
+      errors.username = REQUIRED_FIELD;
+    }
+    if (credentials.password.trim() === '') {
+      errors.password = REQUIRED_FIELD;
+    }
+    return Object.keys(errors).length > 0 ? errors : { credentials: INVALID_CREDENTIALS };
+  }
+
+  /**
+   * Errors of the Add Employee form; a duplicate employee id is only found on saving
+   */
+  static employeeErrors(
+    employee: Partial<EmployeeData>,
+  ): Partial<Record<AddEmployeeField, string>> {
+    const { REQUIRED_FIELD, NAME_TOO_LONG, EMPLOYEE_ID_TOO_LONG } = TEST_CONSTANTS.ERROR_MESSAGES;
+    const { NAME, EMPLOYEE_ID } = TEST_CONSTANTS.MAX_LENGTHS;
+    const errors: Partial<Record<AddEmployeeField, string>> = {};
+    for (const field of ['firstName', 'middleName', 'lastName'] as const) {
+      const value = employee[field] ?? '';
+      if (field !== 'middleName' && value.trim() === '') {
+        errors[field] = REQUIRED_FIELD;
+      } else if (value.length > NAME) {
+        errors[field] = NAME_TOO_LONG;
+      }
+    }
+    if ((employee.employeeId ?? '').length > EMPLOYEE_ID) {
+      errors.employeeId = EMPLOYEE_ID_TOO_LONG;
+    }
+    return errors;
+  }
+
+  /**
+   * Errors of the leave request forms, for dates typed in `format`
+   */
+  static leaveErrors(
+    leave: Partial<LeaveData>,
+    format: string = 'yyyy-mm-dd',
+  ): Partial<Record<LeaveFormField, string>> {
+    const { REQUIRED_FIELD, INVALID_DATE, TO_DATE_BEFORE_FROM_DATE, LEAVE_COMMENT_TOO_LONG } =
+      TEST_CONSTANTS.ERROR_MESSAGES;
+    const invalidDate = INVALID_DATE.replace('yyyy-mm-dd', format);
+    const errors: Partial<Record<LeaveFormField, string>> = {};
+    if (!leave.leaveType) {
+      errors.leaveType = REQUIRED_FIELD;
+    }
+    const fromDate = this.parseDate(leave.fromDate ?? '', format);
+    const toDate = this.parseDate(leave.toDate ?? '', format);
+    if (fromDate === null) {
+      errors.fromDate = invalidDate;
+    } else if (fromDate === '') {
+      errors.fromDate = REQUIRED_FIELD;
+    }
+    if (toDate === null) {
+      errors.toDate = invalidDate;
+    } else if (toDate === '') {
+      errors.toDate = REQUIRED_FIELD;
+    } else if (fromDate && toDate < fromDate) {
+      errors.toDate = TO_DATE_BEFORE_FROM_DATE;
+    }
+    if ((leave.comment ?? '').length > TEST_CONSTANTS.MAX_LENGTHS.LEAVE_COMMENT) {
+      errors.comment = LEAVE_COMMENT_TOO_LONG;
+    }
+    return errors;
+  }
+
+  /**
+   * Read a date typed in `format` as YYYY-MM-DD: '' when it is blank, null when it is not
+   * a real date written exactly in the format
+   */
+  static parseDate(text: string, format: string): string | null {
+    const value = text.trim();
+    if (value === '') {
+      return '';
+    }
+    const part = (token: string): string =>
+      value.slice(format.indexOf(token), format.indexOf(token) + token.length);
+    const iso = `${part('yyyy')}-${part('mm')}-${part('dd')}`;
+    const date = new Date(`${iso}T00:00:00Z`);
+    const real =
+      /^\d{4}-\d{2}-\d{2}$/.test(iso) &&
+      !isNaN(date.getTime()) &&
+      date.toISOString().slice(0, 10) === iso;
+    return real && this.formatDate(iso, format) === value ? iso : null;
+  }
+
+  /**
+   * Write a YYYY-MM-DD date in `format`; parts of an impossible date are kept as they are
+   */
+  static formatDate(iso: string, format: string): string {
+    const [year, month, day] = iso.split('-');
+    return format.replace('yyyy', year).replace('mm', month).replace('dd', day);
+  }
+}
@@ -2,6 +2,10 @@ import { Page, BrowserContext, expect } from '@playwright/test';
 import * as fs from 'fs';
 import * as path from 'path';
 import { Environment } from '@config/environment';
+import { OxdButton } from '@components/OxdButton';
+import { OxdInput } from '@components/OxdInput';
+import { OxdToast } from '@components/OxdToast';
+import { Country, RandomSeed } from './random';
 
 /**
  * Comprehensive Test Helpers for OrangeHRM Testing
@@ -12,58 +16,51 @@ import { Environment } from '@config/environment';
 export class TestHelpers {
   
   // ===== RANDOM DATA GENERATION =====
-  
+  // Drawn from the test's seeded generator (see src/utils/random.ts), so TEST_SEED replays them
+
   /**
-   * Generate random email address
+   * Generate random email address, unique to the run
    */
   static generateRandomEmail(domain: string = 'example.com'): string {
-    const timestamp = Date.now();
     const randomStr = this.generateRandomString(5);
-    return `test_${randomStr}_${timestamp}@${domain}`;
+    return `test_${randomStr}_${RandomSeed.runTag(6)}@${domain}`;
   }
 
   /**
    * Generate random string with specified length
    */
   static generateRandomString(length: number): string {
-    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-    let result = '';
-    for (let i = 0; i < length; i++) {
-      result += chars.charAt(Math.floor(Math.random() * chars.length));
-    }
-    return result;
+    return RandomSeed.random.string(length);
   }
 
   /**
    * Generate random number within range
    */
   static generateRandomNumber(min: number, max: number): number {
-    return Math.floor(Math.random() * (max - min + 1)) + min;
+    return RandomSeed.random.int(min, max);
   }
 
   /**
-   * Generate random phone number
+   * Generate random phone number in one of the country's formats
    */
-  static generateRandomPhoneNumber(): string {
-    const areaCode = this.generateRandomNumber(200, 999);
-    const exchange = this.generateRandomNumber(200, 999);
-    const number = this.generateRandomNumber(1000, 9999);
-    return `${areaCode}-${exchange}-${number}`;
+  static generateRandomPhoneNumber(country: Country = 'US'): string {
+    return RandomSeed.random.phone(country);
   }
 
   /**
-   * Generate random employee ID
+   * Generate random employee ID, unique to the run: OrangeHRM takes up to 10 characters
    */
   static generateRandomEmployeeId(): string {
-    return `EMP${this.generateRandomNumber(1000, 9999)}`;
+    return `EMP${RandomSeed.runTag(3)}${this.generateRandomNumber(1000, 9999)}`;
   }
 
   // ===== ORANGEHRM-SPECIFIC DATA GENERATION =====
 
   /**
-   * Generate random employee data for OrangeHRM
+   * Generate random employee data for OrangeHRM, with a name, address and phone number
+   * from the given country
    */
-  static generateEmployeeData(): {
+  static generateEmployeeData(country: Country = 'US'): {
     firstName: string;
     lastName: string;
     middleName: string;
@@ -74,32 +71,38 @@ export class TestHelpers {
     city: string;
     state: string;
     zipCode: string;
+    dateOfBirth: string;
   } {
-    const firstNames = ['John', 'Jane', 'Michael', 'Sarah', 'David', 'Lisa', 'Robert', 'Emily', 'James', 'Ashley'];
-    const lastNames = ['Smith', 'Johnson', 'Williams', 'Brown', 'Jones', 'Garcia', 'Miller', 'Davis', 'Rodriguez', 'Martinez'];
-    const middleNames = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'J', 'K'];
-    const cities = ['New York', 'Los Angeles', 'Chicago', 'Houston', 'Phoenix', 'Philadelphia', 'San Antonio', 'San Diego'];
-    const states = ['NY', 'CA', 'IL', 'TX', 'AZ', 'PA', 'FL', 'OH'];
-
-    const firstName = firstNames[Math.floor(Math.random() * firstNames.length)];
-    const lastName = lastNames[Math.floor(Math.random() * lastNames.length)];
-    
+    const random = RandomSeed.random;
+    const { firstName, middleName, lastName } = random.name(country);
+    const { address, city, state, zipCode } = random.address(country);
+    // Mailbox names in plain ASCII: "Zoë O'Brien" becomes zoe.obrien
+    const mailbox = [firstName, lastName]
+      .map(name =>
+        name
+          .normalize('NFD')
+          .replace(/[^A-Za-z]/g, '')
+          .toLowerCase(),
+      )
+      .join('.');
+
     return {
       firstName,
       lastName,
-      middleName: middleNames[Math.floor(Math.random() * middleNames.length)],
+      middleName,
       employeeId: this.generateRandomEmployeeId(),
-      email: `${firstName.toLowerCase()}.${lastName.toLowerCase()}@company.com`,
-      phone: this.generateRandomPhoneNumber(),
-      address: `${this.generateRandomNumber(100, 9999)} ${['Main St', 'Oak Ave', 'Pine Rd', 'Elm Dr'][Math.floor(Math.random() * 4)]}`,
-      city: cities[Math.floor(Math.random() * cities.length)],
-      state: states[Math.floor(Math.random() * states.length)],
-      zipCode: String(this.generateRandomNumber(10000, 99999))
+      email: `${mailbox}@company.com`,
+      phone: this.generateRandomPhoneNumber(country),
+      address,
+      city,
+      state,
+      zipCode,
+      dateOfBirth: random.birthDate(),
     };
   }
 
   /**
-   * Generate random leave request data
+   * Generate random leave request data, starting within the next 30 days
    */
   static generateLeaveData(): {
     leaveType: string;
@@ -107,16 +110,16 @@ export class TestHelpers {
     toDate: string;
     comment: string;
   } {
+    const random = RandomSeed.random;
     const leaveTypes = ['Annual', 'Casual', 'Medical', 'Maternity', 'Personal'];
-    const today = new Date();
-    const fromDate = new Date(today.getTime() + (Math.random() * 30 + 1) * 24 * 60 * 60 * 1000);
-    const toDate = new Date(fromDate.getTime() + (Math.random() * 5 + 1) * 24 * 60 * 60 * 1000);
+    const leaveType = random.pick(leaveTypes);
+    const fromDate = random.date(1, 30);
 
     return {
-      leaveType: leaveTypes[Math.floor(Math.random() * leaveTypes.length)],
-      fromDate: this.formatDate(fromDate),
-      toDate: this.formatDate(toDate),
-      comment: `Leave request for ${leaveTypes[Math.floor(Math.random() * leaveTypes.length)].toLowerCase()} purposes`
+      leaveType,
+      fromDate,
+      toDate: random.date(0, 5, new Date(fromDate)),
+      comment: `Leave request for ${random.pick(leaveTypes).toLowerCase()} purposes`,
     };
   }
 
@@ -346,9 +349,7 @@ export class TestHelpers {
    */
   static async getOrangeHRMToastMessage(page: Page): Promise<string | null> {
     try {
-      const toastSelector = '.oxd-toast-content--success, .oxd-toast-content--error, .oxd-toast-content--warn';
-      await page.waitForSelector(toastSelector, { timeout: 5000 });
-      return await page.textContent(toastSelector);
+      return await OxdToast.on(page).waitForText(['success', 'error', 'warn'], 5000);
     } catch {
       return null;
     }
@@ -358,16 +359,14 @@ export class TestHelpers {
    * Click OrangeHRM button by text
    */
   static async clickOrangeHRMButton(page: Page, buttonText: string): Promise<void> {
-    const buttonSelector = `button:has-text("${buttonText}"), .oxd-button:has-text("${buttonText}")`;
-    await page.click(buttonSelector);
+    await OxdButton.byText(page, buttonText).click();
   }
 
   /**
    * Fill OrangeHRM input by label
    */
   static async fillOrangeHRMInputByLabel(page: Page, labelText: string, value: string): Promise<void> {
-    const inputSelector = `label:has-text("${labelText}") + * input, label:has-text("${labelText}") ~ * input`;
-    await page.fill(inputSelector, value);
+    await OxdInput.byLabel(page, labelText).fill(value);
   }
 
   // ===== RETRY AND ERROR HANDLING =====
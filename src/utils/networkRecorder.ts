@@ -0,0 +1,366 @@
+import { BrowserContext, Request, Route, TestInfo, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { NetworkMode } from '@config/configSchema';
+import { NETWORK_RECORDING, NetworkRecordingRules } from '@config/networkRecording';
+import { Secrets } from './secrets';
+
+// ===== INTERFACES =====
+
+interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+/**
+ * One recorded request and its response, in HAR 1.2 format
+ */
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    headers: HarNameValue[];
+    queryString: HarNameValue[];
+    cookies: HarNameValue[];
+    headersSize: number;
+    bodySize: number;
+    postData?: { mimeType: string; text: string };
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    headers: HarNameValue[];
+    cookies: HarNameValue[];
+    content: { size: number; mimeType: string; text: string; encoding?: 'base64' };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+}
+
+export interface Har {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
+// ===== RECORDER =====
+
+/**
+ * Records OrangeHRM network traffic to HAR files and replays it, as NETWORK_MODE says
+ *
+ * In `record` mode every request the rules in src/config/networkRecording.ts cover is
+ * sent to the site and its response saved; when the test passes, they are written to
+ * `src/tests/__recordings__/<spec>/<test>.har`. In `replay` mode those requests never
+ * reach the site: each is matched by method, path, query and body - leaving out the
+ * volatile parameters and fields the rules list, such as the CSRF token - and answered
+ * from the test's own recording, then from the other recordings of its spec. A request
+ * seen more than once is answered with its recorded responses in order. Requests with no
+ * recording get a 404, and are listed on the test as a failed soft assertion and a
+ * `network-unmatched` attachment. Passwords are masked in recorded request bodies.
+ *
+ * One recorder serves every context a test opens through the fixtures, so their traffic
+ * goes into the same recording. Only browser traffic goes through the recorder; the
+ * `request` and `api` fixtures always use the network.
+ */
+export class NetworkRecorder {
+  static readonly RECORDINGS_DIR = path.join(__dirname, '..', 'tests', '__recordings__');
+
+  // Headers that describe the body as it was sent over the wire, not as it is replayed
+  private static readonly WIRE_HEADERS = [
+    'content-encoding',
+    'content-length',
+    'transfer-encoding',
+  ];
+
+  private readonly entries: HarEntry[] = [];
+  private readonly unmatched: string[] = [];
+  // The spec's recordings, read when the first context is attached in replay mode
+  private recorded?: Map<string, HarEntry[]>;
+
+  constructor(
+    private readonly testInfo: TestInfo,
+    private readonly mode: NetworkMode,
+    private readonly baseUrl: string,
+    private readonly rules: NetworkRecordingRules = NETWORK_RECORDING,
+  ) {}
+
+  /**
+   * Get the HAR file of the test
+   */
+  get recordingPath(): string {
+    const name = this.testInfo.titlePath
+      .slice(1)
+      .join(' ')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '')
+      .slice(0, 120);
+    return path.join(this.specDir, `${name}.har`);
+  }
+
+  private get specDir(): string {
+    return path.join(
+      NetworkRecorder.RECORDINGS_DIR,
+      path.relative(this.testInfo.project.testDir, this.testInfo.file),
+    );
+  }
+
+  /**
+   * Record a context's OrangeHRM traffic, or serve it from the recordings
+   */
+  async attach(context: BrowserContext): Promise<void> {
+    if (this.mode === 'live') {
+      return;
+    }
+    if (this.mode === 'replay' && !this.recorded) {
+      this.recorded = NetworkRecorder.index(
+        NetworkRecorder.readRecordings(this.specDir, this.recordingPath),
+        this.rules,
+      );
+    }
+    await context.route(`${new URL(this.baseUrl).origin}/**`, route => {
+      if (!this.isRecorded(route.request().url())) {
+        return route.fallback();
+      }
+      return this.mode === 'record' ? this.record(route) : this.replay(route);
+    });
+  }
+
+  /**
+   * Save the recording, or report the requests that had none
+   */
+  async finish(): Promise<void> {
+    if (this.mode === 'record') {
+      if (this.testInfo.status !== this.testInfo.expectedStatus) {
+        console.warn(
+          `⚠️  Not saving the recording of "${this.testInfo.title}": the test did not pass`,
+        );
+        return;
+      }
+      if (this.entries.length > 0) {
+        NetworkRecorder.writeRecording(this.recordingPath, this.entries);
+      }
+    }
+    if (this.mode === 'replay' && this.unmatched.length > 0) {
+      await this.testInfo.attach('network-unmatched', {
+        body: this.unmatched.join('\n'),
+        contentType: 'text/plain',
+      });
+      expect
+        .soft(
+          this.unmatched,
+          `Requests with no recording in ${path.relative(process.cwd(), this.specDir)} - record them again with NETWORK_MODE=record`,
+        )
+        .toEqual([]);
+    }
+  }
+
+  /**
+   * Get the key a request is matched to recordings by: method, path, query and body,
+   * without the volatile parameters and fields and with passwords masked
+   */
+  static requestKey(
+    method: string,
+    url: string,
+    body: string | null | undefined,
+    contentType: string | undefined,
+    rules: NetworkRecordingRules = NETWORK_RECORDING,
+  ): string {
+    const { pathname, searchParams } = new URL(url);
+    const query = new URLSearchParams(
+      [...searchParams].filter(([name]) => !rules.ignoreQueryParams.includes(name)).sort(),
+    ).toString();
+    const normalized = body ? this.normalizeBody(body, contentType ?? '', rules) : '';
+    return [method.toUpperCase(), query ? `${pathname}?${query}` : pathname, normalized]
+      .filter(Boolean)
+      .join(' ');
+  }
+
+  /**
+   * Read a spec's recordings, the given one first
+   */
+  static readRecordings(specDir: string, first?: string): HarEntry[] {
+    if (!fs.existsSync(specDir)) {
+      return [];
+    }
+    const files = fs
+      .readdirSync(specDir)
+      .filter(file => file.endsWith('.har'))
+      .map(file => path.join(specDir, file))
+      .sort((a, b) => Number(b === first) - Number(a === first));
+    return files.flatMap(file => (JSON.parse(fs.readFileSync(file, 'utf-8')) as Har).log.entries);
+  }
+
+  static writeRecording(recordingPath: string, entries: HarEntry[]): void {
+    const har: Har = {
+      log: { version: '1.2', creator: { name: 'orangehrm-playwright', version: '1.0.0' }, entries },
+    };
+    fs.mkdirSync(path.dirname(recordingPath), { recursive: true });
+    fs.writeFileSync(recordingPath, `${JSON.stringify(har, null, 2)}\n`);
+  }
+
+  /**
+   * Group recorded entries by the key of their request, keeping their order
+   */
+  static index(
+    entries: HarEntry[],
+    rules: NetworkRecordingRules = NETWORK_RECORDING,
+  ): Map<string, HarEntry[]> {
+    const index = new Map<string, HarEntry[]>();
+    for (const entry of entries) {
+      const { method, url, postData } = entry.request;
+      const key = this.requestKey(method, url, postData?.text, postData?.mimeType, rules);
+      index.set(key, [...(index.get(key) ?? []), entry]);
+    }
+    return index;
+  }
+
+  private isRecorded(url: string): boolean {
+    const { pathname } = new URL(url);
+    return Object.values(this.rules.traffic).some(pattern => pattern.test(pathname));
+  }
+
+  private async record(route: Route): Promise<void> {
+    const startedDateTime = new Date().toISOString();
+    const started = Date.now();
+    // Redirects are recorded as they are, so the browser follows them through the recorder too
+    const response = await route.fetch({ maxRedirects: 0 });
+    const body = await response.body();
+    const time = Date.now() - started;
+    const headers = response
+      .headersArray()
+      .filter(({ name }) => !NetworkRecorder.WIRE_HEADERS.includes(name.toLowerCase()));
+    const mimeType = response.headers()['content-type'] ?? '';
+    const binary = !/^text\/|json|xml|javascript|svg/.test(mimeType);
+
+    this.entries.push({
+      startedDateTime,
+      time,
+      request: NetworkRecorder.toHarRequest(route.request()),
+      response: {
+        status: response.status(),
+        statusText: response.statusText(),
+        httpVersion: 'HTTP/1.1',
+        headers,
+        cookies: [],
+        content: {
+          size: body.length,
+          mimeType,
+          text: body.toString(binary ? 'base64' : 'utf-8'),
+          ...(binary ? { encoding: 'base64' as const } : {}),
+        },
+        redirectURL: response.headers().location ?? '',
+        headersSize: -1,
+        bodySize: body.length,
+      },
+      cache: {},
+      timings: { send: 0, wait: time, receive: 0 },
+    });
+    await route.fulfill({ response, body });
+  }
+
+  private async replay(route: Route): Promise<void> {
+    const request = route.request();
+    const key = NetworkRecorder.requestKey(
+      request.method(),
+      request.url(),
+      request.postData(),
+      request.headers()['content-type'],
+      this.rules,
+    );
+    const candidates = this.recorded?.get(key);
+    // Answer repeats of a request with its recorded responses in order, then keep giving the last one
+    const entry = candidates && (candidates.length > 1 ? candidates.shift() : candidates[0]);
+
+    if (!entry) {
+      this.unmatched.push(key);
+      console.warn(`⚠️  No recording for ${key}`);
+      await route.fulfill({
+        status: 404,
+        contentType: 'text/plain',
+        body: `No recording for ${key}`,
+      });
+      return;
+    }
+
+    const { status, headers, content } = entry.response;
+    // Set-Cookie may be repeated; Playwright takes repeated values joined by newlines
+    const folded: Record<string, string> = {};
+    headers.forEach(({ name, value }) => {
+      const lower = name.toLowerCase();
+      folded[lower] = folded[lower] === undefined ? value : `${folded[lower]}\n${value}`;
+    });
+    await route.fulfill({
+      status,
+      headers: folded,
+      body: content.encoding === 'base64' ? Buffer.from(content.text, 'base64') : content.text,
+    });
+  }
+
+  private static toHarRequest(request: Request): HarEntry['request'] {
+    const url = new URL(request.url());
+    const body = request.postData();
+    const mimeType = request.headers()['content-type'] ?? '';
+    return {
+      method: request.method(),
+      url: request.url(),
+      httpVersion: 'HTTP/1.1',
+      headers: [],
+      queryString: [...url.searchParams].map(([name, value]) => ({ name, value })),
+      cookies: [],
+      headersSize: -1,
+      bodySize: body?.length ?? 0,
+      ...(body ? { postData: { mimeType, text: this.redactBody(body, mimeType) } } : {}),
+    };
+  }
+
+  private static redactBody(body: string, contentType: string): string {
+    if (!contentType.includes('application/x-www-form-urlencoded')) {
+      return Secrets.redactText(body);
+    }
+    return new URLSearchParams(
+      [...new URLSearchParams(body)].map(([name, value]) => [name, Secrets.redactText(value)]),
+    ).toString();
+  }
+
+  private static normalizeBody(
+    body: string,
+    contentType: string,
+    rules: NetworkRecordingRules,
+  ): string {
+    const redacted = this.redactBody(body, contentType);
+    if (contentType.includes('application/x-www-form-urlencoded')) {
+      return new URLSearchParams(
+        [...new URLSearchParams(redacted)]
+          .filter(([name]) => !rules.ignoreBodyFields.includes(name))
+          .sort(),
+      ).toString();
+    }
+    if (contentType.includes('json')) {
+      try {
+        const data: unknown = JSON.parse(redacted);
+        if (data && typeof data === 'object' && !Array.isArray(data)) {
+          return JSON.stringify(
+            Object.fromEntries(
+              Object.entries(data)
+                .filter(([name]) => !rules.ignoreBodyFields.includes(name))
+                .sort(),
+            ),
+          );
+        }
+      } catch {
+        // Not JSON after all: match it as it is
+      }
+    }
+    return redacted;
+  }
+}
@@ -0,0 +1,253 @@
+import { BrowserContext, Page, TestInfo, expect } from '@playwright/test';
+import type { PerformanceBudgetMode } from '@config/configSchema';
+import { PERFORMANCE_BUDGETS, PerformancePage } from '@config/performanceBudgets';
+
+// ===== INTERFACES =====
+
+/**
+ * Performance of one page load, in milliseconds from the start of the navigation
+ *
+ * Metrics the browser does not support are left out: largest contentful paint, layout
+ * shift and long tasks are only reported by Chromium.
+ */
+export interface PerformanceMetrics {
+  url: string;
+  timeToFirstByte?: number;
+  domContentLoaded?: number;
+  load?: number;
+  firstPaint?: number;
+  firstContentfulPaint?: number;
+  largestContentfulPaint?: number;
+  // Unitless CLS score: the sum of layout shifts not caused by user input
+  cumulativeLayoutShift?: number;
+  longTasks?: number;
+  // Sum of the time each long task ran past 50ms
+  totalBlockingTime?: number;
+  slowestRequest?: number;
+  // XHR and fetch requests made by the page
+  requests: Array<{ url: string; duration: number }>;
+}
+
+export type BudgetedMetric = Exclude<keyof PerformanceMetrics, 'url' | 'requests'>;
+
+/**
+ * Upper limits for a page's metrics
+ */
+export type PerformanceBudget = Partial<Record<BudgetedMetric, number>>;
+
+export interface BudgetViolation {
+  metric: BudgetedMetric;
+  value: number;
+  budget: number;
+}
+
+/**
+ * What the init script gathers from performance observers, before the page is measured
+ */
+interface ObservedEntries {
+  largestContentfulPaint?: number;
+  cumulativeLayoutShift?: number;
+  longTasks?: number[];
+}
+
+type ObservedWindow = Window & { __orangehrmPerformance?: ObservedEntries };
+
+// ===== MONITOR =====
+
+/**
+ * Measures page performance and checks it against the budgets in src/config/performanceBudgets.ts
+ *
+ * Largest contentful paint, layout shifts and long tasks are only reported to performance
+ * observers, so `install()` must run before the page navigates; the `performanceMonitor`
+ * fixture installs it on the test's page. `measure()` then collects the navigation timing,
+ * paint and observed metrics along with the page's XHR and fetch durations, attaches them
+ * to the test result as `performance-<page>` (from where the run summary and the trend
+ * dashboard pick them up) and checks them against the page's budget. A page over budget
+ * fails the test with a soft assertion, or adds a `warning` annotation, as the
+ * environment's `performanceBudgets` setting says.
+ */
+export class PerformanceMonitor {
+  constructor(
+    private readonly testInfo: TestInfo,
+    private readonly mode: PerformanceBudgetMode,
+    private readonly budgets: Record<PerformancePage, PerformanceBudget> = PERFORMANCE_BUDGETS,
+  ) {}
+
+  /**
+   * Start observing performance entries on every page load of a page or context
+   */
+  static async install(target: Page | BrowserContext): Promise<void> {
+    await target.addInitScript(observePerformance);
+  }
+
+  /**
+   * Measure a loaded page, attach the metrics and check them against the page's budget
+   */
+  async measure(page: Page, pageName: PerformancePage): Promise<PerformanceMetrics> {
+    await page.waitForLoadState('load');
+    const metrics = await PerformanceMonitor.collect(page);
+
+    await this.testInfo.attach(`performance-${pageName}`, {
+      body: JSON.stringify(metrics, null, 2),
+      contentType: 'application/json',
+    });
+    this.testInfo.annotations.push({
+      type: 'performance',
+      description: `${pageName}: ${PerformanceMonitor.describe(metrics)}`,
+    });
+
+    const violations =
+      this.mode === 'off' ? [] : PerformanceMonitor.checkBudget(metrics, this.budgets[pageName]);
+    if (violations.length > 0) {
+      const message = `The ${pageName} page is over its performance budget: ${violations
+        .map(
+          ({ metric, value, budget }) =>
+            `${metric} ${formatMetric(metric, value)} > ${formatMetric(metric, budget)}`,
+        )
+        .join(', ')}`;
+      if (this.mode === 'fail') {
+        expect.soft(violations, message).toEqual([]);
+      } else {
+        this.testInfo.annotations.push({ type: 'warning', description: message });
+        console.warn(`⚠️  ${message}`);
+      }
+    }
+    return metrics;
+  }
+
+  /**
+   * Collect the metrics of the page's current document
+   */
+  static async collect(page: Page): Promise<PerformanceMetrics> {
+    const raw = await page.evaluate(() => {
+      const navigation = performance.getEntriesByType('navigation')[0] as
+        | PerformanceNavigationTiming
+        | undefined;
+      const paint = (name: string): number | undefined =>
+        performance.getEntriesByName(name, 'paint')[0]?.startTime;
+      const requests = (performance.getEntriesByType('resource') as PerformanceResourceTiming[])
+        .filter(
+          entry => entry.initiatorType === 'xmlhttprequest' || entry.initiatorType === 'fetch',
+        )
+        .map(entry => ({ url: entry.name, duration: entry.duration }));
+      return {
+        url: location.href,
+        timeToFirstByte: navigation?.responseStart,
+        domContentLoaded: navigation?.domContentLoadedEventEnd,
+        // loadEventEnd is 0 until the load event has finished
+        load: navigation?.loadEventEnd || undefined,
+        firstPaint: paint('first-paint'),
+        firstContentfulPaint: paint('first-contentful-paint'),
+        observed: (window as ObservedWindow).__orangehrmPerformance ?? {},
+        requests,
+      };
+    });
+
+    const { observed, requests, ...timings } = raw;
+    const longTasks = observed.longTasks;
+    const metrics: PerformanceMetrics = {
+      ...timings,
+      largestContentfulPaint: observed.largestContentfulPaint,
+      cumulativeLayoutShift: observed.cumulativeLayoutShift,
+      longTasks: longTasks?.length,
+      totalBlockingTime: longTasks?.reduce(
+        (total, duration) => total + Math.max(0, duration - 50),
+        0,
+      ),
+      slowestRequest:
+        requests.length > 0 ? Math.max(...requests.map(request => request.duration)) : undefined,
+      requests: requests.map(request => ({
+        url: request.url,
+        duration: Math.round(request.duration),
+      })),
+    };
+
+    // Round times to whole milliseconds and CLS to three decimals, and leave out what was not measured
+    return Object.fromEntries(
+      Object.entries(metrics)
+        .filter(([, value]) => value !== undefined)
+        .map(([metric, value]) => [
+          metric,
+          typeof value !== 'number'
+            ? value
+            : metric === 'cumulativeLayoutShift'
+              ? Math.round(value * 1000) / 1000
+              : Math.round(value),
+        ]),
+    ) as unknown as PerformanceMetrics;
+  }
+
+  /**
+   * Get the metrics that are over budget; metrics that were not measured are not checked
+   */
+  static checkBudget(metrics: PerformanceMetrics, budget: PerformanceBudget): BudgetViolation[] {
+    return (Object.entries(budget) as Array<[BudgetedMetric, number]>)
+      .filter(
+        ([metric, limit]) => metrics[metric] !== undefined && (metrics[metric] as number) > limit,
+      )
+      .map(([metric, limit]) => ({ metric, value: metrics[metric] as number, budget: limit }));
+  }
+
+  /**
+   * Summarise the main metrics in one line, e.g. `load 812ms, LCP 640ms, CLS 0.01`
+   */
+  static describe(metrics: PerformanceMetrics): string {
+    const parts: Array<[string, BudgetedMetric]> = [
+      ['TTFB', 'timeToFirstByte'],
+      ['FCP', 'firstContentfulPaint'],
+      ['LCP', 'largestContentfulPaint'],
+      ['load', 'load'],
+      ['CLS', 'cumulativeLayoutShift'],
+      ['TBT', 'totalBlockingTime'],
+      ['slowest request', 'slowestRequest'],
+    ];
+    return parts
+      .filter(([, metric]) => metrics[metric] !== undefined)
+      .map(([label, metric]) => `${label} ${formatMetric(metric, metrics[metric] as number)}`)
+      .join(', ');
+  }
+}
+
+function formatMetric(metric: BudgetedMetric, value: number): string {
+  return metric === 'cumulativeLayoutShift' || metric === 'longTasks'
+    ? String(value)
+    : `${value}ms`;
+}
+
+/**
+ * Init script run in the page before its own scripts: records the entries only
+ * performance observers receive. Serialised into the page, so it must not use anything
+ * from this module.
+ */
+function observePerformance(): void {
+  const observed: ObservedEntries = {};
+  (window as ObservedWindow).__orangehrmPerformance = observed;
+
+  const observe = (type: string, onEntry: (entry: PerformanceEntry) => void): boolean => {
+    if (!PerformanceObserver.supportedEntryTypes?.includes(type)) {
+      return false;
+    }
+    new PerformanceObserver(list => list.getEntries().forEach(onEntry)).observe({
+      type,
+      buffered: true,
+    });
+    return true;
+  };
+
+  observe('largest-contentful-paint', entry => {
+    observed.largestContentfulPaint = entry.startTime;
+  });
+  if (
+    observe('layout-shift', entry => {
+      const shift = entry as PerformanceEntry & { value: number; hadRecentInput: boolean };
+      if (!shift.hadRecentInput) {
+        observed.cumulativeLayoutShift = (observed.cumulativeLayoutShift ?? 0) + shift.value;
+      }
+    })
+  ) {
+    observed.cumulativeLayoutShift = observed.cumulativeLayoutShift ?? 0;
+  }
+  if (observe('longtask', entry => observed.longTasks?.push(entry.duration))) {
+    observed.longTasks = observed.longTasks ?? [];
+  }
+}
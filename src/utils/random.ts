@@ -0,0 +1,306 @@
+import { TestInfo, WorkerInfo } from '@playwright/test';
+import * as crypto from 'crypto';
+import {
+  Faker,
+  fakerDE,
+  fakerEN_AU,
+  fakerEN_GB,
+  fakerEN_IN,
+  fakerEN_US,
+  fakerES,
+  fakerFR,
+} from '@faker-js/faker';
+
+// ===== INTERFACES =====
+
+/**
+ * Countries generated names, addresses and phone numbers can come from
+ */
+export type Country = 'US' | 'GB' | 'DE' | 'FR' | 'ES' | 'IN' | 'AU';
+
+export interface GeneratedName {
+  firstName: string;
+  middleName: string;
+  lastName: string;
+}
+
+export interface GeneratedAddress {
+  address: string;
+  city: string;
+  state: string;
+  zipCode: string;
+  country: string;
+}
+
+const FAKERS: Record<Country, Faker> = {
+  US: fakerEN_US,
+  GB: fakerEN_GB,
+  DE: fakerDE,
+  FR: fakerFR,
+  ES: fakerES,
+  IN: fakerEN_IN,
+  AU: fakerEN_AU,
+};
+
+const COUNTRY_NAMES: Record<Country, string> = {
+  US: 'United States',
+  GB: 'United Kingdom',
+  DE: 'Germany',
+  FR: 'France',
+  ES: 'Spain',
+  IN: 'India',
+  AU: 'Australia',
+};
+
+/**
+ * Phone number formats of each country: # is any digit, ! a digit from 2 to 9. Only
+ * digits, spaces and + - ( ) are used, which is what OrangeHRM's phone fields accept.
+ */
+const PHONE_FORMATS: Record<Country, string[]> = {
+  US: ['(!##) !##-####', '!##-!##-####', '+1 !##-!##-####'],
+  GB: ['07### ######', '+44 7### ######', '01### ######', '020 #### ####'],
+  DE: ['+49 15# ########', '+49 30 ########', '0!## #######'],
+  FR: ['06 ## ## ## ##', '+33 6 ## ## ## ##', '0! ## ## ## ##'],
+  ES: ['6## ### ###', '+34 6## ### ###', '9## ### ###'],
+  IN: ['+91 9#### #####', '+91 !#### #####', '0!# ########'],
+  AU: ['04## ### ###', '+61 4## ### ###', '(0!) #### ####'],
+};
+
+const ALPHANUMERIC = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+const DAY = 24 * 60 * 60 * 1000;
+
+// ===== GENERATOR =====
+
+/**
+ * A random number generator that gives the same values every time for the same seed
+ *
+ * Numbers come from mulberry32, a small 32-bit generator that is plenty for test data.
+ * Names and addresses come from faker's locale for the country, reseeded from this
+ * generator for every value, so they depend on the seed alone. Dates count from a
+ * reference date rather than today, the run's TEST_REFERENCE_DATE by default, so a
+ * replay on another day generates the same dates.
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(
+    readonly seed: number,
+    readonly referenceDate: Date = RandomSeed.referenceDate(),
+  ) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Get a number from 0 (inclusive) to 1 (exclusive), like Math.random()
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Get a whole number from min to max, both inclusive
+   */
+  int(min: number, max: number): number {
+    return Math.floor(this.next() * (max - min + 1)) + min;
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+
+  string(length: number, chars: string = ALPHANUMERIC): string {
+    let result = '';
+    for (let i = 0; i < length; i++) {
+      result += chars.charAt(Math.floor(this.next() * chars.length));
+    }
+    return result;
+  }
+
+  /**
+   * Get a date as YYYY-MM-DD, from `fromDays` to `toDays` days after a date (the reference
+   * date by default)
+   */
+  date(fromDays: number, toDays: number, from: Date = this.referenceDate): string {
+    return new Date(from.getTime() + this.int(fromDays, toDays) * DAY).toISOString().split('T')[0];
+  }
+
+  /**
+   * Get a date of birth as YYYY-MM-DD for someone aged from minAge to maxAge on the
+   * reference date
+   */
+  birthDate(minAge: number = 18, maxAge: number = 65): string {
+    return this.faker('US')
+      .date.birthdate({ mode: 'age', min: minAge, max: maxAge, refDate: this.referenceDate })
+      .toISOString()
+      .split('T')[0];
+  }
+
+  name(country: Country = 'US'): GeneratedName {
+    const faker = this.faker(country);
+    return {
+      firstName: faker.person.firstName(),
+      middleName: faker.person.middleName(),
+      lastName: faker.person.lastName(),
+    };
+  }
+
+  address(country: Country = 'US'): GeneratedAddress {
+    const faker = this.faker(country);
+    return {
+      address: faker.location.streetAddress(),
+      city: faker.location.city(),
+      state: faker.location.state(),
+      zipCode: faker.location.zipCode(),
+      country: COUNTRY_NAMES[country],
+    };
+  }
+
+  /**
+   * Get a phone number in one of the country's formats
+   */
+  phone(country: Country = 'US'): string {
+    return this.pick(PHONE_FORMATS[country]).replace(/[#!]/g, digit =>
+      String(digit === '#' ? this.int(0, 9) : this.int(2, 9)),
+    );
+  }
+
+  /**
+   * Derive a seed from another and some labels, e.g. a run's seed and a test's title
+   */
+  static deriveSeed(seed: number, ...labels: Array<string | number>): number {
+    // FNV-1a over the seed and labels
+    let hash = 0x811c9dc5;
+    for (const char of [seed, ...labels].join('\u0000')) {
+      hash = Math.imul(hash ^ char.charCodeAt(0), 0x01000193) >>> 0;
+    }
+    return hash;
+  }
+
+  private faker(country: Country): Faker {
+    const faker = FAKERS[country];
+    faker.seed(this.int(0, 0x7fffffff));
+    return faker;
+  }
+}
+
+// ===== SEEDS =====
+
+let current: SeededRandom | undefined;
+
+/**
+ * The seeds of a run, and the generator the data helpers draw from
+ *
+ * A run has one seed, TEST_SEED, chosen at random by playwright.config.ts unless it is
+ * set. Each worker and each test derive their own seed from it - a test's from its
+ * project, titles and repeat index, so it is the same whichever worker runs it - and the
+ * `seed` fixture points `RandomSeed.random` at the test's generator before it starts. The
+ * same TEST_SEED therefore gives every test the same data again, while tests running in
+ * parallel get different data. Generated dates count from the run's TEST_REFERENCE_DATE,
+ * today unless it is set, so a replay needs both (see replay()).
+ *
+ * Values that must be unique on a shared site, such as employee ids, also mix in the
+ * run's TEST_RUN_ID (see runTag()), so replays and parallel runs do not collide.
+ */
+export class RandomSeed {
+  static readonly MAX = 0xffffffff;
+
+  /**
+   * Choose a seed for a new run
+   */
+  static generate(): number {
+    return crypto.randomBytes(4).readUInt32BE(0);
+  }
+
+  /**
+   * Read a seed, failing when it is not a whole number from 0 to 4294967295
+   */
+  static parse(value: string): number {
+    const seed = Number(value);
+    if (value.trim() === '' || !Number.isInteger(seed) || seed < 0 || seed > this.MAX) {
+      throw new Error(
+        `TEST_SEED must be a whole number from 0 to ${this.MAX} but was ${JSON.stringify(value)}`,
+      );
+    }
+    return seed;
+  }
+
+  /**
+   * Get the run's seed from TEST_SEED, choosing one if it is not set
+   */
+  static run(): number {
+    if (!process.env.TEST_SEED) {
+      process.env.TEST_SEED = String(this.generate());
+    }
+    return this.parse(process.env.TEST_SEED);
+  }
+
+  /**
+   * Get the run's reference date from TEST_REFERENCE_DATE (YYYY-MM-DD), choosing today if
+   * it is not set
+   */
+  static referenceDate(): Date {
+    if (!process.env.TEST_REFERENCE_DATE) {
+      process.env.TEST_REFERENCE_DATE = new Date().toISOString().split('T')[0];
+    }
+    const value = process.env.TEST_REFERENCE_DATE;
+    const date = new Date(`${value}T00:00:00Z`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || date.toISOString().split('T')[0] !== value) {
+      throw new Error(
+        `TEST_REFERENCE_DATE must be a date as YYYY-MM-DD but was ${JSON.stringify(value)}`,
+      );
+    }
+    return date;
+  }
+
+  /**
+   * Get the settings that generate the run's data again, e.g. `TEST_SEED=1 TEST_REFERENCE_DATE=2026-01-30`
+   */
+  static replay(): string {
+    return `TEST_SEED=${this.run()} TEST_REFERENCE_DATE=${process.env.TEST_REFERENCE_DATE ?? this.referenceDate().toISOString().split('T')[0]}`;
+  }
+
+  /**
+   * Get a short tag of the run's TEST_RUN_ID, in lower-case letters and digits, for values
+   * that must differ from one run to the next
+   */
+  static runTag(length: number = 3): string {
+    const hash = SeededRandom.deriveSeed(0, process.env.TEST_RUN_ID ?? '');
+    return hash.toString(36).padStart(length, '0').slice(-length);
+  }
+
+  static forWorker(workerInfo: Pick<WorkerInfo, 'parallelIndex'>): number {
+    return SeededRandom.deriveSeed(this.run(), 'worker', workerInfo.parallelIndex);
+  }
+
+  static forTest(
+    testInfo: Pick<TestInfo, 'titlePath' | 'repeatEachIndex'> & {
+      project: Pick<TestInfo['project'], 'name'>;
+    },
+  ): number {
+    return SeededRandom.deriveSeed(
+      this.run(),
+      testInfo.project.name,
+      ...testInfo.titlePath,
+      testInfo.repeatEachIndex,
+    );
+  }
+
+  /**
+   * Make a seed's generator the one the data helpers draw from
+   */
+  static use(seed: number): SeededRandom {
+    current = new SeededRandom(seed);
+    return current;
+  }
+
+  /**
+   * Get the generator the data helpers draw from: the test's, or the run's outside a test
+   */
+  static get random(): SeededRandom {
+    return current ?? this.use(this.run());
+  }
+}
@@ -0,0 +1,107 @@
+import * as fs from 'fs';
+
+/**
+ * Masking of passwords and other secrets in logs and report attachments
+ *
+ * Every password handed out by the credential provider is registered here, so any
+ * text that contains one - a log line, a JSON dump of test data, an attachment - can
+ * have it replaced by `********`. Objects are also masked by key: values under keys
+ * such as `password`, `secret` or `token` are hidden whatever they contain.
+ */
+export class Secrets {
+  static readonly MASK = '********';
+
+  // Values shorter than this are not masked in free text, to avoid mangling unrelated words
+  private static readonly MIN_LENGTH = 4;
+  private static readonly SECRET_KEY = /(password|passphrase|secret|token|api[-_]?key)$/i;
+  private static readonly TEXT_TYPES = /^text\/|json|xml|javascript/;
+
+  private static values: Set<string> = new Set();
+
+  /**
+   * Remember a secret so that it is masked wherever it appears
+   */
+  static register(value: string | undefined): void {
+    if (value && value.length >= this.MIN_LENGTH) {
+      this.values.add(value);
+    }
+  }
+
+  /**
+   * Mask every registered secret in a piece of text
+   */
+  static redactText(text: string): string {
+    let redacted = text;
+    // Longest first, so a secret that contains another is masked whole
+    for (const value of [...this.values].sort((a, b) => b.length - a.length)) {
+      redacted = redacted.split(value).join(this.MASK);
+    }
+    return redacted;
+  }
+
+  /**
+   * Copy a value with secrets masked, both by key and by registered value
+   */
+  static redact<T>(data: T): T {
+    return this.redactValue(data) as T;
+  }
+
+  /**
+   * Mask secrets in an attachment body, unless it is binary (an image, video or trace)
+   */
+  static redactBody(body: string | Buffer, contentType: string = 'text/plain'): string | Buffer {
+    if (!this.TEXT_TYPES.test(contentType)) {
+      return body;
+    }
+    return typeof body === 'string'
+      ? this.redactText(body)
+      : Buffer.from(this.redactText(body.toString('utf-8')));
+  }
+
+  /**
+   * Mask secrets in the file a text attachment was saved to
+   */
+  static redactAttachmentFile(attachment: { contentType: string; path?: string }): void {
+    if (
+      !attachment.path ||
+      !this.TEXT_TYPES.test(attachment.contentType) ||
+      !fs.existsSync(attachment.path)
+    ) {
+      return;
+    }
+    const text = fs.readFileSync(attachment.path, 'utf-8');
+    const redacted = this.redactText(text);
+    if (redacted !== text) {
+      fs.writeFileSync(attachment.path, redacted);
+    }
+  }
+
+  /**
+   * Forget every registered secret
+   */
+  static clear(): void {
+    this.values.clear();
+  }
+
+  private static redactValue(value: unknown, key?: string): unknown {
+    if (
+      key !== undefined &&
+      this.SECRET_KEY.test(key) &&
+      (typeof value === 'string' || typeof value === 'number')
+    ) {
+      return value === '' ? value : this.MASK;
+    }
+    if (typeof value === 'string') {
+      return this.redactText(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactValue(item));
+    }
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([name, item]) => [name, this.redactValue(item, name)]),
+      );
+    }
+    return value;
+  }
+}
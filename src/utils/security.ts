@@ -0,0 +1,145 @@
+// ===== INTERFACES =====
+
+/**
+ * A cookie as set by one Set-Cookie header
+ */
+export interface SetCookie {
+  name: string;
+  value: string;
+  httpOnly: boolean;
+  secure: boolean;
+  // As sent, e.g. `Lax`; undefined when the attribute is missing
+  sameSite?: string;
+  path?: string;
+}
+
+type HeaderRule = (headers: Record<string, string>, https: boolean) => string | undefined;
+
+// ===== CHECKS =====
+
+/**
+ * Checks behind the security suite (src/tests/security.spec.ts)
+ *
+ * Each check takes what a response carried and returns a list of problems in words, so a
+ * test can assert the list is empty and a failure says what is wrong, not just that
+ * something is.
+ */
+export class SecurityChecks {
+  // OrangeHRM keeps the session id in this cookie
+  static readonly SESSION_COOKIE = 'orangehrm';
+
+  // Text database drivers put in errors, which a page must never show
+  static readonly SQL_ERROR_PATTERNS = [
+    /You have an error in your SQL syntax/i,
+    /SQLSTATE\[/,
+    /PDOException/,
+    /Doctrine\\DBAL/,
+    /mysqli?_\w+\(/,
+    /unterminated quoted string/i,
+    /ORA-\d{5}/,
+  ];
+
+  private static readonly HEADER_RULES: Record<string, HeaderRule> = {
+    'X-Content-Type-Options': headers =>
+      headers['x-content-type-options']?.toLowerCase() === 'nosniff'
+        ? undefined
+        : 'should be "nosniff"',
+    'X-Frame-Options': headers =>
+      /^(deny|sameorigin)$/i.test(headers['x-frame-options'] ?? '') ||
+      /frame-ancestors/i.test(headers['content-security-policy'] ?? '')
+        ? undefined
+        : 'should be DENY or SAMEORIGIN, or the Content-Security-Policy should set frame-ancestors',
+    'Content-Security-Policy': headers =>
+      headers['content-security-policy'] ? undefined : 'is missing',
+    'Referrer-Policy': headers => {
+      const policy = headers['referrer-policy']?.toLowerCase();
+      return !policy
+        ? 'is missing'
+        : ['unsafe-url', 'no-referrer-when-downgrade'].includes(policy)
+          ? `should not be "${policy}"`
+          : undefined;
+    },
+    'Strict-Transport-Security': (headers, https) =>
+      !https || /max-age=[1-9]/i.test(headers['strict-transport-security'] ?? '')
+        ? undefined
+        : 'should be set with a max-age over HTTPS',
+  };
+
+  /**
+   * Parse one Set-Cookie header value
+   */
+  static parseSetCookie(header: string): SetCookie {
+    const [pair, ...attributes] = header.split(';').map(part => part.trim());
+    const index = pair.indexOf('=');
+    const cookie: SetCookie = {
+      name: pair.slice(0, index),
+      value: pair.slice(index + 1),
+      httpOnly: false,
+      secure: false,
+    };
+    attributes.forEach(attribute => {
+      const [key, value] = attribute.split('=');
+      const name = key.toLowerCase();
+      if (name === 'httponly') {
+        cookie.httpOnly = true;
+      } else if (name === 'secure') {
+        cookie.secure = true;
+      } else if (name === 'samesite') {
+        cookie.sameSite = value;
+      } else if (name === 'path') {
+        cookie.path = value;
+      }
+    });
+    return cookie;
+  }
+
+  /**
+   * Get what is wrong with a session cookie's flags; Secure is only required over HTTPS
+   */
+  static checkCookieFlags(cookie: SetCookie, https: boolean): string[] {
+    const problems: string[] = [];
+    if (!cookie.httpOnly) {
+      problems.push(`${cookie.name} is readable from scripts: HttpOnly is missing`);
+    }
+    if (https && !cookie.secure) {
+      problems.push(`${cookie.name} can be sent over plain HTTP: Secure is missing`);
+    }
+    if (!/^(lax|strict)$/i.test(cookie.sameSite ?? '')) {
+      problems.push(
+        `${cookie.name} is sent on cross-site requests: SameSite is ${cookie.sameSite ?? 'missing'}, not Lax or Strict`,
+      );
+    }
+    return problems;
+  }
+
+  /**
+   * Get the security headers a response is missing or has weak values for
+   */
+  static checkSecurityHeaders(headers: Record<string, string>, https: boolean): string[] {
+    const lowerCased = Object.fromEntries(
+      Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]),
+    );
+    return Object.entries(this.HEADER_RULES)
+      .map(([name, rule]) => {
+        const problem = rule(lowerCased, https);
+        return problem && `${name} ${problem}`;
+      })
+      .filter((problem): problem is string => Boolean(problem));
+  }
+
+  /**
+   * Check whether a payload appears in markup exactly as submitted, rather than escaped
+   */
+  static isReflectedUnescaped(body: string, payload: string): boolean {
+    return body.includes(payload);
+  }
+
+  /**
+   * Get the database error messages that leaked into a response body
+   */
+  static findSqlErrors(body: string): string[] {
+    return this.SQL_ERROR_PATTERNS.map(pattern => body.match(pattern)?.[0]).filter(
+      (match): match is string => Boolean(match),
+    );
+  }
+}
@@ -0,0 +1,126 @@
+import { BrowserContext, Cookie, Page, expect } from '@playwright/test';
+import { Environment, EnvironmentConfig, UserRole } from '@config/environment';
+import { AuthStateRegistry } from '@config/authStateRegistry';
+import { OrangeHRMLoginPage } from '@pages/LoginPage';
+import { SecurityChecks } from './security';
+
+const DASHBOARD_PATH = '/web/index.php/dashboard/index';
+
+// ===== SESSION =====
+
+/**
+ * The OrangeHRM session of one browser context
+ *
+ * OrangeHRM keeps its session id in the `orangehrm` cookie. `SessionManager` reads that
+ * cookie, asks the API whether the session behind it is still accepted, and can drop or
+ * restore it, so tests can take a session through its lifecycle: expire it on the browser
+ * side, or replay a cookie captured before logging out to prove the server has ended it.
+ * The `session` fixture manages the test's own context; `newSession()` opens more.
+ */
+export class SessionManager {
+  constructor(
+    readonly context: BrowserContext,
+    private readonly config: EnvironmentConfig = Environment.getConfig(),
+  ) {}
+
+  /**
+   * Get the session cookie, with its flags, if the context holds one
+   */
+  async getCookie(): Promise<Cookie | undefined> {
+    const cookies = await this.context.cookies(this.config.baseUrl);
+    return cookies.find(({ name }) => name === SecurityChecks.SESSION_COOKIE);
+  }
+
+  /**
+   * Check whether OrangeHRM still accepts the context's session, with one API call
+   */
+  async isActive(): Promise<boolean> {
+    return AuthStateRegistry.isSignedIn(this.context);
+  }
+
+  /**
+   * Expire the session cookie, as the browser does when it is closed, and return it for replay
+   *
+   * The session is left running on the server, so replaying the cookie gets back in.
+   */
+  async expire(): Promise<Cookie | undefined> {
+    const cookie = await this.getCookie();
+    if (cookie) {
+      await this.context.clearCookies({
+        name: cookie.name,
+        domain: cookie.domain,
+        path: cookie.path,
+      });
+    }
+    return cookie;
+  }
+
+  /**
+   * Put a captured session cookie back, replacing the context's current one
+   */
+  async replay(cookie: Cookie): Promise<void> {
+    await this.context.addCookies([cookie]);
+  }
+}
+
+// ===== ASSERTIONS =====
+
+/**
+ * Assert that OrangeHRM accepts the context's session
+ */
+export async function expectSessionActive(context: BrowserContext): Promise<void> {
+  expect(
+    await AuthStateRegistry.isSignedIn(context),
+    'The OrangeHRM API should accept the session',
+  ).toBe(true);
+}
+
+/**
+ * Assert that the context's session has ended: the API rejects it and the dashboard
+ * sends it to the login page. Pass a cookie captured before logging out to replay it first.
+ */
+export async function expectSessionInvalidated(
+  context: BrowserContext,
+  staleCookie?: Cookie,
+): Promise<void> {
+  if (staleCookie) {
+    await context.addCookies([staleCookie]);
+  }
+  expect(
+    await AuthStateRegistry.isSignedIn(context),
+    'The OrangeHRM API should reject the session',
+  ).toBe(false);
+
+  const page = await context.newPage();
+  try {
+    await page.goto(`${Environment.getConfig().baseUrl}${DASHBOARD_PATH}`);
+    await expect(page, 'The dashboard should send an ended session to the login page').toHaveURL(
+      /auth\/login/,
+    );
+  } finally {
+    await page.close();
+  }
+}
+
+/**
+ * Assert that a protected page sends a signed-out user to the login page, and that
+ * logging in lands them back on it
+ */
+export async function expectDeepLinkRedirect(
+  page: Page,
+  deepLink: string,
+  role: UserRole = 'admin',
+): Promise<void> {
+  const { username, password } = Environment.getRoleCredentials(role);
+  const loginPage = new OrangeHRMLoginPage(page);
+  const target = new URL(deepLink, Environment.getConfig().baseUrl);
+
+  await page.goto(target.href);
+  await expect(page, `${target.pathname} should require a session`).toHaveURL(/auth\/login/);
+  await loginPage.waitForLoginPageLoad();
+
+  await loginPage.login(username, password);
+  await expect(page, `Logging in should land back on ${target.pathname}`).toHaveURL(
+    url => url.pathname === target.pathname && url.search === target.search,
+  );
+}
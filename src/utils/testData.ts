@@ -6,6 +6,9 @@
  * for comprehensive OrangeHRM testing.
  */
 
+import { Environment } from '@config/environment';
+import { RandomSeed } from './random';
+
 // ===== INTERFACES =====
 
 export interface LoginCredentials {
@@ -70,6 +73,12 @@ export interface LocationData {
   notes?: string;
 }
 
+export interface SecurityPayload {
+  category: 'xss' | 'sqli';
+  name: string;
+  value: string;
+}
+
 // ===== LOGIN CREDENTIALS =====
 
 /**
@@ -77,8 +86,13 @@ export interface LocationData {
  * These are the standard demo credentials provided by OrangeHRM
  */
 export const VALID_CREDENTIALS: LoginCredentials = {
-  username: 'Admin',
-  password: 'admin123',
+  // Read from the credential provider when used, so no password is kept here
+  get username(): string {
+    return Environment.getRoleCredentials('admin').username;
+  },
+  get password(): string {
+    return Environment.getRoleCredentials('admin').password;
+  },
   description: 'Valid admin credentials'
 };
 
@@ -160,6 +174,25 @@ export const SPECIAL_CHARACTER_SCENARIOS: LoginCredentials[] = [
   }
 ];
 
+/**
+ * Injection payloads for the security suite
+ * XSS payloads set window.__xss when they run, so execution can be detected
+ * without relying on an alert dialog
+ */
+// prettier-ignore
+export const SECURITY_PAYLOADS: SecurityPayload[] = [
+  { category: 'xss', name: 'Script tag', value: '<script>window.__xss=1</script>' },
+  { category: 'xss', name: 'Image onerror', value: '<img src=x onerror="window.__xss=1">' },
+  { category: 'xss', name: 'SVG onload', value: '<svg onload="window.__xss=1">' },
+  { category: 'xss', name: 'Attribute breakout', value: '"><img src=x onerror=window.__xss=1>' },
+  { category: 'xss', name: 'Vue template expression', value: '{{constructor.constructor(\'window.__xss=1\')()}}' },
+  { category: 'sqli', name: 'Always true', value: '\' OR \'1\'=\'1' },
+  { category: 'sqli', name: 'Always true with comment', value: '\' OR 1=1 -- ' },
+  { category: 'sqli', name: 'Comment out the password check', value: 'Admin\'--' },
+  { category: 'sqli', name: 'Union select', value: '\' UNION SELECT NULL, NULL, NULL -- ' },
+  { category: 'sqli', name: 'Stacked query', value: '\'; DROP TABLE ohrm_user; -- ' },
+];
+
 /**
  * Test users with expected results
  */
@@ -418,8 +451,7 @@ export function getInvalidCredentials(): LoginCredentials {
  * Get random invalid credentials
  */
 export function getRandomInvalidCredentials(): LoginCredentials {
-  const randomIndex = Math.floor(Math.random() * INVALID_CREDENTIALS.length);
-  return { ...INVALID_CREDENTIALS[randomIndex] };
+  return { ...RandomSeed.random.pick(INVALID_CREDENTIALS) };
 }
 
 /**
@@ -447,8 +479,7 @@ export function getBothFieldsEmptyScenario(): LoginCredentials {
  * Get random employee data
  */
 export function getRandomEmployeeData(): EmployeeData {
-  const randomIndex = Math.floor(Math.random() * SAMPLE_EMPLOYEES.length);
-  return { ...SAMPLE_EMPLOYEES[randomIndex] };
+  return { ...RandomSeed.random.pick(SAMPLE_EMPLOYEES) };
 }
 
 /**
@@ -462,8 +493,7 @@ export function getEmployeeById(employeeId: string): EmployeeData | undefined {
  * Get random leave data
  */
 export function getRandomLeaveData(): LeaveData {
-  const randomIndex = Math.floor(Math.random() * SAMPLE_LEAVE_REQUESTS.length);
-  return { ...SAMPLE_LEAVE_REQUESTS[randomIndex] };
+  return { ...RandomSeed.random.pick(SAMPLE_LEAVE_REQUESTS) };
 }
 
 /**
@@ -477,24 +507,21 @@ export function getLeaveDataByType(leaveType: string): LeaveData | undefined {
  * Get random job title data
  */
 export function getRandomJobTitle(): JobData {
-  const randomIndex = Math.floor(Math.random() * SAMPLE_JOB_TITLES.length);
-  return { ...SAMPLE_JOB_TITLES[randomIndex] };
+  return { ...RandomSeed.random.pick(SAMPLE_JOB_TITLES) };
 }
 
 /**
  * Get random department data
  */
 export function getRandomDepartment(): DepartmentData {
-  const randomIndex = Math.floor(Math.random() * SAMPLE_DEPARTMENTS.length);
-  return { ...SAMPLE_DEPARTMENTS[randomIndex] };
+  return { ...RandomSeed.random.pick(SAMPLE_DEPARTMENTS) };
 }
 
 /**
  * Get random location data
  */
 export function getRandomLocation(): LocationData {
-  const randomIndex = Math.floor(Math.random() * SAMPLE_LOCATIONS.length);
-  return { ...SAMPLE_LOCATIONS[randomIndex] };
+  return { ...RandomSeed.random.pick(SAMPLE_LOCATIONS) };
 }
 
 /**
@@ -553,12 +580,23 @@ export const TEST_CONSTANTS = {
   LEAVE_TYPES: ['Annual', 'Casual', 'Medical', 'Maternity', 'Personal'],
   MARITAL_STATUS: ['Single', 'Married', 'Divorced', 'Widowed'],
   GENDER: ['Male', 'Female'],
+
+  // Longest values the forms accept, counted in UTF-16 code units as the browser does
+  MAX_LENGTHS: {
+    NAME: 30,
+    EMPLOYEE_ID: 10,
+    LEAVE_COMMENT: 250,
+  },
   
   // Error messages
   ERROR_MESSAGES: {
     INVALID_CREDENTIALS: 'Invalid credentials',
     REQUIRED_FIELD: 'Required',
     INVALID_EMAIL: 'Expected format: admin@example.com',
-    INVALID_DATE: 'Should be a valid date in yyyy-mm-dd format'
+    INVALID_DATE: 'Should be a valid date in yyyy-mm-dd format',
+    TO_DATE_BEFORE_FROM_DATE: 'To date should be after from date',
+    NAME_TOO_LONG: 'Should not exceed 30 characters',
+    EMPLOYEE_ID_TOO_LONG: 'Should not exceed 10 characters',
+    LEAVE_COMMENT_TOO_LONG: 'Should not exceed 250 characters',
   }
 } as const;
\ No newline at end of file
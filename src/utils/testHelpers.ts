@@ -5,11 +5,14 @@
  * while maintaining test isolation and readability for OrangeHRM testing.
  */
 
-import { Page, expect } from '@playwright/test';
+import { Page, TestInfo, expect } from '@playwright/test';
 import { OrangeHRMLoginPage } from '@pages/LoginPage';
 import { OrangeHRMDashboardPage } from '@pages/DashboardPage';
 import type { LoginCredentials } from '@utils/testData';
-import { Environment } from '@config/environment';
+import { Environment, EnvironmentConfig } from '@config/environment';
+import { OxdToast } from '@components/OxdToast';
+import { Secrets } from '@utils/secrets';
+import { PerformanceMonitor } from '@utils/performance';
 
 /**
  * Common test steps that can be reused across different test files
@@ -376,9 +379,7 @@ export class TestTiming {
    */
   static async waitForToastMessage(page: Page, timeout: number = 10000): Promise<string | null> {
     try {
-      const toastSelector = '.oxd-toast-content--success, .oxd-toast-content--error, .oxd-toast-content--warn';
-      await page.waitForSelector(toastSelector, { timeout });
-      return await page.textContent(toastSelector);
+      return await OxdToast.on(page).waitForText(['success', 'error', 'warn'], timeout);
     } catch {
       return null;
     }
@@ -395,31 +396,36 @@ export class TestReporting {
    */
   static logStep(stepName: string, details?: string): void {
     const timestamp = new Date().toISOString();
-    console.log(`[${timestamp}] ${stepName}${details ? ': ' + details : ''}`);
+    console.log(Secrets.redactText(`[${timestamp}] ${stepName}${details ? ': ' + details : ''}`));
   }
 
   /**
-   * Log test data being used
+   * Log test data being used, with passwords masked
    */
   static logTestData(testName: string, data: any): void {
     console.log(`Test: ${testName}`);
-    console.log('Test Data:', JSON.stringify(data, null, 2));
+    console.log('Test Data:', JSON.stringify(Secrets.redact(data), null, 2));
+  }
+
+  /**
+   * Attach test data to the report as JSON, with passwords masked
+   */
+  static async attachTestData(testInfo: TestInfo, name: string, data: unknown): Promise<void> {
+    await testInfo.attach(name, {
+      body: JSON.stringify(Secrets.redact(data), null, 2),
+      contentType: 'application/json',
+    });
   }
 
   /**
    * Log performance metrics
+   *
+   * @deprecated Use the `performanceMonitor` fixture, which attaches the metrics to the
+   * report and checks them against the page's budget
    */
   static async logPerformanceMetrics(page: Page, testName: string): Promise<void> {
-    const metrics = await page.evaluate(() => {
-      const navigation = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming;
-      return {
-        loadTime: navigation.loadEventEnd - navigation.loadEventStart,
-        domContentLoaded: navigation.domContentLoadedEventEnd - navigation.domContentLoadedEventStart,
-        totalTime: navigation.loadEventEnd - navigation.fetchStart
-      };
-    });
-    
-    console.log(`Performance metrics for ${testName}:`, metrics);
+    const metrics = await PerformanceMonitor.collect(page);
+    console.log(`Performance metrics for ${testName}: ${PerformanceMonitor.describe(metrics)}`);
   }
 }
 
@@ -429,28 +435,11 @@ export class TestReporting {
 export class TestConfiguration {
   
   /**
-   * Create test configuration for different environments
+   * Get the configuration of an environment (the selected one by default); `prod` is
+   * short for `production`
    */
-  static getEnvironmentConfig(env: string = 'dev') {
-    const configs = {
-      dev: {
-        baseUrl: 'https://opensource-demo.orangehrmlive.com',
-        timeout: 30000,
-        retries: 1
-      },
-      staging: {
-        baseUrl: 'https://opensource-demo.orangehrmlive.com',
-        timeout: 45000,
-        retries: 2
-      },
-      prod: {
-        baseUrl: 'https://opensource-demo.orangehrmlive.com',
-        timeout: 60000,
-        retries: 3
-      }
-    };
-    
-    return configs[env as keyof typeof configs] || configs.dev;
+  static getEnvironmentConfig(env: string = Environment.getName()): EnvironmentConfig {
+    return Environment.loadConfig(env === 'prod' ? 'production' : env);
   }
 
   /**
@@ -474,10 +463,7 @@ export class TestConfiguration {
    */
   static getOrangeHRMConfig() {
     return {
-      defaultCredentials: {
-        username: 'Admin',
-        password: 'admin123'
-      },
+      defaultCredentials: Environment.getRoleCredentials('admin'),
       timeouts: {
         login: 15000,
         dashboard: 10000,